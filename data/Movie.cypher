@@ -0,0 +1,706 @@
+// Movie graph as a Neo4j CREATE dump
+CREATE (n0:Node {movie_id: 591, eccentricity: 2, closnesscentrality: 1.0666666666666667, betweenesscentrality: 718.3075416585473, degree: 70, componentnumber: 0, modularity_class: 0, size: 100, x: -221.9114, y: 232.51317, color: '#ffaa33', id: 3643509, label: 'JACK'})
+CREATE (n1:Node {movie_id: 591, eccentricity: 2, closnesscentrality: 1.1866666666666668, betweenesscentrality: 410.3829384839444, degree: 61, componentnumber: 0, modularity_class: 2, size: 58.846645, x: 342.72864, y: 109.53489, color: '#5fcabe', id: 3643670, label: 'DAVID'})
+CREATE (n2:Node {movie_id: 591, eccentricity: 2, closnesscentrality: 1.2666666666666666, betweenesscentrality: 240.03186204919945, degree: 55, componentnumber: 0, modularity_class: 0, size: 36.07965, x: -360.56973, y: -611.06146, color: '#ffaa33', id: 3643528, label: 'RACETRACK'})
+CREATE (n3:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.4266666666666667, betweenesscentrality: 162.16225830842703, degree: 44, componentnumber: 0, modularity_class: 4, size: 25.672583, x: -131.0036, y: -1182.527, color: '#a9d0fd', id: 3643599, label: 'KID BLINK'})
+CREATE (n4:Node {movie_id: 591, eccentricity: 2, closnesscentrality: 1.4666666666666666, betweenesscentrality: 121.3432997944608, degree: 40, componentnumber: 0, modularity_class: 0, size: 20.217228, x: -1111.9486, y: -84.281586, color: '#ffaa33', id: 3643518, label: 'CRUTCHY'})
+CREATE (n5:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.44, betweenesscentrality: 106.75896854263729, degree: 43, componentnumber: 0, modularity_class: 3, size: 18.26807, x: 135.14195, y: -437.71875, color: '#ffdc65', id: 3643723, label: 'BOOTS'})
+CREATE (n6:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.44, betweenesscentrality: 93.70914891781767, degree: 43, componentnumber: 0, modularity_class: 4, size: 16.523994, x: 285.34747, y: -891.74445, color: '#a9d0fd', id: 3643556, label: 'MUSH'})
+CREATE (n7:Node {movie_id: 591, eccentricity: 2, closnesscentrality: 1.7733333333333334, betweenesscentrality: 92.53197950999808, degree: 17, componentnumber: 0, modularity_class: 1, size: 16.366669, x: 1516.8329, y: 669.8444, color: '#ff6600', id: 3644376, label: 'SEITZ'})
+CREATE (n8:Node {movie_id: 591, eccentricity: 2, closnesscentrality: 1.6933333333333334, betweenesscentrality: 92.33885363003012, degree: 23, componentnumber: 0, modularity_class: 1, size: 16.340858, x: -586.6048, y: -135.30783, color: '#ff6600', id: 3644181, label: 'WEASEL'})
+CREATE (n9:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 84.20446195101766, degree: 16, componentnumber: 0, modularity_class: 1, size: 15.253715, x: 1532.291, y: 1114.8398, color: '#ff6600', id: 3644599, label: 'SNYDER'})
+CREATE (n10:Node {movie_id: 591, eccentricity: 2, closnesscentrality: 1.56, betweenesscentrality: 64.84100486716585, degree: 33, componentnumber: 0, modularity_class: 2, size: 12.665839, x: 580.77234, y: 660.33014, color: '#5fcabe', id: 3645769, label: 'DENTON'})
+CREATE (n11:Node {movie_id: 591, eccentricity: 2, closnesscentrality: 1.5466666666666666, betweenesscentrality: 63.09827476445124, degree: 34, componentnumber: 0, modularity_class: 4, size: 12.432925, x: 1080.3773, y: -692.9926, color: '#a9d0fd', id: 3645927, label: 'SPOT'})
+CREATE (n12:Node {movie_id: 591, eccentricity: 2, closnesscentrality: 1.5733333333333333, betweenesscentrality: 62.85142304376051, degree: 32, componentnumber: 0, modularity_class: 2, size: 12.399933, x: 22.790838, y: 900.67676, color: '#5fcabe', id: 3643674, label: 'LES'})
+CREATE (n13:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9066666666666667, betweenesscentrality: 50.165248515674215, degree: 8, componentnumber: 0, modularity_class: 1, size: 10.704458, x: 2051.7297, y: 1316.797, color: '#ff6600', id: 3644362, label: 'PULITZER'})
+CREATE (n14:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.6933333333333334, betweenesscentrality: 26.580530580530585, degree: 24, componentnumber: 0, modularity_class: 2, size: 7.55242, x: 551.6791, y: 1236.4789, color: '#5fcabe', id: 3644952, label: 'SARAH'})
+CREATE (n15:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.7733333333333334, betweenesscentrality: 15.902777777777777, degree: 21, componentnumber: 0, modularity_class: 3, size: 6.125366, x: -2231.0085, y: -976.81934, color: '#ffdc65', id: 3643976, label: 'NEWSIE GROUP #1'})
+CREATE (n16:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.7733333333333334, betweenesscentrality: 7.652103452103451, degree: 21, componentnumber: 0, modularity_class: 2, size: 5.0226836, x: -456.16843, y: 1896.1487, color: '#5fcabe', id: 3645588, label: 'AND OUR RANKS WILL GROW'})
+CREATE (n17:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.7733333333333334, betweenesscentrality: 7.652103452103451, degree: 21, componentnumber: 0, modularity_class: 2, size: 5.0226836, x: -62.75422, y: 1760.1747, color: '#5fcabe', id: 3645538, label: 'AND THE WORLD WILL KNOW'})
+CREATE (n18:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8533333333333333, betweenesscentrality: 5.937373737373735, degree: 15, componentnumber: 0, modularity_class: 3, size: 4.793515, x: -2066.952, y: 332.3873, color: '#ffdc65', id: 3644023, label: 'OSCAR'})
+CREATE (n19:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8, betweenesscentrality: 5.770707070707069, degree: 18, componentnumber: 0, modularity_class: 0, size: 4.77124, x: -1013.66125, y: -1146.8796, color: '#ffaa33', id: 3643618, label: 'SKITTERY'})
+CREATE (n20:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.7733333333333334, betweenesscentrality: 4.125, degree: 20, componentnumber: 0, modularity_class: 4, size: 4.551297, x: 1001.7661, y: -1449.5676, color: '#a9d0fd', id: 3644728, label: 'MEDDA'})
+CREATE (n21:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8266666666666667, betweenesscentrality: 4.103174603174604, degree: 17, componentnumber: 0, modularity_class: 2, size: 4.5483794, x: -1180.9263, y: 962.4064, color: '#5fcabe', id: 3643546, label: 'NEWSIE'})
+CREATE (n22:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8533333333333333, betweenesscentrality: 3.948412698412698, degree: 15, componentnumber: 0, modularity_class: 2, size: 4.5276947, x: 552.1947, y: 1815.041, color: '#5fcabe', id: 3648961, label: 'WE\'RE AT THE POINT OF NO'})
+CREATE (n23:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 3.437373737373737, degree: 17, componentnumber: 0, modularity_class: 0, size: 4.4593964, x: -1416.9126, y: -1218.1112, color: '#ffaa33', id: 3646087, label: 'PIE EATER'})
+CREATE (n24:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 3.437373737373737, degree: 17, componentnumber: 0, modularity_class: 0, size: 4.4593964, x: -901.65753, y: -1555.4579, color: '#ffaa33', id: 3646150, label: 'SEIZE THE DAY'})
+CREATE (n25:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8933333333333333, betweenesscentrality: 2.470326384142174, degree: 10, componentnumber: 0, modularity_class: 0, size: 4.3301544, x: -930.9294, y: 555.3268, color: '#ffaa33', id: 3643502, label: 'KLOPPMAN'})
+CREATE (n26:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 2.6266666666666665, betweenesscentrality: 2.220487845487846, degree: 5, componentnumber: 0, modularity_class: 1, size: 4.296762, x: 2813.465, y: 1708.8281, color: '#ff6600', id: 3647099, label: 'MAYOR'})
+CREATE (n27:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 1.7454545454545456, degree: 17, componentnumber: 0, modularity_class: 2, size: 4.2332764, x: -674.42413, y: 899.6969, color: '#5fcabe', id: 3643437, label: 'NEWSIES'})
+CREATE (n28:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9466666666666668, betweenesscentrality: 1.1952380952380954, degree: 9, componentnumber: 0, modularity_class: 3, size: 4.1597414, x: -2059.1667, y: -1239.3566, color: '#ffdc65', id: 3644055, label: 'JACK\'S GROUP NEWSIE GROUP'})
+CREATE (n29:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9333333333333333, betweenesscentrality: 1.0250000000000001, degree: 9, componentnumber: 0, modularity_class: 3, size: 4.136987, x: -1644.1371, y: -56.240963, color: '#ffdc65', id: 3644152, label: 'MORRIS'})
+CREATE (n30:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9866666666666666, betweenesscentrality: 0.9999999999999999, degree: 6, componentnumber: 0, modularity_class: 2, size: 4.133649, x: 268.1516, y: 1179.0327, color: '#5fcabe', id: 3644895, label: 'MAYER'})
+CREATE (n31:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9066666666666667, betweenesscentrality: 0.9305555555555554, degree: 12, componentnumber: 0, modularity_class: 3, size: 4.1243653, x: -2405.1787, y: -504.10397, color: '#ffdc65', id: 3643978, label: 'NEWSIE GROUP #2'})
+CREATE (n32:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9066666666666667, betweenesscentrality: 0.9305555555555554, degree: 12, componentnumber: 0, modularity_class: 3, size: 4.1243653, x: -2139.9517, y: -302.2046, color: '#ffdc65', id: 3643996, label: 'ON THE CORNER'})
+CREATE (n33:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9066666666666667, betweenesscentrality: 0.9305555555555554, degree: 12, componentnumber: 0, modularity_class: 3, size: 4.1243653, x: -2420.7866, y: -89.73014, color: '#ffdc65', id: 3643990, label: 'RECKONED'})
+CREATE (n34:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.96, betweenesscentrality: 0.27763157894736845, degree: 6, componentnumber: 0, modularity_class: 0, size: 4.037103, x: -1568.0388, y: 964.3537, color: '#ffaa33', id: 3643531, label: 'SNIPESHOOTER'})
+CREATE (n35:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 0, degree: 18, componentnumber: 0, modularity_class: 4, size: 4, x: 1322.6897, y: -2306.3005, color: '#a9d0fd', id: 3647373, label: 'AGAIN'})
+CREATE (n36:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.88, betweenesscentrality: 0, degree: 13, componentnumber: 0, modularity_class: 0, size: 4, x: -1348.6783, y: -1839.3783, color: '#ffaa33', id: 3646180, label: 'AND DON\'T DELAY'})
+CREATE (n37:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 0, degree: 18, componentnumber: 0, modularity_class: 4, size: 4, x: 1651.518, y: -1539.9359, color: '#a9d0fd', id: 3647371, label: 'AND I STICKS OUT MY CHEST'})
+CREATE (n38:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 0, degree: 18, componentnumber: 0, modularity_class: 4, size: 4, x: 1300.0336, y: -1881.0858, color: '#a9d0fd', id: 3647372, label: 'AND I\'M OFF TO THE RACES'})
+CREATE (n39:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.88, betweenesscentrality: 0, degree: 13, componentnumber: 0, modularity_class: 0, size: 4, x: -1711.0819, y: -1760.1643, color: '#ffaa33', id: 3646169, label: 'AND SEIZE THE DAY'})
+CREATE (n40:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 0, degree: 18, componentnumber: 0, modularity_class: 4, size: 4, x: 2122.967, y: -1990.8254, color: '#a9d0fd', id: 3647364, label: 'AND SOMETIMES THERE\'S'})
+CREATE (n41:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 2.0533333333333332, betweenesscentrality: 0, degree: 1, componentnumber: 0, modularity_class: 0, size: 4, x: 244.5095, y: 2070.6277, color: '#ffaa33', id: 3647257, label: 'AUDIENCE'})
+CREATE (n42:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9466666666666668, betweenesscentrality: 0, degree: 7, componentnumber: 0, modularity_class: 1, size: 4, x: 2185.4343, y: 557.34, color: '#ff6600', id: 3647703, label: 'BAILIFF'})
+CREATE (n43:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.84, betweenesscentrality: 0, degree: 13, componentnumber: 0, modularity_class: 1, size: 4, x: 1171.6136, y: 110.1042, color: '#ff6600', id: 3649728, label: 'BARBER'})
+CREATE (n44:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.92, betweenesscentrality: 0, degree: 11, componentnumber: 0, modularity_class: 2, size: 4, x: 476.14264, y: 2415.7502, color: '#5fcabe', id: 3648935, label: 'BUT'})
+CREATE (n45:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 0, degree: 18, componentnumber: 0, modularity_class: 4, size: 4, x: 1874.0077, y: -2398.449, color: '#a9d0fd', id: 3647366, label: 'BUT I ALWAYS LANDS ON MY'})
+CREATE (n46:Node {movie_id: 591, eccentricity: 4, closnesscentrality: 2.7333333333333334, betweenesscentrality: 0, degree: 3, componentnumber: 0, modularity_class: 1, size: 4, x: 3141.2559, y: 1827.6053, color: '#ff6600', id: 3647105, label: 'CHIEF'})
+CREATE (n47:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9733333333333334, betweenesscentrality: 0, degree: 6, componentnumber: 0, modularity_class: 0, size: 4, x: -1488.6351, y: -779.81116, color: '#ffaa33', id: 3643621, label: 'CHORUS'})
+CREATE (n48:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9333333333333333, betweenesscentrality: 0, degree: 9, componentnumber: 0, modularity_class: 0, size: 4, x: -1447.6918, y: 155.55225, color: '#ffaa33', id: 3646575, label: 'COP'})
+CREATE (n49:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.92, betweenesscentrality: 0, degree: 11, componentnumber: 0, modularity_class: 2, size: 4, x: 178.6674, y: 2669.271, color: '#5fcabe', id: 3649005, label: 'DENTON/JACK'})
+CREATE (n50:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.88, betweenesscentrality: 0, degree: 13, componentnumber: 0, modularity_class: 0, size: 4, x: -1625.3625, y: -2114.611, color: '#ffaa33', id: 3646179, label: 'DON\'T BE AFRAID'})
+CREATE (n51:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 2, betweenesscentrality: 0, degree: 5, componentnumber: 0, modularity_class: 2, size: 4, x: 222.79382, y: 1419.87, color: '#5fcabe', id: 3644886, label: 'ESTHER'})
+CREATE (n52:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 2.026666666666667, betweenesscentrality: 0, degree: 3, componentnumber: 0, modularity_class: 2, size: 4, x: 1160.4124, y: 1408.7817, color: '#5fcabe', id: 3645053, label: 'FAMILY'})
+CREATE (n53:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 0, degree: 18, componentnumber: 0, modularity_class: 4, size: 4, x: 677.882, y: -2486.2917, color: '#a9d0fd', id: 3647367, label: 'FEET'})
+CREATE (n54:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 0, degree: 18, componentnumber: 0, modularity_class: 4, size: 4, x: 1697.5764, y: -2001.0029, color: '#a9d0fd', id: 3647361, label: 'HIGH TIMES, HARD TIMES'})
+CREATE (n55:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.92, betweenesscentrality: 0, degree: 11, componentnumber: 0, modularity_class: 2, size: 4, x: 920.31995, y: 2375.916, color: '#5fcabe', id: 3649016, label: 'JACK/DENTON DAVID/SARAH'})
+CREATE (n56:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 2.72, betweenesscentrality: 0, degree: 3, componentnumber: 0, modularity_class: 1, size: 4, x: 2847.6309, y: 2013.6146, color: '#ff6600', id: 3645202, label: 'JONATHAN'})
+CREATE (n57:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9466666666666668, betweenesscentrality: 0, degree: 7, componentnumber: 0, modularity_class: 1, size: 4, x: 2152.9133, y: 142.49535, color: '#ff6600', id: 3647734, label: 'JUDGE'})
+CREATE (n58:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 2.04, betweenesscentrality: 0, degree: 2, componentnumber: 0, modularity_class: 0, size: 4, x: 1067.4744, y: 1618.3376, color: '#ffaa33', id: 3644864, label: 'MOB'})
+CREATE (n59:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9466666666666668, betweenesscentrality: 0, degree: 7, componentnumber: 0, modularity_class: 1, size: 4, x: 1929.7051, y: 363.36078, color: '#ff6600', id: 3647712, label: 'MONAHAN'})
+CREATE (n60:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 0, degree: 18, componentnumber: 0, modularity_class: 4, size: 4, x: 1523.164, y: -2679.7327, color: '#a9d0fd', id: 3647365, label: 'NOTHIN\' TO EAT'})
+CREATE (n61:Node {movie_id: 591, eccentricity: 4, closnesscentrality: 2.4133333333333336, betweenesscentrality: 0, degree: 1, componentnumber: 0, modularity_class: 4, size: 4, x: -1916.9465, y: -1601.3843, color: '#a9d0fd', id: 3643690, label: 'OFFICER'})
+CREATE (n62:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.88, betweenesscentrality: 0, degree: 13, componentnumber: 0, modularity_class: 0, size: 4, x: -1191.7025, y: -2156.4014, color: '#ffaa33', id: 3646168, label: 'OPEN THE GATES'})
+CREATE (n63:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8533333333333333, betweenesscentrality: 0, degree: 15, componentnumber: 0, modularity_class: 2, size: 4, x: -1285.4008, y: 1411.6669, color: '#5fcabe', id: 3645510, label: 'PULITZER AND HEARST'})
+CREATE (n64:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 2.04, betweenesscentrality: 0, degree: 2, componentnumber: 0, modularity_class: 0, size: 4, x: -1189.9056, y: -460.02084, color: '#ffaa33', id: 3645122, label: 'SANTA FE'})
+CREATE (n65:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9333333333333333, betweenesscentrality: 0, degree: 10, componentnumber: 0, modularity_class: 3, size: 4, x: -2843.2742, y: -107.81573, color: '#ffdc65', id: 3643985, label: 'SECOND'})
+CREATE (n66:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 0, degree: 18, componentnumber: 0, modularity_class: 4, size: 4, x: 2071.1519, y: -1523.4435, color: '#a9d0fd', id: 3647368, label: 'SO WHEN THERE\'S DRY TIMES'})
+CREATE (n67:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 0, degree: 18, componentnumber: 0, modularity_class: 4, size: 4, x: 904.1245, y: -2126.3767, color: '#a9d0fd', id: 3647362, label: 'SOMETIMES THE LIVIN\' IS'})
+CREATE (n68:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.92, betweenesscentrality: 0, degree: 11, componentnumber: 0, modularity_class: 2, size: 4, x: 666.65326, y: 2714.7185, color: '#5fcabe', id: 3648922, label: 'SORRY'})
+CREATE (n69:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.9333333333333333, betweenesscentrality: 0, degree: 10, componentnumber: 0, modularity_class: 3, size: 4, x: -2834.8347, y: -537.4843, color: '#ffdc65', id: 3643952, label: 'STATION'})
+CREATE (n70:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8133333333333332, betweenesscentrality: 0, degree: 18, componentnumber: 0, modularity_class: 4, size: 4, x: 1060.8212, y: -2704.4858, color: '#a9d0fd', id: 3647363, label: 'SWEET'})
+CREATE (n71:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 2.026666666666667, betweenesscentrality: 0, degree: 3, componentnumber: 0, modularity_class: 0, size: 4, x: -611.3664, y: -1329.784, color: '#ffaa33', id: 3646319, label: 'TENPIN'})
+CREATE (n72:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 2.68, betweenesscentrality: 0, degree: 1, componentnumber: 0, modularity_class: 1, size: 4, x: -717.09, y: 2352.302, color: '#ff6600', id: 3646518, label: 'THUG #1'})
+CREATE (n73:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8533333333333333, betweenesscentrality: 0, degree: 15, componentnumber: 0, modularity_class: 2, size: 4, x: -923.1455, y: 1561.9191, color: '#5fcabe', id: 3645554, label: 'WHAT\'S IT GONNA TAKE'})
+CREATE (n74:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 1.8533333333333333, betweenesscentrality: 0, degree: 15, componentnumber: 0, modularity_class: 2, size: 4, x: -555.27435, y: 1254.8274, color: '#5fcabe', id: 3645601, label: 'WHEN THE CIRCULATION BELL'})
+CREATE (n75:Node {movie_id: 591, eccentricity: 3, closnesscentrality: 2.026666666666667, betweenesscentrality: 0, degree: 3, componentnumber: 0, modularity_class: 2, size: 4, x: -31.65106, y: 2140.4207, color: '#5fcabe', id: 3644479, label: 'WOMAN'})
+CREATE (n35)-[:LINKED_TO {movie_id: 591, id: 6594, label: 128971}]->(n5)
+CREATE (n35)-[:LINKED_TO {movie_id: 591, id: 6595, label: 128969}]->(n3)
+CREATE (n35)-[:LINKED_TO {movie_id: 591, id: 6596, label: 128968}]->(n6)
+CREATE (n37)-[:LINKED_TO {movie_id: 591, id: 6597, label: 128958}]->(n35)
+CREATE (n37)-[:LINKED_TO {movie_id: 591, id: 6598, label: 128957}]->(n38)
+CREATE (n37)-[:LINKED_TO {movie_id: 591, id: 6599, label: 128962}]->(n5)
+CREATE (n37)-[:LINKED_TO {movie_id: 591, id: 6600, label: 128960}]->(n3)
+CREATE (n37)-[:LINKED_TO {movie_id: 591, id: 6601, label: 128959}]->(n6)
+CREATE (n38)-[:LINKED_TO {movie_id: 591, id: 6602, label: 128963}]->(n35)
+CREATE (n38)-[:LINKED_TO {movie_id: 591, id: 6603, label: 128967}]->(n5)
+CREATE (n38)-[:LINKED_TO {movie_id: 591, id: 6604, label: 128965}]->(n3)
+CREATE (n38)-[:LINKED_TO {movie_id: 591, id: 6605, label: 128964}]->(n6)
+CREATE (n16)-[:LINKED_TO {movie_id: 591, id: 6606, label: 128556}]->(n74)
+CREATE (n39)-[:LINKED_TO {movie_id: 591, id: 6607, label: 128672, weight: 2}]->(n36)
+CREATE (n39)-[:LINKED_TO {movie_id: 591, id: 6608, label: 128671, weight: 2}]->(n50)
+CREATE (n40)-[:LINKED_TO {movie_id: 591, id: 6609, label: 128918}]->(n35)
+CREATE (n40)-[:LINKED_TO {movie_id: 591, id: 6610, label: 128916}]->(n37)
+CREATE (n40)-[:LINKED_TO {movie_id: 591, id: 6611, label: 128917}]->(n38)
+CREATE (n40)-[:LINKED_TO {movie_id: 591, id: 6612, label: 128922}]->(n5)
+CREATE (n40)-[:LINKED_TO {movie_id: 591, id: 6613, label: 128913}]->(n45)
+CREATE (n40)-[:LINKED_TO {movie_id: 591, id: 6614, label: 128914}]->(n53)
+CREATE (n40)-[:LINKED_TO {movie_id: 591, id: 6615, label: 128920}]->(n3)
+CREATE (n40)-[:LINKED_TO {movie_id: 591, id: 6616, label: 128919}]->(n6)
+CREATE (n40)-[:LINKED_TO {movie_id: 591, id: 6617, label: 128912}]->(n60)
+CREATE (n40)-[:LINKED_TO {movie_id: 591, id: 6618, label: 128915}]->(n66)
+CREATE (n17)-[:LINKED_TO {movie_id: 591, id: 6619, label: 128546, weight: 2}]->(n16)
+CREATE (n17)-[:LINKED_TO {movie_id: 591, id: 6620, label: 128544}]->(n73)
+CREATE (n17)-[:LINKED_TO {movie_id: 591, id: 6621, label: 128547}]->(n74)
+CREATE (n42)-[:LINKED_TO {movie_id: 591, id: 6622, label: 128997}]->(n10)
+CREATE (n42)-[:LINKED_TO {movie_id: 591, id: 6623, label: 129000}]->(n0)
+CREATE (n42)-[:LINKED_TO {movie_id: 591, id: 6624, label: 128998}]->(n57)
+CREATE (n42)-[:LINKED_TO {movie_id: 591, id: 6625, label: 128994}]->(n59)
+CREATE (n42)-[:LINKED_TO {movie_id: 591, id: 6626, label: 128996}]->(n2)
+CREATE (n42)-[:LINKED_TO {movie_id: 591, id: 6627, label: 129001}]->(n9)
+CREATE (n42)-[:LINKED_TO {movie_id: 591, id: 6628, label: 128995}]->(n11)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6629, label: 128451}]->(n16)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6630, label: 128448}]->(n17)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6631, label: 129374}]->(n43)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6632, label: 129256}]->(n25)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6633, label: 128989}]->(n20)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6634, label: 128446}]->(n21)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6635, label: 128286}]->(n18)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6636, label: 128445}]->(n63)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6637, label: 129036, weight: 8}]->(n2)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6638, label: 129372}]->(n14)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6639, label: 129039, weight: 2}]->(n11)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6640, label: 129258}]->(n22)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6641, label: 129093, weight: 2}]->(n8)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6642, label: 128449}]->(n73)
+CREATE (n5)-[:LINKED_TO {movie_id: 591, id: 6643, label: 128452}]->(n74)
+CREATE (n44)-[:LINKED_TO {movie_id: 591, id: 6644, label: 129199}]->(n16)
+CREATE (n44)-[:LINKED_TO {movie_id: 591, id: 6645, label: 129198}]->(n17)
+CREATE (n44)-[:LINKED_TO {movie_id: 591, id: 6646, label: 129194}]->(n10)
+CREATE (n44)-[:LINKED_TO {movie_id: 591, id: 6647, label: 129195}]->(n49)
+CREATE (n44)-[:LINKED_TO {movie_id: 591, id: 6648, label: 129196}]->(n55)
+CREATE (n44)-[:LINKED_TO {movie_id: 591, id: 6649, label: 129193}]->(n12)
+CREATE (n44)-[:LINKED_TO {movie_id: 591, id: 6650, label: 129192}]->(n22)
+CREATE (n45)-[:LINKED_TO {movie_id: 591, id: 6651, label: 128937}]->(n35)
+CREATE (n45)-[:LINKED_TO {movie_id: 591, id: 6652, label: 128935}]->(n37)
+CREATE (n45)-[:LINKED_TO {movie_id: 591, id: 6653, label: 128936}]->(n38)
+CREATE (n45)-[:LINKED_TO {movie_id: 591, id: 6654, label: 128941}]->(n5)
+CREATE (n45)-[:LINKED_TO {movie_id: 591, id: 6655, label: 128933}]->(n53)
+CREATE (n45)-[:LINKED_TO {movie_id: 591, id: 6656, label: 128939}]->(n3)
+CREATE (n45)-[:LINKED_TO {movie_id: 591, id: 6657, label: 128938}]->(n6)
+CREATE (n45)-[:LINKED_TO {movie_id: 591, id: 6658, label: 128934}]->(n66)
+CREATE (n46)-[:LINKED_TO {movie_id: 591, id: 6659, label: 128778}]->(n13)
+CREATE (n46)-[:LINKED_TO {movie_id: 591, id: 6660, label: 128779}]->(n9)
+CREATE (n48)-[:LINKED_TO {movie_id: 591, id: 6661, label: 128726}]->(n23)
+CREATE (n48)-[:LINKED_TO {movie_id: 591, id: 6662, label: 128723}]->(n2)
+CREATE (n48)-[:LINKED_TO {movie_id: 591, id: 6663, label: 128725}]->(n24)
+CREATE (n48)-[:LINKED_TO {movie_id: 591, id: 6664, label: 128722}]->(n19)
+CREATE (n48)-[:LINKED_TO {movie_id: 591, id: 6665, label: 128721}]->(n11)
+CREATE (n48)-[:LINKED_TO {movie_id: 591, id: 6666, label: 128720}]->(n8)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6667, label: 128645}]->(n36)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6668, label: 128465}]->(n16)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6669, label: 128643}]->(n39)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6670, label: 128462}]->(n17)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6671, label: 129352}]->(n43)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6672, label: 129348, weight: 3}]->(n5)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6673, label: 128196}]->(n47)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6674, label: 128458, weight: 3}]->(n1)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6675, label: 128644}]->(n50)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6676, label: 128289, weight: 9}]->(n0)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6677, label: 128457, weight: 2}]->(n12)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6678, label: 128454, weight: 3}]->(n6)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6679, label: 128175, weight: 2}]->(n21)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6680, label: 128641}]->(n15)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6681, label: 128461}]->(n27)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6682, label: 128642}]->(n62)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6683, label: 128288}]->(n18)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6684, label: 128459}]->(n63)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6685, label: 129350}]->(n14)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6686, label: 128640}]->(n24)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6687, label: 128173}]->(n34)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6688, label: 128763}]->(n9)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6689, label: 129349}]->(n11)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6690, label: 128463}]->(n73)
+CREATE (n4)-[:LINKED_TO {movie_id: 591, id: 6691, label: 128466}]->(n74)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6692, label: 128853}]->(n35)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6693, label: 128652}]->(n36)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6694, label: 128851}]->(n37)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6695, label: 128852}]->(n38)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6696, label: 128520, weight: 2}]->(n16)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6697, label: 128650}]->(n39)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6698, label: 128846}]->(n40)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6699, label: 128517, weight: 2}]->(n17)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6700, label: 129380}]->(n43)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6701, label: 128565, weight: 5}]->(n5)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6702, label: 129149}]->(n44)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6703, label: 128848}]->(n45)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6704, label: 128695}]->(n48)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6705, label: 129153}]->(n49)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6706, label: 128651}]->(n50)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6707, label: 129122, weight: 2}]->(n51)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6708, label: 128381}]->(n52)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6709, label: 128849}]->(n53)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6710, label: 128843}]->(n54)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6711, label: 129154}]->(n55)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6712, label: 128855, weight: 4}]->(n3)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6713, label: 129247}]->(n25)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6714, label: 128356}]->(n58)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6715, label: 128854, weight: 5}]->(n6)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6716, label: 128515}]->(n21)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6717, label: 128648}]->(n15)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6718, label: 128847}]->(n60)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6719, label: 128649}]->(n62)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6720, label: 128702}]->(n23)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6721, label: 128514}]->(n63)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6722, label: 128699, weight: 8}]->(n2)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6723, label: 129124, weight: 3}]->(n14)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6724, label: 128647, weight: 2}]->(n24)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6725, label: 128698}]->(n19)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6726, label: 129053, weight: 2}]->(n9)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6727, label: 128850}]->(n66)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6728, label: 128844}]->(n67)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6729, label: 129147}]->(n68)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6730, label: 128697, weight: 4}]->(n11)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6731, label: 128845}]->(n70)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6732, label: 129150, weight: 2}]->(n22)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6733, label: 128696, weight: 3}]->(n8)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6734, label: 128518}]->(n73)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6735, label: 128521}]->(n74)
+CREATE (n1)-[:LINKED_TO {movie_id: 591, id: 6736, label: 128332}]->(n75)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6737, label: 129220}]->(n16)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6738, label: 129219}]->(n17)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6739, label: 129344}]->(n43)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6740, label: 129340, weight: 3}]->(n5)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6741, label: 128712}]->(n48)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6742, label: 129336}]->(n4)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6743, label: 128564, weight: 5}]->(n1)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6744, label: 129216}]->(n49)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6745, label: 129022, weight: 7}]->(n0)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6746, label: 129217}]->(n55)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6747, label: 129020}]->(n57)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6748, label: 129338, weight: 2}]->(n3)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6749, label: 129138, weight: 4}]->(n12)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6750, label: 129339, weight: 3}]->(n6)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6751, label: 128719}]->(n23)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6752, label: 128716, weight: 4}]->(n2)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6753, label: 128718}]->(n24)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6754, label: 128715}]->(n19)
+CREATE (n10)-[:LINKED_TO {movie_id: 591, id: 6755, label: 129023}]->(n9)
+CREATE (n49)-[:LINKED_TO {movie_id: 591, id: 6756, label: 129225}]->(n16)
+CREATE (n49)-[:LINKED_TO {movie_id: 591, id: 6757, label: 129224}]->(n17)
+CREATE (n49)-[:LINKED_TO {movie_id: 591, id: 6758, label: 129222}]->(n55)
+CREATE (n50)-[:LINKED_TO {movie_id: 591, id: 6759, label: 128673, weight: 2}]->(n36)
+CREATE (n51)-[:LINKED_TO {movie_id: 591, id: 6760, label: 129097, weight: 2}]->(n14)
+CREATE (n53)-[:LINKED_TO {movie_id: 591, id: 6761, label: 128945}]->(n35)
+CREATE (n53)-[:LINKED_TO {movie_id: 591, id: 6762, label: 128943}]->(n37)
+CREATE (n53)-[:LINKED_TO {movie_id: 591, id: 6763, label: 128944}]->(n38)
+CREATE (n53)-[:LINKED_TO {movie_id: 591, id: 6764, label: 128949}]->(n5)
+CREATE (n53)-[:LINKED_TO {movie_id: 591, id: 6765, label: 128947}]->(n3)
+CREATE (n53)-[:LINKED_TO {movie_id: 591, id: 6766, label: 128946}]->(n6)
+CREATE (n53)-[:LINKED_TO {movie_id: 591, id: 6767, label: 128942}]->(n66)
+CREATE (n54)-[:LINKED_TO {movie_id: 591, id: 6768, label: 128882}]->(n35)
+CREATE (n54)-[:LINKED_TO {movie_id: 591, id: 6769, label: 128880}]->(n37)
+CREATE (n54)-[:LINKED_TO {movie_id: 591, id: 6770, label: 128881}]->(n38)
+CREATE (n54)-[:LINKED_TO {movie_id: 591, id: 6771, label: 128875}]->(n40)
+CREATE (n54)-[:LINKED_TO {movie_id: 591, id: 6772, label: 128886}]->(n5)
+CREATE (n54)-[:LINKED_TO {movie_id: 591, id: 6773, label: 128877}]->(n45)
+CREATE (n54)-[:LINKED_TO {movie_id: 591, id: 6774, label: 128878}]->(n53)
+CREATE (n54)-[:LINKED_TO {movie_id: 591, id: 6775, label: 128884}]->(n3)
+CREATE (n54)-[:LINKED_TO {movie_id: 591, id: 6776, label: 128883}]->(n6)
+CREATE (n54)-[:LINKED_TO {movie_id: 591, id: 6777, label: 128876}]->(n60)
+CREATE (n54)-[:LINKED_TO {movie_id: 591, id: 6778, label: 128879}]->(n66)
+CREATE (n54)-[:LINKED_TO {movie_id: 591, id: 6779, label: 128873}]->(n67)
+CREATE (n54)-[:LINKED_TO {movie_id: 591, id: 6780, label: 128874}]->(n70)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6781, label: 128802}]->(n35)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6782, label: 128595}]->(n36)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6783, label: 128800}]->(n37)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6784, label: 128801}]->(n38)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6785, label: 128490, weight: 2}]->(n16)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6786, label: 128593}]->(n39)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6787, label: 128795}]->(n40)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6788, label: 128487, weight: 2}]->(n17)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6789, label: 128787}]->(n41)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6790, label: 129335}]->(n43)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6791, label: 128806, weight: 6}]->(n5)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6792, label: 129161}]->(n44)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6793, label: 128797}]->(n45)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6794, label: 128192}]->(n47)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6795, label: 128704}]->(n48)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6796, label: 128319, weight: 18}]->(n1)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6797, label: 129165}]->(n49)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6798, label: 128594}]->(n50)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6799, label: 128364, weight: 2}]->(n51)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6800, label: 128379}]->(n52)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6801, label: 128798}]->(n53)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6802, label: 128792}]->(n54)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6803, label: 129166}]->(n55)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6804, label: 129259, weight: 2}]->(n25)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6805, label: 128329, weight: 12}]->(n12)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6806, label: 128362, weight: 3}]->(n30)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6807, label: 128211, weight: 5}]->(n6)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6808, label: 128171, weight: 2}]->(n21)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6809, label: 128591, weight: 2}]->(n15)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6810, label: 128486, weight: 2}]->(n27)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6811, label: 128796}]->(n60)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6812, label: 128592}]->(n62)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6813, label: 128586, weight: 2}]->(n23)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6814, label: 128484}]->(n63)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6815, label: 128383, weight: 2}]->(n64)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6816, label: 128590, weight: 2}]->(n24)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6817, label: 128169}]->(n34)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6818, label: 129029, weight: 2}]->(n9)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6819, label: 128799}]->(n66)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6820, label: 128793}]->(n67)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6821, label: 129159}]->(n68)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6822, label: 128706, weight: 3}]->(n11)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6823, label: 128794}]->(n70)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6824, label: 129162, weight: 2}]->(n22)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6825, label: 128488}]->(n73)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6826, label: 128491, weight: 2}]->(n74)
+CREATE (n0)-[:LINKED_TO {movie_id: 591, id: 6827, label: 128330}]->(n75)
+CREATE (n28)-[:LINKED_TO {movie_id: 591, id: 6828, label: 128314}]->(n5)
+CREATE (n28)-[:LINKED_TO {movie_id: 591, id: 6829, label: 128295}]->(n1)
+CREATE (n28)-[:LINKED_TO {movie_id: 591, id: 6830, label: 128296}]->(n0)
+CREATE (n28)-[:LINKED_TO {movie_id: 591, id: 6831, label: 128313}]->(n29)
+CREATE (n28)-[:LINKED_TO {movie_id: 591, id: 6832, label: 128312}]->(n6)
+CREATE (n28)-[:LINKED_TO {movie_id: 591, id: 6833, label: 128291}]->(n15)
+CREATE (n28)-[:LINKED_TO {movie_id: 591, id: 6834, label: 128292}]->(n31)
+CREATE (n28)-[:LINKED_TO {movie_id: 591, id: 6835, label: 128294}]->(n32)
+CREATE (n28)-[:LINKED_TO {movie_id: 591, id: 6836, label: 128293}]->(n33)
+CREATE (n55)-[:LINKED_TO {movie_id: 591, id: 6837, label: 129229}]->(n16)
+CREATE (n55)-[:LINKED_TO {movie_id: 591, id: 6838, label: 129228}]->(n17)
+CREATE (n57)-[:LINKED_TO {movie_id: 591, id: 6839, label: 129025}]->(n0)
+CREATE (n57)-[:LINKED_TO {movie_id: 591, id: 6840, label: 129026}]->(n9)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6841, label: 128607}]->(n36)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6842, label: 128420}]->(n16)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6843, label: 128605}]->(n39)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6844, label: 128417}]->(n17)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6845, label: 129365}]->(n43)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6846, label: 128407, weight: 6}]->(n5)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6847, label: 128201}]->(n47)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6848, label: 128213, weight: 4}]->(n4)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6849, label: 128606}]->(n50)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6850, label: 128212, weight: 4}]->(n0)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6851, label: 129252}]->(n25)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6852, label: 128219, weight: 7}]->(n6)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6853, label: 128415}]->(n21)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6854, label: 128603}]->(n15)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6855, label: 128205}]->(n61)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6856, label: 128604}]->(n62)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6857, label: 128598}]->(n23)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6858, label: 128414}]->(n63)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6859, label: 128395, weight: 6}]->(n2)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6860, label: 129363}]->(n14)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6861, label: 128602}]->(n24)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6862, label: 128200, weight: 3}]->(n19)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6863, label: 129034, weight: 2}]->(n11)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6864, label: 129254}]->(n22)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6865, label: 128418}]->(n73)
+CREATE (n3)-[:LINKED_TO {movie_id: 591, id: 6866, label: 128421}]->(n74)
+CREATE (n25)-[:LINKED_TO {movie_id: 591, id: 6867, label: 128162}]->(n4)
+CREATE (n25)-[:LINKED_TO {movie_id: 591, id: 6868, label: 128166}]->(n21)
+CREATE (n25)-[:LINKED_TO {movie_id: 591, id: 6869, label: 128164, weight: 2}]->(n34)
+CREATE (n25)-[:LINKED_TO {movie_id: 591, id: 6870, label: 128767}]->(n9)
+CREATE (n25)-[:LINKED_TO {movie_id: 591, id: 6871, label: 129263}]->(n22)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6872, label: 128511, weight: 2}]->(n16)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6873, label: 128508, weight: 2}]->(n17)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6874, label: 129302}]->(n43)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6875, label: 129298, weight: 2}]->(n5)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6876, label: 128504, weight: 12}]->(n1)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6877, label: 129210}]->(n49)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6878, label: 129129, weight: 2}]->(n51)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6879, label: 129211}]->(n55)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6880, label: 129296, weight: 2}]->(n3)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6881, label: 129130, weight: 2}]->(n30)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6882, label: 128352}]->(n20)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6883, label: 129111}]->(n29)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6884, label: 129297, weight: 3}]->(n6)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6885, label: 128506}]->(n21)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6886, label: 129110}]->(n18)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6887, label: 128505}]->(n63)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6888, label: 129295, weight: 2}]->(n2)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6889, label: 129131, weight: 5}]->(n14)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6890, label: 129291}]->(n7)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6891, label: 129299}]->(n11)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6892, label: 129290}]->(n8)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6893, label: 128509}]->(n73)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6894, label: 128512, weight: 2}]->(n74)
+CREATE (n12)-[:LINKED_TO {movie_id: 591, id: 6895, label: 128333}]->(n75)
+CREATE (n30)-[:LINKED_TO {movie_id: 591, id: 6896, label: 128369, weight: 3}]->(n1)
+CREATE (n30)-[:LINKED_TO {movie_id: 591, id: 6897, label: 128368, weight: 3}]->(n51)
+CREATE (n30)-[:LINKED_TO {movie_id: 591, id: 6898, label: 128382}]->(n52)
+CREATE (n30)-[:LINKED_TO {movie_id: 591, id: 6899, label: 128367, weight: 3}]->(n14)
+CREATE (n26)-[:LINKED_TO {movie_id: 591, id: 6900, label: 128775}]->(n46)
+CREATE (n26)-[:LINKED_TO {movie_id: 591, id: 6901, label: 129282}]->(n56)
+CREATE (n26)-[:LINKED_TO {movie_id: 591, id: 6902, label: 128776, weight: 2}]->(n13)
+CREATE (n26)-[:LINKED_TO {movie_id: 591, id: 6903, label: 129281}]->(n7)
+CREATE (n26)-[:LINKED_TO {movie_id: 591, id: 6904, label: 128777}]->(n9)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6905, label: 128868}]->(n35)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6906, label: 128866}]->(n37)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6907, label: 128867}]->(n38)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6908, label: 128861}]->(n40)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6909, label: 128863}]->(n45)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6910, label: 128765, weight: 2}]->(n1)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6911, label: 128864}]->(n53)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6912, label: 128858}]->(n54)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6913, label: 128764, weight: 3}]->(n0)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6914, label: 128870}]->(n3)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6915, label: 128869}]->(n6)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6916, label: 128862}]->(n60)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6917, label: 128865}]->(n66)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6918, label: 128859}]->(n67)
+CREATE (n20)-[:LINKED_TO {movie_id: 591, id: 6919, label: 128860}]->(n70)
+CREATE (n58)-[:LINKED_TO {movie_id: 591, id: 6920, label: 128358}]->(n0)
+CREATE (n59)-[:LINKED_TO {movie_id: 591, id: 6921, label: 129004}]->(n10)
+CREATE (n59)-[:LINKED_TO {movie_id: 591, id: 6922, label: 129007}]->(n0)
+CREATE (n59)-[:LINKED_TO {movie_id: 591, id: 6923, label: 129005}]->(n57)
+CREATE (n59)-[:LINKED_TO {movie_id: 591, id: 6924, label: 129003}]->(n2)
+CREATE (n59)-[:LINKED_TO {movie_id: 591, id: 6925, label: 129008}]->(n9)
+CREATE (n59)-[:LINKED_TO {movie_id: 591, id: 6926, label: 129002}]->(n11)
+CREATE (n29)-[:LINKED_TO {movie_id: 591, id: 6927, label: 128317}]->(n5)
+CREATE (n29)-[:LINKED_TO {movie_id: 591, id: 6928, label: 129117}]->(n1)
+CREATE (n29)-[:LINKED_TO {movie_id: 591, id: 6929, label: 129118}]->(n0)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6930, label: 128618}]->(n36)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6931, label: 128478}]->(n16)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6932, label: 128616}]->(n39)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6933, label: 128475}]->(n17)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6934, label: 129370}]->(n43)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6935, label: 128316, weight: 4}]->(n5)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6936, label: 128187}]->(n47)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6937, label: 128617}]->(n50)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6938, label: 128315}]->(n29)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6939, label: 128473}]->(n21)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6940, label: 128614}]->(n15)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6941, label: 128615}]->(n62)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6942, label: 128609}]->(n23)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6943, label: 128472}]->(n63)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6944, label: 129368}]->(n14)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6945, label: 128613}]->(n24)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6946, label: 129048, weight: 3}]->(n11)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6947, label: 128476}]->(n73)
+CREATE (n6)-[:LINKED_TO {movie_id: 591, id: 6948, label: 128479, weight: 2}]->(n74)
+CREATE (n21)-[:LINKED_TO {movie_id: 591, id: 6949, label: 128535}]->(n16)
+CREATE (n21)-[:LINKED_TO {movie_id: 591, id: 6950, label: 128532}]->(n17)
+CREATE (n21)-[:LINKED_TO {movie_id: 591, id: 6951, label: 128537}]->(n10)
+CREATE (n21)-[:LINKED_TO {movie_id: 591, id: 6952, label: 128531}]->(n27)
+CREATE (n21)-[:LINKED_TO {movie_id: 591, id: 6953, label: 128533}]->(n73)
+CREATE (n21)-[:LINKED_TO {movie_id: 591, id: 6954, label: 128536}]->(n74)
+CREATE (n15)-[:LINKED_TO {movie_id: 591, id: 6955, label: 128667}]->(n36)
+CREATE (n15)-[:LINKED_TO {movie_id: 591, id: 6956, label: 128665}]->(n39)
+CREATE (n15)-[:LINKED_TO {movie_id: 591, id: 6957, label: 128251}]->(n5)
+CREATE (n15)-[:LINKED_TO {movie_id: 591, id: 6958, label: 128666}]->(n50)
+CREATE (n15)-[:LINKED_TO {movie_id: 591, id: 6959, label: 128246, weight: 2}]->(n31)
+CREATE (n15)-[:LINKED_TO {movie_id: 591, id: 6960, label: 128249, weight: 2}]->(n32)
+CREATE (n15)-[:LINKED_TO {movie_id: 591, id: 6961, label: 128664}]->(n62)
+CREATE (n15)-[:LINKED_TO {movie_id: 591, id: 6962, label: 128253}]->(n18)
+CREATE (n15)-[:LINKED_TO {movie_id: 591, id: 6963, label: 128248, weight: 2}]->(n33)
+CREATE (n15)-[:LINKED_TO {movie_id: 591, id: 6964, label: 128247}]->(n65)
+CREATE (n31)-[:LINKED_TO {movie_id: 591, id: 6965, label: 128259}]->(n5)
+CREATE (n31)-[:LINKED_TO {movie_id: 591, id: 6966, label: 128260}]->(n4)
+CREATE (n31)-[:LINKED_TO {movie_id: 591, id: 6967, label: 128304}]->(n1)
+CREATE (n31)-[:LINKED_TO {movie_id: 591, id: 6968, label: 128262, weight: 2}]->(n0)
+CREATE (n31)-[:LINKED_TO {movie_id: 591, id: 6969, label: 128257, weight: 2}]->(n32)
+CREATE (n31)-[:LINKED_TO {movie_id: 591, id: 6970, label: 128261}]->(n18)
+CREATE (n31)-[:LINKED_TO {movie_id: 591, id: 6971, label: 128258}]->(n2)
+CREATE (n31)-[:LINKED_TO {movie_id: 591, id: 6972, label: 128256, weight: 2}]->(n33)
+CREATE (n31)-[:LINKED_TO {movie_id: 591, id: 6973, label: 128255}]->(n65)
+CREATE (n27)-[:LINKED_TO {movie_id: 591, id: 6974, label: 128541}]->(n16)
+CREATE (n27)-[:LINKED_TO {movie_id: 591, id: 6975, label: 128538}]->(n17)
+CREATE (n27)-[:LINKED_TO {movie_id: 591, id: 6976, label: 129065}]->(n5)
+CREATE (n27)-[:LINKED_TO {movie_id: 591, id: 6977, label: 129060}]->(n1)
+CREATE (n27)-[:LINKED_TO {movie_id: 591, id: 6978, label: 128543}]->(n10)
+CREATE (n27)-[:LINKED_TO {movie_id: 591, id: 6979, label: 129063}]->(n3)
+CREATE (n27)-[:LINKED_TO {movie_id: 591, id: 6980, label: 129067, weight: 2}]->(n12)
+CREATE (n27)-[:LINKED_TO {movie_id: 591, id: 6981, label: 129064, weight: 2}]->(n6)
+CREATE (n27)-[:LINKED_TO {movie_id: 591, id: 6982, label: 129062}]->(n2)
+CREATE (n27)-[:LINKED_TO {movie_id: 591, id: 6983, label: 129061}]->(n11)
+CREATE (n27)-[:LINKED_TO {movie_id: 591, id: 6984, label: 129066}]->(n8)
+CREATE (n27)-[:LINKED_TO {movie_id: 591, id: 6985, label: 128539}]->(n73)
+CREATE (n60)-[:LINKED_TO {movie_id: 591, id: 6986, label: 128928}]->(n35)
+CREATE (n60)-[:LINKED_TO {movie_id: 591, id: 6987, label: 128926}]->(n37)
+CREATE (n60)-[:LINKED_TO {movie_id: 591, id: 6988, label: 128927}]->(n38)
+CREATE (n60)-[:LINKED_TO {movie_id: 591, id: 6989, label: 128932}]->(n5)
+CREATE (n60)-[:LINKED_TO {movie_id: 591, id: 6990, label: 128923}]->(n45)
+CREATE (n60)-[:LINKED_TO {movie_id: 591, id: 6991, label: 128924}]->(n53)
+CREATE (n60)-[:LINKED_TO {movie_id: 591, id: 6992, label: 128930}]->(n3)
+CREATE (n60)-[:LINKED_TO {movie_id: 591, id: 6993, label: 128929}]->(n6)
+CREATE (n60)-[:LINKED_TO {movie_id: 591, id: 6994, label: 128925}]->(n66)
+CREATE (n32)-[:LINKED_TO {movie_id: 591, id: 6995, label: 128277}]->(n5)
+CREATE (n32)-[:LINKED_TO {movie_id: 591, id: 6996, label: 128278}]->(n4)
+CREATE (n32)-[:LINKED_TO {movie_id: 591, id: 6997, label: 128309}]->(n1)
+CREATE (n32)-[:LINKED_TO {movie_id: 591, id: 6998, label: 128280, weight: 2}]->(n0)
+CREATE (n32)-[:LINKED_TO {movie_id: 591, id: 6999, label: 128279}]->(n18)
+CREATE (n32)-[:LINKED_TO {movie_id: 591, id: 7000, label: 128276}]->(n2)
+CREATE (n62)-[:LINKED_TO {movie_id: 591, id: 7001, label: 128670, weight: 2}]->(n36)
+CREATE (n62)-[:LINKED_TO {movie_id: 591, id: 7002, label: 128668, weight: 2}]->(n39)
+CREATE (n62)-[:LINKED_TO {movie_id: 591, id: 7003, label: 128669, weight: 2}]->(n50)
+CREATE (n18)-[:LINKED_TO {movie_id: 591, id: 7004, label: 129115}]->(n1)
+CREATE (n18)-[:LINKED_TO {movie_id: 591, id: 7005, label: 128290, weight: 2}]->(n0)
+CREATE (n18)-[:LINKED_TO {movie_id: 591, id: 7006, label: 129104, weight: 2}]->(n29)
+CREATE (n23)-[:LINKED_TO {movie_id: 591, id: 7007, label: 128637}]->(n36)
+CREATE (n23)-[:LINKED_TO {movie_id: 591, id: 7008, label: 128635}]->(n39)
+CREATE (n23)-[:LINKED_TO {movie_id: 591, id: 7009, label: 128629}]->(n4)
+CREATE (n23)-[:LINKED_TO {movie_id: 591, id: 7010, label: 128636}]->(n50)
+CREATE (n23)-[:LINKED_TO {movie_id: 591, id: 7011, label: 128633}]->(n15)
+CREATE (n23)-[:LINKED_TO {movie_id: 591, id: 7012, label: 128634}]->(n62)
+CREATE (n13)-[:LINKED_TO {movie_id: 591, id: 7013, label: 129288}]->(n1)
+CREATE (n13)-[:LINKED_TO {movie_id: 591, id: 7014, label: 129052, weight: 2}]->(n0)
+CREATE (n13)-[:LINKED_TO {movie_id: 591, id: 7015, label: 129284}]->(n56)
+CREATE (n13)-[:LINKED_TO {movie_id: 591, id: 7016, label: 128780}]->(n9)
+CREATE (n63)-[:LINKED_TO {movie_id: 591, id: 7017, label: 128528}]->(n16)
+CREATE (n63)-[:LINKED_TO {movie_id: 591, id: 7018, label: 128525}]->(n17)
+CREATE (n63)-[:LINKED_TO {movie_id: 591, id: 7019, label: 128530}]->(n10)
+CREATE (n63)-[:LINKED_TO {movie_id: 591, id: 7020, label: 128523}]->(n21)
+CREATE (n63)-[:LINKED_TO {movie_id: 591, id: 7021, label: 128524}]->(n27)
+CREATE (n63)-[:LINKED_TO {movie_id: 591, id: 7022, label: 128526}]->(n73)
+CREATE (n63)-[:LINKED_TO {movie_id: 591, id: 7023, label: 128529}]->(n74)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7024, label: 128820}]->(n35)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7025, label: 128582}]->(n36)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7026, label: 128818}]->(n37)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7027, label: 128819}]->(n38)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7028, label: 128436}]->(n16)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7029, label: 128580}]->(n39)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7030, label: 128813}]->(n40)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7031, label: 128433}]->(n17)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7032, label: 129359}]->(n43)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7033, label: 128815}]->(n45)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7034, label: 128199}]->(n47)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7035, label: 128282, weight: 3}]->(n4)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7036, label: 128581}]->(n50)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7037, label: 128816}]->(n53)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7038, label: 128810}]->(n54)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7039, label: 128207, weight: 9}]->(n0)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7040, label: 129016}]->(n57)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7041, label: 129241, weight: 3}]->(n25)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7042, label: 128809, weight: 2}]->(n20)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7043, label: 128208, weight: 8}]->(n6)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7044, label: 128178, weight: 2}]->(n21)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7045, label: 128578}]->(n15)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7046, label: 128814}]->(n60)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7047, label: 128579}]->(n62)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7048, label: 128283}]->(n18)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7049, label: 128573, weight: 2}]->(n23)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7050, label: 128430}]->(n63)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7051, label: 129357}]->(n14)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7052, label: 128577, weight: 2}]->(n24)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7053, label: 129019}]->(n9)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7054, label: 128817}]->(n66)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7055, label: 128811}]->(n67)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7056, label: 128748, weight: 4}]->(n11)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7057, label: 128812}]->(n70)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7058, label: 129243}]->(n22)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7059, label: 129084, weight: 4}]->(n8)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7060, label: 128434}]->(n73)
+CREATE (n2)-[:LINKED_TO {movie_id: 591, id: 7061, label: 128437}]->(n74)
+CREATE (n33)-[:LINKED_TO {movie_id: 591, id: 7062, label: 128272}]->(n5)
+CREATE (n33)-[:LINKED_TO {movie_id: 591, id: 7063, label: 128273}]->(n4)
+CREATE (n33)-[:LINKED_TO {movie_id: 591, id: 7064, label: 128307}]->(n1)
+CREATE (n33)-[:LINKED_TO {movie_id: 591, id: 7065, label: 128275, weight: 2}]->(n0)
+CREATE (n33)-[:LINKED_TO {movie_id: 591, id: 7066, label: 128270, weight: 2}]->(n32)
+CREATE (n33)-[:LINKED_TO {movie_id: 591, id: 7067, label: 128274}]->(n18)
+CREATE (n33)-[:LINKED_TO {movie_id: 591, id: 7068, label: 128271}]->(n2)
+CREATE (n64)-[:LINKED_TO {movie_id: 591, id: 7069, label: 129059}]->(n4)
+CREATE (n14)-[:LINKED_TO {movie_id: 591, id: 7070, label: 129190}]->(n16)
+CREATE (n14)-[:LINKED_TO {movie_id: 591, id: 7071, label: 129189}]->(n17)
+CREATE (n14)-[:LINKED_TO {movie_id: 591, id: 7072, label: 129379}]->(n43)
+CREATE (n14)-[:LINKED_TO {movie_id: 591, id: 7073, label: 129182}]->(n44)
+CREATE (n14)-[:LINKED_TO {movie_id: 591, id: 7074, label: 129185, weight: 2}]->(n10)
+CREATE (n14)-[:LINKED_TO {movie_id: 591, id: 7075, label: 129186}]->(n49)
+CREATE (n14)-[:LINKED_TO {movie_id: 591, id: 7076, label: 128773, weight: 6}]->(n0)
+CREATE (n14)-[:LINKED_TO {movie_id: 591, id: 7077, label: 129187}]->(n55)
+CREATE (n14)-[:LINKED_TO {movie_id: 591, id: 7078, label: 129107}]->(n29)
+CREATE (n14)-[:LINKED_TO {movie_id: 591, id: 7079, label: 129106}]->(n18)
+CREATE (n14)-[:LINKED_TO {movie_id: 591, id: 7080, label: 129183}]->(n22)
+CREATE (n65)-[:LINKED_TO {movie_id: 591, id: 7081, label: 128266}]->(n5)
+CREATE (n65)-[:LINKED_TO {movie_id: 591, id: 7082, label: 128267}]->(n4)
+CREATE (n65)-[:LINKED_TO {movie_id: 591, id: 7083, label: 128269}]->(n0)
+CREATE (n65)-[:LINKED_TO {movie_id: 591, id: 7084, label: 128264}]->(n32)
+CREATE (n65)-[:LINKED_TO {movie_id: 591, id: 7085, label: 128268}]->(n18)
+CREATE (n65)-[:LINKED_TO {movie_id: 591, id: 7086, label: 128265}]->(n2)
+CREATE (n65)-[:LINKED_TO {movie_id: 591, id: 7087, label: 128263}]->(n33)
+CREATE (n7)-[:LINKED_TO {movie_id: 591, id: 7088, label: 129325}]->(n43)
+CREATE (n7)-[:LINKED_TO {movie_id: 591, id: 7089, label: 129321}]->(n5)
+CREATE (n7)-[:LINKED_TO {movie_id: 591, id: 7090, label: 129317}]->(n4)
+CREATE (n7)-[:LINKED_TO {movie_id: 591, id: 7091, label: 129324}]->(n1)
+CREATE (n7)-[:LINKED_TO {movie_id: 591, id: 7092, label: 129316}]->(n10)
+CREATE (n7)-[:LINKED_TO {movie_id: 591, id: 7093, label: 129286, weight: 2}]->(n0)
+CREATE (n7)-[:LINKED_TO {movie_id: 591, id: 7094, label: 129285}]->(n56)
+CREATE (n7)-[:LINKED_TO {movie_id: 591, id: 7095, label: 129319}]->(n3)
+CREATE (n7)-[:LINKED_TO {movie_id: 591, id: 7096, label: 129320}]->(n6)
+CREATE (n7)-[:LINKED_TO {movie_id: 591, id: 7097, label: 128676, weight: 3}]->(n13)
+CREATE (n7)-[:LINKED_TO {movie_id: 591, id: 7098, label: 129318}]->(n2)
+CREATE (n7)-[:LINKED_TO {movie_id: 591, id: 7099, label: 129323}]->(n14)
+CREATE (n7)-[:LINKED_TO {movie_id: 591, id: 7100, label: 129322}]->(n11)
+CREATE (n24)-[:LINKED_TO {movie_id: 591, id: 7101, label: 128663}]->(n36)
+CREATE (n24)-[:LINKED_TO {movie_id: 591, id: 7102, label: 128661}]->(n39)
+CREATE (n24)-[:LINKED_TO {movie_id: 591, id: 7103, label: 128662}]->(n50)
+CREATE (n24)-[:LINKED_TO {movie_id: 591, id: 7104, label: 128659}]->(n15)
+CREATE (n24)-[:LINKED_TO {movie_id: 591, id: 7105, label: 128660}]->(n62)
+CREATE (n24)-[:LINKED_TO {movie_id: 591, id: 7106, label: 128747}]->(n23)
+CREATE (n19)-[:LINKED_TO {movie_id: 591, id: 7107, label: 128628}]->(n36)
+CREATE (n19)-[:LINKED_TO {movie_id: 591, id: 7108, label: 128626}]->(n39)
+CREATE (n19)-[:LINKED_TO {movie_id: 591, id: 7109, label: 128202}]->(n47)
+CREATE (n19)-[:LINKED_TO {movie_id: 591, id: 7110, label: 128620}]->(n4)
+CREATE (n19)-[:LINKED_TO {movie_id: 591, id: 7111, label: 128627}]->(n50)
+CREATE (n19)-[:LINKED_TO {movie_id: 591, id: 7112, label: 128397, weight: 3}]->(n0)
+CREATE (n19)-[:LINKED_TO {movie_id: 591, id: 7113, label: 128396, weight: 2}]->(n6)
+CREATE (n19)-[:LINKED_TO {movie_id: 591, id: 7114, label: 128624}]->(n15)
+CREATE (n19)-[:LINKED_TO {movie_id: 591, id: 7115, label: 128625}]->(n62)
+CREATE (n19)-[:LINKED_TO {movie_id: 591, id: 7116, label: 128619, weight: 2}]->(n23)
+CREATE (n19)-[:LINKED_TO {movie_id: 591, id: 7117, label: 128399, weight: 2}]->(n2)
+CREATE (n19)-[:LINKED_TO {movie_id: 591, id: 7118, label: 128623, weight: 2}]->(n24)
+CREATE (n34)-[:LINKED_TO {movie_id: 591, id: 7119, label: 128180}]->(n21)
+CREATE (n34)-[:LINKED_TO {movie_id: 591, id: 7120, label: 128772}]->(n2)
+CREATE (n9)-[:LINKED_TO {movie_id: 591, id: 7121, label: 128339}]->(n12)
+CREATE (n9)-[:LINKED_TO {movie_id: 591, id: 7122, label: 129055}]->(n7)
+CREATE (n9)-[:LINKED_TO {movie_id: 591, id: 7123, label: 128770}]->(n34)
+CREATE (n66)-[:LINKED_TO {movie_id: 591, id: 7124, label: 128952}]->(n35)
+CREATE (n66)-[:LINKED_TO {movie_id: 591, id: 7125, label: 128950}]->(n37)
+CREATE (n66)-[:LINKED_TO {movie_id: 591, id: 7126, label: 128951}]->(n38)
+CREATE (n66)-[:LINKED_TO {movie_id: 591, id: 7127, label: 128956}]->(n5)
+CREATE (n66)-[:LINKED_TO {movie_id: 591, id: 7128, label: 128954}]->(n3)
+CREATE (n66)-[:LINKED_TO {movie_id: 591, id: 7129, label: 128953}]->(n6)
+CREATE (n67)-[:LINKED_TO {movie_id: 591, id: 7130, label: 128895}]->(n35)
+CREATE (n67)-[:LINKED_TO {movie_id: 591, id: 7131, label: 128893}]->(n37)
+CREATE (n67)-[:LINKED_TO {movie_id: 591, id: 7132, label: 128894}]->(n38)
+CREATE (n67)-[:LINKED_TO {movie_id: 591, id: 7133, label: 128888}]->(n40)
+CREATE (n67)-[:LINKED_TO {movie_id: 591, id: 7134, label: 128899}]->(n5)
+CREATE (n67)-[:LINKED_TO {movie_id: 591, id: 7135, label: 128890}]->(n45)
+CREATE (n67)-[:LINKED_TO {movie_id: 591, id: 7136, label: 128891}]->(n53)
+CREATE (n67)-[:LINKED_TO {movie_id: 591, id: 7137, label: 128897}]->(n3)
+CREATE (n67)-[:LINKED_TO {movie_id: 591, id: 7138, label: 128896}]->(n6)
+CREATE (n67)-[:LINKED_TO {movie_id: 591, id: 7139, label: 128889}]->(n60)
+CREATE (n67)-[:LINKED_TO {movie_id: 591, id: 7140, label: 128892}]->(n66)
+CREATE (n67)-[:LINKED_TO {movie_id: 591, id: 7141, label: 128887}]->(n70)
+CREATE (n68)-[:LINKED_TO {movie_id: 591, id: 7142, label: 129180}]->(n16)
+CREATE (n68)-[:LINKED_TO {movie_id: 591, id: 7143, label: 129179}]->(n17)
+CREATE (n68)-[:LINKED_TO {movie_id: 591, id: 7144, label: 129172}]->(n44)
+CREATE (n68)-[:LINKED_TO {movie_id: 591, id: 7145, label: 129175}]->(n10)
+CREATE (n68)-[:LINKED_TO {movie_id: 591, id: 7146, label: 129176}]->(n49)
+CREATE (n68)-[:LINKED_TO {movie_id: 591, id: 7147, label: 129177}]->(n55)
+CREATE (n68)-[:LINKED_TO {movie_id: 591, id: 7148, label: 129174}]->(n12)
+CREATE (n68)-[:LINKED_TO {movie_id: 591, id: 7149, label: 129171}]->(n14)
+CREATE (n68)-[:LINKED_TO {movie_id: 591, id: 7150, label: 129173}]->(n22)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7151, label: 128837}]->(n35)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7152, label: 128835}]->(n37)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7153, label: 128836}]->(n38)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7154, label: 128830}]->(n40)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7155, label: 129377}]->(n43)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7156, label: 128832}]->(n45)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7157, label: 128756, weight: 3}]->(n10)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7158, label: 128833}]->(n53)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7159, label: 128827}]->(n54)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7160, label: 129011}]->(n57)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7161, label: 128826}]->(n20)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7162, label: 128831}]->(n60)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7163, label: 128737}]->(n23)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7164, label: 129375}]->(n14)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7165, label: 128736}]->(n24)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7166, label: 128733}]->(n19)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7167, label: 129014}]->(n9)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7168, label: 128834}]->(n66)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7169, label: 128828}]->(n67)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7170, label: 128829}]->(n70)
+CREATE (n11)-[:LINKED_TO {movie_id: 591, id: 7171, label: 129079, weight: 2}]->(n8)
+CREATE (n69)-[:LINKED_TO {movie_id: 591, id: 7172, label: 128242}]->(n5)
+CREATE (n69)-[:LINKED_TO {movie_id: 591, id: 7173, label: 128243}]->(n4)
+CREATE (n69)-[:LINKED_TO {movie_id: 591, id: 7174, label: 128245}]->(n0)
+CREATE (n69)-[:LINKED_TO {movie_id: 591, id: 7175, label: 128236}]->(n15)
+CREATE (n69)-[:LINKED_TO {movie_id: 591, id: 7176, label: 128237}]->(n31)
+CREATE (n69)-[:LINKED_TO {movie_id: 591, id: 7177, label: 128240}]->(n32)
+CREATE (n69)-[:LINKED_TO {movie_id: 591, id: 7178, label: 128244}]->(n18)
+CREATE (n69)-[:LINKED_TO {movie_id: 591, id: 7179, label: 128241}]->(n2)
+CREATE (n69)-[:LINKED_TO {movie_id: 591, id: 7180, label: 128239}]->(n33)
+CREATE (n69)-[:LINKED_TO {movie_id: 591, id: 7181, label: 128238}]->(n65)
+CREATE (n70)-[:LINKED_TO {movie_id: 591, id: 7182, label: 128907}]->(n35)
+CREATE (n70)-[:LINKED_TO {movie_id: 591, id: 7183, label: 128905}]->(n37)
+CREATE (n70)-[:LINKED_TO {movie_id: 591, id: 7184, label: 128906}]->(n38)
+CREATE (n70)-[:LINKED_TO {movie_id: 591, id: 7185, label: 128900}]->(n40)
+CREATE (n70)-[:LINKED_TO {movie_id: 591, id: 7186, label: 128911}]->(n5)
+CREATE (n70)-[:LINKED_TO {movie_id: 591, id: 7187, label: 128902}]->(n45)
+CREATE (n70)-[:LINKED_TO {movie_id: 591, id: 7188, label: 128903}]->(n53)
+CREATE (n70)-[:LINKED_TO {movie_id: 591, id: 7189, label: 128909}]->(n3)
+CREATE (n70)-[:LINKED_TO {movie_id: 591, id: 7190, label: 128908}]->(n6)
+CREATE (n70)-[:LINKED_TO {movie_id: 591, id: 7191, label: 128901}]->(n60)
+CREATE (n70)-[:LINKED_TO {movie_id: 591, id: 7192, label: 128904}]->(n66)
+CREATE (n71)-[:LINKED_TO {movie_id: 591, id: 7193, label: 128681}]->(n4)
+CREATE (n71)-[:LINKED_TO {movie_id: 591, id: 7194, label: 128680}]->(n1)
+CREATE (n71)-[:LINKED_TO {movie_id: 591, id: 7195, label: 128679}]->(n0)
+CREATE (n22)-[:LINKED_TO {movie_id: 591, id: 7196, label: 129207}]->(n16)
+CREATE (n22)-[:LINKED_TO {movie_id: 591, id: 7197, label: 129206}]->(n17)
+CREATE (n22)-[:LINKED_TO {movie_id: 591, id: 7198, label: 129202}]->(n10)
+CREATE (n22)-[:LINKED_TO {movie_id: 591, id: 7199, label: 129203}]->(n49)
+CREATE (n22)-[:LINKED_TO {movie_id: 591, id: 7200, label: 129204}]->(n55)
+CREATE (n22)-[:LINKED_TO {movie_id: 591, id: 7201, label: 129201}]->(n12)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7202, label: 129314}]->(n43)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7203, label: 129306}]->(n4)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7204, label: 129305}]->(n10)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7205, label: 128981, weight: 3}]->(n0)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7206, label: 129308, weight: 2}]->(n3)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7207, label: 128982}]->(n20)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7208, label: 129103}]->(n29)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7209, label: 129309, weight: 2}]->(n6)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7210, label: 129102}]->(n18)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7211, label: 128732}]->(n23)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7212, label: 128677}]->(n13)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7213, label: 129312}]->(n14)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7214, label: 129303}]->(n7)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7215, label: 128731}]->(n24)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7216, label: 128728}]->(n19)
+CREATE (n8)-[:LINKED_TO {movie_id: 591, id: 7217, label: 128686}]->(n72)
+CREATE (n73)-[:LINKED_TO {movie_id: 591, id: 7218, label: 128550}]->(n16)
+CREATE (n73)-[:LINKED_TO {movie_id: 591, id: 7219, label: 128552}]->(n10)
+CREATE (n73)-[:LINKED_TO {movie_id: 591, id: 7220, label: 128551}]->(n74)
+CREATE (n74)-[:LINKED_TO {movie_id: 591, id: 7221, label: 128558}]->(n10)
+CREATE (n74)-[:LINKED_TO {movie_id: 591, id: 7222, label: 129277}]->(n27);
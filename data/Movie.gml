@@ -0,0 +1,5897 @@
+graph [
+  id "Movie"
+  directed 0
+  node [
+    movie_id 591
+    eccentricity 2
+    closnesscentrality 1.0666666666666667
+    betweenesscentrality 718.3075416585473
+    degree 70
+    componentnumber 0
+    modularity_class 0
+    id 3643509
+    label "JACK"
+    graphics [
+      w 100
+      h 100
+      x -221.9114
+      y 232.51317
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 2
+    closnesscentrality 1.1866666666666668
+    betweenesscentrality 410.3829384839444
+    degree 61
+    componentnumber 0
+    modularity_class 2
+    id 3643670
+    label "DAVID"
+    graphics [
+      w 58.846645
+      h 58.846645
+      x 342.72864
+      y 109.53489
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 2
+    closnesscentrality 1.2666666666666666
+    betweenesscentrality 240.03186204919945
+    degree 55
+    componentnumber 0
+    modularity_class 0
+    id 3643528
+    label "RACETRACK"
+    graphics [
+      w 36.07965
+      h 36.07965
+      x -360.56973
+      y -611.06146
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.4266666666666667
+    betweenesscentrality 162.16225830842703
+    degree 44
+    componentnumber 0
+    modularity_class 4
+    id 3643599
+    label "KID BLINK"
+    graphics [
+      w 25.672583
+      h 25.672583
+      x -131.0036
+      y -1182.527
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 2
+    closnesscentrality 1.4666666666666666
+    betweenesscentrality 121.3432997944608
+    degree 40
+    componentnumber 0
+    modularity_class 0
+    id 3643518
+    label "CRUTCHY"
+    graphics [
+      w 20.217228
+      h 20.217228
+      x -1111.9486
+      y -84.281586
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.44
+    betweenesscentrality 106.75896854263729
+    degree 43
+    componentnumber 0
+    modularity_class 3
+    id 3643723
+    label "BOOTS"
+    graphics [
+      w 18.26807
+      h 18.26807
+      x 135.14195
+      y -437.71875
+      fill "#ffdc65"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.44
+    betweenesscentrality 93.70914891781767
+    degree 43
+    componentnumber 0
+    modularity_class 4
+    id 3643556
+    label "MUSH"
+    graphics [
+      w 16.523994
+      h 16.523994
+      x 285.34747
+      y -891.74445
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 2
+    closnesscentrality 1.7733333333333334
+    betweenesscentrality 92.53197950999808
+    degree 17
+    componentnumber 0
+    modularity_class 1
+    id 3644376
+    label "SEITZ"
+    graphics [
+      w 16.366669
+      h 16.366669
+      x 1516.8329
+      y 669.8444
+      fill "#ff6600"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 2
+    closnesscentrality 1.6933333333333334
+    betweenesscentrality 92.33885363003012
+    degree 23
+    componentnumber 0
+    modularity_class 1
+    id 3644181
+    label "WEASEL"
+    graphics [
+      w 16.340858
+      h 16.340858
+      x -586.6048
+      y -135.30783
+      fill "#ff6600"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 84.20446195101766
+    degree 16
+    componentnumber 0
+    modularity_class 1
+    id 3644599
+    label "SNYDER"
+    graphics [
+      w 15.253715
+      h 15.253715
+      x 1532.291
+      y 1114.8398
+      fill "#ff6600"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 2
+    closnesscentrality 1.56
+    betweenesscentrality 64.84100486716585
+    degree 33
+    componentnumber 0
+    modularity_class 2
+    id 3645769
+    label "DENTON"
+    graphics [
+      w 12.665839
+      h 12.665839
+      x 580.77234
+      y 660.33014
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 2
+    closnesscentrality 1.5466666666666666
+    betweenesscentrality 63.09827476445124
+    degree 34
+    componentnumber 0
+    modularity_class 4
+    id 3645927
+    label "SPOT"
+    graphics [
+      w 12.432925
+      h 12.432925
+      x 1080.3773
+      y -692.9926
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 2
+    closnesscentrality 1.5733333333333333
+    betweenesscentrality 62.85142304376051
+    degree 32
+    componentnumber 0
+    modularity_class 2
+    id 3643674
+    label "LES"
+    graphics [
+      w 12.399933
+      h 12.399933
+      x 22.790838
+      y 900.67676
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9066666666666667
+    betweenesscentrality 50.165248515674215
+    degree 8
+    componentnumber 0
+    modularity_class 1
+    id 3644362
+    label "PULITZER"
+    graphics [
+      w 10.704458
+      h 10.704458
+      x 2051.7297
+      y 1316.797
+      fill "#ff6600"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.6933333333333334
+    betweenesscentrality 26.580530580530585
+    degree 24
+    componentnumber 0
+    modularity_class 2
+    id 3644952
+    label "SARAH"
+    graphics [
+      w 7.55242
+      h 7.55242
+      x 551.6791
+      y 1236.4789
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.7733333333333334
+    betweenesscentrality 15.902777777777777
+    degree 21
+    componentnumber 0
+    modularity_class 3
+    id 3643976
+    label "NEWSIE GROUP #1"
+    graphics [
+      w 6.125366
+      h 6.125366
+      x -2231.0085
+      y -976.81934
+      fill "#ffdc65"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.7733333333333334
+    betweenesscentrality 7.652103452103451
+    degree 21
+    componentnumber 0
+    modularity_class 2
+    id 3645588
+    label "AND OUR RANKS WILL GROW"
+    graphics [
+      w 5.0226836
+      h 5.0226836
+      x -456.16843
+      y 1896.1487
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.7733333333333334
+    betweenesscentrality 7.652103452103451
+    degree 21
+    componentnumber 0
+    modularity_class 2
+    id 3645538
+    label "AND THE WORLD WILL KNOW"
+    graphics [
+      w 5.0226836
+      h 5.0226836
+      x -62.75422
+      y 1760.1747
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8533333333333333
+    betweenesscentrality 5.937373737373735
+    degree 15
+    componentnumber 0
+    modularity_class 3
+    id 3644023
+    label "OSCAR"
+    graphics [
+      w 4.793515
+      h 4.793515
+      x -2066.952
+      y 332.3873
+      fill "#ffdc65"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8
+    betweenesscentrality 5.770707070707069
+    degree 18
+    componentnumber 0
+    modularity_class 0
+    id 3643618
+    label "SKITTERY"
+    graphics [
+      w 4.77124
+      h 4.77124
+      x -1013.66125
+      y -1146.8796
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.7733333333333334
+    betweenesscentrality 4.125
+    degree 20
+    componentnumber 0
+    modularity_class 4
+    id 3644728
+    label "MEDDA"
+    graphics [
+      w 4.551297
+      h 4.551297
+      x 1001.7661
+      y -1449.5676
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8266666666666667
+    betweenesscentrality 4.103174603174604
+    degree 17
+    componentnumber 0
+    modularity_class 2
+    id 3643546
+    label "NEWSIE"
+    graphics [
+      w 4.5483794
+      h 4.5483794
+      x -1180.9263
+      y 962.4064
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8533333333333333
+    betweenesscentrality 3.948412698412698
+    degree 15
+    componentnumber 0
+    modularity_class 2
+    id 3648961
+    label "WE'RE AT THE POINT OF NO"
+    graphics [
+      w 4.5276947
+      h 4.5276947
+      x 552.1947
+      y 1815.041
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 3.437373737373737
+    degree 17
+    componentnumber 0
+    modularity_class 0
+    id 3646087
+    label "PIE EATER"
+    graphics [
+      w 4.4593964
+      h 4.4593964
+      x -1416.9126
+      y -1218.1112
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 3.437373737373737
+    degree 17
+    componentnumber 0
+    modularity_class 0
+    id 3646150
+    label "SEIZE THE DAY"
+    graphics [
+      w 4.4593964
+      h 4.4593964
+      x -901.65753
+      y -1555.4579
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8933333333333333
+    betweenesscentrality 2.470326384142174
+    degree 10
+    componentnumber 0
+    modularity_class 0
+    id 3643502
+    label "KLOPPMAN"
+    graphics [
+      w 4.3301544
+      h 4.3301544
+      x -930.9294
+      y 555.3268
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 2.6266666666666665
+    betweenesscentrality 2.220487845487846
+    degree 5
+    componentnumber 0
+    modularity_class 1
+    id 3647099
+    label "MAYOR"
+    graphics [
+      w 4.296762
+      h 4.296762
+      x 2813.465
+      y 1708.8281
+      fill "#ff6600"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 1.7454545454545456
+    degree 17
+    componentnumber 0
+    modularity_class 2
+    id 3643437
+    label "NEWSIES"
+    graphics [
+      w 4.2332764
+      h 4.2332764
+      x -674.42413
+      y 899.6969
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9466666666666668
+    betweenesscentrality 1.1952380952380954
+    degree 9
+    componentnumber 0
+    modularity_class 3
+    id 3644055
+    label "JACK'S GROUP NEWSIE GROUP"
+    graphics [
+      w 4.1597414
+      h 4.1597414
+      x -2059.1667
+      y -1239.3566
+      fill "#ffdc65"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9333333333333333
+    betweenesscentrality 1.0250000000000001
+    degree 9
+    componentnumber 0
+    modularity_class 3
+    id 3644152
+    label "MORRIS"
+    graphics [
+      w 4.136987
+      h 4.136987
+      x -1644.1371
+      y -56.240963
+      fill "#ffdc65"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9866666666666666
+    betweenesscentrality 0.9999999999999999
+    degree 6
+    componentnumber 0
+    modularity_class 2
+    id 3644895
+    label "MAYER"
+    graphics [
+      w 4.133649
+      h 4.133649
+      x 268.1516
+      y 1179.0327
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9066666666666667
+    betweenesscentrality 0.9305555555555554
+    degree 12
+    componentnumber 0
+    modularity_class 3
+    id 3643978
+    label "NEWSIE GROUP #2"
+    graphics [
+      w 4.1243653
+      h 4.1243653
+      x -2405.1787
+      y -504.10397
+      fill "#ffdc65"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9066666666666667
+    betweenesscentrality 0.9305555555555554
+    degree 12
+    componentnumber 0
+    modularity_class 3
+    id 3643996
+    label "ON THE CORNER"
+    graphics [
+      w 4.1243653
+      h 4.1243653
+      x -2139.9517
+      y -302.2046
+      fill "#ffdc65"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9066666666666667
+    betweenesscentrality 0.9305555555555554
+    degree 12
+    componentnumber 0
+    modularity_class 3
+    id 3643990
+    label "RECKONED"
+    graphics [
+      w 4.1243653
+      h 4.1243653
+      x -2420.7866
+      y -89.73014
+      fill "#ffdc65"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.96
+    betweenesscentrality 0.27763157894736845
+    degree 6
+    componentnumber 0
+    modularity_class 0
+    id 3643531
+    label "SNIPESHOOTER"
+    graphics [
+      w 4.037103
+      h 4.037103
+      x -1568.0388
+      y 964.3537
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 0
+    degree 18
+    componentnumber 0
+    modularity_class 4
+    id 3647373
+    label "AGAIN"
+    graphics [
+      w 4
+      h 4
+      x 1322.6897
+      y -2306.3005
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.88
+    betweenesscentrality 0
+    degree 13
+    componentnumber 0
+    modularity_class 0
+    id 3646180
+    label "AND DON'T DELAY"
+    graphics [
+      w 4
+      h 4
+      x -1348.6783
+      y -1839.3783
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 0
+    degree 18
+    componentnumber 0
+    modularity_class 4
+    id 3647371
+    label "AND I STICKS OUT MY CHEST"
+    graphics [
+      w 4
+      h 4
+      x 1651.518
+      y -1539.9359
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 0
+    degree 18
+    componentnumber 0
+    modularity_class 4
+    id 3647372
+    label "AND I'M OFF TO THE RACES"
+    graphics [
+      w 4
+      h 4
+      x 1300.0336
+      y -1881.0858
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.88
+    betweenesscentrality 0
+    degree 13
+    componentnumber 0
+    modularity_class 0
+    id 3646169
+    label "AND SEIZE THE DAY"
+    graphics [
+      w 4
+      h 4
+      x -1711.0819
+      y -1760.1643
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 0
+    degree 18
+    componentnumber 0
+    modularity_class 4
+    id 3647364
+    label "AND SOMETIMES THERE'S"
+    graphics [
+      w 4
+      h 4
+      x 2122.967
+      y -1990.8254
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 2.0533333333333332
+    betweenesscentrality 0
+    degree 1
+    componentnumber 0
+    modularity_class 0
+    id 3647257
+    label "AUDIENCE"
+    graphics [
+      w 4
+      h 4
+      x 244.5095
+      y 2070.6277
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9466666666666668
+    betweenesscentrality 0
+    degree 7
+    componentnumber 0
+    modularity_class 1
+    id 3647703
+    label "BAILIFF"
+    graphics [
+      w 4
+      h 4
+      x 2185.4343
+      y 557.34
+      fill "#ff6600"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.84
+    betweenesscentrality 0
+    degree 13
+    componentnumber 0
+    modularity_class 1
+    id 3649728
+    label "BARBER"
+    graphics [
+      w 4
+      h 4
+      x 1171.6136
+      y 110.1042
+      fill "#ff6600"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.92
+    betweenesscentrality 0
+    degree 11
+    componentnumber 0
+    modularity_class 2
+    id 3648935
+    label "BUT"
+    graphics [
+      w 4
+      h 4
+      x 476.14264
+      y 2415.7502
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 0
+    degree 18
+    componentnumber 0
+    modularity_class 4
+    id 3647366
+    label "BUT I ALWAYS LANDS ON MY"
+    graphics [
+      w 4
+      h 4
+      x 1874.0077
+      y -2398.449
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 4
+    closnesscentrality 2.7333333333333334
+    betweenesscentrality 0
+    degree 3
+    componentnumber 0
+    modularity_class 1
+    id 3647105
+    label "CHIEF"
+    graphics [
+      w 4
+      h 4
+      x 3141.2559
+      y 1827.6053
+      fill "#ff6600"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9733333333333334
+    betweenesscentrality 0
+    degree 6
+    componentnumber 0
+    modularity_class 0
+    id 3643621
+    label "CHORUS"
+    graphics [
+      w 4
+      h 4
+      x -1488.6351
+      y -779.81116
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9333333333333333
+    betweenesscentrality 0
+    degree 9
+    componentnumber 0
+    modularity_class 0
+    id 3646575
+    label "COP"
+    graphics [
+      w 4
+      h 4
+      x -1447.6918
+      y 155.55225
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.92
+    betweenesscentrality 0
+    degree 11
+    componentnumber 0
+    modularity_class 2
+    id 3649005
+    label "DENTON/JACK"
+    graphics [
+      w 4
+      h 4
+      x 178.6674
+      y 2669.271
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.88
+    betweenesscentrality 0
+    degree 13
+    componentnumber 0
+    modularity_class 0
+    id 3646179
+    label "DON'T BE AFRAID"
+    graphics [
+      w 4
+      h 4
+      x -1625.3625
+      y -2114.611
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 2
+    betweenesscentrality 0
+    degree 5
+    componentnumber 0
+    modularity_class 2
+    id 3644886
+    label "ESTHER"
+    graphics [
+      w 4
+      h 4
+      x 222.79382
+      y 1419.87
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 2.026666666666667
+    betweenesscentrality 0
+    degree 3
+    componentnumber 0
+    modularity_class 2
+    id 3645053
+    label "FAMILY"
+    graphics [
+      w 4
+      h 4
+      x 1160.4124
+      y 1408.7817
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 0
+    degree 18
+    componentnumber 0
+    modularity_class 4
+    id 3647367
+    label "FEET"
+    graphics [
+      w 4
+      h 4
+      x 677.882
+      y -2486.2917
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 0
+    degree 18
+    componentnumber 0
+    modularity_class 4
+    id 3647361
+    label "HIGH TIMES, HARD TIMES"
+    graphics [
+      w 4
+      h 4
+      x 1697.5764
+      y -2001.0029
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.92
+    betweenesscentrality 0
+    degree 11
+    componentnumber 0
+    modularity_class 2
+    id 3649016
+    label "JACK/DENTON DAVID/SARAH"
+    graphics [
+      w 4
+      h 4
+      x 920.31995
+      y 2375.916
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 2.72
+    betweenesscentrality 0
+    degree 3
+    componentnumber 0
+    modularity_class 1
+    id 3645202
+    label "JONATHAN"
+    graphics [
+      w 4
+      h 4
+      x 2847.6309
+      y 2013.6146
+      fill "#ff6600"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9466666666666668
+    betweenesscentrality 0
+    degree 7
+    componentnumber 0
+    modularity_class 1
+    id 3647734
+    label "JUDGE"
+    graphics [
+      w 4
+      h 4
+      x 2152.9133
+      y 142.49535
+      fill "#ff6600"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 2.04
+    betweenesscentrality 0
+    degree 2
+    componentnumber 0
+    modularity_class 0
+    id 3644864
+    label "MOB"
+    graphics [
+      w 4
+      h 4
+      x 1067.4744
+      y 1618.3376
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9466666666666668
+    betweenesscentrality 0
+    degree 7
+    componentnumber 0
+    modularity_class 1
+    id 3647712
+    label "MONAHAN"
+    graphics [
+      w 4
+      h 4
+      x 1929.7051
+      y 363.36078
+      fill "#ff6600"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 0
+    degree 18
+    componentnumber 0
+    modularity_class 4
+    id 3647365
+    label "NOTHIN' TO EAT"
+    graphics [
+      w 4
+      h 4
+      x 1523.164
+      y -2679.7327
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 4
+    closnesscentrality 2.4133333333333336
+    betweenesscentrality 0
+    degree 1
+    componentnumber 0
+    modularity_class 4
+    id 3643690
+    label "OFFICER"
+    graphics [
+      w 4
+      h 4
+      x -1916.9465
+      y -1601.3843
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.88
+    betweenesscentrality 0
+    degree 13
+    componentnumber 0
+    modularity_class 0
+    id 3646168
+    label "OPEN THE GATES"
+    graphics [
+      w 4
+      h 4
+      x -1191.7025
+      y -2156.4014
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8533333333333333
+    betweenesscentrality 0
+    degree 15
+    componentnumber 0
+    modularity_class 2
+    id 3645510
+    label "PULITZER AND HEARST"
+    graphics [
+      w 4
+      h 4
+      x -1285.4008
+      y 1411.6669
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 2.04
+    betweenesscentrality 0
+    degree 2
+    componentnumber 0
+    modularity_class 0
+    id 3645122
+    label "SANTA FE"
+    graphics [
+      w 4
+      h 4
+      x -1189.9056
+      y -460.02084
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9333333333333333
+    betweenesscentrality 0
+    degree 10
+    componentnumber 0
+    modularity_class 3
+    id 3643985
+    label "SECOND"
+    graphics [
+      w 4
+      h 4
+      x -2843.2742
+      y -107.81573
+      fill "#ffdc65"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 0
+    degree 18
+    componentnumber 0
+    modularity_class 4
+    id 3647368
+    label "SO WHEN THERE'S DRY TIMES"
+    graphics [
+      w 4
+      h 4
+      x 2071.1519
+      y -1523.4435
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 0
+    degree 18
+    componentnumber 0
+    modularity_class 4
+    id 3647362
+    label "SOMETIMES THE LIVIN' IS"
+    graphics [
+      w 4
+      h 4
+      x 904.1245
+      y -2126.3767
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.92
+    betweenesscentrality 0
+    degree 11
+    componentnumber 0
+    modularity_class 2
+    id 3648922
+    label "SORRY"
+    graphics [
+      w 4
+      h 4
+      x 666.65326
+      y 2714.7185
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.9333333333333333
+    betweenesscentrality 0
+    degree 10
+    componentnumber 0
+    modularity_class 3
+    id 3643952
+    label "STATION"
+    graphics [
+      w 4
+      h 4
+      x -2834.8347
+      y -537.4843
+      fill "#ffdc65"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8133333333333332
+    betweenesscentrality 0
+    degree 18
+    componentnumber 0
+    modularity_class 4
+    id 3647363
+    label "SWEET"
+    graphics [
+      w 4
+      h 4
+      x 1060.8212
+      y -2704.4858
+      fill "#a9d0fd"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 2.026666666666667
+    betweenesscentrality 0
+    degree 3
+    componentnumber 0
+    modularity_class 0
+    id 3646319
+    label "TENPIN"
+    graphics [
+      w 4
+      h 4
+      x -611.3664
+      y -1329.784
+      fill "#ffaa33"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 2.68
+    betweenesscentrality 0
+    degree 1
+    componentnumber 0
+    modularity_class 1
+    id 3646518
+    label "THUG #1"
+    graphics [
+      w 4
+      h 4
+      x -717.09
+      y 2352.302
+      fill "#ff6600"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8533333333333333
+    betweenesscentrality 0
+    degree 15
+    componentnumber 0
+    modularity_class 2
+    id 3645554
+    label "WHAT'S IT GONNA TAKE"
+    graphics [
+      w 4
+      h 4
+      x -923.1455
+      y 1561.9191
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 1.8533333333333333
+    betweenesscentrality 0
+    degree 15
+    componentnumber 0
+    modularity_class 2
+    id 3645601
+    label "WHEN THE CIRCULATION BELL"
+    graphics [
+      w 4
+      h 4
+      x -555.27435
+      y 1254.8274
+      fill "#5fcabe"
+    ]
+  ]
+  node [
+    movie_id 591
+    eccentricity 3
+    closnesscentrality 2.026666666666667
+    betweenesscentrality 0
+    degree 3
+    componentnumber 0
+    modularity_class 2
+    id 3644479
+    label "WOMAN"
+    graphics [
+      w 4
+      h 4
+      x -31.65106
+      y 2140.4207
+      fill "#5fcabe"
+    ]
+  ]
+  edge [
+    movie_id 591
+    id 6594
+    source 3647373
+    target 3643723
+    label 128971
+  ]
+  edge [
+    movie_id 591
+    id 6595
+    source 3647373
+    target 3643599
+    label 128969
+  ]
+  edge [
+    movie_id 591
+    id 6596
+    source 3647373
+    target 3643556
+    label 128968
+  ]
+  edge [
+    movie_id 591
+    id 6597
+    source 3647371
+    target 3647373
+    label 128958
+  ]
+  edge [
+    movie_id 591
+    id 6598
+    source 3647371
+    target 3647372
+    label 128957
+  ]
+  edge [
+    movie_id 591
+    id 6599
+    source 3647371
+    target 3643723
+    label 128962
+  ]
+  edge [
+    movie_id 591
+    id 6600
+    source 3647371
+    target 3643599
+    label 128960
+  ]
+  edge [
+    movie_id 591
+    id 6601
+    source 3647371
+    target 3643556
+    label 128959
+  ]
+  edge [
+    movie_id 591
+    id 6602
+    source 3647372
+    target 3647373
+    label 128963
+  ]
+  edge [
+    movie_id 591
+    id 6603
+    source 3647372
+    target 3643723
+    label 128967
+  ]
+  edge [
+    movie_id 591
+    id 6604
+    source 3647372
+    target 3643599
+    label 128965
+  ]
+  edge [
+    movie_id 591
+    id 6605
+    source 3647372
+    target 3643556
+    label 128964
+  ]
+  edge [
+    movie_id 591
+    id 6606
+    source 3645588
+    target 3645601
+    label 128556
+  ]
+  edge [
+    movie_id 591
+    id 6607
+    source 3646169
+    target 3646180
+    label 128672
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6608
+    source 3646169
+    target 3646179
+    label 128671
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6609
+    source 3647364
+    target 3647373
+    label 128918
+  ]
+  edge [
+    movie_id 591
+    id 6610
+    source 3647364
+    target 3647371
+    label 128916
+  ]
+  edge [
+    movie_id 591
+    id 6611
+    source 3647364
+    target 3647372
+    label 128917
+  ]
+  edge [
+    movie_id 591
+    id 6612
+    source 3647364
+    target 3643723
+    label 128922
+  ]
+  edge [
+    movie_id 591
+    id 6613
+    source 3647364
+    target 3647366
+    label 128913
+  ]
+  edge [
+    movie_id 591
+    id 6614
+    source 3647364
+    target 3647367
+    label 128914
+  ]
+  edge [
+    movie_id 591
+    id 6615
+    source 3647364
+    target 3643599
+    label 128920
+  ]
+  edge [
+    movie_id 591
+    id 6616
+    source 3647364
+    target 3643556
+    label 128919
+  ]
+  edge [
+    movie_id 591
+    id 6617
+    source 3647364
+    target 3647365
+    label 128912
+  ]
+  edge [
+    movie_id 591
+    id 6618
+    source 3647364
+    target 3647368
+    label 128915
+  ]
+  edge [
+    movie_id 591
+    id 6619
+    source 3645538
+    target 3645588
+    label 128546
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6620
+    source 3645538
+    target 3645554
+    label 128544
+  ]
+  edge [
+    movie_id 591
+    id 6621
+    source 3645538
+    target 3645601
+    label 128547
+  ]
+  edge [
+    movie_id 591
+    id 6622
+    source 3647703
+    target 3645769
+    label 128997
+  ]
+  edge [
+    movie_id 591
+    id 6623
+    source 3647703
+    target 3643509
+    label 129000
+  ]
+  edge [
+    movie_id 591
+    id 6624
+    source 3647703
+    target 3647734
+    label 128998
+  ]
+  edge [
+    movie_id 591
+    id 6625
+    source 3647703
+    target 3647712
+    label 128994
+  ]
+  edge [
+    movie_id 591
+    id 6626
+    source 3647703
+    target 3643528
+    label 128996
+  ]
+  edge [
+    movie_id 591
+    id 6627
+    source 3647703
+    target 3644599
+    label 129001
+  ]
+  edge [
+    movie_id 591
+    id 6628
+    source 3647703
+    target 3645927
+    label 128995
+  ]
+  edge [
+    movie_id 591
+    id 6629
+    source 3643723
+    target 3645588
+    label 128451
+  ]
+  edge [
+    movie_id 591
+    id 6630
+    source 3643723
+    target 3645538
+    label 128448
+  ]
+  edge [
+    movie_id 591
+    id 6631
+    source 3643723
+    target 3649728
+    label 129374
+  ]
+  edge [
+    movie_id 591
+    id 6632
+    source 3643723
+    target 3643502
+    label 129256
+  ]
+  edge [
+    movie_id 591
+    id 6633
+    source 3643723
+    target 3644728
+    label 128989
+  ]
+  edge [
+    movie_id 591
+    id 6634
+    source 3643723
+    target 3643546
+    label 128446
+  ]
+  edge [
+    movie_id 591
+    id 6635
+    source 3643723
+    target 3644023
+    label 128286
+  ]
+  edge [
+    movie_id 591
+    id 6636
+    source 3643723
+    target 3645510
+    label 128445
+  ]
+  edge [
+    movie_id 591
+    id 6637
+    source 3643723
+    target 3643528
+    label 129036
+    weight 8
+  ]
+  edge [
+    movie_id 591
+    id 6638
+    source 3643723
+    target 3644952
+    label 129372
+  ]
+  edge [
+    movie_id 591
+    id 6639
+    source 3643723
+    target 3645927
+    label 129039
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6640
+    source 3643723
+    target 3648961
+    label 129258
+  ]
+  edge [
+    movie_id 591
+    id 6641
+    source 3643723
+    target 3644181
+    label 129093
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6642
+    source 3643723
+    target 3645554
+    label 128449
+  ]
+  edge [
+    movie_id 591
+    id 6643
+    source 3643723
+    target 3645601
+    label 128452
+  ]
+  edge [
+    movie_id 591
+    id 6644
+    source 3648935
+    target 3645588
+    label 129199
+  ]
+  edge [
+    movie_id 591
+    id 6645
+    source 3648935
+    target 3645538
+    label 129198
+  ]
+  edge [
+    movie_id 591
+    id 6646
+    source 3648935
+    target 3645769
+    label 129194
+  ]
+  edge [
+    movie_id 591
+    id 6647
+    source 3648935
+    target 3649005
+    label 129195
+  ]
+  edge [
+    movie_id 591
+    id 6648
+    source 3648935
+    target 3649016
+    label 129196
+  ]
+  edge [
+    movie_id 591
+    id 6649
+    source 3648935
+    target 3643674
+    label 129193
+  ]
+  edge [
+    movie_id 591
+    id 6650
+    source 3648935
+    target 3648961
+    label 129192
+  ]
+  edge [
+    movie_id 591
+    id 6651
+    source 3647366
+    target 3647373
+    label 128937
+  ]
+  edge [
+    movie_id 591
+    id 6652
+    source 3647366
+    target 3647371
+    label 128935
+  ]
+  edge [
+    movie_id 591
+    id 6653
+    source 3647366
+    target 3647372
+    label 128936
+  ]
+  edge [
+    movie_id 591
+    id 6654
+    source 3647366
+    target 3643723
+    label 128941
+  ]
+  edge [
+    movie_id 591
+    id 6655
+    source 3647366
+    target 3647367
+    label 128933
+  ]
+  edge [
+    movie_id 591
+    id 6656
+    source 3647366
+    target 3643599
+    label 128939
+  ]
+  edge [
+    movie_id 591
+    id 6657
+    source 3647366
+    target 3643556
+    label 128938
+  ]
+  edge [
+    movie_id 591
+    id 6658
+    source 3647366
+    target 3647368
+    label 128934
+  ]
+  edge [
+    movie_id 591
+    id 6659
+    source 3647105
+    target 3644362
+    label 128778
+  ]
+  edge [
+    movie_id 591
+    id 6660
+    source 3647105
+    target 3644599
+    label 128779
+  ]
+  edge [
+    movie_id 591
+    id 6661
+    source 3646575
+    target 3646087
+    label 128726
+  ]
+  edge [
+    movie_id 591
+    id 6662
+    source 3646575
+    target 3643528
+    label 128723
+  ]
+  edge [
+    movie_id 591
+    id 6663
+    source 3646575
+    target 3646150
+    label 128725
+  ]
+  edge [
+    movie_id 591
+    id 6664
+    source 3646575
+    target 3643618
+    label 128722
+  ]
+  edge [
+    movie_id 591
+    id 6665
+    source 3646575
+    target 3645927
+    label 128721
+  ]
+  edge [
+    movie_id 591
+    id 6666
+    source 3646575
+    target 3644181
+    label 128720
+  ]
+  edge [
+    movie_id 591
+    id 6667
+    source 3643518
+    target 3646180
+    label 128645
+  ]
+  edge [
+    movie_id 591
+    id 6668
+    source 3643518
+    target 3645588
+    label 128465
+  ]
+  edge [
+    movie_id 591
+    id 6669
+    source 3643518
+    target 3646169
+    label 128643
+  ]
+  edge [
+    movie_id 591
+    id 6670
+    source 3643518
+    target 3645538
+    label 128462
+  ]
+  edge [
+    movie_id 591
+    id 6671
+    source 3643518
+    target 3649728
+    label 129352
+  ]
+  edge [
+    movie_id 591
+    id 6672
+    source 3643518
+    target 3643723
+    label 129348
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6673
+    source 3643518
+    target 3643621
+    label 128196
+  ]
+  edge [
+    movie_id 591
+    id 6674
+    source 3643518
+    target 3643670
+    label 128458
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6675
+    source 3643518
+    target 3646179
+    label 128644
+  ]
+  edge [
+    movie_id 591
+    id 6676
+    source 3643518
+    target 3643509
+    label 128289
+    weight 9
+  ]
+  edge [
+    movie_id 591
+    id 6677
+    source 3643518
+    target 3643674
+    label 128457
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6678
+    source 3643518
+    target 3643556
+    label 128454
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6679
+    source 3643518
+    target 3643546
+    label 128175
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6680
+    source 3643518
+    target 3643976
+    label 128641
+  ]
+  edge [
+    movie_id 591
+    id 6681
+    source 3643518
+    target 3643437
+    label 128461
+  ]
+  edge [
+    movie_id 591
+    id 6682
+    source 3643518
+    target 3646168
+    label 128642
+  ]
+  edge [
+    movie_id 591
+    id 6683
+    source 3643518
+    target 3644023
+    label 128288
+  ]
+  edge [
+    movie_id 591
+    id 6684
+    source 3643518
+    target 3645510
+    label 128459
+  ]
+  edge [
+    movie_id 591
+    id 6685
+    source 3643518
+    target 3644952
+    label 129350
+  ]
+  edge [
+    movie_id 591
+    id 6686
+    source 3643518
+    target 3646150
+    label 128640
+  ]
+  edge [
+    movie_id 591
+    id 6687
+    source 3643518
+    target 3643531
+    label 128173
+  ]
+  edge [
+    movie_id 591
+    id 6688
+    source 3643518
+    target 3644599
+    label 128763
+  ]
+  edge [
+    movie_id 591
+    id 6689
+    source 3643518
+    target 3645927
+    label 129349
+  ]
+  edge [
+    movie_id 591
+    id 6690
+    source 3643518
+    target 3645554
+    label 128463
+  ]
+  edge [
+    movie_id 591
+    id 6691
+    source 3643518
+    target 3645601
+    label 128466
+  ]
+  edge [
+    movie_id 591
+    id 6692
+    source 3643670
+    target 3647373
+    label 128853
+  ]
+  edge [
+    movie_id 591
+    id 6693
+    source 3643670
+    target 3646180
+    label 128652
+  ]
+  edge [
+    movie_id 591
+    id 6694
+    source 3643670
+    target 3647371
+    label 128851
+  ]
+  edge [
+    movie_id 591
+    id 6695
+    source 3643670
+    target 3647372
+    label 128852
+  ]
+  edge [
+    movie_id 591
+    id 6696
+    source 3643670
+    target 3645588
+    label 128520
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6697
+    source 3643670
+    target 3646169
+    label 128650
+  ]
+  edge [
+    movie_id 591
+    id 6698
+    source 3643670
+    target 3647364
+    label 128846
+  ]
+  edge [
+    movie_id 591
+    id 6699
+    source 3643670
+    target 3645538
+    label 128517
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6700
+    source 3643670
+    target 3649728
+    label 129380
+  ]
+  edge [
+    movie_id 591
+    id 6701
+    source 3643670
+    target 3643723
+    label 128565
+    weight 5
+  ]
+  edge [
+    movie_id 591
+    id 6702
+    source 3643670
+    target 3648935
+    label 129149
+  ]
+  edge [
+    movie_id 591
+    id 6703
+    source 3643670
+    target 3647366
+    label 128848
+  ]
+  edge [
+    movie_id 591
+    id 6704
+    source 3643670
+    target 3646575
+    label 128695
+  ]
+  edge [
+    movie_id 591
+    id 6705
+    source 3643670
+    target 3649005
+    label 129153
+  ]
+  edge [
+    movie_id 591
+    id 6706
+    source 3643670
+    target 3646179
+    label 128651
+  ]
+  edge [
+    movie_id 591
+    id 6707
+    source 3643670
+    target 3644886
+    label 129122
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6708
+    source 3643670
+    target 3645053
+    label 128381
+  ]
+  edge [
+    movie_id 591
+    id 6709
+    source 3643670
+    target 3647367
+    label 128849
+  ]
+  edge [
+    movie_id 591
+    id 6710
+    source 3643670
+    target 3647361
+    label 128843
+  ]
+  edge [
+    movie_id 591
+    id 6711
+    source 3643670
+    target 3649016
+    label 129154
+  ]
+  edge [
+    movie_id 591
+    id 6712
+    source 3643670
+    target 3643599
+    label 128855
+    weight 4
+  ]
+  edge [
+    movie_id 591
+    id 6713
+    source 3643670
+    target 3643502
+    label 129247
+  ]
+  edge [
+    movie_id 591
+    id 6714
+    source 3643670
+    target 3644864
+    label 128356
+  ]
+  edge [
+    movie_id 591
+    id 6715
+    source 3643670
+    target 3643556
+    label 128854
+    weight 5
+  ]
+  edge [
+    movie_id 591
+    id 6716
+    source 3643670
+    target 3643546
+    label 128515
+  ]
+  edge [
+    movie_id 591
+    id 6717
+    source 3643670
+    target 3643976
+    label 128648
+  ]
+  edge [
+    movie_id 591
+    id 6718
+    source 3643670
+    target 3647365
+    label 128847
+  ]
+  edge [
+    movie_id 591
+    id 6719
+    source 3643670
+    target 3646168
+    label 128649
+  ]
+  edge [
+    movie_id 591
+    id 6720
+    source 3643670
+    target 3646087
+    label 128702
+  ]
+  edge [
+    movie_id 591
+    id 6721
+    source 3643670
+    target 3645510
+    label 128514
+  ]
+  edge [
+    movie_id 591
+    id 6722
+    source 3643670
+    target 3643528
+    label 128699
+    weight 8
+  ]
+  edge [
+    movie_id 591
+    id 6723
+    source 3643670
+    target 3644952
+    label 129124
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6724
+    source 3643670
+    target 3646150
+    label 128647
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6725
+    source 3643670
+    target 3643618
+    label 128698
+  ]
+  edge [
+    movie_id 591
+    id 6726
+    source 3643670
+    target 3644599
+    label 129053
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6727
+    source 3643670
+    target 3647368
+    label 128850
+  ]
+  edge [
+    movie_id 591
+    id 6728
+    source 3643670
+    target 3647362
+    label 128844
+  ]
+  edge [
+    movie_id 591
+    id 6729
+    source 3643670
+    target 3648922
+    label 129147
+  ]
+  edge [
+    movie_id 591
+    id 6730
+    source 3643670
+    target 3645927
+    label 128697
+    weight 4
+  ]
+  edge [
+    movie_id 591
+    id 6731
+    source 3643670
+    target 3647363
+    label 128845
+  ]
+  edge [
+    movie_id 591
+    id 6732
+    source 3643670
+    target 3648961
+    label 129150
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6733
+    source 3643670
+    target 3644181
+    label 128696
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6734
+    source 3643670
+    target 3645554
+    label 128518
+  ]
+  edge [
+    movie_id 591
+    id 6735
+    source 3643670
+    target 3645601
+    label 128521
+  ]
+  edge [
+    movie_id 591
+    id 6736
+    source 3643670
+    target 3644479
+    label 128332
+  ]
+  edge [
+    movie_id 591
+    id 6737
+    source 3645769
+    target 3645588
+    label 129220
+  ]
+  edge [
+    movie_id 591
+    id 6738
+    source 3645769
+    target 3645538
+    label 129219
+  ]
+  edge [
+    movie_id 591
+    id 6739
+    source 3645769
+    target 3649728
+    label 129344
+  ]
+  edge [
+    movie_id 591
+    id 6740
+    source 3645769
+    target 3643723
+    label 129340
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6741
+    source 3645769
+    target 3646575
+    label 128712
+  ]
+  edge [
+    movie_id 591
+    id 6742
+    source 3645769
+    target 3643518
+    label 129336
+  ]
+  edge [
+    movie_id 591
+    id 6743
+    source 3645769
+    target 3643670
+    label 128564
+    weight 5
+  ]
+  edge [
+    movie_id 591
+    id 6744
+    source 3645769
+    target 3649005
+    label 129216
+  ]
+  edge [
+    movie_id 591
+    id 6745
+    source 3645769
+    target 3643509
+    label 129022
+    weight 7
+  ]
+  edge [
+    movie_id 591
+    id 6746
+    source 3645769
+    target 3649016
+    label 129217
+  ]
+  edge [
+    movie_id 591
+    id 6747
+    source 3645769
+    target 3647734
+    label 129020
+  ]
+  edge [
+    movie_id 591
+    id 6748
+    source 3645769
+    target 3643599
+    label 129338
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6749
+    source 3645769
+    target 3643674
+    label 129138
+    weight 4
+  ]
+  edge [
+    movie_id 591
+    id 6750
+    source 3645769
+    target 3643556
+    label 129339
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6751
+    source 3645769
+    target 3646087
+    label 128719
+  ]
+  edge [
+    movie_id 591
+    id 6752
+    source 3645769
+    target 3643528
+    label 128716
+    weight 4
+  ]
+  edge [
+    movie_id 591
+    id 6753
+    source 3645769
+    target 3646150
+    label 128718
+  ]
+  edge [
+    movie_id 591
+    id 6754
+    source 3645769
+    target 3643618
+    label 128715
+  ]
+  edge [
+    movie_id 591
+    id 6755
+    source 3645769
+    target 3644599
+    label 129023
+  ]
+  edge [
+    movie_id 591
+    id 6756
+    source 3649005
+    target 3645588
+    label 129225
+  ]
+  edge [
+    movie_id 591
+    id 6757
+    source 3649005
+    target 3645538
+    label 129224
+  ]
+  edge [
+    movie_id 591
+    id 6758
+    source 3649005
+    target 3649016
+    label 129222
+  ]
+  edge [
+    movie_id 591
+    id 6759
+    source 3646179
+    target 3646180
+    label 128673
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6760
+    source 3644886
+    target 3644952
+    label 129097
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6761
+    source 3647367
+    target 3647373
+    label 128945
+  ]
+  edge [
+    movie_id 591
+    id 6762
+    source 3647367
+    target 3647371
+    label 128943
+  ]
+  edge [
+    movie_id 591
+    id 6763
+    source 3647367
+    target 3647372
+    label 128944
+  ]
+  edge [
+    movie_id 591
+    id 6764
+    source 3647367
+    target 3643723
+    label 128949
+  ]
+  edge [
+    movie_id 591
+    id 6765
+    source 3647367
+    target 3643599
+    label 128947
+  ]
+  edge [
+    movie_id 591
+    id 6766
+    source 3647367
+    target 3643556
+    label 128946
+  ]
+  edge [
+    movie_id 591
+    id 6767
+    source 3647367
+    target 3647368
+    label 128942
+  ]
+  edge [
+    movie_id 591
+    id 6768
+    source 3647361
+    target 3647373
+    label 128882
+  ]
+  edge [
+    movie_id 591
+    id 6769
+    source 3647361
+    target 3647371
+    label 128880
+  ]
+  edge [
+    movie_id 591
+    id 6770
+    source 3647361
+    target 3647372
+    label 128881
+  ]
+  edge [
+    movie_id 591
+    id 6771
+    source 3647361
+    target 3647364
+    label 128875
+  ]
+  edge [
+    movie_id 591
+    id 6772
+    source 3647361
+    target 3643723
+    label 128886
+  ]
+  edge [
+    movie_id 591
+    id 6773
+    source 3647361
+    target 3647366
+    label 128877
+  ]
+  edge [
+    movie_id 591
+    id 6774
+    source 3647361
+    target 3647367
+    label 128878
+  ]
+  edge [
+    movie_id 591
+    id 6775
+    source 3647361
+    target 3643599
+    label 128884
+  ]
+  edge [
+    movie_id 591
+    id 6776
+    source 3647361
+    target 3643556
+    label 128883
+  ]
+  edge [
+    movie_id 591
+    id 6777
+    source 3647361
+    target 3647365
+    label 128876
+  ]
+  edge [
+    movie_id 591
+    id 6778
+    source 3647361
+    target 3647368
+    label 128879
+  ]
+  edge [
+    movie_id 591
+    id 6779
+    source 3647361
+    target 3647362
+    label 128873
+  ]
+  edge [
+    movie_id 591
+    id 6780
+    source 3647361
+    target 3647363
+    label 128874
+  ]
+  edge [
+    movie_id 591
+    id 6781
+    source 3643509
+    target 3647373
+    label 128802
+  ]
+  edge [
+    movie_id 591
+    id 6782
+    source 3643509
+    target 3646180
+    label 128595
+  ]
+  edge [
+    movie_id 591
+    id 6783
+    source 3643509
+    target 3647371
+    label 128800
+  ]
+  edge [
+    movie_id 591
+    id 6784
+    source 3643509
+    target 3647372
+    label 128801
+  ]
+  edge [
+    movie_id 591
+    id 6785
+    source 3643509
+    target 3645588
+    label 128490
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6786
+    source 3643509
+    target 3646169
+    label 128593
+  ]
+  edge [
+    movie_id 591
+    id 6787
+    source 3643509
+    target 3647364
+    label 128795
+  ]
+  edge [
+    movie_id 591
+    id 6788
+    source 3643509
+    target 3645538
+    label 128487
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6789
+    source 3643509
+    target 3647257
+    label 128787
+  ]
+  edge [
+    movie_id 591
+    id 6790
+    source 3643509
+    target 3649728
+    label 129335
+  ]
+  edge [
+    movie_id 591
+    id 6791
+    source 3643509
+    target 3643723
+    label 128806
+    weight 6
+  ]
+  edge [
+    movie_id 591
+    id 6792
+    source 3643509
+    target 3648935
+    label 129161
+  ]
+  edge [
+    movie_id 591
+    id 6793
+    source 3643509
+    target 3647366
+    label 128797
+  ]
+  edge [
+    movie_id 591
+    id 6794
+    source 3643509
+    target 3643621
+    label 128192
+  ]
+  edge [
+    movie_id 591
+    id 6795
+    source 3643509
+    target 3646575
+    label 128704
+  ]
+  edge [
+    movie_id 591
+    id 6796
+    source 3643509
+    target 3643670
+    label 128319
+    weight 18
+  ]
+  edge [
+    movie_id 591
+    id 6797
+    source 3643509
+    target 3649005
+    label 129165
+  ]
+  edge [
+    movie_id 591
+    id 6798
+    source 3643509
+    target 3646179
+    label 128594
+  ]
+  edge [
+    movie_id 591
+    id 6799
+    source 3643509
+    target 3644886
+    label 128364
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6800
+    source 3643509
+    target 3645053
+    label 128379
+  ]
+  edge [
+    movie_id 591
+    id 6801
+    source 3643509
+    target 3647367
+    label 128798
+  ]
+  edge [
+    movie_id 591
+    id 6802
+    source 3643509
+    target 3647361
+    label 128792
+  ]
+  edge [
+    movie_id 591
+    id 6803
+    source 3643509
+    target 3649016
+    label 129166
+  ]
+  edge [
+    movie_id 591
+    id 6804
+    source 3643509
+    target 3643502
+    label 129259
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6805
+    source 3643509
+    target 3643674
+    label 128329
+    weight 12
+  ]
+  edge [
+    movie_id 591
+    id 6806
+    source 3643509
+    target 3644895
+    label 128362
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6807
+    source 3643509
+    target 3643556
+    label 128211
+    weight 5
+  ]
+  edge [
+    movie_id 591
+    id 6808
+    source 3643509
+    target 3643546
+    label 128171
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6809
+    source 3643509
+    target 3643976
+    label 128591
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6810
+    source 3643509
+    target 3643437
+    label 128486
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6811
+    source 3643509
+    target 3647365
+    label 128796
+  ]
+  edge [
+    movie_id 591
+    id 6812
+    source 3643509
+    target 3646168
+    label 128592
+  ]
+  edge [
+    movie_id 591
+    id 6813
+    source 3643509
+    target 3646087
+    label 128586
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6814
+    source 3643509
+    target 3645510
+    label 128484
+  ]
+  edge [
+    movie_id 591
+    id 6815
+    source 3643509
+    target 3645122
+    label 128383
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6816
+    source 3643509
+    target 3646150
+    label 128590
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6817
+    source 3643509
+    target 3643531
+    label 128169
+  ]
+  edge [
+    movie_id 591
+    id 6818
+    source 3643509
+    target 3644599
+    label 129029
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6819
+    source 3643509
+    target 3647368
+    label 128799
+  ]
+  edge [
+    movie_id 591
+    id 6820
+    source 3643509
+    target 3647362
+    label 128793
+  ]
+  edge [
+    movie_id 591
+    id 6821
+    source 3643509
+    target 3648922
+    label 129159
+  ]
+  edge [
+    movie_id 591
+    id 6822
+    source 3643509
+    target 3645927
+    label 128706
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6823
+    source 3643509
+    target 3647363
+    label 128794
+  ]
+  edge [
+    movie_id 591
+    id 6824
+    source 3643509
+    target 3648961
+    label 129162
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6825
+    source 3643509
+    target 3645554
+    label 128488
+  ]
+  edge [
+    movie_id 591
+    id 6826
+    source 3643509
+    target 3645601
+    label 128491
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6827
+    source 3643509
+    target 3644479
+    label 128330
+  ]
+  edge [
+    movie_id 591
+    id 6828
+    source 3644055
+    target 3643723
+    label 128314
+  ]
+  edge [
+    movie_id 591
+    id 6829
+    source 3644055
+    target 3643670
+    label 128295
+  ]
+  edge [
+    movie_id 591
+    id 6830
+    source 3644055
+    target 3643509
+    label 128296
+  ]
+  edge [
+    movie_id 591
+    id 6831
+    source 3644055
+    target 3644152
+    label 128313
+  ]
+  edge [
+    movie_id 591
+    id 6832
+    source 3644055
+    target 3643556
+    label 128312
+  ]
+  edge [
+    movie_id 591
+    id 6833
+    source 3644055
+    target 3643976
+    label 128291
+  ]
+  edge [
+    movie_id 591
+    id 6834
+    source 3644055
+    target 3643978
+    label 128292
+  ]
+  edge [
+    movie_id 591
+    id 6835
+    source 3644055
+    target 3643996
+    label 128294
+  ]
+  edge [
+    movie_id 591
+    id 6836
+    source 3644055
+    target 3643990
+    label 128293
+  ]
+  edge [
+    movie_id 591
+    id 6837
+    source 3649016
+    target 3645588
+    label 129229
+  ]
+  edge [
+    movie_id 591
+    id 6838
+    source 3649016
+    target 3645538
+    label 129228
+  ]
+  edge [
+    movie_id 591
+    id 6839
+    source 3647734
+    target 3643509
+    label 129025
+  ]
+  edge [
+    movie_id 591
+    id 6840
+    source 3647734
+    target 3644599
+    label 129026
+  ]
+  edge [
+    movie_id 591
+    id 6841
+    source 3643599
+    target 3646180
+    label 128607
+  ]
+  edge [
+    movie_id 591
+    id 6842
+    source 3643599
+    target 3645588
+    label 128420
+  ]
+  edge [
+    movie_id 591
+    id 6843
+    source 3643599
+    target 3646169
+    label 128605
+  ]
+  edge [
+    movie_id 591
+    id 6844
+    source 3643599
+    target 3645538
+    label 128417
+  ]
+  edge [
+    movie_id 591
+    id 6845
+    source 3643599
+    target 3649728
+    label 129365
+  ]
+  edge [
+    movie_id 591
+    id 6846
+    source 3643599
+    target 3643723
+    label 128407
+    weight 6
+  ]
+  edge [
+    movie_id 591
+    id 6847
+    source 3643599
+    target 3643621
+    label 128201
+  ]
+  edge [
+    movie_id 591
+    id 6848
+    source 3643599
+    target 3643518
+    label 128213
+    weight 4
+  ]
+  edge [
+    movie_id 591
+    id 6849
+    source 3643599
+    target 3646179
+    label 128606
+  ]
+  edge [
+    movie_id 591
+    id 6850
+    source 3643599
+    target 3643509
+    label 128212
+    weight 4
+  ]
+  edge [
+    movie_id 591
+    id 6851
+    source 3643599
+    target 3643502
+    label 129252
+  ]
+  edge [
+    movie_id 591
+    id 6852
+    source 3643599
+    target 3643556
+    label 128219
+    weight 7
+  ]
+  edge [
+    movie_id 591
+    id 6853
+    source 3643599
+    target 3643546
+    label 128415
+  ]
+  edge [
+    movie_id 591
+    id 6854
+    source 3643599
+    target 3643976
+    label 128603
+  ]
+  edge [
+    movie_id 591
+    id 6855
+    source 3643599
+    target 3643690
+    label 128205
+  ]
+  edge [
+    movie_id 591
+    id 6856
+    source 3643599
+    target 3646168
+    label 128604
+  ]
+  edge [
+    movie_id 591
+    id 6857
+    source 3643599
+    target 3646087
+    label 128598
+  ]
+  edge [
+    movie_id 591
+    id 6858
+    source 3643599
+    target 3645510
+    label 128414
+  ]
+  edge [
+    movie_id 591
+    id 6859
+    source 3643599
+    target 3643528
+    label 128395
+    weight 6
+  ]
+  edge [
+    movie_id 591
+    id 6860
+    source 3643599
+    target 3644952
+    label 129363
+  ]
+  edge [
+    movie_id 591
+    id 6861
+    source 3643599
+    target 3646150
+    label 128602
+  ]
+  edge [
+    movie_id 591
+    id 6862
+    source 3643599
+    target 3643618
+    label 128200
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6863
+    source 3643599
+    target 3645927
+    label 129034
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6864
+    source 3643599
+    target 3648961
+    label 129254
+  ]
+  edge [
+    movie_id 591
+    id 6865
+    source 3643599
+    target 3645554
+    label 128418
+  ]
+  edge [
+    movie_id 591
+    id 6866
+    source 3643599
+    target 3645601
+    label 128421
+  ]
+  edge [
+    movie_id 591
+    id 6867
+    source 3643502
+    target 3643518
+    label 128162
+  ]
+  edge [
+    movie_id 591
+    id 6868
+    source 3643502
+    target 3643546
+    label 128166
+  ]
+  edge [
+    movie_id 591
+    id 6869
+    source 3643502
+    target 3643531
+    label 128164
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6870
+    source 3643502
+    target 3644599
+    label 128767
+  ]
+  edge [
+    movie_id 591
+    id 6871
+    source 3643502
+    target 3648961
+    label 129263
+  ]
+  edge [
+    movie_id 591
+    id 6872
+    source 3643674
+    target 3645588
+    label 128511
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6873
+    source 3643674
+    target 3645538
+    label 128508
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6874
+    source 3643674
+    target 3649728
+    label 129302
+  ]
+  edge [
+    movie_id 591
+    id 6875
+    source 3643674
+    target 3643723
+    label 129298
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6876
+    source 3643674
+    target 3643670
+    label 128504
+    weight 12
+  ]
+  edge [
+    movie_id 591
+    id 6877
+    source 3643674
+    target 3649005
+    label 129210
+  ]
+  edge [
+    movie_id 591
+    id 6878
+    source 3643674
+    target 3644886
+    label 129129
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6879
+    source 3643674
+    target 3649016
+    label 129211
+  ]
+  edge [
+    movie_id 591
+    id 6880
+    source 3643674
+    target 3643599
+    label 129296
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6881
+    source 3643674
+    target 3644895
+    label 129130
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6882
+    source 3643674
+    target 3644728
+    label 128352
+  ]
+  edge [
+    movie_id 591
+    id 6883
+    source 3643674
+    target 3644152
+    label 129111
+  ]
+  edge [
+    movie_id 591
+    id 6884
+    source 3643674
+    target 3643556
+    label 129297
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6885
+    source 3643674
+    target 3643546
+    label 128506
+  ]
+  edge [
+    movie_id 591
+    id 6886
+    source 3643674
+    target 3644023
+    label 129110
+  ]
+  edge [
+    movie_id 591
+    id 6887
+    source 3643674
+    target 3645510
+    label 128505
+  ]
+  edge [
+    movie_id 591
+    id 6888
+    source 3643674
+    target 3643528
+    label 129295
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6889
+    source 3643674
+    target 3644952
+    label 129131
+    weight 5
+  ]
+  edge [
+    movie_id 591
+    id 6890
+    source 3643674
+    target 3644376
+    label 129291
+  ]
+  edge [
+    movie_id 591
+    id 6891
+    source 3643674
+    target 3645927
+    label 129299
+  ]
+  edge [
+    movie_id 591
+    id 6892
+    source 3643674
+    target 3644181
+    label 129290
+  ]
+  edge [
+    movie_id 591
+    id 6893
+    source 3643674
+    target 3645554
+    label 128509
+  ]
+  edge [
+    movie_id 591
+    id 6894
+    source 3643674
+    target 3645601
+    label 128512
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6895
+    source 3643674
+    target 3644479
+    label 128333
+  ]
+  edge [
+    movie_id 591
+    id 6896
+    source 3644895
+    target 3643670
+    label 128369
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6897
+    source 3644895
+    target 3644886
+    label 128368
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6898
+    source 3644895
+    target 3645053
+    label 128382
+  ]
+  edge [
+    movie_id 591
+    id 6899
+    source 3644895
+    target 3644952
+    label 128367
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6900
+    source 3647099
+    target 3647105
+    label 128775
+  ]
+  edge [
+    movie_id 591
+    id 6901
+    source 3647099
+    target 3645202
+    label 129282
+  ]
+  edge [
+    movie_id 591
+    id 6902
+    source 3647099
+    target 3644362
+    label 128776
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6903
+    source 3647099
+    target 3644376
+    label 129281
+  ]
+  edge [
+    movie_id 591
+    id 6904
+    source 3647099
+    target 3644599
+    label 128777
+  ]
+  edge [
+    movie_id 591
+    id 6905
+    source 3644728
+    target 3647373
+    label 128868
+  ]
+  edge [
+    movie_id 591
+    id 6906
+    source 3644728
+    target 3647371
+    label 128866
+  ]
+  edge [
+    movie_id 591
+    id 6907
+    source 3644728
+    target 3647372
+    label 128867
+  ]
+  edge [
+    movie_id 591
+    id 6908
+    source 3644728
+    target 3647364
+    label 128861
+  ]
+  edge [
+    movie_id 591
+    id 6909
+    source 3644728
+    target 3647366
+    label 128863
+  ]
+  edge [
+    movie_id 591
+    id 6910
+    source 3644728
+    target 3643670
+    label 128765
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6911
+    source 3644728
+    target 3647367
+    label 128864
+  ]
+  edge [
+    movie_id 591
+    id 6912
+    source 3644728
+    target 3647361
+    label 128858
+  ]
+  edge [
+    movie_id 591
+    id 6913
+    source 3644728
+    target 3643509
+    label 128764
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6914
+    source 3644728
+    target 3643599
+    label 128870
+  ]
+  edge [
+    movie_id 591
+    id 6915
+    source 3644728
+    target 3643556
+    label 128869
+  ]
+  edge [
+    movie_id 591
+    id 6916
+    source 3644728
+    target 3647365
+    label 128862
+  ]
+  edge [
+    movie_id 591
+    id 6917
+    source 3644728
+    target 3647368
+    label 128865
+  ]
+  edge [
+    movie_id 591
+    id 6918
+    source 3644728
+    target 3647362
+    label 128859
+  ]
+  edge [
+    movie_id 591
+    id 6919
+    source 3644728
+    target 3647363
+    label 128860
+  ]
+  edge [
+    movie_id 591
+    id 6920
+    source 3644864
+    target 3643509
+    label 128358
+  ]
+  edge [
+    movie_id 591
+    id 6921
+    source 3647712
+    target 3645769
+    label 129004
+  ]
+  edge [
+    movie_id 591
+    id 6922
+    source 3647712
+    target 3643509
+    label 129007
+  ]
+  edge [
+    movie_id 591
+    id 6923
+    source 3647712
+    target 3647734
+    label 129005
+  ]
+  edge [
+    movie_id 591
+    id 6924
+    source 3647712
+    target 3643528
+    label 129003
+  ]
+  edge [
+    movie_id 591
+    id 6925
+    source 3647712
+    target 3644599
+    label 129008
+  ]
+  edge [
+    movie_id 591
+    id 6926
+    source 3647712
+    target 3645927
+    label 129002
+  ]
+  edge [
+    movie_id 591
+    id 6927
+    source 3644152
+    target 3643723
+    label 128317
+  ]
+  edge [
+    movie_id 591
+    id 6928
+    source 3644152
+    target 3643670
+    label 129117
+  ]
+  edge [
+    movie_id 591
+    id 6929
+    source 3644152
+    target 3643509
+    label 129118
+  ]
+  edge [
+    movie_id 591
+    id 6930
+    source 3643556
+    target 3646180
+    label 128618
+  ]
+  edge [
+    movie_id 591
+    id 6931
+    source 3643556
+    target 3645588
+    label 128478
+  ]
+  edge [
+    movie_id 591
+    id 6932
+    source 3643556
+    target 3646169
+    label 128616
+  ]
+  edge [
+    movie_id 591
+    id 6933
+    source 3643556
+    target 3645538
+    label 128475
+  ]
+  edge [
+    movie_id 591
+    id 6934
+    source 3643556
+    target 3649728
+    label 129370
+  ]
+  edge [
+    movie_id 591
+    id 6935
+    source 3643556
+    target 3643723
+    label 128316
+    weight 4
+  ]
+  edge [
+    movie_id 591
+    id 6936
+    source 3643556
+    target 3643621
+    label 128187
+  ]
+  edge [
+    movie_id 591
+    id 6937
+    source 3643556
+    target 3646179
+    label 128617
+  ]
+  edge [
+    movie_id 591
+    id 6938
+    source 3643556
+    target 3644152
+    label 128315
+  ]
+  edge [
+    movie_id 591
+    id 6939
+    source 3643556
+    target 3643546
+    label 128473
+  ]
+  edge [
+    movie_id 591
+    id 6940
+    source 3643556
+    target 3643976
+    label 128614
+  ]
+  edge [
+    movie_id 591
+    id 6941
+    source 3643556
+    target 3646168
+    label 128615
+  ]
+  edge [
+    movie_id 591
+    id 6942
+    source 3643556
+    target 3646087
+    label 128609
+  ]
+  edge [
+    movie_id 591
+    id 6943
+    source 3643556
+    target 3645510
+    label 128472
+  ]
+  edge [
+    movie_id 591
+    id 6944
+    source 3643556
+    target 3644952
+    label 129368
+  ]
+  edge [
+    movie_id 591
+    id 6945
+    source 3643556
+    target 3646150
+    label 128613
+  ]
+  edge [
+    movie_id 591
+    id 6946
+    source 3643556
+    target 3645927
+    label 129048
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 6947
+    source 3643556
+    target 3645554
+    label 128476
+  ]
+  edge [
+    movie_id 591
+    id 6948
+    source 3643556
+    target 3645601
+    label 128479
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6949
+    source 3643546
+    target 3645588
+    label 128535
+  ]
+  edge [
+    movie_id 591
+    id 6950
+    source 3643546
+    target 3645538
+    label 128532
+  ]
+  edge [
+    movie_id 591
+    id 6951
+    source 3643546
+    target 3645769
+    label 128537
+  ]
+  edge [
+    movie_id 591
+    id 6952
+    source 3643546
+    target 3643437
+    label 128531
+  ]
+  edge [
+    movie_id 591
+    id 6953
+    source 3643546
+    target 3645554
+    label 128533
+  ]
+  edge [
+    movie_id 591
+    id 6954
+    source 3643546
+    target 3645601
+    label 128536
+  ]
+  edge [
+    movie_id 591
+    id 6955
+    source 3643976
+    target 3646180
+    label 128667
+  ]
+  edge [
+    movie_id 591
+    id 6956
+    source 3643976
+    target 3646169
+    label 128665
+  ]
+  edge [
+    movie_id 591
+    id 6957
+    source 3643976
+    target 3643723
+    label 128251
+  ]
+  edge [
+    movie_id 591
+    id 6958
+    source 3643976
+    target 3646179
+    label 128666
+  ]
+  edge [
+    movie_id 591
+    id 6959
+    source 3643976
+    target 3643978
+    label 128246
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6960
+    source 3643976
+    target 3643996
+    label 128249
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6961
+    source 3643976
+    target 3646168
+    label 128664
+  ]
+  edge [
+    movie_id 591
+    id 6962
+    source 3643976
+    target 3644023
+    label 128253
+  ]
+  edge [
+    movie_id 591
+    id 6963
+    source 3643976
+    target 3643990
+    label 128248
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6964
+    source 3643976
+    target 3643985
+    label 128247
+  ]
+  edge [
+    movie_id 591
+    id 6965
+    source 3643978
+    target 3643723
+    label 128259
+  ]
+  edge [
+    movie_id 591
+    id 6966
+    source 3643978
+    target 3643518
+    label 128260
+  ]
+  edge [
+    movie_id 591
+    id 6967
+    source 3643978
+    target 3643670
+    label 128304
+  ]
+  edge [
+    movie_id 591
+    id 6968
+    source 3643978
+    target 3643509
+    label 128262
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6969
+    source 3643978
+    target 3643996
+    label 128257
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6970
+    source 3643978
+    target 3644023
+    label 128261
+  ]
+  edge [
+    movie_id 591
+    id 6971
+    source 3643978
+    target 3643528
+    label 128258
+  ]
+  edge [
+    movie_id 591
+    id 6972
+    source 3643978
+    target 3643990
+    label 128256
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6973
+    source 3643978
+    target 3643985
+    label 128255
+  ]
+  edge [
+    movie_id 591
+    id 6974
+    source 3643437
+    target 3645588
+    label 128541
+  ]
+  edge [
+    movie_id 591
+    id 6975
+    source 3643437
+    target 3645538
+    label 128538
+  ]
+  edge [
+    movie_id 591
+    id 6976
+    source 3643437
+    target 3643723
+    label 129065
+  ]
+  edge [
+    movie_id 591
+    id 6977
+    source 3643437
+    target 3643670
+    label 129060
+  ]
+  edge [
+    movie_id 591
+    id 6978
+    source 3643437
+    target 3645769
+    label 128543
+  ]
+  edge [
+    movie_id 591
+    id 6979
+    source 3643437
+    target 3643599
+    label 129063
+  ]
+  edge [
+    movie_id 591
+    id 6980
+    source 3643437
+    target 3643674
+    label 129067
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6981
+    source 3643437
+    target 3643556
+    label 129064
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6982
+    source 3643437
+    target 3643528
+    label 129062
+  ]
+  edge [
+    movie_id 591
+    id 6983
+    source 3643437
+    target 3645927
+    label 129061
+  ]
+  edge [
+    movie_id 591
+    id 6984
+    source 3643437
+    target 3644181
+    label 129066
+  ]
+  edge [
+    movie_id 591
+    id 6985
+    source 3643437
+    target 3645554
+    label 128539
+  ]
+  edge [
+    movie_id 591
+    id 6986
+    source 3647365
+    target 3647373
+    label 128928
+  ]
+  edge [
+    movie_id 591
+    id 6987
+    source 3647365
+    target 3647371
+    label 128926
+  ]
+  edge [
+    movie_id 591
+    id 6988
+    source 3647365
+    target 3647372
+    label 128927
+  ]
+  edge [
+    movie_id 591
+    id 6989
+    source 3647365
+    target 3643723
+    label 128932
+  ]
+  edge [
+    movie_id 591
+    id 6990
+    source 3647365
+    target 3647366
+    label 128923
+  ]
+  edge [
+    movie_id 591
+    id 6991
+    source 3647365
+    target 3647367
+    label 128924
+  ]
+  edge [
+    movie_id 591
+    id 6992
+    source 3647365
+    target 3643599
+    label 128930
+  ]
+  edge [
+    movie_id 591
+    id 6993
+    source 3647365
+    target 3643556
+    label 128929
+  ]
+  edge [
+    movie_id 591
+    id 6994
+    source 3647365
+    target 3647368
+    label 128925
+  ]
+  edge [
+    movie_id 591
+    id 6995
+    source 3643996
+    target 3643723
+    label 128277
+  ]
+  edge [
+    movie_id 591
+    id 6996
+    source 3643996
+    target 3643518
+    label 128278
+  ]
+  edge [
+    movie_id 591
+    id 6997
+    source 3643996
+    target 3643670
+    label 128309
+  ]
+  edge [
+    movie_id 591
+    id 6998
+    source 3643996
+    target 3643509
+    label 128280
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 6999
+    source 3643996
+    target 3644023
+    label 128279
+  ]
+  edge [
+    movie_id 591
+    id 7000
+    source 3643996
+    target 3643528
+    label 128276
+  ]
+  edge [
+    movie_id 591
+    id 7001
+    source 3646168
+    target 3646180
+    label 128670
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7002
+    source 3646168
+    target 3646169
+    label 128668
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7003
+    source 3646168
+    target 3646179
+    label 128669
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7004
+    source 3644023
+    target 3643670
+    label 129115
+  ]
+  edge [
+    movie_id 591
+    id 7005
+    source 3644023
+    target 3643509
+    label 128290
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7006
+    source 3644023
+    target 3644152
+    label 129104
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7007
+    source 3646087
+    target 3646180
+    label 128637
+  ]
+  edge [
+    movie_id 591
+    id 7008
+    source 3646087
+    target 3646169
+    label 128635
+  ]
+  edge [
+    movie_id 591
+    id 7009
+    source 3646087
+    target 3643518
+    label 128629
+  ]
+  edge [
+    movie_id 591
+    id 7010
+    source 3646087
+    target 3646179
+    label 128636
+  ]
+  edge [
+    movie_id 591
+    id 7011
+    source 3646087
+    target 3643976
+    label 128633
+  ]
+  edge [
+    movie_id 591
+    id 7012
+    source 3646087
+    target 3646168
+    label 128634
+  ]
+  edge [
+    movie_id 591
+    id 7013
+    source 3644362
+    target 3643670
+    label 129288
+  ]
+  edge [
+    movie_id 591
+    id 7014
+    source 3644362
+    target 3643509
+    label 129052
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7015
+    source 3644362
+    target 3645202
+    label 129284
+  ]
+  edge [
+    movie_id 591
+    id 7016
+    source 3644362
+    target 3644599
+    label 128780
+  ]
+  edge [
+    movie_id 591
+    id 7017
+    source 3645510
+    target 3645588
+    label 128528
+  ]
+  edge [
+    movie_id 591
+    id 7018
+    source 3645510
+    target 3645538
+    label 128525
+  ]
+  edge [
+    movie_id 591
+    id 7019
+    source 3645510
+    target 3645769
+    label 128530
+  ]
+  edge [
+    movie_id 591
+    id 7020
+    source 3645510
+    target 3643546
+    label 128523
+  ]
+  edge [
+    movie_id 591
+    id 7021
+    source 3645510
+    target 3643437
+    label 128524
+  ]
+  edge [
+    movie_id 591
+    id 7022
+    source 3645510
+    target 3645554
+    label 128526
+  ]
+  edge [
+    movie_id 591
+    id 7023
+    source 3645510
+    target 3645601
+    label 128529
+  ]
+  edge [
+    movie_id 591
+    id 7024
+    source 3643528
+    target 3647373
+    label 128820
+  ]
+  edge [
+    movie_id 591
+    id 7025
+    source 3643528
+    target 3646180
+    label 128582
+  ]
+  edge [
+    movie_id 591
+    id 7026
+    source 3643528
+    target 3647371
+    label 128818
+  ]
+  edge [
+    movie_id 591
+    id 7027
+    source 3643528
+    target 3647372
+    label 128819
+  ]
+  edge [
+    movie_id 591
+    id 7028
+    source 3643528
+    target 3645588
+    label 128436
+  ]
+  edge [
+    movie_id 591
+    id 7029
+    source 3643528
+    target 3646169
+    label 128580
+  ]
+  edge [
+    movie_id 591
+    id 7030
+    source 3643528
+    target 3647364
+    label 128813
+  ]
+  edge [
+    movie_id 591
+    id 7031
+    source 3643528
+    target 3645538
+    label 128433
+  ]
+  edge [
+    movie_id 591
+    id 7032
+    source 3643528
+    target 3649728
+    label 129359
+  ]
+  edge [
+    movie_id 591
+    id 7033
+    source 3643528
+    target 3647366
+    label 128815
+  ]
+  edge [
+    movie_id 591
+    id 7034
+    source 3643528
+    target 3643621
+    label 128199
+  ]
+  edge [
+    movie_id 591
+    id 7035
+    source 3643528
+    target 3643518
+    label 128282
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 7036
+    source 3643528
+    target 3646179
+    label 128581
+  ]
+  edge [
+    movie_id 591
+    id 7037
+    source 3643528
+    target 3647367
+    label 128816
+  ]
+  edge [
+    movie_id 591
+    id 7038
+    source 3643528
+    target 3647361
+    label 128810
+  ]
+  edge [
+    movie_id 591
+    id 7039
+    source 3643528
+    target 3643509
+    label 128207
+    weight 9
+  ]
+  edge [
+    movie_id 591
+    id 7040
+    source 3643528
+    target 3647734
+    label 129016
+  ]
+  edge [
+    movie_id 591
+    id 7041
+    source 3643528
+    target 3643502
+    label 129241
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 7042
+    source 3643528
+    target 3644728
+    label 128809
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7043
+    source 3643528
+    target 3643556
+    label 128208
+    weight 8
+  ]
+  edge [
+    movie_id 591
+    id 7044
+    source 3643528
+    target 3643546
+    label 128178
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7045
+    source 3643528
+    target 3643976
+    label 128578
+  ]
+  edge [
+    movie_id 591
+    id 7046
+    source 3643528
+    target 3647365
+    label 128814
+  ]
+  edge [
+    movie_id 591
+    id 7047
+    source 3643528
+    target 3646168
+    label 128579
+  ]
+  edge [
+    movie_id 591
+    id 7048
+    source 3643528
+    target 3644023
+    label 128283
+  ]
+  edge [
+    movie_id 591
+    id 7049
+    source 3643528
+    target 3646087
+    label 128573
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7050
+    source 3643528
+    target 3645510
+    label 128430
+  ]
+  edge [
+    movie_id 591
+    id 7051
+    source 3643528
+    target 3644952
+    label 129357
+  ]
+  edge [
+    movie_id 591
+    id 7052
+    source 3643528
+    target 3646150
+    label 128577
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7053
+    source 3643528
+    target 3644599
+    label 129019
+  ]
+  edge [
+    movie_id 591
+    id 7054
+    source 3643528
+    target 3647368
+    label 128817
+  ]
+  edge [
+    movie_id 591
+    id 7055
+    source 3643528
+    target 3647362
+    label 128811
+  ]
+  edge [
+    movie_id 591
+    id 7056
+    source 3643528
+    target 3645927
+    label 128748
+    weight 4
+  ]
+  edge [
+    movie_id 591
+    id 7057
+    source 3643528
+    target 3647363
+    label 128812
+  ]
+  edge [
+    movie_id 591
+    id 7058
+    source 3643528
+    target 3648961
+    label 129243
+  ]
+  edge [
+    movie_id 591
+    id 7059
+    source 3643528
+    target 3644181
+    label 129084
+    weight 4
+  ]
+  edge [
+    movie_id 591
+    id 7060
+    source 3643528
+    target 3645554
+    label 128434
+  ]
+  edge [
+    movie_id 591
+    id 7061
+    source 3643528
+    target 3645601
+    label 128437
+  ]
+  edge [
+    movie_id 591
+    id 7062
+    source 3643990
+    target 3643723
+    label 128272
+  ]
+  edge [
+    movie_id 591
+    id 7063
+    source 3643990
+    target 3643518
+    label 128273
+  ]
+  edge [
+    movie_id 591
+    id 7064
+    source 3643990
+    target 3643670
+    label 128307
+  ]
+  edge [
+    movie_id 591
+    id 7065
+    source 3643990
+    target 3643509
+    label 128275
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7066
+    source 3643990
+    target 3643996
+    label 128270
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7067
+    source 3643990
+    target 3644023
+    label 128274
+  ]
+  edge [
+    movie_id 591
+    id 7068
+    source 3643990
+    target 3643528
+    label 128271
+  ]
+  edge [
+    movie_id 591
+    id 7069
+    source 3645122
+    target 3643518
+    label 129059
+  ]
+  edge [
+    movie_id 591
+    id 7070
+    source 3644952
+    target 3645588
+    label 129190
+  ]
+  edge [
+    movie_id 591
+    id 7071
+    source 3644952
+    target 3645538
+    label 129189
+  ]
+  edge [
+    movie_id 591
+    id 7072
+    source 3644952
+    target 3649728
+    label 129379
+  ]
+  edge [
+    movie_id 591
+    id 7073
+    source 3644952
+    target 3648935
+    label 129182
+  ]
+  edge [
+    movie_id 591
+    id 7074
+    source 3644952
+    target 3645769
+    label 129185
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7075
+    source 3644952
+    target 3649005
+    label 129186
+  ]
+  edge [
+    movie_id 591
+    id 7076
+    source 3644952
+    target 3643509
+    label 128773
+    weight 6
+  ]
+  edge [
+    movie_id 591
+    id 7077
+    source 3644952
+    target 3649016
+    label 129187
+  ]
+  edge [
+    movie_id 591
+    id 7078
+    source 3644952
+    target 3644152
+    label 129107
+  ]
+  edge [
+    movie_id 591
+    id 7079
+    source 3644952
+    target 3644023
+    label 129106
+  ]
+  edge [
+    movie_id 591
+    id 7080
+    source 3644952
+    target 3648961
+    label 129183
+  ]
+  edge [
+    movie_id 591
+    id 7081
+    source 3643985
+    target 3643723
+    label 128266
+  ]
+  edge [
+    movie_id 591
+    id 7082
+    source 3643985
+    target 3643518
+    label 128267
+  ]
+  edge [
+    movie_id 591
+    id 7083
+    source 3643985
+    target 3643509
+    label 128269
+  ]
+  edge [
+    movie_id 591
+    id 7084
+    source 3643985
+    target 3643996
+    label 128264
+  ]
+  edge [
+    movie_id 591
+    id 7085
+    source 3643985
+    target 3644023
+    label 128268
+  ]
+  edge [
+    movie_id 591
+    id 7086
+    source 3643985
+    target 3643528
+    label 128265
+  ]
+  edge [
+    movie_id 591
+    id 7087
+    source 3643985
+    target 3643990
+    label 128263
+  ]
+  edge [
+    movie_id 591
+    id 7088
+    source 3644376
+    target 3649728
+    label 129325
+  ]
+  edge [
+    movie_id 591
+    id 7089
+    source 3644376
+    target 3643723
+    label 129321
+  ]
+  edge [
+    movie_id 591
+    id 7090
+    source 3644376
+    target 3643518
+    label 129317
+  ]
+  edge [
+    movie_id 591
+    id 7091
+    source 3644376
+    target 3643670
+    label 129324
+  ]
+  edge [
+    movie_id 591
+    id 7092
+    source 3644376
+    target 3645769
+    label 129316
+  ]
+  edge [
+    movie_id 591
+    id 7093
+    source 3644376
+    target 3643509
+    label 129286
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7094
+    source 3644376
+    target 3645202
+    label 129285
+  ]
+  edge [
+    movie_id 591
+    id 7095
+    source 3644376
+    target 3643599
+    label 129319
+  ]
+  edge [
+    movie_id 591
+    id 7096
+    source 3644376
+    target 3643556
+    label 129320
+  ]
+  edge [
+    movie_id 591
+    id 7097
+    source 3644376
+    target 3644362
+    label 128676
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 7098
+    source 3644376
+    target 3643528
+    label 129318
+  ]
+  edge [
+    movie_id 591
+    id 7099
+    source 3644376
+    target 3644952
+    label 129323
+  ]
+  edge [
+    movie_id 591
+    id 7100
+    source 3644376
+    target 3645927
+    label 129322
+  ]
+  edge [
+    movie_id 591
+    id 7101
+    source 3646150
+    target 3646180
+    label 128663
+  ]
+  edge [
+    movie_id 591
+    id 7102
+    source 3646150
+    target 3646169
+    label 128661
+  ]
+  edge [
+    movie_id 591
+    id 7103
+    source 3646150
+    target 3646179
+    label 128662
+  ]
+  edge [
+    movie_id 591
+    id 7104
+    source 3646150
+    target 3643976
+    label 128659
+  ]
+  edge [
+    movie_id 591
+    id 7105
+    source 3646150
+    target 3646168
+    label 128660
+  ]
+  edge [
+    movie_id 591
+    id 7106
+    source 3646150
+    target 3646087
+    label 128747
+  ]
+  edge [
+    movie_id 591
+    id 7107
+    source 3643618
+    target 3646180
+    label 128628
+  ]
+  edge [
+    movie_id 591
+    id 7108
+    source 3643618
+    target 3646169
+    label 128626
+  ]
+  edge [
+    movie_id 591
+    id 7109
+    source 3643618
+    target 3643621
+    label 128202
+  ]
+  edge [
+    movie_id 591
+    id 7110
+    source 3643618
+    target 3643518
+    label 128620
+  ]
+  edge [
+    movie_id 591
+    id 7111
+    source 3643618
+    target 3646179
+    label 128627
+  ]
+  edge [
+    movie_id 591
+    id 7112
+    source 3643618
+    target 3643509
+    label 128397
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 7113
+    source 3643618
+    target 3643556
+    label 128396
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7114
+    source 3643618
+    target 3643976
+    label 128624
+  ]
+  edge [
+    movie_id 591
+    id 7115
+    source 3643618
+    target 3646168
+    label 128625
+  ]
+  edge [
+    movie_id 591
+    id 7116
+    source 3643618
+    target 3646087
+    label 128619
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7117
+    source 3643618
+    target 3643528
+    label 128399
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7118
+    source 3643618
+    target 3646150
+    label 128623
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7119
+    source 3643531
+    target 3643546
+    label 128180
+  ]
+  edge [
+    movie_id 591
+    id 7120
+    source 3643531
+    target 3643528
+    label 128772
+  ]
+  edge [
+    movie_id 591
+    id 7121
+    source 3644599
+    target 3643674
+    label 128339
+  ]
+  edge [
+    movie_id 591
+    id 7122
+    source 3644599
+    target 3644376
+    label 129055
+  ]
+  edge [
+    movie_id 591
+    id 7123
+    source 3644599
+    target 3643531
+    label 128770
+  ]
+  edge [
+    movie_id 591
+    id 7124
+    source 3647368
+    target 3647373
+    label 128952
+  ]
+  edge [
+    movie_id 591
+    id 7125
+    source 3647368
+    target 3647371
+    label 128950
+  ]
+  edge [
+    movie_id 591
+    id 7126
+    source 3647368
+    target 3647372
+    label 128951
+  ]
+  edge [
+    movie_id 591
+    id 7127
+    source 3647368
+    target 3643723
+    label 128956
+  ]
+  edge [
+    movie_id 591
+    id 7128
+    source 3647368
+    target 3643599
+    label 128954
+  ]
+  edge [
+    movie_id 591
+    id 7129
+    source 3647368
+    target 3643556
+    label 128953
+  ]
+  edge [
+    movie_id 591
+    id 7130
+    source 3647362
+    target 3647373
+    label 128895
+  ]
+  edge [
+    movie_id 591
+    id 7131
+    source 3647362
+    target 3647371
+    label 128893
+  ]
+  edge [
+    movie_id 591
+    id 7132
+    source 3647362
+    target 3647372
+    label 128894
+  ]
+  edge [
+    movie_id 591
+    id 7133
+    source 3647362
+    target 3647364
+    label 128888
+  ]
+  edge [
+    movie_id 591
+    id 7134
+    source 3647362
+    target 3643723
+    label 128899
+  ]
+  edge [
+    movie_id 591
+    id 7135
+    source 3647362
+    target 3647366
+    label 128890
+  ]
+  edge [
+    movie_id 591
+    id 7136
+    source 3647362
+    target 3647367
+    label 128891
+  ]
+  edge [
+    movie_id 591
+    id 7137
+    source 3647362
+    target 3643599
+    label 128897
+  ]
+  edge [
+    movie_id 591
+    id 7138
+    source 3647362
+    target 3643556
+    label 128896
+  ]
+  edge [
+    movie_id 591
+    id 7139
+    source 3647362
+    target 3647365
+    label 128889
+  ]
+  edge [
+    movie_id 591
+    id 7140
+    source 3647362
+    target 3647368
+    label 128892
+  ]
+  edge [
+    movie_id 591
+    id 7141
+    source 3647362
+    target 3647363
+    label 128887
+  ]
+  edge [
+    movie_id 591
+    id 7142
+    source 3648922
+    target 3645588
+    label 129180
+  ]
+  edge [
+    movie_id 591
+    id 7143
+    source 3648922
+    target 3645538
+    label 129179
+  ]
+  edge [
+    movie_id 591
+    id 7144
+    source 3648922
+    target 3648935
+    label 129172
+  ]
+  edge [
+    movie_id 591
+    id 7145
+    source 3648922
+    target 3645769
+    label 129175
+  ]
+  edge [
+    movie_id 591
+    id 7146
+    source 3648922
+    target 3649005
+    label 129176
+  ]
+  edge [
+    movie_id 591
+    id 7147
+    source 3648922
+    target 3649016
+    label 129177
+  ]
+  edge [
+    movie_id 591
+    id 7148
+    source 3648922
+    target 3643674
+    label 129174
+  ]
+  edge [
+    movie_id 591
+    id 7149
+    source 3648922
+    target 3644952
+    label 129171
+  ]
+  edge [
+    movie_id 591
+    id 7150
+    source 3648922
+    target 3648961
+    label 129173
+  ]
+  edge [
+    movie_id 591
+    id 7151
+    source 3645927
+    target 3647373
+    label 128837
+  ]
+  edge [
+    movie_id 591
+    id 7152
+    source 3645927
+    target 3647371
+    label 128835
+  ]
+  edge [
+    movie_id 591
+    id 7153
+    source 3645927
+    target 3647372
+    label 128836
+  ]
+  edge [
+    movie_id 591
+    id 7154
+    source 3645927
+    target 3647364
+    label 128830
+  ]
+  edge [
+    movie_id 591
+    id 7155
+    source 3645927
+    target 3649728
+    label 129377
+  ]
+  edge [
+    movie_id 591
+    id 7156
+    source 3645927
+    target 3647366
+    label 128832
+  ]
+  edge [
+    movie_id 591
+    id 7157
+    source 3645927
+    target 3645769
+    label 128756
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 7158
+    source 3645927
+    target 3647367
+    label 128833
+  ]
+  edge [
+    movie_id 591
+    id 7159
+    source 3645927
+    target 3647361
+    label 128827
+  ]
+  edge [
+    movie_id 591
+    id 7160
+    source 3645927
+    target 3647734
+    label 129011
+  ]
+  edge [
+    movie_id 591
+    id 7161
+    source 3645927
+    target 3644728
+    label 128826
+  ]
+  edge [
+    movie_id 591
+    id 7162
+    source 3645927
+    target 3647365
+    label 128831
+  ]
+  edge [
+    movie_id 591
+    id 7163
+    source 3645927
+    target 3646087
+    label 128737
+  ]
+  edge [
+    movie_id 591
+    id 7164
+    source 3645927
+    target 3644952
+    label 129375
+  ]
+  edge [
+    movie_id 591
+    id 7165
+    source 3645927
+    target 3646150
+    label 128736
+  ]
+  edge [
+    movie_id 591
+    id 7166
+    source 3645927
+    target 3643618
+    label 128733
+  ]
+  edge [
+    movie_id 591
+    id 7167
+    source 3645927
+    target 3644599
+    label 129014
+  ]
+  edge [
+    movie_id 591
+    id 7168
+    source 3645927
+    target 3647368
+    label 128834
+  ]
+  edge [
+    movie_id 591
+    id 7169
+    source 3645927
+    target 3647362
+    label 128828
+  ]
+  edge [
+    movie_id 591
+    id 7170
+    source 3645927
+    target 3647363
+    label 128829
+  ]
+  edge [
+    movie_id 591
+    id 7171
+    source 3645927
+    target 3644181
+    label 129079
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7172
+    source 3643952
+    target 3643723
+    label 128242
+  ]
+  edge [
+    movie_id 591
+    id 7173
+    source 3643952
+    target 3643518
+    label 128243
+  ]
+  edge [
+    movie_id 591
+    id 7174
+    source 3643952
+    target 3643509
+    label 128245
+  ]
+  edge [
+    movie_id 591
+    id 7175
+    source 3643952
+    target 3643976
+    label 128236
+  ]
+  edge [
+    movie_id 591
+    id 7176
+    source 3643952
+    target 3643978
+    label 128237
+  ]
+  edge [
+    movie_id 591
+    id 7177
+    source 3643952
+    target 3643996
+    label 128240
+  ]
+  edge [
+    movie_id 591
+    id 7178
+    source 3643952
+    target 3644023
+    label 128244
+  ]
+  edge [
+    movie_id 591
+    id 7179
+    source 3643952
+    target 3643528
+    label 128241
+  ]
+  edge [
+    movie_id 591
+    id 7180
+    source 3643952
+    target 3643990
+    label 128239
+  ]
+  edge [
+    movie_id 591
+    id 7181
+    source 3643952
+    target 3643985
+    label 128238
+  ]
+  edge [
+    movie_id 591
+    id 7182
+    source 3647363
+    target 3647373
+    label 128907
+  ]
+  edge [
+    movie_id 591
+    id 7183
+    source 3647363
+    target 3647371
+    label 128905
+  ]
+  edge [
+    movie_id 591
+    id 7184
+    source 3647363
+    target 3647372
+    label 128906
+  ]
+  edge [
+    movie_id 591
+    id 7185
+    source 3647363
+    target 3647364
+    label 128900
+  ]
+  edge [
+    movie_id 591
+    id 7186
+    source 3647363
+    target 3643723
+    label 128911
+  ]
+  edge [
+    movie_id 591
+    id 7187
+    source 3647363
+    target 3647366
+    label 128902
+  ]
+  edge [
+    movie_id 591
+    id 7188
+    source 3647363
+    target 3647367
+    label 128903
+  ]
+  edge [
+    movie_id 591
+    id 7189
+    source 3647363
+    target 3643599
+    label 128909
+  ]
+  edge [
+    movie_id 591
+    id 7190
+    source 3647363
+    target 3643556
+    label 128908
+  ]
+  edge [
+    movie_id 591
+    id 7191
+    source 3647363
+    target 3647365
+    label 128901
+  ]
+  edge [
+    movie_id 591
+    id 7192
+    source 3647363
+    target 3647368
+    label 128904
+  ]
+  edge [
+    movie_id 591
+    id 7193
+    source 3646319
+    target 3643518
+    label 128681
+  ]
+  edge [
+    movie_id 591
+    id 7194
+    source 3646319
+    target 3643670
+    label 128680
+  ]
+  edge [
+    movie_id 591
+    id 7195
+    source 3646319
+    target 3643509
+    label 128679
+  ]
+  edge [
+    movie_id 591
+    id 7196
+    source 3648961
+    target 3645588
+    label 129207
+  ]
+  edge [
+    movie_id 591
+    id 7197
+    source 3648961
+    target 3645538
+    label 129206
+  ]
+  edge [
+    movie_id 591
+    id 7198
+    source 3648961
+    target 3645769
+    label 129202
+  ]
+  edge [
+    movie_id 591
+    id 7199
+    source 3648961
+    target 3649005
+    label 129203
+  ]
+  edge [
+    movie_id 591
+    id 7200
+    source 3648961
+    target 3649016
+    label 129204
+  ]
+  edge [
+    movie_id 591
+    id 7201
+    source 3648961
+    target 3643674
+    label 129201
+  ]
+  edge [
+    movie_id 591
+    id 7202
+    source 3644181
+    target 3649728
+    label 129314
+  ]
+  edge [
+    movie_id 591
+    id 7203
+    source 3644181
+    target 3643518
+    label 129306
+  ]
+  edge [
+    movie_id 591
+    id 7204
+    source 3644181
+    target 3645769
+    label 129305
+  ]
+  edge [
+    movie_id 591
+    id 7205
+    source 3644181
+    target 3643509
+    label 128981
+    weight 3
+  ]
+  edge [
+    movie_id 591
+    id 7206
+    source 3644181
+    target 3643599
+    label 129308
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7207
+    source 3644181
+    target 3644728
+    label 128982
+  ]
+  edge [
+    movie_id 591
+    id 7208
+    source 3644181
+    target 3644152
+    label 129103
+  ]
+  edge [
+    movie_id 591
+    id 7209
+    source 3644181
+    target 3643556
+    label 129309
+    weight 2
+  ]
+  edge [
+    movie_id 591
+    id 7210
+    source 3644181
+    target 3644023
+    label 129102
+  ]
+  edge [
+    movie_id 591
+    id 7211
+    source 3644181
+    target 3646087
+    label 128732
+  ]
+  edge [
+    movie_id 591
+    id 7212
+    source 3644181
+    target 3644362
+    label 128677
+  ]
+  edge [
+    movie_id 591
+    id 7213
+    source 3644181
+    target 3644952
+    label 129312
+  ]
+  edge [
+    movie_id 591
+    id 7214
+    source 3644181
+    target 3644376
+    label 129303
+  ]
+  edge [
+    movie_id 591
+    id 7215
+    source 3644181
+    target 3646150
+    label 128731
+  ]
+  edge [
+    movie_id 591
+    id 7216
+    source 3644181
+    target 3643618
+    label 128728
+  ]
+  edge [
+    movie_id 591
+    id 7217
+    source 3644181
+    target 3646518
+    label 128686
+  ]
+  edge [
+    movie_id 591
+    id 7218
+    source 3645554
+    target 3645588
+    label 128550
+  ]
+  edge [
+    movie_id 591
+    id 7219
+    source 3645554
+    target 3645769
+    label 128552
+  ]
+  edge [
+    movie_id 591
+    id 7220
+    source 3645554
+    target 3645601
+    label 128551
+  ]
+  edge [
+    movie_id 591
+    id 7221
+    source 3645601
+    target 3645769
+    label 128558
+  ]
+  edge [
+    movie_id 591
+    id 7222
+    source 3645601
+    target 3643437
+    label 129277
+  ]
+]
@@ -0,0 +1,370 @@
+#!/usr/bin/env node
+import fs from "fs";
+import path from "path";
+import {GraphFormat, GraphFormatConverter} from "./types";
+
+/**
+ * The usage of the command line interface
+ */
+const usage = `Usage: graph-format-converter convert [input...] [options]
+
+Convert graphs from a format to another, the formats being inferred from the extensions of the files.
+The inputs can be files or glob patterns (such as "data/*.gexf"), the standard input being read when there is no input or when the input is "-".
+
+Options:
+  -o, --output <path>  The output file, or the output directory when several inputs are converted (the standard output by default)
+  -f, --from <format>  The format of the inputs (inferred from their extension, or detected from their content, by default)
+  -t, --to <format>    The format of the outputs (inferred from the extension of the output file by default)
+  -h, --help           Display this help
+  -v, --version        Display the version
+
+Formats: ${["json", "graphology", "gexf", "graphml", "gml", "dot", "pajek", "csv", "cytoscape", "nodelink", "jgf", "graphson", "cypher"].join(", ")}
+`;
+
+/**
+ * The formats inferred from the extensions of the files
+ */
+const formatsByExtension: { [extension: string]: GraphFormat } = {
+    ".gexf": "gexf",
+    ".graphml": "graphml",
+    ".xml": "graphml",
+    ".gml": "gml",
+    ".dot": "dot",
+    ".gv": "dot",
+    ".net": "pajek",
+    ".pajek": "pajek",
+    ".csv": "csv",
+    ".jgf": "jgf",
+    ".graphson": "graphson",
+    ".cypher": "cypher",
+    ".cql": "cypher"
+};
+
+/**
+ * The extensions of the files written for each format
+ */
+const extensionsByFormat: { [format in GraphFormat]: string } = {
+    json: ".json",
+    graphology: ".json",
+    gexf: ".gexf",
+    graphml: ".graphml",
+    gml: ".gml",
+    dot: ".dot",
+    pajek: ".net",
+    csv: ".csv",
+    cytoscape: ".json",
+    nodelink: ".json",
+    jgf: ".jgf.json",
+    graphson: ".graphson",
+    cypher: ".cypher"
+};
+
+/**
+ * The writers of each format, the CSV one writing a nodes table and an edges table
+ */
+const writers: { [format in GraphFormat]: (graph: GraphFormatConverter) => string | { nodes: string, edges: string } } = {
+    json: (graph) => JSON.stringify(graph.toJson(), null, "\t"),
+    graphology: (graph) => JSON.stringify(graph.toGraphology(), null, "\t"),
+    gexf: (graph) => graph.toGexf(),
+    graphml: (graph) => graph.toGraphml(),
+    gml: (graph) => graph.toGml(),
+    dot: (graph) => graph.toDot(),
+    pajek: (graph) => graph.toPajek(),
+    csv: (graph) => graph.toCsv(),
+    cytoscape: (graph) => JSON.stringify(graph.toCytoscape(), null, "\t"),
+    nodelink: (graph) => JSON.stringify(graph.toNodeLink(), null, "\t"),
+    jgf: (graph) => JSON.stringify(graph.toJgf(), null, "\t"),
+    graphson: (graph) => graph.toGraphSON(),
+    cypher: (graph) => graph.toCypher()
+};
+
+/**
+ * The options of the command line
+ */
+interface ICliOptions {
+    inputs: string[];
+    output?: string;
+    from?: GraphFormat;
+    to?: GraphFormat;
+}
+
+/**
+ * An error of the command line usage
+ */
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+
+        // The prototype is lost when extending Error with an ES5 target
+        Object.setPrototypeOf(this, UsageError.prototype);
+    }
+}
+
+/**
+ * Get a format given in the command line
+ * @param format The format
+ */
+const getFormat = (format: string | undefined): GraphFormat => {
+    if (format === undefined || !Object.keys(writers).includes(format.toLowerCase())) {
+        throw new UsageError(`Unknown format '${format}', the supported formats are ${Object.keys(writers).join(", ")}`);
+    }
+    return format.toLowerCase() as GraphFormat;
+};
+
+/**
+ * Parse the arguments of the 'convert' command
+ * @param args The arguments following the command
+ */
+const parseArguments = (args: string[]): ICliOptions => {
+    const options: ICliOptions = {inputs: []};
+    for (let index = 0; index < args.length; index++) {
+        const argument = args[index];
+
+        // The options can be given as '--option value' or as '--option=value'
+        const [name, inlineValue] = argument.startsWith("--") && argument.includes("=") ? [argument.slice(0, argument.indexOf("=")), argument.slice(argument.indexOf("=") + 1)] : [argument, undefined];
+        const getValue = (): string => {
+            const value = inlineValue !== undefined ? inlineValue : args[++index];
+            if (value === undefined) {
+                throw new UsageError(`The option ${name} needs a value`);
+            }
+            return value;
+        };
+
+        switch (name) {
+            case "-o":
+            case "--output":
+                options.output = getValue();
+                break;
+            case "-f":
+            case "--from":
+                options.from = getFormat(getValue());
+                break;
+            case "-t":
+            case "--to":
+                options.to = getFormat(getValue());
+                break;
+            default:
+                if (name.startsWith("-") && name !== "-") {
+                    throw new UsageError(`Unknown option ${name}`);
+                }
+                options.inputs.push(argument);
+        }
+    }
+    return options;
+};
+
+/**
+ * Get a regular expression from a glob pattern ('**' matching any directory, '*' and '?' matching the characters of a name)
+ * @param pattern The glob pattern
+ */
+const globToRegExp = (pattern: string): RegExp => {
+    const source = pattern.replace(/\*\*\/|\*\*|\*|\?|[.+^${}()|[\]\\]/g, (token) => {
+        switch (token) {
+            case "**/":
+                return "(?:.*/)?";
+            case "**":
+                return ".*";
+            case "*":
+                return "[^/]*";
+            case "?":
+                return "[^/]";
+            default:
+                return `\\${token}`;
+        }
+    });
+    return new RegExp(`^${source}$`);
+};
+
+/**
+ * Get the files matching an input, which can be a glob pattern
+ * @param input The input file or glob pattern
+ */
+const expandInput = (input: string): string[] => {
+    const normalizedInput = input.split(path.sep).join("/");
+    if (!/[*?]/.test(normalizedInput)) {
+        return [input];
+    }
+
+    // The files are searched from the deepest directory without any glob character
+    const segments = normalizedInput.split("/");
+    const firstGlobSegment = segments.findIndex((segment) => /[*?]/.test(segment));
+    const baseDirectory = segments.slice(0, firstGlobSegment).join("/");
+    const matcher = globToRegExp(normalizedInput);
+    const files: string[] = [];
+
+    // Without '**', the directories are not searched deeper than the pattern
+    const maximumDepth = normalizedInput.includes("**") ? Infinity : segments.length - firstGlobSegment - 1;
+    const walk = (directory: string, depth: number) => {
+        if (!fs.existsSync(directory === "" ? "." : directory)) {
+            return;
+        }
+        fs.readdirSync(directory === "" ? "." : directory, {withFileTypes: true}).forEach((entry) => {
+            const entryPath = directory === "" ? entry.name : `${directory}/${entry.name}`;
+            if (entry.isDirectory()) {
+                if (depth < maximumDepth) {
+                    walk(entryPath, depth + 1);
+                }
+            } else if (matcher.test(entryPath)) {
+                files.push(entryPath);
+            }
+        });
+    };
+    walk(baseDirectory, 0);
+    return files.sort();
+};
+
+/**
+ * Get the name of a file without its extension (a CSV table keeping the name of its graph, without '.nodes' or '.edges')
+ * @param file The file
+ */
+const getBaseName = (file: string): string => {
+    return path.basename(file).replace(/(?:\.(?:nodes|edges)\.csv|\.jgf\.json|\.[^.]*)$/i, "");
+};
+
+/**
+ * Read the standard input
+ */
+const readStandardInput = (): string => {
+    return fs.readFileSync(0, "utf8");
+};
+
+/**
+ * Read a graph from a file (or from the standard input), the format being forced, inferred from the extension or detected from the content
+ * @param input The input file, '-' for the standard input
+ * @param format The forced format of the input
+ */
+const readGraph = (input: string, format?: GraphFormat): GraphFormatConverter => {
+    const graphData = input === "-" ? readStandardInput() : fs.readFileSync(input, "utf8");
+    const inputFormat = format !== undefined ? format : formatsByExtension[path.extname(input).toLowerCase()];
+
+    // The edges table of a CSV graph is read along with its nodes table, if there is one
+    if (inputFormat === "csv" && input !== "-") {
+        const nodesFile = input.replace(/\.edges\.csv$/i, ".nodes.csv");
+        return GraphFormatConverter.from({
+            nodes: nodesFile !== input && fs.existsSync(nodesFile) ? fs.readFileSync(nodesFile, "utf8") : undefined,
+            edges: graphData
+        }, "csv");
+    }
+
+    return GraphFormatConverter.from(graphData, inputFormat);
+};
+
+/**
+ * Write a graph to a file, or to the standard output when there is no file
+ * @param graph The graph
+ * @param format The format of the output
+ * @param output The output file
+ */
+const writeGraph = (graph: GraphFormatConverter, format: GraphFormat, output?: string) => {
+    const result = writers[format](graph);
+
+    // The CSV graph is written as a nodes table and an edges table
+    if (typeof result !== "string") {
+        if (output === undefined) {
+            throw new UsageError("The CSV format is written as two tables, thus it needs an output file");
+        }
+        const baseName = output.replace(/(?:\.(?:nodes|edges))?\.csv$/i, "");
+        fs.writeFileSync(`${baseName}.nodes.csv`, result.nodes);
+        fs.writeFileSync(`${baseName}.edges.csv`, result.edges);
+        return;
+    }
+
+    if (output === undefined) {
+        process.stdout.write(result.endsWith("\n") ? result : `${result}\n`);
+    } else {
+        fs.writeFileSync(output, result);
+    }
+};
+
+/**
+ * Run the 'convert' command
+ * @param options The options of the command line
+ * @return number The exit code
+ */
+const convert = (options: ICliOptions): number => {
+    const inputs = options.inputs.length === 0 ? ["-"] : options.inputs.reduce((files: string[], input) => files.concat(input === "-" ? [input] : expandInput(input)), []);
+
+    // The nodes tables are read along with their edges table
+    const files = inputs.filter((input) => !/\.nodes\.csv$/i.test(input) || !inputs.includes(input.replace(/\.nodes\.csv$/i, ".edges.csv")));
+    if (files.length === 0) {
+        throw new UsageError(`No file matches ${options.inputs.join(", ")}`);
+    }
+
+    // Several inputs are converted into an output directory
+    const isBatch = files.length > 1 || (options.output !== undefined && fs.existsSync(options.output) && fs.statSync(options.output).isDirectory());
+    if (isBatch && options.output === undefined) {
+        throw new UsageError("Several inputs need an output directory");
+    }
+    const outputFormat = options.to !== undefined ? options.to : (options.output !== undefined && !isBatch ? formatsByExtension[path.extname(options.output).toLowerCase()] : undefined);
+    if (outputFormat === undefined) {
+        throw new UsageError("The output format cannot be inferred, it needs to be given with --to");
+    }
+    if (isBatch && options.output !== undefined) {
+        fs.mkdirSync(options.output, {recursive: true});
+    }
+
+    // The files having the same name in a batch (such as 'Movie.gexf' and 'Movie.graphml') keep their extension in the name of their output
+    const getOutput = (file: string): string | undefined => {
+        if (!isBatch || options.output === undefined) {
+            return options.output;
+        }
+        const isNameShared = files.some((otherFile) => otherFile !== file && getBaseName(otherFile) === getBaseName(file));
+        return path.join(options.output, `${isNameShared ? path.basename(file) : getBaseName(file)}${extensionsByFormat[outputFormat]}`);
+    };
+
+    // A file that cannot be converted does not prevent the others from being converted
+    let exitCode = 0;
+    files.forEach((file) => {
+        try {
+            const graph = readGraph(file, options.from);
+            writeGraph(graph, outputFormat, getOutput(file));
+        } catch (e) {
+            if (e instanceof UsageError) {
+                throw e;
+            }
+            process.stderr.write(`Unable to convert ${file === "-" ? "the standard input" : file}: ${e instanceof Error ? e.message : e}\n`);
+            exitCode = 1;
+        }
+    });
+    return exitCode;
+};
+
+/**
+ * Run the command line interface
+ * @param args The arguments of the command line
+ * @return number The exit code
+ */
+export const run = (args: string[]): number => {
+    try {
+        if (args.length === 0 || args.includes("-h") || args.includes("--help")) {
+            process.stdout.write(usage);
+            return args.length === 0 ? 2 : 0;
+        }
+        if (args.includes("-v") || args.includes("--version")) {
+            process.stdout.write(`${JSON.parse(fs.readFileSync(path.join(__dirname, "..", "package.json"), "utf8")).version}\n`);
+            return 0;
+        }
+        if (args[0] !== "convert") {
+            throw new UsageError(`Unknown command '${args[0]}'`);
+        }
+        return convert(parseArguments(args.slice(1)));
+    } catch (e) {
+        process.stderr.write(`${e instanceof Error ? e.message : e}\n`);
+        if (e instanceof UsageError) {
+            process.stderr.write("Run 'graph-format-converter --help' to see the usage\n");
+            return 2;
+        }
+        return 1;
+    }
+};
+
+if (require.main === module) {
+
+    // The standard output can be closed by the command it is piped to (such as 'head')
+    process.stdout.on("error", (error: NodeJS.ErrnoException) => {
+        if (error.code !== "EPIPE") {
+            throw error;
+        }
+    });
+    process.exitCode = run(process.argv.slice(2));
+}
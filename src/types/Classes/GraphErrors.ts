@@ -0,0 +1,59 @@
+import {IErrorLocation} from "../Interfaces";
+
+/**
+ * Get the message of an error followed by its location in the graph data
+ * @param message The message of the error
+ * @param location The location of the error
+ */
+const getLocatedMessage = (message: string, location: IErrorLocation): string => {
+    if (location.line !== undefined) {
+        return `${message} (line ${location.line}${location.column !== undefined ? `, column ${location.column}` : ""})`;
+    }
+    if (location.path !== undefined) {
+        return `${message} (at ${location.path})`;
+    }
+    return message;
+};
+
+/**
+ * The error thrown when the graph data cannot be parsed, with the location of the error in the graph data when it is known
+ */
+export class GraphParseError extends Error implements IErrorLocation {
+
+    /**
+     * The line of the error in a text graph data (starting at 1)
+     */
+    public line?: number;
+
+    /**
+     * The column of the error in a text graph data (starting at 1)
+     */
+    public column?: number;
+
+    /**
+     * The JSON path of the error in a JSON graph data ('edges[12].source')
+     */
+    public path?: string;
+
+    /**
+     * The constructor of the error
+     * @param message The message of the error
+     * @param location The location of the error in the graph data
+     */
+    constructor(message: string, location: IErrorLocation = {}) {
+        super(getLocatedMessage(message, location));
+
+        // The prototype is lost when extending Error with an ES5 target
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = new.target.name;
+        this.line = location.line;
+        this.column = location.column;
+        this.path = location.path;
+    }
+}
+
+/**
+ * The error thrown when the graph data can be parsed but does not describe a valid graph (a missing element, an edge referencing an unknown node...)
+ */
+export class GraphValidationError extends GraphParseError {
+}
@@ -1,13 +1,14 @@
-import {XMLBuilder, XMLParser} from "fast-xml-parser";
-import {IAttribute, IEdgeAttribute, IGraphAttribute, INodeAttribute} from "../Interfaces";
+import {XMLBuilder, XMLParser, XMLValidator} from "fast-xml-parser";
+import {IAttribute, ICoercionError, ICollapseOptions, IConversionWarning, ICsvOptions, ICypherOptions, ICytoscapeOptions, IDetectedFormat, IDiagnostic, IDotOptions, IDynamicAttributeValue, IEdge, IEdgeAttribute, IErrorLocation, IGraphAttribute, IGraphSONOptions, INode, INodeAttribute, IReaderOptions, ISpell, IValidationIssue, IValidationOptions, IWriterOptions, IXmlElementRule, IXmlWriterOptions} from "../Interfaces";
 import tinycolor2 from "tinycolor2";
-import {AttributeType} from "../Types";
-import {AbstractGraph, Attributes, SerializedEdge, SerializedGraph, SerializedNode} from "graphology-types";
+import {AttributeType, GraphFormat, TimeFormat, WriterResult} from "../Types";
+import {AbstractGraph, Attributes, GraphOptions, SerializedEdge, SerializedGraph, SerializedNode} from "graphology-types";
+import {GraphParseError, GraphValidationError} from "./GraphErrors";
 
 /**
- * The GraphFormatConverter class
+ * The GraphFormatConverter class, the attributes of its nodes and its edges being of the types 'N' and 'E'
  */
-export class GraphFormatConverter {
+export class GraphFormatConverter<N extends Attributes = Attributes, E extends Attributes = Attributes> {
 
     /**
      * The options of the parser
@@ -18,7 +19,11 @@ export class GraphFormatConverter {
         allowBooleanAttributes: true,
         removeNSPrefix: true,
         parseAttributeValue: true,
-        format: true
+        format: true,
+
+        // The values of the attributes are kept as they are written, to be coerced to the type of their attribute
+        attributeValueProcessor: (name: string, value: string, jPath: string): any => name === "value" && jPath.endsWith("attvalue") ? null : value,
+        tagValueProcessor: (tagName: string, value: string): any => ["data", "default", "options"].includes(tagName) ? null : value
     };
     /**
      * The options of the builder
@@ -33,6 +38,123 @@ export class GraphFormatConverter {
         format: true
     };
 
+    /**
+     * The element field of the Gephi spreadsheet columns
+     */
+    private static csvHeaders: { [column: string]: string } = {
+        Id: "id",
+        Label: "label",
+        Source: "source",
+        Target: "target",
+        Type: "type",
+        Weight: "weight",
+        X: "x",
+        Y: "y",
+        Z: "z",
+        Size: "size",
+        Color: "color"
+    };
+
+    /**
+     * The options of the parser of the structural check, the values being kept as they are written and every element being in an array
+     */
+    private static schemaParserOptions = {
+        ignoreAttributes: false,
+        attributeNamePrefix: "@_@_@_",
+        allowBooleanAttributes: true,
+        parseAttributeValue: false,
+        parseTagValue: false,
+        isArray: (name: string, jPath: string, isLeafNode: boolean, isAttribute: boolean) => !isAttribute
+    };
+
+    /**
+     * The time attributes of the GEXF elements
+     */
+    private static gexfTimeAttributes: IXmlElementRule["attributes"] = {start: "string", end: "string", startopen: "string", endopen: "string", timestamp: "string"};
+
+    /**
+     * The structural rules of the GEXF 1.3 format (a hand-written subset of gexf.xsd and viz.xsd), the elements being known by their name without their namespace prefix
+     * or, when their rules depend on it, by the name of their parent and their name
+     */
+    private static gexfSchema: { [element: string]: IXmlElementRule } = {
+        "gexf": {attributes: {version: ["1.3"], variant: "string"}, requiredAttributes: ["version"], children: ["meta", "graph"], requiredChildren: ["graph"]},
+        "meta": {attributes: {lastmodifieddate: "string"}, children: ["creator", "keywords", "description"]},
+        "creator": {attributes: {}, children: []},
+        "keywords": {attributes: {}, children: []},
+        "description": {attributes: {}, children: []},
+        "graph": {
+            attributes: {
+                id: "string", mode: ["static", "dynamic"], defaultedgetype: ["directed", "undirected", "mutual"], timeformat: ["integer", "double", "date", "dateTime"],
+                timerepresentation: ["interval", "timestamp"], timezone: "string", ...GraphFormatConverter.gexfTimeAttributes
+            },
+            children: ["attributes", "nodes", "edges"]
+        },
+        "attributes": {attributes: {class: ["node", "edge"], mode: ["static", "dynamic"], ...GraphFormatConverter.gexfTimeAttributes}, requiredAttributes: ["class"], children: ["attribute"]},
+        "attribute": {
+            attributes: {
+                id: "string", title: "string", type: ["integer", "long", "double", "float", "boolean", "string", "anyURI", "byte", "short", "char", "date", "bigdecimal", "biginteger",
+                    "liststring", "listboolean", "listinteger", "listlong", "listfloat", "listdouble", "listbyte", "listshort", "listchar", "listdate", "listbigdecimal", "listbiginteger"]
+            },
+            requiredAttributes: ["id", "title", "type"],
+            children: ["default", "options"]
+        },
+        "default": {attributes: {}, children: []},
+        "options": {attributes: {}, children: []},
+        "nodes": {attributes: {count: "integer"}, children: ["node"]},
+        "node": {attributes: {id: "string", label: "string", pid: "string", ...GraphFormatConverter.gexfTimeAttributes}, requiredAttributes: ["id"], children: ["attvalues", "spells", "nodes", "edges", "parents", "color", "position", "size", "shape"]},
+        "edges": {attributes: {count: "integer"}, children: ["edge"]},
+        "edge": {
+            attributes: {id: "string", source: "string", target: "string", type: ["directed", "undirected", "mutual"], weight: "double", label: "string", kind: "string", ...GraphFormatConverter.gexfTimeAttributes},
+            requiredAttributes: ["id", "source", "target"],
+            children: ["attvalues", "spells", "color", "thickness", "shape"]
+        },
+        "attvalues": {attributes: {}, children: ["attvalue"]},
+        "attvalue": {attributes: {for: "string", value: "string", ...GraphFormatConverter.gexfTimeAttributes}, requiredAttributes: ["for", "value"], children: []},
+        "spells": {attributes: {}, children: ["spell"]},
+        "spell": {attributes: GraphFormatConverter.gexfTimeAttributes, children: []},
+        "parents": {attributes: {}, children: ["parent"]},
+        "parent": {attributes: {for: "string"}, requiredAttributes: ["for"], children: []},
+        "color": {attributes: {r: "color", g: "color", b: "color", a: "opacity", hex: "string", ...GraphFormatConverter.gexfTimeAttributes}, requiredAttributes: ["r", "g", "b"], children: ["spells"]},
+        "position": {attributes: {x: "double", y: "double", z: "double", ...GraphFormatConverter.gexfTimeAttributes}, children: ["spells"]},
+        "size": {attributes: {value: "double", ...GraphFormatConverter.gexfTimeAttributes}, requiredAttributes: ["value"], children: ["spells"]},
+        "thickness": {attributes: {value: "double", ...GraphFormatConverter.gexfTimeAttributes}, requiredAttributes: ["value"], children: ["spells"]},
+        "node/shape": {attributes: {value: ["disc", "square", "triangle", "diamond", "image"], uri: "string", ...GraphFormatConverter.gexfTimeAttributes}, requiredAttributes: ["value"], children: ["spells"]},
+        "edge/shape": {attributes: {value: ["solid", "dotted", "dashed", "double"], ...GraphFormatConverter.gexfTimeAttributes}, requiredAttributes: ["value"], children: ["spells"]}
+    };
+
+    /**
+     * The structural rules of the Graphml format (a hand-written subset of graphml.xsd), the elements being known by their name without their namespace prefix
+     */
+    private static graphmlSchema: { [element: string]: IXmlElementRule } = {
+        "graphml": {attributes: {}, children: ["desc", "key", "data", "graph"]},
+        "desc": {attributes: {}, children: []},
+        "key": {
+            attributes: {id: "string", for: ["graph", "node", "edge", "hyperedge", "port", "endpoint", "graphml", "all"], "attr.name": "string", "attr.type": ["boolean", "int", "long", "float", "double", "string"]},
+            requiredAttributes: ["id"],
+            children: ["desc", "default"]
+        },
+        "default": {attributes: {}, children: []},
+        "graph": {attributes: {id: "string", edgedefault: ["directed", "undirected"]}, requiredAttributes: ["edgedefault"], children: ["desc", "data", "node", "edge", "hyperedge", "locator"]},
+        "node": {attributes: {id: "string"}, requiredAttributes: ["id"], children: ["desc", "data", "port", "graph", "locator"]},
+        "edge": {attributes: {id: "string", source: "string", target: "string", directed: "boolean", sourceport: "string", targetport: "string"}, requiredAttributes: ["source", "target"], children: ["desc", "data", "graph"]},
+        "data": {attributes: {key: "string", id: "string"}, requiredAttributes: ["key"], children: []}
+    };
+
+    /**
+     * The values of the attributes that could not be coerced to the type of their attribute while reading the graph
+     */
+    private coercionErrors: ICoercionError[] = [];
+
+    /**
+     * The elements that could not be read and have been skipped by a lenient reader
+     */
+    private diagnostics: IDiagnostic[] = [];
+
+    /**
+     * The ids generated for the edges that did not have one
+     */
+    private generatedEdgeIds = new Set<string>();
+
     /**
      * The constructor of the graph
      * @param nodes The nodes of the graph
@@ -47,14 +169,249 @@ export class GraphFormatConverter {
         edgeType: "undirected",
         mode: "static"
     }) {
+
+        // The edges without id get one, for every format to be able to refer to them
+        const edgeIds = new Set<string>(edges.filter(GraphFormatConverter.hasId).map((edge) => `${edge.id}`));
+        edges.forEach((edge, index) => {
+            if (!GraphFormatConverter.hasId(edge)) {
+                edge.id = GraphFormatConverter.getGeneratedEdgeId(index, edgeIds);
+                edgeIds.add(edge.id);
+                this.generatedEdgeIds.add(edge.id);
+            }
+        });
+    }
+
+    /**
+     * Create a graph from any of the supported formats, the format being detected from the graph data
+     * @param graphData The data of the graph, as a string (XML, JSON or text format), as a JSON object or as CSV tables
+     * @param format The format of the graph data, to skip the detection
+     * @param options The options of the reader
+     * @return GraphFormatConverter The Graph from the graph data
+     */
+    public static from = (graphData: string | { [key: string]: any } | any[], format?: GraphFormat, options: IReaderOptions = {}): GraphFormatConverter => {
+
+        // We first need to know which reader to use
+        const detectedFormat: IDetectedFormat = format !== undefined ? {format, confidence: 1, reason: "The format has been given"} : GraphFormatConverter.detectFormat(graphData);
+        if (detectedFormat.format === undefined) {
+
+            // A JSON string that cannot be parsed is located
+            if (typeof graphData === "string" && /^\s*[[{]/.test(graphData)) {
+                GraphFormatConverter.parseJson(graphData);
+            }
+            throw new Error(`Unable to detect the format of the graph: ${detectedFormat.reason}`);
+        }
+
+        // The JSON formats given as strings are parsed before being read
+        const isJsonString = typeof graphData === "string" && !["gexf", "graphml", "gml", "dot", "pajek", "csv", "graphson", "cypher"].includes(detectedFormat.format);
+        const data: any = isJsonString ? GraphFormatConverter.parseJson(graphData as string) : graphData;
+
+        switch (detectedFormat.format) {
+            case "json":
+                return GraphFormatConverter.fromJson(data, options);
+            case "graphology":
+                return GraphFormatConverter.fromGraphology(data, options);
+            case "gexf":
+                return GraphFormatConverter.fromGexf(data, options);
+            case "graphml":
+                return GraphFormatConverter.fromGraphml(data, options);
+            case "gml":
+                return GraphFormatConverter.fromGml(data, options);
+            case "dot":
+                return GraphFormatConverter.fromDot(data, options);
+            case "pajek":
+                return GraphFormatConverter.fromPajek(data, options);
+            case "csv":
+                return GraphFormatConverter.fromCsv(typeof data === "string" ? {edges: data} : data, {...options, delimiter: GraphFormatConverter.getCsvDelimiter(typeof data === "string" ? data : data.edges)});
+            case "cytoscape":
+                return GraphFormatConverter.fromCytoscape(data, options);
+            case "nodelink":
+                return GraphFormatConverter.fromNodeLink(data, options);
+            case "jgf":
+                return GraphFormatConverter.fromJgf(data, options);
+            case "graphson":
+                return GraphFormatConverter.fromGraphSON(typeof data === "string" ? data : JSON.stringify(data), options);
+            case "cypher":
+                return GraphFormatConverter.fromCypher(data, options);
+            default:
+                throw new Error(`The format '${detectedFormat.format}' is not supported`);
+        }
+    }
+
+    /**
+     * Detect the format of graph data
+     * @param graphData The data of the graph, as a string (XML, JSON or text format), as a JSON object or as CSV tables
+     * @return IDetectedFormat The detected format with the confidence and the reason of the detection
+     */
+    public static detectFormat = (graphData: string | { [key: string]: any } | any[]): IDetectedFormat => {
+
+        // The objects are detected from their structure
+        if (typeof graphData !== "string") {
+            return GraphFormatConverter.detectJsonFormat(graphData);
+        }
+
+        // The XML formats are detected from their root element, skipping the declaration, the comments and the doctype
+        const content = graphData.replace(/^\uFEFF/, "").trim();
+        if (content.startsWith("<")) {
+            const rootElement = /^<(?:[\w.-]+:)?([\w.-]+)/.exec(content.replace(/^(?:<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<![^>]*>|\s+)*/, ""));
+            if (rootElement !== null && rootElement[1].toLowerCase() === "gexf") {
+                return {format: "gexf", confidence: 1, reason: "The root element of the XML document is 'gexf'"};
+            }
+            if (rootElement !== null && rootElement[1].toLowerCase() === "graphml") {
+                return {format: "graphml", confidence: 1, reason: "The root element of the XML document is 'graphml'"};
+            }
+            return {confidence: 0, reason: `The root element of the XML document is ${rootElement !== null ? `'${rootElement[1]}'` : "missing"} whereas 'gexf' or 'graphml' were expected`};
+        }
+
+        // The JSON strings are detected from their structure
+        if (content.startsWith("{") || content.startsWith("[")) {
+            try {
+                return GraphFormatConverter.detectJsonFormat(JSON.parse(content));
+            } catch (e) {
+
+                // A GraphSON adjacency list has one JSON vertex by line, thus it is not a JSON document
+                const firstLine = content.split(/\r?\n/)[0];
+                try {
+                    const vertex = JSON.parse(firstLine);
+                    if (GraphFormatConverter.isGraphSONVertex(vertex)) {
+                        return {format: "graphson", confidence: 0.9, reason: "Each line of the string is a GraphSON vertex"};
+                    }
+                } catch (lineError) {
+                    // The first line is not a JSON object either
+                }
+                return {confidence: 0, reason: `The string looks like JSON but cannot be parsed: ${e}`};
+            }
+        }
+
+        // Then the text formats are detected from their first meaningful statement
+        if (/^(?:(?:#[^\n]*\n|\/\/[^\n]*\n|\/\*[\s\S]*?\*\/)\s*)*(?:strict\s+)?(?:di)?graph\s*(?:[\w"][^{[;]*)?\{/i.test(content)) {
+            return {format: "dot", confidence: 0.9, reason: "The string starts with a DOT '(di)graph {' statement"};
+        }
+        if (/^(?:#[^\n]*\n\s*)*(?:\w+\s+(?:"[^"]*"|[^\s[\]]+)\s+)*graph\s*\[/i.test(content)) {
+            return {format: "gml", confidence: 0.9, reason: "The string contains a GML 'graph [' list"};
+        }
+        if (/^(?:%[^\n]*\n\s*)*\*(?:network|vertices)\b/i.test(content)) {
+            return {format: "pajek", confidence: 0.9, reason: "The string starts with a Pajek '*Vertices' or '*Network' section"};
+        }
+        if (/^(?:(?:\/\/[^\n]*\n|\/\*[\s\S]*?\*\/)\s*)*CREATE\s*\(/i.test(content)) {
+            return {format: "cypher", confidence: 0.8, reason: "The string starts with a Cypher 'CREATE' clause"};
+        }
+        if (GraphFormatConverter.isCsvEdgesTable(content)) {
+            return {format: "csv", confidence: 0.7, reason: "The header of the string has 'Source' and 'Target' columns"};
+        }
+
+        return {confidence: 0, reason: "The string is neither XML, JSON nor one of the supported text formats"};
+    }
+
+    /**
+     * Detect the format of a JSON graph from its structure
+     * @param graphData The JSON graph
+     */
+    private static detectJsonFormat = (graphData: any): IDetectedFormat => {
+
+        if (graphData === null || typeof graphData !== "object") {
+            return {confidence: 0, reason: "The graph data is neither a string nor an object"};
+        }
+
+        // A flat array of elements is a Cytoscape.js one
+        if (Array.isArray(graphData)) {
+            if (graphData.length > 0 && graphData.every((element) => element !== null && typeof element === "object" && element.data !== undefined)) {
+                return {format: "cytoscape", confidence: 0.9, reason: "The graph data is an array of elements having a 'data' object"};
+            }
+            return {confidence: 0, reason: "The graph data is an array that is not made of Cytoscape.js elements"};
+        }
+
+        // The CSV tables are given as strings
+        if (typeof graphData.edges === "string") {
+            return GraphFormatConverter.isCsvEdgesTable(graphData.edges) ?
+                {format: "csv", confidence: 0.9, reason: "The edges of the graph data are a table having 'Source' and 'Target' columns"} :
+                {format: "csv", confidence: 0.6, reason: "The edges of the graph data are a string"};
+        }
+
+        if (GraphFormatConverter.isGraphSONVertex(graphData)) {
+            return {format: "graphson", confidence: 0.9, reason: "The graph data is a GraphSON vertex"};
+        }
+        if (Array.isArray(graphData.links)) {
+            return {format: "nodelink", confidence: 0.9, reason: "The graph data has a 'links' array"};
+        }
+        if (graphData.elements !== undefined) {
+            return {format: "cytoscape", confidence: 0.9, reason: "The graph data has an 'elements' key"};
+        }
+
+        // The nodes of a JSON Graph Format document are inside its graph (whereas the node-link graph attributes can also be in a 'graph' key)
+        if ((graphData.graph !== undefined && graphData.nodes === undefined) || Array.isArray(graphData.graphs)) {
+            return {format: "jgf", confidence: 0.9, reason: "The graph data has a 'graph' or a 'graphs' key"};
+        }
+
+        if (Array.isArray(graphData.nodes)) {
+
+            // Graphology identifies its nodes with a 'key' whereas the JSON format uses an 'id'
+            const firstNode = graphData.nodes.find((node: any) => node !== null && typeof node === "object");
+            if (firstNode !== undefined && firstNode.key !== undefined) {
+                return {format: "graphology", confidence: 0.9, reason: "The nodes of the graph data are identified by a 'key'"};
+            }
+            if (firstNode !== undefined && firstNode.id !== undefined) {
+                return graphData.directed !== undefined || graphData.multigraph !== undefined ?
+                    {format: "nodelink", confidence: 0.8, reason: "The nodes of the graph data are identified by an 'id' and the graph data has a 'directed' or a 'multigraph' key"} :
+                    {format: "json", confidence: 0.9, reason: "The nodes of the graph data are identified by an 'id'"};
+            }
+            if (graphData.options !== undefined) {
+                return {format: "graphology", confidence: 0.7, reason: "The graph data has Graphology 'options'"};
+            }
+            return {format: "json", confidence: 0.5, reason: "The graph data has a 'nodes' array"};
+        }
+
+        return {confidence: 0, reason: "The graph data does not have any 'nodes', 'links', 'elements', 'graph' or 'graphs' key"};
+    }
+
+    /**
+     * Know if a JSON object is a GraphSON vertex
+     * @param element The JSON object
+     */
+    private static isGraphSONVertex = (element: any): boolean => {
+        return element !== null && typeof element === "object" && (element["@type"] === "g:Vertex" || (element.id !== undefined && (element.outE !== undefined || element.inE !== undefined) && element.nodes === undefined));
+    }
+
+    /**
+     * Get the delimiter of a CSV table from its header
+     * @param table The CSV table
+     */
+    private static getCsvDelimiter = (table: string): string => {
+        const header = table.replace(/^\uFEFF/, "").split(/\r?\n/)[0];
+        return [",", ";", "\t"].reduce((delimiter, currentDelimiter) => header.split(currentDelimiter).length > header.split(delimiter).length ? currentDelimiter : delimiter, ",");
+    }
+
+    /**
+     * Know if a CSV table is an edges table, which has 'Source' and 'Target' columns
+     * @param table The CSV table
+     */
+    private static isCsvEdgesTable = (table: string): boolean => {
+        const header = table.replace(/^\uFEFF/, "").split(/\r?\n/)[0];
+        const columns = header.split(GraphFormatConverter.getCsvDelimiter(table)).map((column) => column.trim().replace(/^"|"$/g, "").toLowerCase());
+        return columns.includes("source") && columns.includes("target");
     }
 
     /**
      * Create a graph from a JSON set of nodes and edges
-     * @param graphData The data of the graph as JSON
+     * @param jsonGraphData The data of the graph as JSON
+     * @param options The options of the reader
+     * @return GraphFormatConverter The Graph from the JSON graph data
+     */
+    public static fromJson = <N extends Attributes = Attributes, E extends Attributes = Attributes>(jsonGraphData: { nodes: any[], edges: any[], attributes?: IGraphAttribute }, options: IReaderOptions = {}): GraphFormatConverter<N, E> => {
+        return GraphFormatConverter.fromJsonElements<N, E>(jsonGraphData, options, (elementType, index, element, field) => ({path: `${elementType}s[${index}]${field !== undefined ? `.${field}` : ""}`}));
+    }
+
+    /**
+     * Create a graph from a JSON set of nodes and edges, the elements that cannot be read being located by a function
+     * (their JSON path, or their location in the graph data of the reader that converted it to JSON)
+     * @param jsonGraphData The data of the graph as JSON
+     * @param options The options of the reader
+     * @param getLocation The function locating an element (and one of its fields) in the graph data
      * @return GraphFormatConverter The Graph from the JSON graph data
      */
-    public static fromJson = (graphData: { nodes: any[], edges: any[], attributes: IGraphAttribute }): GraphFormatConverter => {
+    private static fromJsonElements = <N extends Attributes = Attributes, E extends Attributes = Attributes>(jsonGraphData: { nodes: any[], edges: any[], attributes?: IGraphAttribute }, options: IReaderOptions, getLocation: (elementType: 'node' | 'edge', index: number, element: any, field?: string) => IErrorLocation): GraphFormatConverter<N, E> => {
+
+        // The graph data is read from a copy, to leave the one of the caller untouched
+        const graphData = GraphFormatConverter.cloneValue(jsonGraphData);
 
         // The objects that will contain the attributes of the nodes and edges
         const nodeAttributesObject: any = {};
@@ -74,7 +431,16 @@ export class GraphFormatConverter {
                 // Else we need to keep use this attribute to guess the type of the element attribute
                 else {
                     Object.entries(element.attributes).forEach(([key, value]) => {
-                        GraphFormatConverter.guessJSONAttribute(key, value, isNode ? nodeAttributesObject : edgeAttributesObject);
+                        GraphFormatConverter.guessJSONAttribute(key, value, isNode ? nodeAttributesObject : edgeAttributesObject, options.rawValues);
+                    });
+                }
+
+                // The values of the dynamic attributes are used as well to guess the type of the element attribute
+                if (element.dynamicAttributes !== undefined) {
+                    Object.entries(element.dynamicAttributes).forEach(([key, values]: [string, any]) => {
+                        values.forEach((dynamicValue: IDynamicAttributeValue) => {
+                            GraphFormatConverter.guessJSONAttribute(key, dynamicValue.value, isNode ? nodeAttributesObject : edgeAttributesObject, options.rawValues);
+                        });
                     });
                 }
 
@@ -86,16 +452,17 @@ export class GraphFormatConverter {
                 // We need to rearrange the attributes of the element and put them in the element.attributes object
                 for (const elementKey in element) {
 
-                    // We have some keys we do not want to bother with
-                    if (elementKey !== "attributes" && elementKey !== "color" && elementKey !== "id" && elementKey !== "source" && elementKey !== "target") {
-                        GraphFormatConverter.guessJSONAttribute(elementKey, element[elementKey], isNode ? nodeAttributesObject : edgeAttributesObject);
+                    // The time intervals of a dynamic element, the parent of a node and the direction of an edge are not attributes
+                    if (elementKey === "start" || elementKey === "end" || elementKey === "spells" || elementKey === "dynamicAttributes" || (isNode && elementKey === "parent") || (!isNode && elementKey === "undirected")) {
+                        continue;
                     }
 
-                    // There are some key that should not be in the attributes object
+                    // There are some key that should not be in the attributes object, the fields (label, position, size...) not being attributes to declare
                     if (elementKey !== "attributes" && elementKey !== "color" && elementKey !== "id" && elementKey !== "size" && elementKey !== "weight" && elementKey !== "target" && elementKey !== "source" && elementKey !== "label" && elementKey !== "edgelabel" && elementKey !== "shape" && elementKey !== "x" && elementKey !== "y" && elementKey !== "z") {
 
-                        // If the value is not undefined we can use it
+                        // If the value is not undefined we can use it, and guess the type of its attribute
                         if (element[elementKey] !== undefined) {
+                            GraphFormatConverter.guessJSONAttribute(elementKey, element[elementKey], isNode ? nodeAttributesObject : edgeAttributesObject, options.rawValues);
                             element.attributes[elementKey] = element[elementKey];
                         }
 
@@ -113,9 +480,20 @@ export class GraphFormatConverter {
             });
         }
 
+        // The nodes and the edges are arrays
+        if (!Array.isArray(graphData.nodes)) {
+            throw new GraphValidationError("An array of nodes is expected", {path: "nodes"});
+        }
+        if (!Array.isArray(graphData.edges)) {
+            throw new GraphValidationError("An array of edges is expected", {path: "edges"});
+        }
+
+        // The nodes without id and the edges whose nodes are unknown cannot be read
+        const checkedElements = GraphFormatConverter.checkElements(graphData.nodes, graphData.edges, getLocation, options.lenient);
+
         // Rearrange the nodes and the edges
-        graphData.nodes = reorganizeAttributesOfElements(graphData.nodes, true);
-        graphData.edges = reorganizeAttributesOfElements(graphData.edges, false);
+        graphData.nodes = reorganizeAttributesOfElements(checkedElements.nodes, true);
+        graphData.edges = reorganizeAttributesOfElements(checkedElements.edges, false);
 
         // Now we can create the array of attributes
         const nodeAttributes: INodeAttribute[] = GraphFormatConverter.getAttributesFromGuesser(nodeAttributesObject);
@@ -135,8 +513,36 @@ export class GraphFormatConverter {
             mode: graphData.attributes.mode !== undefined ? graphData.attributes.mode : "static"
         };
 
+        // The time of a dynamic graph
+        if (graphData.attributes.timeFormat !== undefined) {
+            graphAttributes.timeFormat = graphData.attributes.timeFormat;
+        }
+        if (graphData.attributes.start !== undefined) {
+            graphAttributes.start = graphData.attributes.start;
+        }
+        if (graphData.attributes.end !== undefined) {
+            graphAttributes.end = graphData.attributes.end;
+        }
+
+        // The metadata of the graph
+        if (graphData.attributes.metadata !== undefined) {
+            graphAttributes.metadata = {...graphData.attributes.metadata};
+        }
+        if (graphData.attributes.metadataAttributes !== undefined) {
+            graphAttributes.metadataAttributes = graphData.attributes.metadataAttributes.map((attribute: IAttribute) => ({...attribute}));
+        }
+
+        // The values of the attributes are coerced to the type of their attribute, unless the raw values are kept
+        const coercionErrors = options.rawValues ? [] : [
+            ...GraphFormatConverter.coerceAttributesValues(graphData.nodes, nodeAttributes, "node"),
+            ...GraphFormatConverter.coerceAttributesValues(graphData.edges, edgeAttributes, "edge")
+        ];
+
         // Return the GraphFormatConverter
-        return new GraphFormatConverter(graphData.nodes, graphData.edges, nodeAttributes, edgeAttributes, graphAttributes);
+        const graph = new GraphFormatConverter<N, E>(graphData.nodes, graphData.edges, nodeAttributes, edgeAttributes, graphAttributes);
+        graph.coercionErrors = coercionErrors;
+        graph.diagnostics = checkedElements.diagnostics;
+        return graph;
     }
 
     /**
@@ -180,46 +586,92 @@ export class GraphFormatConverter {
     /**
      * Create a graph
      * @param graphData
+     * @param options The options of the reader
      * @return GraphFormatConverter The Graph from the Graphology JSON graph data
      */
-    public static fromGraphology = (graphData: { nodes: any[], edges: any[], attributes: IGraphAttribute }): GraphFormatConverter => {
+    public static fromGraphology = (graphData: { nodes: any[], edges: any[], attributes?: Attributes, options?: GraphOptions }, options: IReaderOptions = {}): GraphFormatConverter => {
 
         // The graphology JSON graph representation is a bit tricky as it does not follow the "Gephi convention"
-        graphData.nodes = graphData.nodes.map((node) => {
+        const nodes = graphData.nodes.map((node) => {
             return {
                 id: node.key,
                 ...node.attributes
             }
         });
 
-        graphData.edges = graphData.edges.map((edge) => {
+        // Only the edges having their own direction are flagged as undirected or not
+        const edges = graphData.edges.map((edge) => {
             return {
                 id: edge.key,
                 source: edge.source,
                 target: edge.target,
-                undirected: edge.undirected,
+                ...(edge.undirected !== undefined ? {undirected: edge.undirected} : {}),
                 ...edge.attributes
             }
         });
 
+        // The id of the graph is its name, and its edges are directed unless the options of the graph tell otherwise
+        const graphAttributes: Attributes = {...graphData.attributes};
+        if (graphAttributes.id === undefined && graphAttributes.name !== undefined) {
+            graphAttributes.id = graphAttributes.name;
+        }
+        delete graphAttributes.name;
+        if (graphAttributes.edgeType === undefined && graphData.options !== undefined && graphData.options.type !== undefined) {
+            graphAttributes.edgeType = graphData.options.type === "undirected" ? "undirected" : "directed";
+        }
+
         // Now return the graph as it would be in JSON
-        return GraphFormatConverter.fromJson(graphData);
+        return GraphFormatConverter.fromJson({nodes, edges, attributes: graphAttributes as IGraphAttribute}, options);
+    }
+
+    /**
+     * Create a graph from a Graphology instance, the edges of a mixed graph keeping their own direction
+     * @param graph The Graphology instance
+     * @param options The options of the reader
+     * @return GraphFormatConverter The Graph from the Graphology instance
+     */
+    public static fromGraphologyInstance = (graph: AbstractGraph, options: IReaderOptions = {}): GraphFormatConverter => {
+        const nodes: SerializedNode[] = [];
+        graph.forEachNode((key, attributes) => {
+            nodes.push({key, attributes});
+        });
+
+        // The direction of the edges is given by the type of the graph, only the undirected edges of a mixed graph being flagged
+        const edges: SerializedEdge[] = [];
+        graph.forEachEdge((key, attributes, source, target, sourceAttributes, targetAttributes, undirected) => {
+            edges.push({key, source, target, attributes, ...(undirected && graph.type === "mixed" ? {undirected} : {})});
+        });
+
+        return GraphFormatConverter.fromGraphology({
+            attributes: graph.getAttributes(),
+            options: {type: graph.type, multi: graph.multi, allowSelfLoops: graph.allowSelfLoops},
+            nodes,
+            edges
+        }, options);
     }
 
     /**
      * Create a graph from a GEXF string
      * @param graphData The data of the graph as GEXF
+     * @param options The options of the reader
      * @return GraphFormatConverter The Graph from the GEXF graph data
      */
-    public static fromGexf = (graphData: string): GraphFormatConverter => {
+    public static fromGexf = (graphData: string, options: IReaderOptions = {}): GraphFormatConverter => {
 
-        // We use a try/catch for the parser to know if the XML string is correct or not
-        const parser = new XMLParser(GraphFormatConverter.parserOptions);
-        let parsedResult;
-        try {
-            parsedResult = parser.parse(graphData);
-        } catch (e) {
-            throw new Error(`An error occurred while trying to parse the XML string: ${e}`);
+        // The XML string is parsed once it is known to be correct
+        const parsedResult = GraphFormatConverter.parseXml(graphData);
+
+        // The graph is in the root element
+        if (parsedResult.gexf === undefined) {
+            throw new GraphValidationError("The root element <gexf> is missing");
+        }
+        if (parsedResult.gexf.graph === undefined) {
+            throw new GraphValidationError("The element <graph> is missing in <gexf>", GraphFormatConverter.getXmlLocation(graphData, "gexf", 0));
+        }
+
+        // An empty <graph></graph> is parsed as an empty string, it is a graph without any element
+        if (parsedResult.gexf.graph === "") {
+            parsedResult.gexf.graph = {};
         }
 
         // When the string is parsed we can work on it
@@ -256,36 +708,70 @@ export class GraphFormatConverter {
 
             // Try to get the mode
             if (parsedResult.gexf.graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}mode`] !== undefined) {
-                graphAttributes.id = parsedResult.gexf.graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}mode`];
+                graphAttributes.mode = parsedResult.gexf.graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}mode`];
             }
 
-            // Then we want to gather the nodes
-            const nodes: any[] = parsedResult.gexf.graph.nodes.node.map(GraphFormatConverter.getGexfElementAttributes);
+            // Try to get the time format and the interval of a dynamic graph
+            if (parsedResult.gexf.graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}timeformat`] !== undefined) {
+                graphAttributes.timeFormat = parsedResult.gexf.graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}timeformat`];
+            }
+            if (parsedResult.gexf.graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}start`] !== undefined) {
+                graphAttributes.start = parsedResult.gexf.graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}start`];
+            }
+            if (parsedResult.gexf.graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}end`] !== undefined) {
+                graphAttributes.end = parsedResult.gexf.graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}end`];
+            }
 
-            // Then we want to gather the edges
-            const edges: any[] = parsedResult.gexf.graph.edges.edge.map(GraphFormatConverter.getGexfElementAttributes);
+            // Then we want to gather the nodes and the edges, the nested nodes included, the attributes they do not have taking their default value
+            const gexfElements = GraphFormatConverter.getGexfNodesAndEdges(parsedResult.gexf.graph);
+            const {nodes, edges, diagnostics} = GraphFormatConverter.checkElements(gexfElements.nodes, gexfElements.edges, (elementType, index, element) => GraphFormatConverter.getXmlLocation(graphData, elementType, index, element.id), options.lenient);
+            GraphFormatConverter.applyAttributesDefaultValue(nodes, nodeAttributes);
+            GraphFormatConverter.applyAttributesDefaultValue(edges, edgeAttributes);
+
+            // The values of the attributes are coerced to the type of their attribute, unless the raw values are kept
+            const coercionErrors = options.rawValues ? [] : [
+                ...GraphFormatConverter.coerceAttributesValues(nodes, nodeAttributes, "node"),
+                ...GraphFormatConverter.coerceAttributesValues(edges, edgeAttributes, "edge")
+            ];
 
             // Return the GraphFormatConverter
-            return new GraphFormatConverter(nodes, edges, nodeAttributes, edgeAttributes, graphAttributes);
+            const graph = new GraphFormatConverter(nodes, edges, nodeAttributes, edgeAttributes, graphAttributes);
+            graph.coercionErrors = coercionErrors;
+            graph.diagnostics = diagnostics;
+            return graph;
         } catch (e) {
-            throw new Error("An error has occurred while creating the graph, your file is malformed");
+            throw GraphFormatConverter.getMalformedError(e);
         }
     }
 
     /**
-     * Create a graph from a Graphml string
+     * Create a graph from a Graphml string, the first graph of the document being used
      * @param graphData The data of the graph as Graphml
+     * @param options The options of the reader
      * @return GraphFormatConverter The Graph from the Graphml graph data
      */
-    public static fromGraphml = (graphData: string): GraphFormatConverter => {
+    public static fromGraphml = (graphData: string, options: IReaderOptions = {}): GraphFormatConverter => {
+        const graphs = GraphFormatConverter.fromGraphmlAll(graphData, options);
+        if (graphs.length === 0) {
+            throw new GraphValidationError("The element <graph> is missing in <graphml>", GraphFormatConverter.getXmlLocation(graphData, "graphml", 0));
+        }
+        return graphs[0];
+    }
 
-        // We use a try/catch for the parser to know if the XML string is correct or not
-        const parser = new XMLParser(GraphFormatConverter.parserOptions);
-        let parsedResult;
-        try {
-            parsedResult = parser.parse(graphData);
-        } catch (e) {
-            throw new Error(`An error occurred while trying to parse the XML string: ${e}`);
+    /**
+     * Create a graph for each graph of a Graphml string
+     * @param graphData The data of the graphs as Graphml
+     * @param options The options of the reader
+     * @return GraphFormatConverter[] The Graphs from the Graphml graph data
+     */
+    public static fromGraphmlAll = (graphData: string, options: IReaderOptions = {}): GraphFormatConverter[] => {
+
+        // The XML string is parsed once it is known to be correct
+        const parsedResult = GraphFormatConverter.parseXml(graphData);
+
+        // The graphs are in the root element
+        if (parsedResult.graphml === undefined) {
+            throw new GraphValidationError("The root element <graphml> is missing");
         }
 
         try {
@@ -295,6 +781,7 @@ export class GraphFormatConverter {
             // First we want to gather the attributes
             const nodeAttributes: INodeAttribute[] = [];
             const edgeAttributes: IEdgeAttribute[] = [];
+            const graphAttributesDefinition: IAttribute[] = [];
             if (parsedResult.graphml.key !== undefined) {
 
                 // If the keys is an object we make it an array
@@ -303,7 +790,7 @@ export class GraphFormatConverter {
                     keys = [keys];
                 }
 
-                // For each key get the attributes for either the nodes or the edges
+                // For each key get the attributes for either the nodes, the edges or the graphs
                 keys.forEach((key: any) => {
 
                     // If the key is ID, source or target we do not keep it
@@ -318,6 +805,11 @@ export class GraphFormatConverter {
                         title: key[`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`],
                     }
 
+                    // The default value of the attribute
+                    if (key.default !== undefined) {
+                        attribute.defaultValue = GraphFormatConverter.xmlValueToJSON(typeof key.default === "object" ? key.default["#text"] : key.default, attribute.type);
+                    }
+
                     // If the attribute is about the nodes
                     if (key[`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`] === "node") {
                         nodeAttributes.push(attribute);
@@ -327,945 +819,5256 @@ export class GraphFormatConverter {
                     else if (key[`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`] === "edge") {
                         edgeAttributes.push(attribute);
                     }
-                });
-            }
 
-            // Then we gather the graph attributes
-            const graphAttributes: IGraphAttribute = {edgeType: "undirected", mode: "static", id: "graph"};
+                    // If the attribute is about the graphs
+                    else if (key[`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`] === "graph") {
+                        graphAttributesDefinition.push(attribute);
+                    }
 
-            // Get the id
-            if (parsedResult.graphml.graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`] !== undefined) {
-                graphAttributes.id = parsedResult.graphml.graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`];
+                    // If the attribute is about all the elements
+                    else if (key[`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`] === "all") {
+                        nodeAttributes.push(attribute);
+                        edgeAttributes.push({...attribute});
+                        graphAttributesDefinition.push(attribute);
+                    }
+                });
             }
 
-            // Get the edge type
-            if (parsedResult.graphml.graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}edgedefault`] !== undefined) {
-                graphAttributes.edgeType = parsedResult.graphml.graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}edgedefault`];
+            // If there is only one graph we will get an object instead of an array of objects, thus we need to convert it to an array
+            let graphs = parsedResult.graphml.graph;
+            if (!Array.isArray(graphs)) {
+                graphs = graphs !== undefined ? [graphs] : [];
             }
 
-            // Then we want to gather the nodes
-            const nodes: any[] = parsedResult.graphml.graph.node.map(GraphFormatConverter.getGraphmlElementAttributes);
+            // The position of the first node and edge of each graph in the document, to locate the errors
+            let nodesOffset = 0;
+            let edgesOffset = 0;
 
-            // Then we want to gather the edges
-            const edges: any[] = parsedResult.graphml.graph.edge.map(GraphFormatConverter.getGraphmlElementAttributes);
+            return graphs.map((graph: any) => {
 
-            // Return the GraphFormatConverter
-            return new GraphFormatConverter(nodes, edges, nodeAttributes, edgeAttributes, graphAttributes);
+                // Then we gather the graph attributes
+                const graphAttributes: IGraphAttribute = {edgeType: "undirected", mode: "static", id: "graph"};
+
+                // Get the id
+                if (graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`] !== undefined) {
+                    graphAttributes.id = graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`];
+                }
+
+                // Get the edge type
+                if (graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}edgedefault`] !== undefined) {
+                    graphAttributes.edgeType = graph[`${GraphFormatConverter.parserOptions.attributeNamePrefix}edgedefault`];
+                }
+
+                // Get the graph-level data as metadata, by the name of their key, the keys being kept to write the metadata back with their id and their type
+                if (graph.data !== undefined) {
+                    let dataArray = graph.data;
+                    if (!Array.isArray(dataArray)) {
+                        dataArray = [dataArray];
+                    }
+                    const metadata: { [name: string]: any } = {};
+                    const metadataAttributes: IAttribute[] = [];
+                    dataArray.forEach((dataObject: any) => {
+                        const attribute = graphAttributesDefinition.find((currentAttribute) => currentAttribute.id === dataObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]);
+                        const name = attribute !== undefined && attribute.title !== undefined ? attribute.title : dataObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`];
+                        metadata[name] = GraphFormatConverter.xmlValueToJSON(dataObject[`#text`], attribute !== undefined ? attribute.type : undefined);
+                        if (attribute !== undefined && !metadataAttributes.some((metadataAttribute) => metadataAttribute.id === attribute.id)) {
+                            metadataAttributes.push({...attribute, title: name});
+                        }
+                    });
+                    graphAttributes.metadata = metadata;
+                    if (metadataAttributes.length > 0) {
+                        graphAttributes.metadataAttributes = metadataAttributes;
+                    }
+                }
+
+                // Then we want to gather the nodes and the edges, the nodes of the nested graphs included, the attributes they do not have taking their default value
+                const graphmlElements = GraphFormatConverter.getGraphmlNodesAndEdges(graph);
+                const offsets: { [elementType: string]: number } = {node: nodesOffset, edge: edgesOffset};
+                const {nodes, edges, diagnostics} = GraphFormatConverter.checkElements(graphmlElements.nodes, graphmlElements.edges, (elementType, index, element) => GraphFormatConverter.getXmlLocation(graphData, elementType, offsets[elementType] + index, element.id), options.lenient);
+                nodesOffset += graphmlElements.nodes.length;
+                edgesOffset += graphmlElements.edges.length;
+                GraphFormatConverter.applyAttributesDefaultValue(nodes, nodeAttributes);
+                GraphFormatConverter.applyAttributesDefaultValue(edges, edgeAttributes);
+
+                // The values of the attributes are coerced to the type of their attribute, unless the raw values are kept
+                const coercionErrors = options.rawValues ? [] : [
+                    ...GraphFormatConverter.coerceAttributesValues(nodes, nodeAttributes, "node"),
+                    ...GraphFormatConverter.coerceAttributesValues(edges, edgeAttributes, "edge")
+                ];
+
+                // Return the GraphFormatConverter, each graph having its own attributes
+                const graphmlGraph = new GraphFormatConverter(nodes, edges, nodeAttributes.map((attribute) => ({...attribute})), edgeAttributes.map((attribute) => ({...attribute})), graphAttributes);
+                graphmlGraph.coercionErrors = coercionErrors;
+                graphmlGraph.diagnostics = diagnostics;
+                return graphmlGraph;
+            });
         } catch (e) {
-            throw new Error("An error has occurred while creating the graph, your file is malformed");
+            throw GraphFormatConverter.getMalformedError(e);
         }
     }
 
     /**
-     * Get an element as a GRAPHML 'fast-xml-parser' JSON object
-     * @param element The element
+     * Create a graph from a GML string
+     * @param graphData The data of the graph as GML
+     * @param options The options of the reader
+     * @return GraphFormatConverter The Graph from the GML graph data
      */
-    private static getElementAsGraphmlJSON = (element: any) => {
+    public static fromGml = (graphData: string, options: IReaderOptions = {}): GraphFormatConverter => {
 
-        // The element as an object
-        const elementObject: any = {
-            "data": []
+        // We use a try/catch for the parser to know if the GML string is correct or not, the position of the nested lists being kept to locate the elements
+        let parsedResult: Array<[string, any]>;
+        const listPositions = new Map<Array<[string, any]>, number>();
+        try {
+            parsedResult = GraphFormatConverter.parseGml(graphData, listPositions);
+        } catch (e) {
+            throw GraphFormatConverter.getParseError("GML", e);
         }
 
-        // For each attribute we want to get it a formatted JSON
-        Object.entries(element).forEach(([key, value]: [string, any]) => {
+        try {
 
-            // Switch the name of the attribute to format the object
-            switch (key) {
+            // The graph is the first "graph" list of the document
+            const graphEntries: Array<[string, any]> = (parsedResult.find(([key, value]) => key === "graph" && Array.isArray(value)) as [string, any])[1];
 
-                // If the value is the attributes we create a tree for it
-                case "attributes":
-                    Object.entries(value).forEach(([elementKey, elementValue]: [string, any]) => {
-                        elementObject.data.push({
-                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]: elementKey,
-                            "#text": `${elementValue}`.replace(new RegExp(/&/, 'g'), "&amp;"),
-                        });
-                    });
-                    break;
-                case "id":
-                    elementObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`] = value;
-                    break;
-                case "source":
-                    elementObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}source`] = value;
-                    break;
-                case "target":
-                    elementObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}target`] = value;
-                    break;
-                case "color":
-                    elementObject.data.push({[`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]: "r", "#text": tinycolor2(value).toRgb().r});
-                    elementObject.data.push({[`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]: "g", "#text": tinycolor2(value).toRgb().g});
-                    elementObject.data.push({[`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]: "b", "#text": tinycolor2(value).toRgb().b});
-                    break;
-                default:
-                    elementObject.data.push({
-                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]: key,
-                        '#text': `${value}`.replace(new RegExp(/&/, 'g'), "&amp;"),
-                    });
-                    break;
-            }
-        });
-        return elementObject;
+            // Then we gather the graph attributes
+            const graphAttributes: IGraphAttribute = {id: "graph", edgeType: "undirected", mode: "static"};
+            graphEntries.forEach(([key, value]) => {
+
+                // Get the id
+                if (key === "id") {
+                    graphAttributes.id = `${value}`;
+                }
+
+                // Get the edge type
+                else if (key === "directed") {
+                    graphAttributes.edgeType = Number(value) === 1 ? "directed" : "undirected";
+                }
+            });
+
+            // Then we want to gather the nodes
+            const nodeEntries = graphEntries.filter(([key]) => key === "node");
+            const nodes: any[] = nodeEntries.map(([, value]) => GraphFormatConverter.getGmlElementAttributes(value));
+
+            // Then we want to gather the edges
+            const edgeEntries = graphEntries.filter(([key]) => key === "edge");
+            const edges: any[] = edgeEntries.map(([, value]) => GraphFormatConverter.getGmlElementAttributes(value));
+
+            // The GML elements are now as they would be in JSON, thus we let the JSON reader guess the types of the attributes
+            return GraphFormatConverter.fromJsonElements({nodes, edges, attributes: graphAttributes}, options, GraphFormatConverter.getTextElementLocator(graphData, nodeEntries.map(([, value]) => listPositions.get(value)), edgeEntries.map(([, value]) => listPositions.get(value))));
+        } catch (e) {
+            throw GraphFormatConverter.getMalformedError(e);
+        }
     }
 
     /**
-     * Get an element as a GEXF 'fast-xml-parser' JSON object
-     * @param element The element
+     * Parse a GML string as a list of [key, value] pairs, where the value of a nested list is itself a list of pairs
+     * @param graphData The GML string
+     * @param listPositions The positions of the keys of the nested lists in the string, filled by the parser
      */
-    private static getElementAsGexfJSON = (element: any) => {
-
-        // The element as an object
-        const elementObject: any = {
-            "attvalues": {
-                "attvalue": []
+    private static parseGml = (graphData: string, listPositions: Map<Array<[string, any]>, number> = new Map()): Array<[string, any]> => {
+
+        // Split the string into brackets, quoted strings and words with their position, the comment lines being skipped
+        const tokens: Array<{ value: string, position: number }> = [];
+        const tokenRegex = /^[^\S\n]*#.*$|"[^"]*"|\[|\]|[^\s[\]"]+/gm;
+        let match = tokenRegex.exec(graphData);
+        while (match !== null) {
+            if (!/^\s*#/.test(match[0])) {
+                tokens.push({value: match[0], position: match.index});
             }
-        };
+            match = tokenRegex.exec(graphData);
+        }
+        let position = 0;
 
-        // For each attribute we want to get it a formatted JSON
-        Object.entries(element).forEach(([key, value]: [string, any]) => {
+        // Parse a list until its closing bracket (or the end of the document for the root list)
+        const parseList = (isRoot: boolean, openingPosition: number): Array<[string, any]> => {
+            const list: Array<[string, any]> = [];
 
-            // If the value is the attributes we create a tree for it
-            switch (key) {
+            while (position < tokens.length) {
+                const key = tokens[position++];
 
-                // If the value is the attributes we create a tree for it
-                case "attributes":
-                    Object.entries(value).forEach(([elementKey, elementValue]: [string, any]) => {
-                        elementObject.attvalues.attvalue.push({
-                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: elementKey,
-                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]: `${elementValue}`.replace(new RegExp(/&/, 'g'), "&amp;"),
-                        });
-                    });
-                    break;
-                case "size":
-                    elementObject["viz:size"] = {
-                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]: value
-                    }
-                    break;
-                case "shape":
-                    elementObject["viz:shape"] = {
-                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]: value
-                    }
-                    break;
-                case "thickness":
-                    elementObject["viz:thickness"] = {
-                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]: value
-                    }
-                    break;
-                case "color":
-                    elementObject["viz:color"] = {
-                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}r`]: tinycolor2(value).toRgb().r,
-                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}g`]: tinycolor2(value).toRgb().g,
-                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}b`]: tinycolor2(value).toRgb().b
+                // The end of the current list
+                if (key.value === "]") {
+                    if (isRoot) {
+                        throw GraphFormatConverter.getTextParseError("GML", "Unexpected ']'", graphData, key.position);
                     }
-                    break;
-                // The position is set in an other way
-                case "x":
-                case "y":
-                case "z":
-                    break;
-                default:
-                    elementObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}${key}`] = Number.isNaN(value) ? value.replace('&', "&amp;") : value;
-                    break;
+                    return list;
+                }
+
+                // A key must be a word
+                if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key.value)) {
+                    throw GraphFormatConverter.getTextParseError("GML", `Invalid key '${key.value}'`, graphData, key.position);
+                }
+
+                // The value is either a nested list or a scalar
+                const value = tokens[position++];
+                if (value === undefined || value.value === "]") {
+                    throw GraphFormatConverter.getTextParseError("GML", `Missing value for the key '${key.value}'`, graphData, key.position);
+                } else if (value.value === "[") {
+                    const nestedList = parseList(false, value.position);
+                    listPositions.set(nestedList, key.position);
+                    list.push([key.value, nestedList]);
+                } else {
+                    list.push([key.value, GraphFormatConverter.gmlValueToJSON(value.value)]);
+                }
             }
-        });
 
-        // Now we can set the position
-        elementObject["viz:position"] = {};
-        if (element.x !== undefined) {
-            elementObject["viz:position"][`${GraphFormatConverter.parserOptions.attributeNamePrefix}x`] = element.x;
-        }
-        if (element.y !== undefined) {
-            elementObject["viz:position"][`${GraphFormatConverter.parserOptions.attributeNamePrefix}y`] = element.y;
-        }
-        if (element.z !== undefined) {
-            elementObject["viz:position"][`${GraphFormatConverter.parserOptions.attributeNamePrefix}z`] = element.z;
-        }
+            // A nested list must be closed
+            if (!isRoot) {
+                throw GraphFormatConverter.getTextParseError("GML", "Missing ']' for this '['", graphData, openingPosition);
+            }
 
-        // If there is no position we remove it as it cannot be empty
-        if (Object.keys(elementObject["viz:position"]).length === 0) {
-            delete elementObject["viz:position"];
+            return list;
         }
 
-        return elementObject;
+        return parseList(true, 0);
     }
 
     /**
-     * Get the JSON type of a GEXF type
-     * @param type The GEXF type
+     * Get the JSON value of a GML scalar token
+     * @param value The GML token
      */
-    private static gexfTypeToJSON = (type: string): AttributeType => {
-        switch (type) {
-            case "integer":
-            case "long":
-            case "double":
-            case "float":
-                return "number";
-            case "boolean":
-                return "boolean";
-            default:
-                return "string";
+    private static gmlValueToJSON = (value: string): any => {
+
+        // The strings are quoted and can contain HTML entities
+        if (value.startsWith('"')) {
+            return value.slice(1, -1).replace(/&quot;/g, '"').replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
         }
+
+        // Otherwise it should be a number, but we keep the raw token if it is not
+        return Number.isNaN(Number(value)) ? value : Number(value);
     }
 
     /**
-     * Get the GEXF type of a JSON type
-     * @param type The JSON type
+     * Get the GML token of a JSON value
+     * @param value The JSON value
      */
-    private static jsonTypeToGEXF = (type: string): string => {
-        switch (type) {
+    private static jsonValueToGml = (value: any): string => {
+        switch (typeof value) {
             case "number":
-                return "double";
+                return Number.isFinite(value) ? `${value}` : `"${value}"`;
             case "boolean":
-                return "boolean";
+                return value ? "1" : "0";
             default:
-                return "string";
+                return `"${`${value}`.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;")}"`;
         }
     }
 
     /**
-     * Get the JSON type of a GRAPHML type
-     * @param type The GRAPHML type
+     * Get a valid GML key (a letter followed by letters, digits or underscores) from an attribute key
+     * @param key The attribute key
      */
-    private static graphmlTypeToJSON = (type: string): AttributeType => {
-        switch (type) {
-            case "int":
-            case "long":
-            case "double":
-            case "float":
-                return "number";
-            case "boolean":
-                return "boolean";
-            default:
-                return "string";
-        }
+    private static getGmlKey = (key: string): string => {
+        const gmlKey = key.replace(/[^A-Za-z0-9_]/g, "_");
+        return /^[A-Za-z]/.test(gmlKey) ? gmlKey : `attr_${gmlKey}`;
     }
 
     /**
-     * Get the GRAPHML type of a JSON type
-     * @param type The JSON type
+     * Flatten a nested GML list into an object, the keys being joined with a dot like in 'flattenHelper'
+     * @param list The GML list
+     * @param newObject The new object
+     * @param previousKeyName The previous key
      */
-    private static jsonTypeToGRAPHML = (type: string): string => {
-        switch (type) {
-            case "number":
-                return "double";
-            case "boolean":
-                return "boolean";
-            default:
-                return "string";
-        }
+    private static flattenGmlList = (list: Array<[string, any]>, newObject: any, previousKeyName: string): any => {
+        list.forEach(([key, value]) => {
+            if (Array.isArray(value)) {
+                GraphFormatConverter.flattenGmlList(value, newObject, `${previousKeyName}.${key}`);
+            } else {
+                newObject[`${previousKeyName}.${key}`] = value;
+            }
+        });
+
+        return newObject;
     }
 
     /**
-     * Get the type possibilities of a attribute
-     * @param key The key of the attribute
-     * @param value The value of the attribute to try to guess the type of
-     * @param attributesObject The attribute object contain the attributes and their type's count
+     * Get the attributes (as well as the graphics of an element) from a GML element
+     * @param element The element to gather the attributes of
      */
-    private static guessJSONAttribute(key: string, value: any, attributesObject: any) {
+    private static getGmlElementAttributes = (element: Array<[string, any]>): any => {
 
-        // If the key does not exists
-        if (attributesObject[key] === undefined) {
-            attributesObject[key] = {
-                id: key,
-                title: key,
-                type: {}
+        // The object that will contain the attributes
+        const elementData: any = {attributes: {}};
+
+        // For each attribute we want to act differently
+        element.forEach(([key, value]) => {
+
+            // The graphics are the visual attributes of the element
+            if (key === "graphics" && Array.isArray(value)) {
+                value.forEach(([graphicsKey, graphicsValue]: [string, any]) => {
+                    switch (graphicsKey) {
+                        case "x":
+                        case "y":
+                        case "z":
+                            elementData[graphicsKey] = Number(graphicsValue);
+                            break;
+                        case "w":
+                            elementData.size = Number(graphicsValue);
+                            break;
+                        case "h":
+                            if (elementData.size === undefined) {
+                                elementData.size = Number(graphicsValue);
+                            }
+                            break;
+                        case "width":
+                            elementData.thickness = Number(graphicsValue);
+                            break;
+                        case "type":
+                            elementData.shape = graphicsValue;
+                            break;
+                        case "fill":
+                            elementData.color = graphicsValue;
+                            break;
+                    }
+                });
             }
-        }
 
-        // Now we get the type and if does not exist we create the counter
-        if (attributesObject[key].type[typeof value] === undefined) {
-            attributesObject[key].type[typeof value] = 0;
-        }
+            // The other nested lists are flattened in the attributes
+            else if (Array.isArray(value)) {
+                GraphFormatConverter.flattenGmlList(value, elementData.attributes, key);
+            }
 
-        // Add one to this type
-        attributesObject[key].type[typeof value] += 1;
+            // Else we have some keys that are not attributes
+            else {
+                switch (key) {
+                    case "id":
+                    case "source":
+                    case "target":
+                    case "label":
+                    case "weight":
+                        elementData[key] = value;
+                        break;
+                    default:
+                        elementData.attributes[key] = value;
+                        break;
+                }
+            }
+        });
+
+        return elementData;
     }
 
     /**
-     * Get the attributes of the nodes/edges from the attributesObject gathered by the function 'guessJSONAttribute'
-     * @param attributesObject The attributes object
+     * Get an element as GML lines
+     * @param tag The tag of the element ("node" or "edge")
+     * @param element The element
      */
-    private static getAttributesFromGuesser = (attributesObject: any): IAttribute[] => {
-        return Object.values(attributesObject).map((value: any) => {
-            return {
-                id: value.id,
-                title: value.title,
-                type: Object.entries(value.type).reduce((acc: any, [typeKey, typeValue]: [string, any]) => {
+    private static getElementAsGmlLines = (tag: string, element: any): string[] => {
 
-                    // If the accumulator is undefined we set it as the first value
-                    if (acc === undefined) {
-                        return {type: typeKey, count: typeValue};
-                    }
+        // The lines of the element and the lines of its graphics
+        const lines: string[] = [`  ${tag} [`];
+        const graphics: string[] = [];
 
-                    // Else we want to know which is bigger between the typeValue and the value of the accumulator
-                    if (typeValue > acc.count) {
-                        return {type: typeKey, count: typeValue};
-                    }
+        // For each attribute we want to get it as a GML line, GML not knowing the time intervals
+        Object.entries(GraphFormatConverter.getElementWithoutTimes(element)).forEach(([key, value]: [string, any]) => {
 
-                    // Else return the accumulator
-                    return acc;
-                }, undefined).type
+            // The undefined values cannot be written
+            if (value === undefined || value === null) {
+                return;
+            }
+
+            switch (key) {
+
+                // If the value is the attributes we write each of them
+                case "attributes":
+                    Object.entries(value).forEach(([elementKey, elementValue]: [string, any]) => {
+                        if (elementValue !== undefined && elementValue !== null) {
+                            lines.push(`    ${GraphFormatConverter.getGmlKey(elementKey)} ${GraphFormatConverter.jsonValueToGml(elementValue)}`);
+                        }
+                    });
+                    break;
+                case "x":
+                case "y":
+                case "z":
+                    graphics.push(`${key} ${GraphFormatConverter.jsonValueToGml(value)}`);
+                    break;
+                case "size":
+                    graphics.push(`w ${GraphFormatConverter.jsonValueToGml(value)}`, `h ${GraphFormatConverter.jsonValueToGml(value)}`);
+                    break;
+                case "thickness":
+                    graphics.push(`width ${GraphFormatConverter.jsonValueToGml(value)}`);
+                    break;
+                case "shape":
+                    graphics.push(`type ${GraphFormatConverter.jsonValueToGml(value)}`);
+                    break;
+                case "color":
+                    graphics.push(`fill ${GraphFormatConverter.jsonValueToGml(tinycolor2(value).toHexString())}`);
+                    break;
+                default:
+                    lines.push(`    ${GraphFormatConverter.getGmlKey(key)} ${GraphFormatConverter.jsonValueToGml(value)}`);
+                    break;
             }
         });
+
+        // The graphics are written as a nested list
+        if (graphics.length > 0) {
+            lines.push("    graphics [", ...graphics.map((line) => `      ${line}`), "    ]");
+        }
+
+        lines.push("  ]");
+        return lines;
     }
 
     /**
-     * Get the attributes as a array of objects
-     * @param attributes The attributes
+     * Create a graph from a DOT string
+     * @param graphData The data of the graph as DOT
+     * @param options The options of the reader
+     * @return GraphFormatConverter The Graph from the DOT graph data
      */
-    private static getAttributesDefinitionAsObject = (attributes: { attribute: any[] }): IAttribute[] => {
+    public static fromDot = (graphData: string, options: IReaderOptions = {}): GraphFormatConverter => {
 
-        // if the attributes exist we can get them as an array of objects
-        if (attributes !== undefined) {
+        // We use a try/catch for the parser to know if the DOT string is correct or not
+        let parsedResult: any;
+        try {
+            parsedResult = GraphFormatConverter.parseDot(graphData);
+        } catch (e) {
+            throw GraphFormatConverter.getParseError("DOT", e);
+        }
 
-            // If there is only one attribute we will get an object instead of an array of objects, thus we need to convert it to an array
-            let attributesArray = attributes.attribute;
-            if (!Array.isArray(attributesArray)) {
-                attributesArray = [attributesArray];
-            }
+        try {
 
-            // If the id is "id" we do not add it
-            return attributesArray.filter((attribute) => attribute[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`] !== "id" && attribute[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`] !== "source" && attribute[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`] !== "target").map((attribute) => {
-                return {
-                    id: attribute[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`],
-                    title: attribute[`${GraphFormatConverter.parserOptions.attributeNamePrefix}title`],
-                    type: GraphFormatConverter.gexfTypeToJSON(attribute[`${GraphFormatConverter.parserOptions.attributeNamePrefix}type`]),
+            // Then we gather the graph attributes, a digraph whose edges go both ways is a 'mutual' graph
+            const graphAttributes: IGraphAttribute = {
+                id: parsedResult.id !== undefined ? parsedResult.id : "graph",
+                edgeType: parsedResult.directed ? (parsedResult.edgeDefaults.dir === "both" ? "mutual" : "directed") : "undirected",
+                mode: "static"
+            };
+
+            // Then we want to gather the nodes
+            const nodes: any[] = parsedResult.nodeIds.map((nodeId: string) => GraphFormatConverter.getDotElementAttributes({id: nodeId}, parsedResult.nodes[nodeId], true));
+
+            // Then we want to gather the edges
+            const edges: any[] = parsedResult.edges.map((edge: any) => {
+
+                // The direction of the 'mutual' edges is already known from the graph
+                if (graphAttributes.edgeType === "mutual" && edge.attributes.dir === "both") {
+                    delete edge.attributes.dir;
                 }
+
+                return GraphFormatConverter.getDotElementAttributes({source: edge.source, target: edge.target}, edge.attributes, false);
             });
-        }
 
-        // Otherwise return an empty array
-        else {
-            return [];
+            // The DOT elements are now as they would be in JSON, thus we let the JSON reader guess the types of the attributes
+            return GraphFormatConverter.fromJsonElements({nodes, edges, attributes: graphAttributes}, options, GraphFormatConverter.getTextElementLocator(graphData, parsedResult.nodeIds.map((nodeId: string) => parsedResult.nodePositions[nodeId]), parsedResult.edges.map((edge: any) => edge.position)));
+        } catch (e) {
+            throw GraphFormatConverter.getMalformedError(e);
         }
     }
 
     /**
-     * Get the attributes (as well as nested attributes of an element) from a GEXF element
-     * @param element The element to gather the attributes of
+     * Split a DOT string into tokens with their position, the IDs (identifiers, numerals, quoted and HTML strings) being kept as a whole
+     * @param graphData The DOT string
      */
-    private static getGexfElementAttributes = (element: any): any => {
+    private static tokenizeDot = (graphData: string): Array<{ value: string, isId: boolean, isQuoted: boolean, position: number }> => {
+        const tokens: Array<{ value: string, isId: boolean, isQuoted: boolean, position: number }> = [];
+        const unquotedIdRegex = /[A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*|-?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)/g;
+        let position = 0;
 
-        // The object that will contain the attributes
-        const elementData: any = {attributes: {}};
-
-        // For each attribute we want to act differently
-        Object.entries(element).forEach(([key, value]: [string, any]) => {
+        while (position < graphData.length) {
+            const char = graphData[position];
 
-            // If the current value is the attributes
-            if (key === "attvalues") {
+            // The whitespaces are skipped
+            if (/\s/.test(char)) {
+                position++;
+            }
 
-                // If there is only one attribute we will get an object instead of an array of objects, thus we need to convert it to an array
-                let attributesArray = value["attvalue"];
-                if (!Array.isArray(attributesArray)) {
-                    attributesArray = [attributesArray];
+            // The comments and the preprocessor lines are skipped
+            else if (graphData.startsWith("//", position) || (char === "#" && (position === 0 || graphData[position - 1] === "\n"))) {
+                const end = graphData.indexOf("\n", position);
+                position = end === -1 ? graphData.length : end;
+            } else if (graphData.startsWith("/*", position)) {
+                const end = graphData.indexOf("*/", position + 2);
+                if (end === -1) {
+                    throw GraphFormatConverter.getTextParseError("DOT", "Unterminated comment", graphData, position);
                 }
+                position = end + 2;
+            }
 
-                attributesArray.forEach((attributeObject: any) => {
-                    elementData.attributes[attributeObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]] = attributeObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`];
-                });
+            // The edge operators
+            else if (graphData.startsWith("->", position) || graphData.startsWith("--", position)) {
+                tokens.push({value: graphData.substr(position, 2), isId: false, isQuoted: false, position});
+                position += 2;
             }
 
-            // If the key does contain the GraphFormatConverter.options.attributeNamePrefix prefix
-            else if (key.includes(GraphFormatConverter.parserOptions.attributeNamePrefix)) {
-                elementData[key.replace(GraphFormatConverter.parserOptions.attributeNamePrefix, '')] = value;
+            // The punctuation
+            else if ("{}[]=;,:+".includes(char)) {
+                tokens.push({value: char, isId: false, isQuoted: false, position});
+                position++;
             }
 
-            // Else we have some cases that need to be treated separately
-            else {
-                switch (key) {
-                    case "color":
-                        elementData.color = tinycolor2(`rgb(${value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}r`]}, ${value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}g`]}, ${value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}b`]})`);
-                        break;
-                    case "position":
-                        elementData.x = Number(value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}x`]);
-                        elementData.y = Number(value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}y`]);
-                        if (value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}z`] !== undefined) {
-                            elementData.z = Number(value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}z`]);
-                        }
-                        break;
-                    case "size":
-                        elementData.size = Number(value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]);
-                        break;
-                    case "thickness":
-                        elementData.size = Number(value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]);
-                        break;
-                    case "shape":
-                        elementData.size = Number(value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]);
-                        break;
-                    default:
-                        elementData[key] = value;
-                        break;
+            // The quoted strings, where only the quote and the backslash can be escaped and a backslash followed by a newline is a line continuation
+            else if (char === '"') {
+                let value = "";
+                const start = position;
+                position++;
+                while (position < graphData.length && graphData[position] !== '"') {
+                    if (graphData[position] === "\\" && (graphData[position + 1] === '"' || graphData[position + 1] === "\\")) {
+                        value += graphData[position + 1];
+                        position += 2;
+                    } else if (graphData[position] === "\\" && graphData[position + 1] === "\n") {
+                        position += 2;
+                    } else {
+                        value += graphData[position++];
+                    }
+                }
+                if (position >= graphData.length) {
+                    throw GraphFormatConverter.getTextParseError("DOT", "Unterminated string", graphData, start);
+                }
+                position++;
+
+                // The strings can be concatenated with a '+'
+                const previousTokens = tokens.slice(-2);
+                if (previousTokens.length === 2 && previousTokens[1].value === "+" && !previousTokens[1].isId && previousTokens[0].isQuoted) {
+                    tokens.pop();
+                    previousTokens[0].value += value;
+                } else {
+                    tokens.push({value, isId: true, isQuoted: true, position: start});
                 }
             }
-        });
 
-        return elementData;
+            // The HTML strings, that can contain nested brackets
+            else if (char === "<") {
+                let depth = 0;
+                const start = position;
+                do {
+                    if (graphData[position] === "<") {
+                        depth++;
+                    } else if (graphData[position] === ">") {
+                        depth--;
+                    }
+                    position++;
+                } while (depth > 0 && position < graphData.length);
+                if (depth > 0) {
+                    throw GraphFormatConverter.getTextParseError("DOT", "Unterminated HTML string", graphData, start);
+                }
+                tokens.push({value: graphData.slice(start + 1, position - 1), isId: true, isQuoted: true, position: start});
+            }
+
+            // The identifiers and the numerals
+            else {
+                unquotedIdRegex.lastIndex = position;
+                const match = unquotedIdRegex.exec(graphData);
+                if (match === null || match.index !== position) {
+                    throw GraphFormatConverter.getTextParseError("DOT", `Unexpected character '${char}'`, graphData, position);
+                }
+                tokens.push({value: match[0], isId: true, isQuoted: false, position});
+                position += match[0].length;
+            }
+        }
+
+        return tokens;
     }
 
     /**
-     * Get the attributes (as well as nested attributes of an element) from a Graphml element
-     * @param element The element to gather the attributes of
+     * Parse a DOT string, the subgraphs being flattened (their default attributes being applied to their elements and the name of the innermost cluster being kept as the "cluster" attribute of the nodes)
+     * @param graphData The DOT string
      */
-    private static getGraphmlElementAttributes = (element: any): any => {
+    private static parseDot = (graphData: string): any => {
+        const tokens = GraphFormatConverter.tokenizeDot(graphData);
+        let position = 0;
+
+        // Helpers to read the tokens
+        const peek = (offset = 0) => tokens[position + offset];
+        const isKeyword = (token: any, keyword: string) => token !== undefined && token.isId && !token.isQuoted && token.value.toLowerCase() === keyword;
+        const isPunctuation = (token: any, punctuation: string) => token !== undefined && !token.isId && token.value === punctuation;
+        const fail = (message: string) => GraphFormatConverter.getTextParseError("DOT", message, graphData, peek() !== undefined ? peek().position : graphData.length);
+        const expect = (punctuation: string) => {
+            if (!isPunctuation(peek(), punctuation)) {
+                throw fail(`Expected '${punctuation}' but found '${peek() !== undefined ? peek().value : "end of file"}'`);
+            }
+            position++;
+        };
+        const readId = (): any => {
+            const token = peek();
+            if (token === undefined || !token.isId) {
+                throw fail(`Expected an ID but found '${token !== undefined ? token.value : "end of file"}'`);
+            }
+            position++;
+            return token;
+        };
 
-        // The object that will contain the attributes
-        const elementData: any = {attributes: {}};
+        // The parsed graph, the position of the nodes being the one of their first statement
+        const graph: any = {
+            id: undefined,
+            directed: false,
+            nodes: {},
+            nodeIds: [],
+            nodePositions: {},
+            edges: [],
+            edgeDefaults: {}
+        };
 
-        // For each attribute we want to act differently
-        Object.entries(element).forEach(([key, value]: [string, any]) => {
+        // Read a list of attributes ('[a=b, c=d][e=f]')
+        const readAttributes = (): any => {
+            const attributes: any = {};
+            while (isPunctuation(peek(), "[")) {
+                position++;
+                while (!isPunctuation(peek(), "]")) {
+                    const key = readId().value;
+                    expect("=");
+                    attributes[key] = GraphFormatConverter.dotValueToJSON(readId());
+                    if (isPunctuation(peek(), ",") || isPunctuation(peek(), ";")) {
+                        position++;
+                    }
+                }
+                position++;
+            }
+            return attributes;
+        };
 
-            // If the current value is the attributes
-            if (key === "data") {
+        // Get (or create) a node of the current scope
+        const getNode = (nodeId: string, scope: any, nodePosition?: number) => {
+            if (graph.nodes[nodeId] === undefined) {
+                graph.nodes[nodeId] = {...scope.nodeDefaults};
+                graph.nodePositions[nodeId] = nodePosition;
+                if (scope.cluster !== undefined) {
+                    graph.nodes[nodeId].cluster = scope.cluster;
+                }
+                graph.nodeIds.push(nodeId);
+            }
+            if (!scope.members.includes(nodeId)) {
+                scope.members.push(nodeId);
+            }
+            return graph.nodes[nodeId];
+        };
 
-                // If there is only one attribute we will get an object instead of an array of objects, thus we need to convert it to an array
-                let attributesArray = value;
-                if (!Array.isArray(attributesArray)) {
-                    attributesArray = [attributesArray];
+        // Read a node id, its port is ignored
+        const readNodeId = (): string => {
+            const nodeId = readId().value;
+            if (isPunctuation(peek(), ":")) {
+                position++;
+                readId();
+                if (isPunctuation(peek(), ":")) {
+                    position++;
+                    readId();
                 }
+            }
+            return nodeId;
+        };
 
-                attributesArray.forEach((attributeObject: any) => {
-                    elementData.attributes[attributeObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]] = attributeObject[`#text`];
-                });
+        // Read a subgraph and return the nodes it contains
+        const readSubgraph = (scope: any): string[] => {
+            let name: string | undefined;
+            if (isKeyword(peek(), "subgraph")) {
+                position++;
+                if (peek() !== undefined && peek().isId) {
+                    name = readId().value;
+                }
             }
+            const subgraphScope = {
+                nodeDefaults: {...scope.nodeDefaults},
+                edgeDefaults: {...scope.edgeDefaults},
+                cluster: name !== undefined && name.startsWith("cluster") ? name : scope.cluster,
+                members: []
+            };
+            expect("{");
+            readStatements(subgraphScope);
+            expect("}");
+
+            // The nodes of the subgraph are in the parent graph as well
+            subgraphScope.members.forEach((nodeId: string) => {
+                if (!scope.members.includes(nodeId)) {
+                    scope.members.push(nodeId);
+                }
+            });
 
-            // If the key does contain the GraphFormatConverter.options.attributeNamePrefix prefix
-            else if (key.includes(GraphFormatConverter.parserOptions.attributeNamePrefix)) {
-                elementData[key.replace(GraphFormatConverter.parserOptions.attributeNamePrefix, '')] = value;
+            return subgraphScope.members;
+        };
+
+        // Read an edge endpoint (a node or a subgraph)
+        const readEndpoint = (scope: any): string[] => {
+            if (isKeyword(peek(), "subgraph") || isPunctuation(peek(), "{")) {
+                return readSubgraph(scope);
             }
-        });
+            const nodePosition = peek() !== undefined ? peek().position : undefined;
+            const nodeId = readNodeId();
+            getNode(nodeId, scope, nodePosition);
+            return [nodeId];
+        };
 
-        // For the color (fields r, g and b) we want to remove them and set color
-        if (elementData.attributes.r !== undefined && elementData.attributes.g !== undefined && elementData.attributes.b !== undefined) {
-            elementData.color = tinycolor2(`rgb(${elementData.attributes.r}, ${elementData.attributes.g}, ${elementData.attributes.b})`);
-            delete elementData.attributes.r;
-            delete elementData.attributes.g;
-            delete elementData.attributes.b;
-        }
+        // Read the statements of a graph or subgraph
+        const readStatements = (scope: any) => {
+            while (peek() !== undefined && !isPunctuation(peek(), "}")) {
+                const token = peek();
+
+                // The default attributes statements
+                if ((isKeyword(token, "graph") || isKeyword(token, "node") || isKeyword(token, "edge")) && isPunctuation(peek(1), "[")) {
+                    position++;
+                    const attributes = readAttributes();
+                    if (isKeyword(token, "node")) {
+                        Object.assign(scope.nodeDefaults, attributes);
+                    } else if (isKeyword(token, "edge")) {
+                        Object.assign(scope.edgeDefaults, attributes);
+                    }
+                }
 
-        // We need to set the position to the "main" attributes
-        if (elementData.attributes.x !== undefined) {
-            elementData.x = elementData.attributes.x
-            delete elementData.attributes.x;
-        }
-        if (elementData.attributes.y !== undefined) {
-            elementData.y = elementData.attributes.y
-            delete elementData.attributes.y;
-        }
-        if (elementData.attributes.x !== undefined) {
-            elementData.z = elementData.attributes.z
-            delete elementData.attributes.z;
-        }
+                // The graph attributes statements ('a=b')
+                else if (token.isId && isPunctuation(peek(1), "=")) {
+                    position += 2;
+                    readId();
+                }
 
-        // We need to set the size to the "main" attributes
-        if (elementData.attributes.size) {
-            elementData.size = elementData.attributes.size;
-            delete elementData.attributes.size;
-        }
+                // The node and the edge statements
+                else {
+                    const statementPosition = token.position;
+                    const endpoints: string[][] = [readEndpoint(scope)];
+                    while (isPunctuation(peek(), "->") || isPunctuation(peek(), "--")) {
+                        position++;
+                        endpoints.push(readEndpoint(scope));
+                    }
+                    const attributes = readAttributes();
 
-        // We need to set the shape to the "main" attributes
-        if (elementData.attributes.shape) {
-            elementData.shape = elementData.attributes.shape;
-            delete elementData.attributes.shape;
-        }
+                    // A single endpoint is a node statement (or a subgraph)
+                    if (endpoints.length === 1) {
+                        if (!isKeyword(token, "subgraph") && !isPunctuation(token, "{")) {
+                            Object.assign(getNode(endpoints[0][0], scope), attributes);
+                        }
+                    }
 
-        // We need to set the thickness to the "main" attributes
-        if (elementData.attributes.thickness) {
-            elementData.thickness = elementData.attributes.thickness;
-            delete elementData.attributes.thickness;
-        }
+                    // Otherwise each endpoint is linked to the next one ('a -> b -> c')
+                    else {
+                        for (let index = 0; index < endpoints.length - 1; index++) {
+                            endpoints[index].forEach((source) => {
+                                endpoints[index + 1].forEach((target) => {
+                                    graph.edges.push({source, target, attributes: {...scope.edgeDefaults, ...attributes}, position: statementPosition});
+                                });
+                            });
+                        }
+                    }
+                }
 
-        // We need to set the weight to the "main" attributes
-        if (elementData.attributes.weight) {
-            elementData.weight = elementData.attributes.weight;
-            delete elementData.attributes.weight;
-        }
+                // The statements can end with a ';'
+                if (isPunctuation(peek(), ";")) {
+                    position++;
+                }
+            }
+        };
 
-        // We need to set the label to the "main" attributes
-        if (elementData.attributes.label) {
-            elementData.label = elementData.attributes.label;
-            delete elementData.attributes.label;
+        // The graph header: [strict] (graph | digraph) [ID] '{'
+        if (isKeyword(peek(), "strict")) {
+            position++;
         }
-
-        // We need to set the edgelabel to the "main" attributes
-        if (elementData.attributes.edgelabel) {
-            elementData.edgelabel = elementData.attributes.edgelabel;
-            delete elementData.attributes.edgelabel;
+        if (isKeyword(peek(), "digraph")) {
+            graph.directed = true;
+        } else if (!isKeyword(peek(), "graph")) {
+            throw fail("Expected 'graph' or 'digraph'");
         }
-
-        // We need to set the start to the "main" attributes
-        if (elementData.attributes.start) {
-            elementData.start = elementData.attributes.start;
-            delete elementData.attributes.start;
+        position++;
+        if (peek() !== undefined && peek().isId) {
+            graph.id = readId().value;
         }
 
-        // We need to set the end to the "main" attributes
-        if (elementData.attributes.end) {
-            elementData.end = elementData.attributes.end;
-            delete elementData.attributes.end;
-        }
+        // The body of the graph, whose edge defaults are kept to know if the edges go both ways
+        const rootScope = {nodeDefaults: {}, edgeDefaults: graph.edgeDefaults, cluster: undefined, members: []};
+        expect("{");
+        readStatements(rootScope);
+        expect("}");
 
-        return elementData;
+        return graph;
     }
 
     /**
-     * Get the JSON format of the graph
-     * @return {nodes: any[], edges: any[]} The graph a JSON Object
+     * Get the JSON value of a DOT ID, only the unquoted numerals are numbers
+     * @param token The DOT ID token
      */
-    public toJson = (): { nodes: any[], edges: any[], attributes: IGraphAttribute } => {
-        return {
-            attributes: this.getAttributes(),
-            nodes: this.getNodes().map((node) => {
-                if (node.color !== undefined) {
-                    node.color = tinycolor2(node.color).toRgbString();
-                }
-                return node;
-            }),
-            edges: this.getEdges().map((edge) => {
-                if (edge.color !== undefined) {
-                    edge.color = tinycolor2(edge.color).toRgbString();
-                }
-                return edge;
-            })
+    private static dotValueToJSON = (token: { value: string, isQuoted: boolean }): any => {
+        if (!token.isQuoted && /^-?(\.[0-9]+|[0-9]+(\.[0-9]*)?)$/.test(token.value)) {
+            return Number(token.value);
         }
+        return token.value;
     }
 
     /**
-     * Get the JSON Graphology format of the graph
-     * @return SerializedGraph<Attributes, Attributes, any> | AbstractGraph<Attributes, Attributes, any> The graph as a Graphology JSON Object
+     * Get a DOT ID of a JSON value, quoting it if it is neither an identifier nor a numeral (or if it is a keyword)
+     * @param value The JSON value
      */
-    public toGraphology = (): SerializedGraph<Attributes, Attributes, any> | AbstractGraph<Attributes, Attributes, any> => {
+    private static jsonValueToDot = (value: any): string => {
+        const valueAsString = `${value}`;
+        if ((/^[A-Za-z_][A-Za-z0-9_]*$/.test(valueAsString) && !["node", "edge", "graph", "digraph", "subgraph", "strict"].includes(valueAsString.toLowerCase())) || (typeof value === "number" && /^-?(\.[0-9]+|[0-9]+(\.[0-9]*)?)$/.test(valueAsString))) {
+            return valueAsString;
+        }
+        return `"${valueAsString.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+    }
 
-        // Handle the attributes
-        const attributes: Attributes = {...this.getAttributes()}
-        attributes.name = attributes.id;
-        delete attributes.id;
+    /**
+     * Get the attributes of a DOT element from its DOT attributes
+     * @param elementData The element with its id or its source and target
+     * @param attributes The DOT attributes of the element
+     * @param isNode If the element is a node
+     */
+    private static getDotElementAttributes = (elementData: any, attributes: any, isNode: boolean): any => {
+        elementData.attributes = {};
 
-        // Handle the nodes
-        const nodes: Array<SerializedNode<Attributes>> = this.getNodes().map((node) => {
-            if (node.color !== undefined) {
-                node.color = tinycolor2(node.color).toRgbString();
+        Object.entries(attributes).forEach(([key, value]: [string, any]) => {
+            switch (key) {
+                case "label":
+                    // '\N' is the default label of a node (its name)
+                    if (value !== "\\N") {
+                        elementData.label = value;
+                    }
+                    break;
+                case "color":
+                case "fillcolor":
+                    // The color can be a list of colors or an HSV triplet that we cannot handle
+                    if (tinycolor2(`${value}`).isValid() && (key === "color" || elementData.color === undefined)) {
+                        elementData.color = `${value}`;
+                    } else if (!tinycolor2(`${value}`).isValid()) {
+                        elementData.attributes[key] = value;
+                    }
+                    break;
+                case "pos":
+                    // The position of a node is 'x,y[,z][!]', the position of an edge is a spline
+                    if (isNode) {
+                        const [x, y, z] = `${value}`.replace("!", "").split(",").map(Number);
+                        elementData.x = x;
+                        elementData.y = y;
+                        if (z !== undefined) {
+                            elementData.z = z;
+                        }
+                    } else {
+                        elementData.attributes[key] = value;
+                    }
+                    break;
+                case "width":
+                    if (isNode) {
+                        elementData.size = Number(value);
+                    } else {
+                        elementData.attributes[key] = value;
+                    }
+                    break;
+                case "penwidth":
+                    if (!isNode) {
+                        elementData.thickness = Number(value);
+                    } else {
+                        elementData.attributes[key] = value;
+                    }
+                    break;
+                case "weight":
+                case "shape":
+                    elementData[key] = value;
+                    break;
+                case "id":
+                    if (!isNode) {
+                        elementData.id = value;
+                    }
+                    break;
+                default:
+                    elementData.attributes[key] = value;
+                    break;
             }
+        });
 
-            // If there is no key, set it with the id
-            if (node.key === undefined) {
-                node.key = node.id;
-                delete node.id
-            }
+        return elementData;
+    }
 
-            return GraphFormatConverter.flattenHelper<SerializedNode<Attributes>>(node);
-        })
+    /**
+     * Get an element as DOT attributes
+     * @param element The element
+     * @param options The options of the DOT writer
+     */
+    private static getElementAsDotAttributes = (element: any, options: IDotOptions): string[] => {
+        const attributes: string[] = [];
 
-        // Handle the edges
-        const edges: Array<SerializedEdge<Attributes>> = this.getEdges().map((edge) => {
-            if (edge.color !== undefined) {
-                edge.color = tinycolor2(edge.color).toRgbString();
-            }
+        // The position is written as a single attribute
+        if (element.x !== undefined && element.y !== undefined) {
+            const position = element.z !== undefined ? `${element.x},${element.y},${element.z}` : `${element.x},${element.y}`;
+            attributes.push(`pos=${GraphFormatConverter.jsonValueToDot(options.pinPositions ? `${position}!` : position)}`);
+        }
 
-            // If there is no key, set it with the id if it exists, else we don't care
-            if (edge.key === undefined && edge.id !== undefined) {
-                edge.key = edge.id;
-                delete edge.id
+        // For each attribute we want to get it as a DOT attribute, DOT not knowing the time intervals
+        Object.entries(GraphFormatConverter.getElementWithoutTimes(element)).forEach(([key, value]: [string, any]) => {
+
+            // The undefined values cannot be written
+            if (value === undefined || value === null) {
+                return;
             }
 
-            // If the graph is undirected
-            edge.undirected = this.getAttributes().edgeType === "undirected";
+            switch (key) {
 
-            return GraphFormatConverter.flattenHelper<SerializedEdge<Attributes>>(edge);
-        })
+                // If the value is the attributes we write each of them
+                case "attributes":
+                    if (options.withAttributes !== false) {
+                        Object.entries(value).forEach(([elementKey, elementValue]: [string, any]) => {
+                            if (elementValue !== undefined && elementValue !== null) {
+                                attributes.push(`${GraphFormatConverter.jsonValueToDot(elementKey)}=${GraphFormatConverter.jsonValueToDot(elementValue)}`);
+                            }
+                        });
+                    }
+                    break;
+                case "color":
+                    attributes.push(`color=${GraphFormatConverter.jsonValueToDot(tinycolor2(value).toHexString())}`);
+                    break;
+                case "size":
+                    attributes.push(`width=${GraphFormatConverter.jsonValueToDot(value)}`);
+                    break;
+                case "thickness":
+                    attributes.push(`penwidth=${GraphFormatConverter.jsonValueToDot(value)}`);
+                    break;
+                case "label":
+                case "shape":
+                case "weight":
+                    attributes.push(`${key}=${GraphFormatConverter.jsonValueToDot(value)}`);
+                    break;
+                // The position is set above and the node id, the source and the target are not attributes
+                case "x":
+                case "y":
+                case "z":
+                case "source":
+                case "target":
+                    break;
+                case "id":
+                    // The edges do not have ids in DOT, thus we keep it as an attribute
+                    if (element.source !== undefined) {
+                        attributes.push(`id=${GraphFormatConverter.jsonValueToDot(value)}`);
+                    }
+                    break;
+                default:
+                    if (options.withAttributes !== false) {
+                        attributes.push(`${GraphFormatConverter.jsonValueToDot(key)}=${GraphFormatConverter.jsonValueToDot(value)}`);
+                    }
+                    break;
+            }
+        });
 
-        return {
-            attributes,
-            options: {},
-            nodes,
-            edges
-        }
+        return attributes;
     }
 
     /**
-     * Get the GEXF format of the graph
-     * @return string The graph a GEXF string Object
+     * Create a graph from a Pajek (.net) string
+     * @param graphData The data of the graph as Pajek
+     * @param options The options of the reader
+     * @return GraphFormatConverter The Graph from the Pajek graph data
      */
-    public toGexf = (): string => {
+    public static fromPajek = (graphData: string, options: IReaderOptions = {}): GraphFormatConverter => {
 
-        // Get the nodes and the edges as formatted JSON
-        const nodes: any[] = this.getNodes().map(GraphFormatConverter.getElementAsGexfJSON);
-        const edges: any[] = this.getEdges().map(GraphFormatConverter.getElementAsGexfJSON);
+        // The graph attributes, the graph is directed as soon as there is an arc
+        const graphAttributes: IGraphAttribute = {id: "graph", edgeType: "undirected", mode: "static"};
 
-        // The attributes a node can take
-        const nodeAttributes: any[] = this.nodeAttributes.map((attribute) => {
-            return {
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: attribute.id,
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}title`]: attribute.title,
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}type`]: GraphFormatConverter.jsonTypeToGEXF(attribute.type),
-            }
-        });
+        // The nodes are known by their Pajek number (1-based) while reading, their name being their id once it is known to be unique
+        const nodes: any[] = [];
+        const edges: any[] = [];
+        let section: string | undefined;
 
-        // The attributes an edge can take
-        const edgeAttributes: any[] = this.edgeAttributes.map((attribute) => {
-            return {
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: attribute.id,
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}title`]: attribute.title,
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}type`]: GraphFormatConverter.jsonTypeToGEXF(attribute.type),
-            }
-        });
+        // The position of the line of each element, to locate the errors
+        const nodePositions: number[] = [];
+        const edgePositions: number[] = [];
+        let lineStart = 0;
 
-        // The root object
-        const root = {
-            "?xml": {
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}version`]: "1.0",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}encoding`]: "UTF-8",
+        try {
+            graphData.split("\n").forEach((line) => {
+                const linePosition = lineStart + Math.max(line.search(/\S/), 0);
+                lineStart += line.length + 1;
+
+                // The empty lines and the comments are skipped
+                const trimmedLine = line.trim();
+                if (trimmedLine === "" || trimmedLine.startsWith("%")) {
+                    return;
+                }
+
+                // The sections start with a '*'
+                if (trimmedLine.startsWith("*")) {
+                    const [sectionName, ...sectionArguments] = GraphFormatConverter.splitPajekLine(trimmedLine);
+                    section = sectionName.toLowerCase();
+                    switch (section) {
+                        case "*network":
+                            graphAttributes.id = sectionArguments.join(" ");
+                            break;
+                        case "*vertices":
+                            // The vertices that are not listed still exist and are labeled by their number
+                            for (let index = 1; index <= Number(sectionArguments[0]); index++) {
+                                nodes.push({id: `${index}`, label: `${index}`});
+                                nodePositions.push(linePosition);
+                            }
+                            break;
+                        case "*arcs":
+                        case "*arcslist":
+                            graphAttributes.edgeType = "directed";
+                            break;
+                        case "*edges":
+                        case "*edgeslist":
+                            break;
+                        default:
+                            throw GraphFormatConverter.getTextParseError("Pajek", `Unsupported section '${sectionName}'`, graphData, linePosition);
+                    }
+                    return;
+                }
+
+                // The other lines are the content of the current section
+                const tokens = GraphFormatConverter.splitPajekLine(trimmedLine);
+                const getNode = (number: string) => {
+                    if (nodes[Number(number) - 1] === undefined) {
+                        throw GraphFormatConverter.getTextParseError("Pajek", `Unknown vertex ${number}`, graphData, linePosition);
+                    }
+                    return nodes[Number(number) - 1];
+                }
+                switch (section) {
+
+                    // A vertex is 'number ["label" [x y [z]]] [parameter value]*'
+                    case "*vertices": {
+                        const node = getNode(tokens[0]);
+                        nodePositions[Number(tokens[0]) - 1] = linePosition;
+                        let index = 1;
+                        if (tokens[index] !== undefined) {
+                            node.label = tokens[index++];
+                        }
+                        ["x", "y", "z"].forEach((coordinate) => {
+                            if (tokens[index] !== undefined && !Number.isNaN(Number(tokens[index]))) {
+                                node[coordinate] = Number(tokens[index++]);
+                            }
+                        });
+                        GraphFormatConverter.getPajekParameters(tokens.slice(index), node);
+                        break;
+                    }
+
+                    // An edge is 'source target [weight] [parameter value]*'
+                    case "*arcs":
+                    case "*edges": {
+                        const edge: any = {source: getNode(tokens[0]).id, target: getNode(tokens[1]).id};
+                        let index = 2;
+                        if (tokens[index] !== undefined && !Number.isNaN(Number(tokens[index]))) {
+                            edge.weight = Number(tokens[index++]);
+                        }
+                        edge.undirected = section === "*edges";
+                        GraphFormatConverter.getPajekParameters(tokens.slice(index), edge);
+                        edges.push(edge);
+                        edgePositions.push(linePosition);
+                        break;
+                    }
+
+                    // A list is 'source target*'
+                    case "*arcslist":
+                    case "*edgeslist":
+                        tokens.slice(1).forEach((target) => {
+                            edges.push({source: getNode(tokens[0]).id, target: getNode(target).id, undirected: section === "*edgeslist"});
+                            edgePositions.push(linePosition);
+                        });
+                        break;
+                    default:
+                        throw GraphFormatConverter.getTextParseError("Pajek", `Unexpected line '${trimmedLine}'`, graphData, linePosition);
+                }
+            });
+        } catch (e) {
+            throw GraphFormatConverter.getParseError("Pajek", e);
+        }
+
+        // The names of the vertices are the ids of the nodes when they are unique (as written by 'toPajek'), else the nodes keep their number as id
+        const names = nodes.map((node) => `${node.label}`);
+        if (new Set(names).size === names.length) {
+            edges.forEach((edge) => {
+                edge.source = names[Number(edge.source) - 1];
+                edge.target = names[Number(edge.target) - 1];
+            });
+            nodes.forEach((node) => node.id = node.label);
+        }
+
+        // The edges only need to know if they are undirected when their direction is not the one of the graph
+        edges.forEach((edge) => {
+            if (graphAttributes.edgeType === "undirected" || edge.undirected === false) {
+                delete edge.undirected;
+            }
+        });
+
+        // The Pajek elements are now as they would be in JSON, thus we let the JSON reader guess the types of the attributes
+        return GraphFormatConverter.fromJsonElements({nodes, edges, attributes: graphAttributes}, options, GraphFormatConverter.getTextElementLocator(graphData, nodePositions, edgePositions));
+    }
+
+    /**
+     * Split a Pajek line into tokens, the quoted strings being kept as a whole (without their quotes)
+     * @param line The Pajek line
+     */
+    private static splitPajekLine = (line: string): string[] => {
+        return (line.match(/"[^"]*"|\S+/g) || []).map((token) => token.startsWith('"') ? token.slice(1, -1) : token);
+    }
+
+    /**
+     * Get the Pajek 'parameter value' pairs that follow an element, the edge label ('l') being its label
+     * @param tokens The tokens of the parameters
+     * @param elementData The element to set the parameters of
+     */
+    private static getPajekParameters = (tokens: string[], elementData: any) => {
+        for (let index = 0; index < tokens.length; index += 2) {
+            if (tokens[index] === "l") {
+                elementData.label = tokens[index + 1];
+            } else {
+                elementData[tokens[index]] = Number.isNaN(Number(tokens[index + 1])) ? tokens[index + 1] : Number(tokens[index + 1]);
+            }
+        }
+    }
+
+    /**
+     * Create a graph from a CSV nodes table and a CSV edges table (Gephi spreadsheet style)
+     * @param graphData The nodes table (optional, the nodes can be created from the edges) and the edges table as CSV
+     * @param options The options of the CSV reader
+     * @return GraphFormatConverter The Graph from the CSV graph data
+     */
+    public static fromCsv = (graphData: { nodes?: string, edges: string }, options: ICsvOptions = {}): GraphFormatConverter => {
+
+        // The delimiter and the quote of the values
+        const delimiter = options.delimiter !== undefined ? options.delimiter : ",";
+        const quote = options.quote !== undefined ? options.quote : '"';
+
+        // We use a try/catch for the parser to know if the CSV strings are correct or not, the position of the rows being kept to locate the elements
+        let nodeRows: string[][];
+        let edgeRows: string[][];
+        const nodeRowPositions: number[] = [];
+        const edgeRowPositions: number[] = [];
+        try {
+            nodeRows = graphData.nodes !== undefined ? GraphFormatConverter.parseCsv(graphData.nodes, delimiter, quote, "CSV nodes", nodeRowPositions) : [];
+            edgeRows = GraphFormatConverter.parseCsv(graphData.edges, delimiter, quote, "CSV edges", edgeRowPositions);
+        } catch (e) {
+            throw GraphFormatConverter.getParseError("CSV", e);
+        }
+
+        // The field of a column is given by the options or else by the Gephi columns (whatever their case)
+        const getField = (column: string): string | undefined => {
+            if (options.headers !== undefined && options.headers[column] !== undefined) {
+                return options.headers[column];
+            }
+            const gephiColumn = Object.keys(GraphFormatConverter.csvHeaders).find((header) => header.toLowerCase() === column.trim().toLowerCase());
+            return gephiColumn !== undefined ? GraphFormatConverter.csvHeaders[gephiColumn] : undefined;
+        }
+
+        // Get the elements of a table, the first row being the header
+        const getElements = (rows: string[][]): any[] => {
+            const header = rows.length > 0 ? rows[0] : [];
+            return rows.slice(1).map((row) => {
+                const elementData: any = {attributes: {}};
+                row.forEach((value, index) => {
+
+                    // The empty values are missing values
+                    if (value === "" || header[index] === undefined) {
+                        return;
+                    }
+
+                    const field = getField(header[index]);
+                    switch (field) {
+                        case undefined:
+                            elementData.attributes[header[index]] = options.rawValues ? value : GraphFormatConverter.csvValueToJSON(value);
+                            break;
+                        case "id":
+                        case "source":
+                        case "target":
+                        case "label":
+                        case "color":
+                            elementData[field] = value;
+                            break;
+                        case "type":
+                            elementData.type = value.trim().toLowerCase();
+                            break;
+                        case "x":
+                        case "y":
+                        case "z":
+                        case "size":
+                        case "weight":
+                            elementData[field] = Number(value);
+                            break;
+                        default:
+                            elementData[field] = GraphFormatConverter.csvValueToJSON(value);
+                            break;
+                    }
+                });
+                return elementData;
+            });
+        }
+
+        try {
+            const nodes: any[] = getElements(nodeRows);
+            const edges: any[] = getElements(edgeRows);
+
+            // The edges without a type are directed (as in Gephi), the graph is directed as soon as the edges have several types
+            const edgeTypes = edges.map((edge) => edge.type !== undefined ? edge.type : "directed").filter((type, index, types) => types.indexOf(type) === index);
+            const graphAttributes: IGraphAttribute = {
+                id: "graph",
+                edgeType: edgeTypes.length === 1 && (edgeTypes[0] === "undirected" || edgeTypes[0] === "mutual") ? edgeTypes[0] : "directed",
+                mode: "static"
+            };
+            edges.forEach((edge) => {
+                if (edgeTypes.length > 1) {
+                    edge.undirected = edge.type === "undirected";
+                }
+                delete edge.type;
+            });
+
+            // The nodes that only exist in the edges table are created
+            const nodeIds: { [id: string]: boolean } = {};
+            nodes.forEach((node) => nodeIds[node.id] = true);
+            edges.forEach((edge) => {
+                [edge.source, edge.target].forEach((nodeId) => {
+                    if (!nodeIds[nodeId]) {
+                        nodeIds[nodeId] = true;
+                        nodes.push({id: nodeId, attributes: {}});
+                    }
+                });
+            });
+
+            // The CSV elements are now as they would be in JSON, thus we let the JSON reader guess the types of the attributes (the rows following the header of each table)
+            const locateNode = GraphFormatConverter.getTextElementLocator(graphData.nodes !== undefined ? graphData.nodes : "", nodeRowPositions.slice(1), []);
+            const locateEdge = GraphFormatConverter.getTextElementLocator(graphData.edges, [], edgeRowPositions.slice(1));
+            return GraphFormatConverter.fromJsonElements({nodes, edges, attributes: graphAttributes}, options, (elementType, index) => elementType === "node" ? locateNode(elementType, index) : locateEdge(elementType, index));
+        } catch (e) {
+            throw GraphFormatConverter.getMalformedError(e);
+        }
+    }
+
+    /**
+     * Parse a CSV string as rows of values, the empty lines being skipped
+     * @param graphData The CSV string
+     * @param delimiter The delimiter of the values
+     * @param quote The character used to quote the values
+     * @param formatName The name of the CSV string in the errors
+     * @param rowPositions The positions of the rows in the string, filled by the parser
+     */
+    private static parseCsv = (graphData: string, delimiter: string, quote: string, formatName = "CSV", rowPositions: number[] = []): string[][] => {
+        const rows: string[][] = [];
+        const positions: number[] = [];
+        let row: string[] = [];
+        let value = "";
+        let isQuoted = false;
+        let quotePosition = 0;
+
+        // The byte order mark is skipped
+        let position = graphData.charCodeAt(0) === 0xfeff ? 1 : 0;
+        let rowPosition = position;
+        while (position < graphData.length) {
+
+            // In a quoted value, a doubled quote is an escaped quote
+            if (isQuoted) {
+                if (graphData.startsWith(quote + quote, position)) {
+                    value += quote;
+                    position += 2 * quote.length;
+                } else if (graphData.startsWith(quote, position)) {
+                    isQuoted = false;
+                    position += quote.length;
+                } else {
+                    value += graphData[position++];
+                }
+            }
+
+            // A value can only be quoted from its start
+            else if (value === "" && graphData.startsWith(quote, position)) {
+                isQuoted = true;
+                quotePosition = position;
+                position += quote.length;
+            }
+
+            // The end of a value
+            else if (graphData.startsWith(delimiter, position)) {
+                row.push(value);
+                value = "";
+                position += delimiter.length;
+            }
+
+            // The end of a row
+            else if (graphData[position] === "\n" || graphData[position] === "\r") {
+                row.push(value);
+                rows.push(row);
+                positions.push(rowPosition);
+                row = [];
+                value = "";
+                position += graphData.startsWith("\r\n", position) ? 2 : 1;
+                rowPosition = position;
+            } else {
+                value += graphData[position++];
+            }
+        }
+
+        if (isQuoted) {
+            throw GraphFormatConverter.getTextParseError(formatName, "Unterminated quoted value", graphData, quotePosition);
+        }
+
+        // The last row may not end with a line break
+        if (value !== "" || row.length > 0) {
+            row.push(value);
+            rows.push(row);
+            positions.push(rowPosition);
+        }
+
+        const isNotEmpty = (currentRow: string[]) => currentRow.length > 1 || currentRow[0] !== "";
+        rowPositions.push(...positions.filter((currentPosition, index) => isNotEmpty(rows[index])));
+        return rows.filter(isNotEmpty);
+    }
+
+    /**
+     * Know if a string is a decimal numeral, without any leading zero, that can be read as a number (the other numerals such as '0x10', '007' or 'Infinity'
+     * being often ids or codes)
+     * @param value The string
+     */
+    private static isDecimalNumeral = (value: string): boolean => {
+        return /^-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?$/.test(value.trim());
+    }
+
+    /**
+     * Get the JSON value of a CSV value, the decimal numbers and the booleans being parsed so that 'guessJSONAttribute' can guess their type
+     * (the other numerals such as '0x10' or '007' are kept as strings as they are often ids or codes)
+     * @param value The CSV value
+     */
+    private static csvValueToJSON = (value: string): any => {
+        if (GraphFormatConverter.isDecimalNumeral(value)) {
+            return Number(value);
+        }
+        if (value.trim().toLowerCase() === "true" || value.trim().toLowerCase() === "false") {
+            return value.trim().toLowerCase() === "true";
+        }
+        return value;
+    }
+
+    /**
+     * Create a graph from Cytoscape.js JSON elements
+     * @param graphData The Cytoscape.js graph (as given by 'cy.json()'), its elements as '{nodes, edges}' or as a flat array
+     * @param options The options of the reader
+     * @return GraphFormatConverter The Graph from the Cytoscape.js graph data
+     */
+    public static fromCytoscape = (graphData: { data?: any, elements: { nodes?: any[], edges?: any[] } | any[] } | any[], options: IReaderOptions = {}): GraphFormatConverter => {
+
+        // The elements can be given directly as a flat array
+        const elements = Array.isArray(graphData) ? graphData : graphData.elements;
+        const data = !Array.isArray(graphData) && graphData.data !== undefined ? graphData.data : {};
+
+        // In a flat array, the group of an element is given or else an element with a source and a target is an edge
+        let nodeElements: any[];
+        let edgeElements: any[];
+        let nodePaths: string[];
+        let edgePaths: string[];
+        if (Array.isArray(elements)) {
+            const isEdge = (element: any) => element.group !== undefined ? element.group === "edges" : element.data !== undefined && element.data.source !== undefined && element.data.target !== undefined;
+            const elementPath = Array.isArray(graphData) ? "" : "elements";
+            nodeElements = elements.filter((element) => !isEdge(element));
+            edgeElements = elements.filter(isEdge);
+            nodePaths = nodeElements.map((element) => `${elementPath}[${elements.indexOf(element)}]`);
+            edgePaths = edgeElements.map((element) => `${elementPath}[${elements.indexOf(element)}]`);
+        } else {
+            nodeElements = elements.nodes !== undefined ? elements.nodes : [];
+            edgeElements = elements.edges !== undefined ? elements.edges : [];
+            nodePaths = nodeElements.map((element, index) => `elements.nodes[${index}]`);
+            edgePaths = edgeElements.map((element, index) => `elements.edges[${index}]`);
+        }
+
+        // The data of the elements is as it would be in JSON, but the position is a separate object
+        const nodes: any[] = nodeElements.map((node) => {
+            const nodeData: any = {...node.data};
+            if (node.position !== undefined) {
+                nodeData.x = node.position.x;
+                nodeData.y = node.position.y;
+            }
+            return nodeData;
+        });
+        const edges: any[] = edgeElements.map((edge) => ({...edge.data}));
+
+        // Then we gather the graph attributes
+        const graphAttributes: IGraphAttribute = {
+            id: data.id !== undefined ? data.id : (data.name !== undefined ? data.name : "graph"),
+            edgeType: data.edgeType !== undefined ? data.edgeType : "undirected",
+            mode: data.mode !== undefined ? data.mode : "static"
+        };
+
+        // Now return the graph as it would be in JSON, the errors being located in the Cytoscape.js elements
+        return GraphFormatConverter.fromJsonElements({nodes, edges, attributes: graphAttributes}, options, (elementType, index, element, field) => {
+            return {path: `${(elementType === "node" ? nodePaths : edgePaths)[index]}${field !== undefined ? `.data.${field}` : ""}`};
+        });
+    }
+
+    /**
+     * Get an element as a Cytoscape.js element, every field (the color as an hexadecimal string) and attribute being in its data so that the styles can use them with 'data(...)'
+     * @param element The element
+     */
+    private static getElementAsCytoscapeJSON = (element: any): any => {
+
+        // The element as an object
+        const elementObject: any = {
+            data: {}
+        };
+
+        // For each attribute we want to put it in the data
+        Object.entries(element).forEach(([key, value]: [string, any]) => {
+
+            // The undefined values cannot be written
+            if (value === undefined || value === null) {
+                return;
+            }
+
+            switch (key) {
+
+                // If the value is the attributes we put each of them in the data, unless they override the fields of the element
+                case "attributes":
+                    Object.entries(value).forEach(([elementKey, elementValue]: [string, any]) => {
+                        if (elementObject.data[elementKey] === undefined && element[elementKey] === undefined) {
+                            elementObject.data[elementKey] = elementValue;
+                        }
+                    });
+                    break;
+                // Cytoscape.js only knows string ids
+                case "id":
+                case "source":
+                case "target":
+                    elementObject.data[key] = `${value}`;
+                    break;
+                case "color":
+                    elementObject.data.color = tinycolor2(value).toHexString();
+                    break;
+                // The position is set in an other way
+                case "x":
+                case "y":
+                    elementObject.position = {...elementObject.position, [key]: value};
+                    break;
+                default:
+                    elementObject.data[key] = value;
+                    break;
+            }
+        });
+
+        return elementObject;
+    }
+
+    /**
+     * Create a graph from a node-link JSON graph (as used by d3-force and 'networkx.node_link_data')
+     * @param graphData The data of the graph as node-link JSON
+     * @param options The options of the reader
+     * @return GraphFormatConverter The Graph from the node-link graph data
+     */
+    public static fromNodeLink = (graphData: { directed?: boolean, multigraph?: boolean, graph?: any, nodes: any[], links?: any[], edges?: any[] }, options: IReaderOptions = {}): GraphFormatConverter => {
+
+        // The nodes without an id are known by their index, and the transient fields of the d3 simulation are not kept
+        const nodes: any[] = graphData.nodes.map((node, index) => {
+            const nodeData: any = {...node};
+            if (nodeData.id === undefined) {
+                nodeData.id = index;
+            }
+            delete nodeData.index;
+            delete nodeData.vx;
+            delete nodeData.vy;
+            return nodeData;
+        });
+
+        // The source and the target of a link are node ids, node indices or even nodes once the d3 simulation started
+        const nodeIds: any = {};
+        nodes.forEach((node) => nodeIds[node.id] = true);
+        const getNodeId = (endpoint: any): any => {
+            if (endpoint !== null && typeof endpoint === "object") {
+                return endpoint.id !== undefined ? endpoint.id : nodes[endpoint.index].id;
+            }
+            if (typeof endpoint === "number" && !nodeIds[endpoint] && nodes[endpoint] !== undefined) {
+                return nodes[endpoint].id;
+            }
+            return endpoint;
+        }
+
+        // NetworkX can name the links "edges"
+        const linksName = graphData.links !== undefined || graphData.edges === undefined ? "links" : "edges";
+        const links = graphData.links !== undefined ? graphData.links : (graphData.edges !== undefined ? graphData.edges : []);
+        const edges: any[] = links.map((link) => {
+            const edgeData: any = {...link, source: getNodeId(link.source), target: getNodeId(link.target)};
+            delete edgeData.index;
+            return edgeData;
+        });
+
+        // Then we gather the graph attributes
+        const graph = graphData.graph !== undefined ? graphData.graph : {};
+        const graphAttributes: IGraphAttribute = {
+            id: graph.id !== undefined ? graph.id : (graph.name !== undefined ? graph.name : "graph"),
+            edgeType: graphData.directed ? "directed" : "undirected",
+            mode: graph.mode !== undefined ? graph.mode : "static"
+        };
+
+        // Now return the graph as it would be in JSON, the errors being located in the nodes and the links
+        return GraphFormatConverter.fromJsonElements({nodes, edges, attributes: graphAttributes}, options, (elementType, index, element, field) => {
+            return {path: `${elementType === "node" ? "nodes" : linksName}[${index}]${field !== undefined ? `.${field}` : ""}`};
+        });
+    }
+
+    /**
+     * Get an element as a flat node-link JSON object, the attributes being at the same level as the fields
+     * @param element The element
+     */
+    private static getElementAsNodeLinkJSON = (element: any): any => {
+
+        // The element as an object
+        const elementObject: any = {};
+
+        Object.entries(element).forEach(([key, value]: [string, any]) => {
+
+            // The undefined values cannot be written
+            if (value === undefined || value === null) {
+                return;
+            }
+
+            switch (key) {
+
+                // If the value is the attributes we put each of them in the element, unless they override its fields
+                case "attributes":
+                    Object.entries(value).forEach(([elementKey, elementValue]: [string, any]) => {
+                        if (element[elementKey] === undefined) {
+                            elementObject[elementKey] = elementValue;
+                        }
+                    });
+                    break;
+                case "color":
+                    elementObject.color = tinycolor2(value).toHexString();
+                    break;
+                default:
+                    elementObject[key] = value;
+                    break;
+            }
+        });
+
+        return elementObject;
+    }
+
+    /**
+     * Create a graph from a JSON Graph Format (v2) document, the first graph being used if the document contains several graphs
+     * @param graphData The data of the graph as JGF
+     * @param options The options of the reader
+     * @return GraphFormatConverter The Graph from the JGF graph data
+     */
+    public static fromJgf = (graphData: { graph?: any, graphs?: any[] }, options: IReaderOptions = {}): GraphFormatConverter => {
+        return GraphFormatConverter.fromJgfAll(graphData, options)[0];
+    }
+
+    /**
+     * Create a graph from each graph of a JSON Graph Format (v2) document
+     * @param graphData The data of the graphs as JGF
+     * @param options The options of the reader
+     * @return GraphFormatConverter[] The Graphs from the JGF graph data
+     */
+    public static fromJgfAll = (graphData: { graph?: any, graphs?: any[] }, options: IReaderOptions = {}): GraphFormatConverter[] => {
+
+        // A document contains either a graph or an array of graphs
+        const graphs = graphData.graph !== undefined ? [graphData.graph] : (graphData.graphs !== undefined ? graphData.graphs : []);
+        if (graphs.length === 0) {
+            throw new GraphValidationError("An error has occurred while creating the graph, your file is malformed");
+        }
+
+        return graphs.map((graph, graphIndex) => {
+
+            // The graphs are directed unless told otherwise
+            const graphPath = graphData.graph !== undefined ? "graph" : `graphs[${graphIndex}]`;
+            const isDirected = graph.directed !== false;
+            const metadata = graph.metadata !== undefined ? graph.metadata : {};
+            const graphAttributes: IGraphAttribute = {
+                id: graph.id !== undefined ? graph.id : (graph.label !== undefined ? graph.label : "graph"),
+                edgeType: isDirected ? "directed" : "undirected",
+                mode: metadata.mode !== undefined ? metadata.mode : "static"
+            };
+
+            // The nodes are an object keyed by their id (or an array in the first version of JGF), their metadata being their fields and attributes
+            const nodeEntries: Array<[string, any]> = Array.isArray(graph.nodes) ? graph.nodes.map((node: any) => [node.id, node]) : Object.entries(graph.nodes !== undefined ? graph.nodes : {});
+            const nodePaths = nodeEntries.map(([nodeId], index) => Array.isArray(graph.nodes) ? `${graphPath}.nodes[${index}]` : `${graphPath}.nodes.${nodeId}`);
+            const nodes: any[] = nodeEntries.map(([nodeId, node]) => {
+                return {
+                    ...node.metadata,
+                    id: nodeId,
+                    label: node.label
+                };
+            });
+
+            // The edges only need to know if they are undirected when the graph is mixed
+            const jgfEdges: any[] = graph.edges !== undefined ? graph.edges : [];
+            const isMixed = jgfEdges.some((edge) => edge.directed !== undefined && edge.directed !== isDirected);
+            const edges: any[] = jgfEdges.map((edge) => {
+                const edgeData: any = {
+                    ...edge.metadata,
+                    id: edge.id,
+                    source: edge.source,
+                    target: edge.target,
+                    label: edge.label,
+                    relation: edge.relation
+                };
+                if (isMixed) {
+                    edgeData.undirected = edge.directed !== undefined ? !edge.directed : !isDirected;
+                }
+                return edgeData;
+            });
+
+            // Now return the graph as it would be in JSON, the errors being located in the JGF graph
+            return GraphFormatConverter.fromJsonElements({nodes, edges, attributes: graphAttributes}, options, (elementType, index, element, field) => {
+                return {path: elementType === "node" ? nodePaths[index] : `${graphPath}.edges[${index}]${field !== undefined ? `.${field}` : ""}`};
+            });
+        });
+    }
+
+    /**
+     * Get an element as a JGF element, its fields (the color as an hexadecimal string) and attributes being its metadata
+     * @param element The element
+     */
+    private static getElementAsJgfJSON = (element: any): any => {
+
+        // The element as an object
+        const elementObject: any = {
+            metadata: {}
+        };
+
+        Object.entries(element).forEach(([key, value]: [string, any]) => {
+
+            // The undefined values cannot be written
+            if (value === undefined || value === null) {
+                return;
+            }
+
+            switch (key) {
+
+                // If the value is the attributes we put each of them in the metadata, the relation of an edge being a JGF field
+                case "attributes":
+                    Object.entries(value).forEach(([elementKey, elementValue]: [string, any]) => {
+                        if (element.source !== undefined && elementKey === "relation") {
+                            elementObject.relation = elementValue;
+                        } else if (element[elementKey] === undefined) {
+                            elementObject.metadata[elementKey] = elementValue;
+                        }
+                    });
+                    break;
+                // JGF only knows string ids
+                case "id":
+                case "source":
+                case "target":
+                    elementObject[key] = `${value}`;
+                    break;
+                case "label":
+                    elementObject.label = value;
+                    break;
+                case "undirected":
+                    elementObject.directed = !value;
+                    break;
+                case "color":
+                    elementObject.metadata.color = tinycolor2(value).toHexString();
+                    break;
+                default:
+                    elementObject.metadata[key] = value;
+                    break;
+            }
+        });
+
+        // The metadata cannot be empty
+        if (Object.keys(elementObject.metadata).length === 0) {
+            delete elementObject.metadata;
+        }
+
+        return elementObject;
+    }
+
+    /**
+     * Create a graph from a GraphSON 3.0 adjacency list (one vertex per line, with its edges)
+     * @param graphData The data of the graph as GraphSON
+     * @param options The options of the GraphSON reader
+     * @return GraphFormatConverter The Graph from the GraphSON graph data
+     */
+    public static fromGraphSON = (graphData: string, options: IGraphSONOptions = {}): GraphFormatConverter => {
+
+        // We use a try/catch for the parser to know if the JSON lines (or the JSON array of vertices) are correct or not, the position of the lines being kept to locate the vertices
+        let vertices: any[] = [];
+        const vertexPositions: number[] = [];
+        const isArray = graphData.trim().startsWith("[");
+        try {
+            if (isArray) {
+                vertices = JSON.parse(graphData);
+            } else {
+                let lineStart = 0;
+                graphData.split("\n").forEach((line) => {
+                    const linePosition = lineStart;
+                    lineStart += line.length + 1;
+                    if (line.trim() !== "") {
+                        vertexPositions.push(linePosition);
+                        vertices.push(JSON.parse(line));
+                    }
+                });
+            }
+        } catch (e) {
+
+            // The position of the error is given by the message of the error (if it has one), from the start of the line of the vertex that cannot be parsed
+            const position = /position (\d+)/.exec(`${e}`);
+            const start = isArray ? undefined : vertexPositions[vertexPositions.length - 1];
+            if (start === undefined && position === null) {
+                throw GraphFormatConverter.getParseError("GraphSON", e);
+            }
+            throw GraphFormatConverter.getTextParseError("GraphSON", `${e}`, graphData, (start !== undefined ? start : 0) + (position !== null ? Number(position[1]) : 0));
+        }
+
+        // The keys of the labels and of the label properties
+        const labelProperty = options.labelProperty !== undefined ? options.labelProperty : "name";
+        const vertexLabelKey = options.vertexLabelAttribute !== undefined ? options.vertexLabelAttribute : "type";
+        const edgeLabelKey = options.edgeLabelAttribute !== undefined ? options.edgeLabelAttribute : "type";
+
+        try {
+            const nodes: any[] = [];
+            const edges: any[] = [];
+
+            // The elements are located by the line of their vertex (or by the path of their vertex in the array of vertices)
+            const nodeVertices: number[] = [];
+            const edgeVertices: number[] = [];
+
+            // The edges are both in the 'outE' of their source and in the 'inE' of their target
+            const edgeIds: { [id: string]: boolean } = {};
+
+            vertices.forEach((vertexObject, vertexIndex) => {
+                const vertex = vertexObject["@type"] === "g:Vertex" ? vertexObject["@value"] : vertexObject;
+                const nodeData: any = {};
+
+                // A property can have several values, we only keep the first one
+                Object.entries(vertex.properties !== undefined ? vertex.properties : {}).forEach(([key, vertexProperties]: [string, any]) => {
+                    const vertexProperty = Array.isArray(vertexProperties) ? vertexProperties[0] : vertexProperties;
+                    const vertexPropertyValue = vertexProperty["@type"] === "g:VertexProperty" ? vertexProperty["@value"] : vertexProperty;
+                    nodeData[key === labelProperty ? "label" : key] = GraphFormatConverter.graphSONValueToJSON(vertexPropertyValue.value);
+                });
+
+                // The label of the vertex is kept as an attribute unless it is the default one
+                if (vertex.label !== undefined && vertex.label !== "vertex" && nodeData[vertexLabelKey] === undefined) {
+                    nodeData[vertexLabelKey] = vertex.label;
+                }
+                nodeData.id = GraphFormatConverter.graphSONValueToJSON(vertex.id);
+                nodes.push(nodeData);
+                nodeVertices.push(vertexIndex);
+
+                // Then we gather its edges
+                [["outE", "inV"], ["inE", "outV"]].forEach(([direction, otherVertex]) => {
+                    Object.entries(vertex[direction] !== undefined ? vertex[direction] : {}).forEach(([label, edgeObjects]: [string, any]) => {
+                        edgeObjects.forEach((edgeObject: any) => {
+                            const edge = edgeObject["@type"] === "g:Edge" ? edgeObject["@value"] : edgeObject;
+
+                            // If the edge is already known from its other vertex we skip it
+                            const edgeId = GraphFormatConverter.graphSONValueToJSON(edge.id);
+                            if (edgeIds[`${edgeId}`]) {
+                                return;
+                            }
+                            edgeIds[`${edgeId}`] = true;
+
+                            // The properties of an edge can be wrapped in a 'g:Property'
+                            const edgeData: any = {};
+                            Object.entries(edge.properties !== undefined ? edge.properties : {}).forEach(([key, property]: [string, any]) => {
+                                const propertyValue = property !== null && property["@type"] === "g:Property" ? property["@value"].value : property;
+                                edgeData[key === labelProperty ? "label" : key] = GraphFormatConverter.graphSONValueToJSON(propertyValue);
+                            });
+
+                            // The label of the edge is kept as an attribute unless it is the default one
+                            if (label !== "edge" && edgeData[edgeLabelKey] === undefined) {
+                                edgeData[edgeLabelKey] = label;
+                            }
+                            edgeData.id = edgeId;
+                            edgeData.source = direction === "outE" ? nodeData.id : GraphFormatConverter.graphSONValueToJSON(edge[otherVertex]);
+                            edgeData.target = direction === "outE" ? GraphFormatConverter.graphSONValueToJSON(edge[otherVertex]) : nodeData.id;
+                            edges.push(edgeData);
+                            edgeVertices.push(vertexIndex);
+                        });
+                    });
+                });
+            });
+
+            // The GraphSON elements are now as they would be in JSON, thus we let the JSON reader guess the types of the attributes
+            return GraphFormatConverter.fromJsonElements({nodes, edges, attributes: {id: "graph", edgeType: "directed", mode: "static"}}, options, (elementType, index) => {
+                const vertexIndex = (elementType === "node" ? nodeVertices : edgeVertices)[index];
+                return isArray ? {path: `[${vertexIndex}]`} : GraphFormatConverter.getTextLocation(graphData, vertexPositions[vertexIndex]);
+            });
+        } catch (e) {
+            throw GraphFormatConverter.getMalformedError(e);
+        }
+    }
+
+    /**
+     * Get the JSON value of a (typed) GraphSON value
+     * @param value The GraphSON value
+     */
+    private static graphSONValueToJSON = (value: any): any => {
+
+        // The untyped values are the JSON values
+        if (value === null || typeof value !== "object") {
+            return value;
+        }
+        if (Array.isArray(value)) {
+            return value.map(GraphFormatConverter.graphSONValueToJSON);
+        }
+
+        switch (value["@type"]) {
+            case undefined:
+                return value;
+            case "g:List":
+            case "g:Set":
+                return value["@value"].map(GraphFormatConverter.graphSONValueToJSON);
+
+            // The dates are written as ISO 8601 strings
+            case "g:Date":
+                return new Date(value["@value"]).toISOString();
+
+            // A map is a flat list of keys and values
+            case "g:Map": {
+                const map: any = {};
+                for (let index = 0; index < value["@value"].length; index += 2) {
+                    map[`${GraphFormatConverter.graphSONValueToJSON(value["@value"][index])}`] = GraphFormatConverter.graphSONValueToJSON(value["@value"][index + 1]);
+                }
+                return map;
+            }
+            default:
+                return GraphFormatConverter.graphSONValueToJSON(value["@value"]);
+        }
+    }
+
+    /**
+     * Get the typed GraphSON value of a JSON value
+     * @param value The JSON value
+     * @param type The type of the attribute of the value, if it is not declared the integers are typed as integers
+     */
+    private static jsonValueToGraphSON = (value: any, type?: AttributeType): any => {
+        switch (type !== undefined ? type : typeof value) {
+            case "number":
+
+                // The values that are not numbers are kept as strings
+                if (Number.isNaN(Number(value))) {
+                    return `${value}`;
+                }
+                if (type === undefined && Number.isInteger(value)) {
+                    return {"@type": Math.abs(value) <= 2147483647 ? "g:Int32" : "g:Int64", "@value": value};
+                }
+                return {"@type": "g:Double", "@value": Number(value)};
+            case "byte":
+            case "short":
+            case "int":
+            case "long":
+            case "biginteger":
+            case "float":
+            case "double":
+            case "bigdecimal":
+
+                // The declared precision is kept (the GEXF types being written as the closest GraphSON core type), the values that are not numbers being kept as strings
+                if (Number.isNaN(Number(value))) {
+                    return `${value}`;
+                }
+                return {"@type": ["byte", "short", "int"].includes(type as string) ? "g:Int32" : (["long", "biginteger"].includes(type as string) ? "g:Int64" : (type === "float" ? "g:Float" : "g:Double")), "@value": Number(value)};
+            case "boolean":
+                return typeof value === "boolean" ? value : `${value}` === "true";
+
+            // The dates are the milliseconds since the epoch, the values that are not dates being kept as strings
+            case "date":
+                return Number.isNaN(Date.parse(`${value}`)) ? `${value}` : {"@type": "g:Date", "@value": Date.parse(`${value}`)};
+
+            // The items of the lists are typed by the type of the list, the values that are not lists being kept as strings
+            case "liststring":
+            case "listboolean":
+            case "listbyte":
+            case "listshort":
+            case "listint":
+            case "listlong":
+            case "listbiginteger":
+            case "listfloat":
+            case "listdouble":
+            case "listbigdecimal":
+            case "listchar":
+            case "listdate": {
+                const list = GraphFormatConverter.coerceValue(value, type as AttributeType);
+                if (!list.coerced) {
+                    return `${value}`;
+                }
+                return {"@type": "g:List", "@value": list.value.map((item: any) => GraphFormatConverter.jsonValueToGraphSON(item, (type as string).replace("list", "") as AttributeType))};
+            }
+            default:
+                return `${value}`;
+        }
+    }
+
+    /**
+     * Get the properties of an element as typed GraphSON values
+     * @param element The element
+     * @param attributes The declared attributes of the element
+     * @param labelProperty The property holding the label of the element
+     */
+    private static getElementAsGraphSONProperties = (element: any, attributes: IAttribute[], labelProperty: string): Array<[string, any]> => {
+        const properties: Array<[string, any]> = [];
+
+        // GraphSON does not know the time intervals
+        Object.entries(GraphFormatConverter.getElementWithoutTimes(element)).forEach(([key, value]: [string, any]) => {
+
+            // The undefined values cannot be written
+            if (value === undefined || value === null) {
+                return;
+            }
+
+            switch (key) {
+
+                // If the value is the attributes, they are named by their title and their declared type decides their GraphSON type
+                case "attributes":
+                    Object.entries(value).forEach(([elementKey, elementValue]: [string, any]) => {
+                        if (elementValue !== undefined && elementValue !== null) {
+                            const attribute = attributes.find((currentAttribute) => `${currentAttribute.id}` === elementKey);
+                            properties.push([attribute !== undefined ? attribute.title : elementKey, GraphFormatConverter.jsonValueToGraphSON(elementValue, attribute !== undefined ? attribute.type : undefined)]);
+                        }
+                    });
+                    break;
+                // The id, the source and the target are not properties
+                case "id":
+                case "source":
+                case "target":
+                    break;
+                case "label":
+                    properties.push([labelProperty, `${value}`]);
+                    break;
+                case "color":
+                    properties.push([key, tinycolor2(value).toHexString()]);
+                    break;
+                case "x":
+                case "y":
+                case "z":
+                case "size":
+                case "weight":
+                case "thickness":
+                    properties.push([key, GraphFormatConverter.jsonValueToGraphSON(value, "number")]);
+                    break;
+                default:
+                    properties.push([key, GraphFormatConverter.jsonValueToGraphSON(value)]);
+                    break;
+            }
+        });
+
+        return properties;
+    }
+
+    /**
+     * Create a graph from a Cypher dump of 'CREATE' statements, such as 'CREATE (a:Label {..})-[:REL {..}]->(b)'
+     * @param graphData The data of the graph as Cypher
+     * @param options The options of the Cypher reader
+     * @return GraphFormatConverter The Graph from the Cypher graph data
+     */
+    public static fromCypher = (graphData: string, options: ICypherOptions = {}): GraphFormatConverter => {
+
+        // We use a try/catch for the parser to know if the Cypher string is correct or not
+        let parsedResult: any;
+        try {
+            parsedResult = GraphFormatConverter.parseCypher(graphData);
+        } catch (e) {
+            throw GraphFormatConverter.getParseError("Cypher", e);
+        }
+
+        // The common label of the nodes and the default type of the relationships are not kept
+        const nodeLabel = options.nodeLabel !== undefined ? options.nodeLabel : "Node";
+        const relationshipType = options.relationshipType !== undefined ? options.relationshipType : "LINKED_TO";
+        const nodeLabelKey = options.nodeLabelAttribute !== undefined ? options.nodeLabelAttribute : "type";
+        const relationshipTypeKey = options.relationshipTypeAttribute !== undefined ? options.relationshipTypeAttribute : "type";
+
+        try {
+
+            // The labels of a node are kept as an attribute, its 'id' property being its id if it has one
+            const nodes: any[] = parsedResult.nodes.map((node: any) => {
+                const nodeData: any = {...node.properties, id: node.id};
+                const labels = node.labels.filter((label: string) => label !== nodeLabel);
+                if (labels.length > 0 && nodeData[nodeLabelKey] === undefined) {
+                    nodeData[nodeLabelKey] = labels.join(":");
+                }
+                return nodeData;
+            });
+
+            // The type of a relationship is kept as an attribute
+            const edges: any[] = parsedResult.relationships.map((relationship: any) => {
+                const edgeData: any = {...relationship.properties, source: relationship.source, target: relationship.target};
+                if (relationship.type !== undefined && relationship.type !== relationshipType && edgeData[relationshipTypeKey] === undefined) {
+                    edgeData[relationshipTypeKey] = relationship.type;
+                }
+                return edgeData;
+            });
+
+            // The Cypher elements are now as they would be in JSON, thus we let the JSON reader guess the types of the attributes
+            return GraphFormatConverter.fromJsonElements({nodes, edges, attributes: {id: "graph", edgeType: "directed", mode: "static"}}, options, GraphFormatConverter.getTextElementLocator(graphData, parsedResult.nodes.map((node: any) => node.position), parsedResult.relationships.map((relationship: any) => relationship.position)));
+        } catch (e) {
+            throw GraphFormatConverter.getMalformedError(e);
+        }
+    }
+
+    /**
+     * Parse the 'CREATE' statements of a Cypher string as nodes and relationships
+     * @param graphData The Cypher string
+     */
+    private static parseCypher = (graphData: string): { nodes: any[], relationships: any[] } => {
+
+        // Split the string into strings, quoted and unquoted names, numbers and punctuation with their position while skipping the comments
+        const tokens: Array<{ value: any, type: string, position: number }> = [];
+        const tokenRegex = /\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|`((?:[^`]|``)*)`|([0-9]+(?:\.[0-9]+)?(?:[eE][-+]?[0-9]+)?)|([A-Za-z_$][A-Za-z0-9_$]*)|([()[\]{}:,;<>\-.])/g;
+        let match: RegExpExecArray | null;
+        let position = 0;
+        while (position < graphData.length) {
+            tokenRegex.lastIndex = position;
+            match = tokenRegex.exec(graphData);
+            if (match === null || match.index !== position) {
+                throw GraphFormatConverter.getTextParseError("Cypher", `Unexpected character '${graphData[position]}'`, graphData, position);
+            }
+            const tokenPosition = position;
+            position += match[0].length;
+
+            // The strings can contain escaped characters
+            if (match[1] !== undefined || match[2] !== undefined) {
+                const value = (match[1] !== undefined ? match[1] : match[2]).replace(/\\(u[0-9a-fA-F]{4}|.)/g, (escaped: string, character: string) => {
+                    switch (character[0]) {
+                        case "n":
+                            return "\n";
+                        case "t":
+                            return "\t";
+                        case "r":
+                            return "\r";
+                        case "u":
+                            return String.fromCharCode(parseInt(character.slice(1), 16));
+                        default:
+                            return character;
+                    }
+                });
+                tokens.push({value, type: "string", position: tokenPosition});
+            } else if (match[3] !== undefined) {
+                tokens.push({value: match[3].replace(/``/g, "`"), type: "name", position: tokenPosition});
+            } else if (match[4] !== undefined) {
+                tokens.push({value: Number(match[4]), type: "number", position: tokenPosition});
+            } else if (match[5] !== undefined) {
+                tokens.push({value: match[5], type: "name", position: tokenPosition});
+            } else if (match[6] !== undefined) {
+                tokens.push({value: match[6], type: "punctuation", position: tokenPosition});
+            }
+        }
+        position = 0;
+
+        // Helpers to read the tokens
+        const peek = (offset = 0) => tokens[position + offset];
+        const isPunctuation = (punctuation: string, offset = 0) => peek(offset) !== undefined && peek(offset).type === "punctuation" && peek(offset).value === punctuation;
+        const fail = (message: string, offset = 0) => GraphFormatConverter.getTextParseError("Cypher", message, graphData, peek(offset) !== undefined ? peek(offset).position : graphData.length);
+        const expect = (punctuation: string) => {
+            if (!isPunctuation(punctuation)) {
+                throw fail(`Expected '${punctuation}' but found '${peek() !== undefined ? peek().value : "end of file"}'`);
+            }
+            position++;
+        };
+        const readName = (): string => {
+            if (peek() === undefined || peek().type !== "name") {
+                throw fail(`Expected a name but found '${peek() !== undefined ? peek().value : "end of file"}'`);
+            }
+            return tokens[position++].value;
+        };
+
+        // Read a value (a string, a number, a boolean, null, a list or a map)
+        const readValue = (): any => {
+            const token = peek();
+            if (token === undefined) {
+                throw fail("Expected a value but found 'end of file'");
+            }
+            if (isPunctuation("-") && peek(1) !== undefined && peek(1).type === "number") {
+                position += 2;
+                return -peek(-1).value;
+            }
+            if (isPunctuation("[")) {
+                position++;
+                const list: any[] = [];
+                while (!isPunctuation("]")) {
+                    list.push(readValue());
+                    if (isPunctuation(",")) {
+                        position++;
+                    }
+                }
+                position++;
+                return list;
+            }
+            if (isPunctuation("{")) {
+                return readMap();
+            }
+            position++;
+            if (token.type === "string" || token.type === "number") {
+                return token.value;
+            }
+            if (token.type === "name" && ["true", "false", "null"].includes(`${token.value}`.toLowerCase())) {
+                return `${token.value}`.toLowerCase() === "null" ? null : `${token.value}`.toLowerCase() === "true";
+            }
+            throw fail(`Unexpected value '${token.value}'`, -1);
+        };
+
+        // Read a map ('{key: value, ...}')
+        const readMap = (): any => {
+            const map: any = {};
+            expect("{");
+            while (!isPunctuation("}")) {
+                const key = readName();
+                expect(":");
+                map[key] = readValue();
+                if (isPunctuation(",")) {
+                    position++;
+                }
+            }
+            position++;
+            return map;
+        };
+
+        // The nodes are known by their variable
+        const nodes: any[] = [];
+        const relationships: any[] = [];
+        const variables: { [variable: string]: any } = {};
+
+        // Read a node ('(variable:Label:Label {properties})')
+        const readNode = (): any => {
+            const nodePosition = peek() !== undefined ? peek().position : graphData.length;
+            expect("(");
+            const variable = peek() !== undefined && peek().type === "name" ? readName() : undefined;
+            const labels: string[] = [];
+            while (isPunctuation(":")) {
+                position++;
+                labels.push(readName());
+            }
+            const properties = isPunctuation("{") ? readMap() : {};
+            expect(")");
+
+            // A variable that is already known is the same node
+            if (variable !== undefined && variables[variable] !== undefined) {
+                labels.forEach((label) => {
+                    if (!variables[variable].labels.includes(label)) {
+                        variables[variable].labels.push(label);
+                    }
+                });
+                Object.assign(variables[variable].properties, properties);
+                return variables[variable];
+            }
+
+            // The id of a node is its 'id' property, or else its variable, or else its index
+            const node = {
+                id: properties.id !== undefined ? properties.id : (variable !== undefined ? variable : `${nodes.length}`),
+                labels,
+                properties,
+                position: nodePosition
+            };
+            delete node.properties.id;
+            nodes.push(node);
+            if (variable !== undefined) {
+                variables[variable] = node;
+            }
+            return node;
+        };
+
+        // Read a relationship ('-[variable:TYPE {properties}]->' or '<-[...]-')
+        const readRelationship = (): any => {
+            const isReversed = isPunctuation("<");
+            if (isReversed) {
+                position++;
+            }
+            expect("-");
+            const relationship: any = {properties: {}, isReversed};
+            if (isPunctuation("[")) {
+                position++;
+                if (peek() !== undefined && peek().type === "name") {
+                    readName();
+                }
+                if (isPunctuation(":")) {
+                    position++;
+                    relationship.type = readName();
+                }
+                if (isPunctuation("{")) {
+                    relationship.properties = readMap();
+                }
+                expect("]");
+            }
+            expect("-");
+            if (isPunctuation(">")) {
+                position++;
+            }
+            return relationship;
+        };
+
+        // Only the 'CREATE' clauses are read, each of them containing patterns separated by commas
+        while (position < tokens.length) {
+            if (isPunctuation(";")) {
+                position++;
+                continue;
+            }
+            const clause = readName();
+            if (clause.toUpperCase() !== "CREATE") {
+                throw fail(`Unsupported clause '${clause}'`, -1);
+            }
+            do {
+                if (isPunctuation(",")) {
+                    position++;
+                }
+
+                // A pattern is a chain of nodes and relationships
+                let node = readNode();
+                while (isPunctuation("-") || isPunctuation("<")) {
+                    const relationshipPosition = peek().position;
+                    const relationship = readRelationship();
+                    const nextNode = readNode();
+                    relationships.push({
+                        type: relationship.type,
+                        properties: relationship.properties,
+                        source: relationship.isReversed ? nextNode.id : node.id,
+                        target: relationship.isReversed ? node.id : nextNode.id,
+                        position: relationshipPosition
+                    });
+                    node = nextNode;
+                }
+            } while (isPunctuation(","));
+        }
+
+        return {nodes, relationships};
+    }
+
+    /**
+     * Get a Cypher name (a label, a type or a property key), quoted with backticks if it is not an identifier
+     * @param name The name
+     */
+    private static getCypherName = (name: string): string => {
+        return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `\`${name.replace(/`/g, "``")}\``;
+    }
+
+    /**
+     * Get the Cypher literal of a JSON value
+     * @param value The JSON value
+     * @param type The declared type of the value, if any
+     */
+    private static jsonValueToCypher = (value: any, type?: AttributeType): string => {
+
+        // The lists are written item by item
+        if (Array.isArray(value)) {
+            return `[${value.map((item) => GraphFormatConverter.jsonValueToCypher(item)).join(", ")}]`;
+        }
+
+        switch (type !== undefined ? type : typeof value) {
+            case "number":
+            case "byte":
+            case "short":
+            case "int":
+            case "long":
+            case "biginteger":
+            case "float":
+            case "double":
+            case "bigdecimal":
+
+                // Cypher does not have literals for the values that are not finite numbers
+                if (Number.isFinite(Number(value)) && `${value}`.trim() !== "") {
+                    return `${Number(value)}`;
+                }
+                break;
+            case "boolean":
+                if (typeof value === "boolean" || `${value}` === "true" || `${value}` === "false") {
+                    return `${value}`;
+                }
+                break;
+        }
+
+        return `'${`${value}`.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\n/g, "\\n").replace(/\r/g, "\\r")}'`;
+    }
+
+    /**
+     * Get an element as a GRAPHML 'fast-xml-parser' JSON object
+     * @param element The element
+     */
+    private static getElementAsGraphmlJSON = (element: any) => {
+
+        // The element as an object
+        const elementObject: any = {
+            "data": []
+        }
+
+        // For each attribute we want to get it a formatted JSON, Graphml not knowing the time intervals
+        Object.entries(GraphFormatConverter.getElementWithoutTimes(element)).forEach(([key, value]: [string, any]) => {
+
+            // Switch the name of the attribute to format the object
+            switch (key) {
+
+                // If the value is the attributes we create a tree for it
+                case "attributes":
+                    Object.entries(value).forEach(([elementKey, elementValue]: [string, any]) => {
+                        elementObject.data.push({
+                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]: elementKey,
+                            "#text": GraphFormatConverter.jsonValueToXml(elementValue).replace(new RegExp(/&/, 'g'), "&amp;"),
+                        });
+                    });
+                    break;
+                case "id":
+                    elementObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`] = value;
+                    break;
+                case "source":
+                    elementObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}source`] = value;
+                    break;
+                case "target":
+                    elementObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}target`] = value;
+                    break;
+
+                // An edge having its own direction is directed or not, whatever the default of the graph, the 'mutual' edges being directed
+                case "undirected":
+                    elementObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}directed`] = !value;
+                    break;
+                case "type":
+                    if (element.source !== undefined && ["directed", "undirected", "mutual"].includes(value)) {
+                        if (element.undirected === undefined) {
+                            elementObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}directed`] = value !== "undirected";
+                        }
+                    } else {
+                        elementObject.data.push({[`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]: key, '#text': `${value}`.replace(new RegExp(/&/, 'g'), "&amp;")});
+                    }
+                    break;
+
+                // The parent is set by nesting the node
+                case "parent":
+                    break;
+                case "color":
+                    elementObject.data.push({[`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]: "r", "#text": tinycolor2(value).toRgb().r});
+                    elementObject.data.push({[`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]: "g", "#text": tinycolor2(value).toRgb().g});
+                    elementObject.data.push({[`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]: "b", "#text": tinycolor2(value).toRgb().b});
+                    break;
+                default:
+                    elementObject.data.push({
+                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]: key,
+                        '#text': `${value}`.replace(new RegExp(/&/, 'g'), "&amp;"),
+                    });
+                    break;
+            }
+        });
+        return elementObject;
+    }
+
+    /**
+     * Get an element as a GEXF 'fast-xml-parser' JSON object
+     * @param element The element
+     */
+    private static getElementAsGexfJSON = (element: any) => {
+
+        // The element as an object
+        const elementObject: any = {
+            "attvalues": {
+                "attvalue": []
+            }
+        };
+
+        // For each attribute we want to get it a formatted JSON
+        Object.entries(element).forEach(([key, value]: [string, any]) => {
+
+            // If the value is the attributes we create a tree for it
+            switch (key) {
+
+                // If the value is the attributes we create a tree for it
+                case "attributes":
+                    Object.entries(value).forEach(([elementKey, elementValue]: [string, any]) => {
+                        elementObject.attvalues.attvalue.push({
+                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: elementKey,
+                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]: GraphFormatConverter.jsonValueToXml(elementValue).replace(new RegExp(/&/, 'g'), "&amp;"),
+                        });
+                    });
+                    break;
+
+                // The values of the dynamic attributes are written with their time interval
+                case "dynamicAttributes":
+                    Object.entries(value).forEach(([elementKey, dynamicValues]: [string, any]) => {
+                        dynamicValues.forEach((dynamicValue: IDynamicAttributeValue) => {
+                            elementObject.attvalues.attvalue.push({
+                                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: elementKey,
+                                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]: GraphFormatConverter.jsonValueToXml(dynamicValue.value).replace(new RegExp(/&/, 'g'), "&amp;"),
+                                ...GraphFormatConverter.getSpellAsGexfJSON(dynamicValue)
+                            });
+                        });
+                    });
+                    break;
+                case "spells":
+                    elementObject.spells = {
+                        spell: value.map(GraphFormatConverter.getSpellAsGexfJSON)
+                    }
+                    break;
+                case "size":
+                    elementObject["viz:size"] = {
+                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]: value
+                    }
+                    break;
+                case "shape":
+                    elementObject["viz:shape"] = {
+                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]: value
+                    }
+                    break;
+                case "thickness":
+                    elementObject["viz:thickness"] = {
+                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]: value
+                    }
+                    break;
+
+                // An edge having its own direction has its own type, whatever the default type of the graph
+                case "undirected":
+                    elementObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}type`] = value ? "undirected" : "directed";
+                    break;
+                case "color":
+                    elementObject["viz:color"] = {
+                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}r`]: tinycolor2(value).toRgb().r,
+                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}g`]: tinycolor2(value).toRgb().g,
+                        [`${GraphFormatConverter.parserOptions.attributeNamePrefix}b`]: tinycolor2(value).toRgb().b
+                    }
+                    break;
+                // The position is set in an other way and the parent by nesting the node
+                case "x":
+                case "y":
+                case "z":
+                case "parent":
+                    break;
+                default:
+                    elementObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}${key}`] = Number.isNaN(value) ? value.replace('&', "&amp;") : value;
+                    break;
+            }
+        });
+
+        // Now we can set the position
+        elementObject["viz:position"] = {};
+        if (element.x !== undefined) {
+            elementObject["viz:position"][`${GraphFormatConverter.parserOptions.attributeNamePrefix}x`] = element.x;
+        }
+        if (element.y !== undefined) {
+            elementObject["viz:position"][`${GraphFormatConverter.parserOptions.attributeNamePrefix}y`] = element.y;
+        }
+        if (element.z !== undefined) {
+            elementObject["viz:position"][`${GraphFormatConverter.parserOptions.attributeNamePrefix}z`] = element.z;
+        }
+
+        // If there is no position we remove it as it cannot be empty
+        if (Object.keys(elementObject["viz:position"]).length === 0) {
+            delete elementObject["viz:position"];
+        }
+
+        return elementObject;
+    }
+
+    /**
+     * Get the JSON type of a GEXF type
+     * @param type The GEXF type
+     */
+    private static gexfTypeToJSON = (type: string): AttributeType => {
+        switch (type) {
+
+            // The integers, the decimals and the characters keep their type
+            case "integer":
+                return "int";
+            case "byte":
+            case "short":
+            case "long":
+            case "biginteger":
+            case "float":
+            case "double":
+            case "bigdecimal":
+            case "boolean":
+            case "char":
+            case "date":
+            case "anyURI":
+                return type;
+
+            // Same for the lists
+            case "listinteger":
+                return "listint";
+            case "liststring":
+            case "listboolean":
+            case "listbyte":
+            case "listshort":
+            case "listlong":
+            case "listbiginteger":
+            case "listfloat":
+            case "listdouble":
+            case "listbigdecimal":
+            case "listchar":
+            case "listdate":
+                return type;
+            default:
+                return "string";
+        }
+    }
+
+    /**
+     * Get an attribute definition as a GEXF 'fast-xml-parser' JSON object, with its default value and its possible values
+     * @param attribute The attribute
+     */
+    private static getAttributeAsGexfJSON = (attribute: IAttribute): any => {
+        const attributeObject: any = {
+            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: attribute.id,
+            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}title`]: attribute.title,
+            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}type`]: GraphFormatConverter.jsonTypeToGEXF(attribute.type),
+        };
+        if (attribute.defaultValue !== undefined) {
+            attributeObject.default = attribute.defaultValue;
+        }
+        if (attribute.options !== undefined) {
+            attributeObject.options = attribute.options.join("|");
+        }
+        return attributeObject;
+    }
+
+    /**
+     * Get a time interval as the attributes of a GEXF 'fast-xml-parser' JSON object
+     * @param spell The time interval
+     */
+    private static getSpellAsGexfJSON = (spell: ISpell): any => {
+        const spellObject: any = {};
+        if (spell.start !== undefined) {
+            spellObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}${spell.startOpen ? "startopen" : "start"}`] = spell.start;
+        }
+        if (spell.end !== undefined) {
+            spellObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}${spell.endOpen ? "endopen" : "end"}`] = spell.end;
+        }
+        return spellObject;
+    }
+
+    /**
+     * Get the GEXF type of a JSON type
+     * @param type The JSON type
+     */
+    private static jsonTypeToGEXF = (type: string): string => {
+        switch (type) {
+
+            // A number of an unknown precision is written as a double
+            case "number":
+            case "double":
+                return "double";
+            case "int":
+                return "integer";
+            case "listint":
+                return "listinteger";
+            case "byte":
+            case "short":
+            case "long":
+            case "biginteger":
+            case "float":
+            case "bigdecimal":
+            case "boolean":
+            case "char":
+            case "date":
+            case "anyURI":
+            case "liststring":
+            case "listboolean":
+            case "listbyte":
+            case "listshort":
+            case "listlong":
+            case "listbiginteger":
+            case "listfloat":
+            case "listdouble":
+            case "listbigdecimal":
+            case "listchar":
+            case "listdate":
+                return type;
+            default:
+                return "string";
+        }
+    }
+
+    /**
+     * Get the JSON value of a Graphml or GEXF value of a declared type
+     * @param value The Graphml or GEXF value
+     * @param type The declared type of the value, if any
+     */
+    private static xmlValueToJSON = (value: any, type?: AttributeType): any => {
+        if (type === undefined) {
+            return value;
+        }
+        if (value === undefined) {
+            return type === "string" ? "" : value;
+        }
+        return GraphFormatConverter.coerceValue(value, type).value;
+    }
+
+    /**
+     * Get the Graphml or GEXF value of a JSON value, the lists being written as GEXF 1.3 lists ('[a, b, c]')
+     * @param value The JSON value
+     */
+    private static jsonValueToXml = (value: any): string => {
+        return Array.isArray(value) ? `[${value.join(", ")}]` : `${value}`;
+    }
+
+    /**
+     * Coerce a value to a type, the value being kept as it is if it cannot be coerced
+     * @param value The value
+     * @param type The type to coerce the value to
+     * @return {coerced: boolean, value: any} Whether the value could be coerced, and the coerced value
+     */
+    private static coerceValue = (value: any, type: AttributeType): { coerced: boolean, value: any } => {
+        switch (type) {
+
+            // The numbers can be written as strings, the integers having no decimals, and the guessed numbers being decimal numerals
+            case "number":
+            case "byte":
+            case "short":
+            case "int":
+            case "long":
+            case "biginteger":
+            case "float":
+            case "double":
+            case "bigdecimal": {
+                const isNumeral = typeof value === "string" && value.trim() !== "" && (type !== "number" || GraphFormatConverter.isDecimalNumeral(value));
+                const number = typeof value === "number" ? value : (isNumeral ? Number(value) : NaN);
+                if (Number.isNaN(number) || (["byte", "short", "int", "long", "biginteger"].includes(type) && !Number.isInteger(number))) {
+                    return {coerced: false, value};
+                }
+                return {coerced: true, value: number};
+            }
+            case "boolean":
+                if (typeof value === "boolean") {
+                    return {coerced: true, value};
+                }
+                if (["true", "1"].includes(`${value}`.trim().toLowerCase())) {
+                    return {coerced: true, value: true};
+                }
+                if (["false", "0"].includes(`${value}`.trim().toLowerCase())) {
+                    return {coerced: true, value: false};
+                }
+                return {coerced: false, value};
+
+            // The dates are kept as they are written, if they can be parsed
+            case "date":
+                return {coerced: ["string", "number"].includes(typeof value) && !Number.isNaN(Date.parse(`${value}`)), value: typeof value === "string" ? value : `${value}`};
+            case "string":
+            case "anyURI":
+                return ["string", "number", "boolean"].includes(typeof value) ? {coerced: true, value: `${value}`} : {coerced: false, value};
+
+            // The characters are strings of a single character
+            case "char":
+                return ["string", "number", "boolean"].includes(typeof value) && `${value}`.length === 1 ? {coerced: true, value: `${value}`} : {coerced: false, value};
+
+            // The lists can be written as strings, their items being separated by '|' or ',' (between optional brackets)
+            case "liststring":
+            case "listboolean":
+            case "listbyte":
+            case "listshort":
+            case "listint":
+            case "listlong":
+            case "listbiginteger":
+            case "listfloat":
+            case "listdouble":
+            case "listbigdecimal":
+            case "listchar":
+            case "listdate": {
+                let items: any[] = [];
+                if (Array.isArray(value)) {
+                    items = value;
+                } else {
+                    const list = `${value}`.trim().replace(/^\[([\s\S]*)\]$/, "$1");
+                    items = list.trim() === "" ? [] : list.split(list.includes("|") ? "|" : ",").map((item) => item.trim());
+                }
+                const coercedItems = items.map((item) => GraphFormatConverter.coerceValue(item, type.replace("list", "") as AttributeType));
+                if (coercedItems.some((item) => !item.coerced)) {
+                    return {coerced: false, value};
+                }
+                return {coerced: true, value: coercedItems.map((item) => item.value)};
+            }
+            default:
+                return {coerced: true, value};
+        }
+    }
+
+    /**
+     * Coerce the values of the attributes of elements (the values of their dynamic attributes included) to the type of their attribute
+     * @param elements The elements
+     * @param attributes The attributes the elements can take
+     * @param elementType Whether the elements are nodes or edges
+     * @return ICoercionError[] The values that could not be coerced, and have been kept as they are
+     */
+    private static coerceAttributesValues = (elements: any[], attributes: IAttribute[], elementType: 'node' | 'edge'): ICoercionError[] => {
+        const errors: ICoercionError[] = [];
+
+        // Coerce a value of an attribute, the values that are not set staying as they are
+        const coerce = (element: any, key: string, value: any): any => {
+            const attribute = attributes.find((currentAttribute) => `${currentAttribute.id}` === key);
+            if (attribute === undefined || value === undefined || value === null) {
+                return value;
+            }
+            const coercion = GraphFormatConverter.coerceValue(value, attribute.type);
+            if (!coercion.coerced) {
+                errors.push({elementType, elementId: element.id, attributeId: attribute.id, type: attribute.type, value});
+            }
+            return coercion.value;
+        };
+
+        elements.forEach((element) => {
+            if (element.attributes !== undefined) {
+                Object.entries(element.attributes).forEach(([key, value]) => {
+                    element.attributes[key] = coerce(element, key, value);
+                });
+            }
+            if (element.dynamicAttributes !== undefined) {
+                Object.entries(element.dynamicAttributes).forEach(([key, values]: [string, any]) => {
+                    values.forEach((dynamicValue: IDynamicAttributeValue) => {
+                        dynamicValue.value = coerce(element, key, dynamicValue.value);
+                    });
+                });
+            }
+        });
+
+        return errors;
+    }
+
+    /**
+     * Get the JSON type of a GRAPHML type
+     * @param type The GRAPHML type
+     */
+    private static graphmlTypeToJSON = (type: string): AttributeType => {
+        switch (type) {
+            case "int":
+            case "long":
+            case "float":
+            case "double":
+            case "boolean":
+                return type;
+            default:
+                return "string";
+        }
+    }
+
+    /**
+     * Get the GRAPHML type of a JSON type
+     * @param type The JSON type
+     */
+    private static jsonTypeToGRAPHML = (type: string): string => {
+        switch (type) {
+
+            // A number of an unknown precision is written as a double, and the GEXF numbers as the closest GRAPHML type
+            case "number":
+            case "double":
+            case "bigdecimal":
+                return "double";
+            case "byte":
+            case "short":
+                return "int";
+            case "biginteger":
+                return "long";
+            case "int":
+            case "long":
+            case "float":
+            case "boolean":
+                return type;
+
+            // GRAPHML does not have characters, dates, URIs or lists, they are written as strings
+            default:
+                return "string";
+        }
+    }
+
+    /**
+     * Get the id of an attribute from its id or its title
+     * @param attributeIdOrTitle The id or the title of the attribute
+     * @param attributes The declared attributes
+     */
+    private static getAttributeId = (attributeIdOrTitle: string, attributes: IAttribute[]): string => {
+        const attribute = attributes.find((currentAttribute) => `${currentAttribute.id}` === `${attributeIdOrTitle}` || currentAttribute.title === attributeIdOrTitle);
+        return attribute !== undefined ? attribute.id : attributeIdOrTitle;
+    }
+
+    /**
+     * Get the value of an attribute of an element, or of its field if it does not have this attribute
+     * @param element The element
+     * @param key The key of the attribute
+     */
+    private static getElementAttributeValue = (element: any, key: string): any => {
+        return element.attributes !== undefined && element.attributes[key] !== undefined ? element.attributes[key] : element[key];
+    }
+
+    /**
+     * Get the type possibilities of a attribute
+     * @param key The key of the attribute
+     * @param value The value of the attribute to try to guess the type of
+     * @param attributesObject The attribute object contain the attributes and their type's count
+     * @param rawValues Whether the values are kept as they are written, the strings being strings
+     */
+    private static guessJSONAttribute(key: string, value: any, attributesObject: any, rawValues = false) {
+
+        // If the key does not exists
+        if (attributesObject[key] === undefined) {
+            attributesObject[key] = {
+                id: key,
+                title: key,
+                type: {}
+            }
+        }
+
+        // The decimal numerals and the booleans written as strings are counted as such, unless the raw values are kept, and the arrays are lists of the type of their items
+        let type: string = typeof value;
+        if (Array.isArray(value)) {
+            type = value.length > 0 && value.every((item) => typeof item === "number") ? "listdouble" : (value.length > 0 && value.every((item) => typeof item === "boolean") ? "listboolean" : "liststring");
+        } else if (!rawValues && typeof value === "string" && value.trim() !== "") {
+            if (GraphFormatConverter.isDecimalNumeral(value)) {
+                type = "number";
+            } else if (value.toLowerCase() === "true" || value.toLowerCase() === "false") {
+                type = "boolean";
+            }
+        }
+
+        // Now we get the type and if does not exist we create the counter
+        if (attributesObject[key].type[type] === undefined) {
+            attributesObject[key].type[type] = 0;
+        }
+
+        // Add one to this type
+        attributesObject[key].type[type] += 1;
+    }
+
+    /**
+     * Get the attributes of the nodes/edges from the attributesObject gathered by the function 'guessJSONAttribute'
+     * @param attributesObject The attributes object
+     */
+    private static getAttributesFromGuesser = (attributesObject: any): IAttribute[] => {
+        return Object.values(attributesObject).map((value: any) => {
+            return {
+                id: value.id,
+                title: value.title,
+                type: Object.entries(value.type).reduce((acc: any, [typeKey, typeValue]: [string, any]) => {
+
+                    // If the accumulator is undefined we set it as the first value
+                    if (acc === undefined) {
+                        return {type: typeKey, count: typeValue};
+                    }
+
+                    // Else we want to know which is bigger between the typeValue and the value of the accumulator
+                    if (typeValue > acc.count) {
+                        return {type: typeKey, count: typeValue};
+                    }
+
+                    // Else return the accumulator
+                    return acc;
+                }, undefined).type
+            }
+        });
+    }
+
+    /**
+     * Get the attributes as a array of objects
+     * @param attributes The attributes
+     */
+    private static getAttributesDefinitionAsObject = (attributes: { attribute: any[] }): IAttribute[] => {
+
+        // if the attributes exist we can get them as an array of objects
+        if (attributes !== undefined) {
+
+            // If there is only one attribute we will get an object instead of an array of objects, thus we need to convert it to an array
+            let attributesArray = attributes.attribute;
+            if (!Array.isArray(attributesArray)) {
+                attributesArray = attributesArray !== undefined ? [attributesArray] : [];
+            }
+
+            // If the id is "id" we do not add it
+            return attributesArray.filter((attribute) => attribute[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`] !== "id" && attribute[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`] !== "source" && attribute[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`] !== "target").map((attribute) => {
+                const attributeDefinition: IAttribute = {
+                    id: attribute[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`],
+                    title: attribute[`${GraphFormatConverter.parserOptions.attributeNamePrefix}title`],
+                    type: GraphFormatConverter.gexfTypeToJSON(attribute[`${GraphFormatConverter.parserOptions.attributeNamePrefix}type`]),
+                }
+
+                // The default value and the possible values (separated by '|') of the attribute
+                if (attribute.default !== undefined) {
+                    attributeDefinition.defaultValue = GraphFormatConverter.xmlValueToJSON(attribute.default, attributeDefinition.type);
+                }
+                if (attribute.options !== undefined) {
+                    attributeDefinition.options = `${attribute.options}`.split("|");
+                }
+                return attributeDefinition;
+            });
+        }
+
+        // Otherwise return an empty array
+        else {
+            return [];
+        }
+    }
+
+    /**
+     * Get the attributes (as well as nested attributes of an element) from a GEXF element
+     * @param element The element to gather the attributes of
+     */
+    private static getGexfElementAttributes = (element: any): any => {
+
+        // The object that will contain the attributes
+        const elementData: any = {attributes: {}};
+
+        // For each attribute we want to act differently
+        Object.entries(element).forEach(([key, value]: [string, any]) => {
+
+            // If the current value is the attributes
+            if (key === "attvalues") {
+
+                // If there is only one attribute we will get an object instead of an array of objects, thus we need to convert it to an array
+                let attributesArray = value["attvalue"];
+                if (!Array.isArray(attributesArray)) {
+                    attributesArray = attributesArray !== undefined ? [attributesArray] : [];
+                }
+
+                attributesArray.forEach((attributeObject: any) => {
+
+                    // The values of a dynamic attribute are kept with their time interval
+                    const spell = GraphFormatConverter.getGexfSpell(attributeObject);
+                    if (spell !== undefined) {
+                        if (elementData.dynamicAttributes === undefined) {
+                            elementData.dynamicAttributes = {};
+                        }
+                        if (elementData.dynamicAttributes[attributeObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]] === undefined) {
+                            elementData.dynamicAttributes[attributeObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]] = [];
+                        }
+                        elementData.dynamicAttributes[attributeObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]].push({value: attributeObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`], ...spell});
+                    } else {
+                        elementData.attributes[attributeObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]] = attributeObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`];
+                    }
+                });
+            }
+
+            // The spells are the time intervals during which the element exists
+            else if (key === "spells") {
+
+                // If there is only one spell we will get an object instead of an array of objects, thus we need to convert it to an array
+                let spellsArray = value["spell"];
+                if (!Array.isArray(spellsArray)) {
+                    spellsArray = [spellsArray];
+                }
+
+                elementData.spells = (elementData.spells !== undefined ? elementData.spells : []).concat(spellsArray.map((spellObject: any) => {
+                    const spell = GraphFormatConverter.getGexfSpell(spellObject);
+                    return spell !== undefined ? spell : {};
+                }));
+            }
+
+            // The timestamps are the instants at which the element exists
+            else if (key === "timestamps") {
+                let timestampsArray = value["timestamp"];
+                if (!Array.isArray(timestampsArray)) {
+                    timestampsArray = timestampsArray !== undefined ? [timestampsArray] : [];
+                }
+
+                elementData.spells = (elementData.spells !== undefined ? elementData.spells : []).concat(timestampsArray.map((timestampObject: any) => {
+                    const timestamp = timestampObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`];
+                    return {start: timestamp, end: timestamp};
+                }));
+            }
+
+            // The timestamp and the open bounds of the element are its time interval, kept as a spell
+            else if (key === `${GraphFormatConverter.parserOptions.attributeNamePrefix}timestamp` || key === `${GraphFormatConverter.parserOptions.attributeNamePrefix}startopen` || key === `${GraphFormatConverter.parserOptions.attributeNamePrefix}endopen`) {
+                return;
+            }
+
+            // If the key does contain the GraphFormatConverter.options.attributeNamePrefix prefix
+            else if (key.includes(GraphFormatConverter.parserOptions.attributeNamePrefix)) {
+                elementData[key.replace(GraphFormatConverter.parserOptions.attributeNamePrefix, '')] = value;
+            }
+
+            // Else we have some cases that need to be treated separately
+            else {
+                switch (key) {
+                    case "color":
+                        elementData.color = tinycolor2(`rgb(${value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}r`]}, ${value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}g`]}, ${value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}b`]})`);
+                        break;
+                    case "position":
+                        elementData.x = Number(value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}x`]);
+                        elementData.y = Number(value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}y`]);
+                        if (value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}z`] !== undefined) {
+                            elementData.z = Number(value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}z`]);
+                        }
+                        break;
+                    case "size":
+                        elementData.size = Number(value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]);
+                        break;
+                    case "thickness":
+                        elementData.size = Number(value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`]);
+                        break;
+                    case "shape":
+                        elementData.shape = value[`${GraphFormatConverter.parserOptions.attributeNamePrefix}value`];
+                        break;
+                    default:
+                        elementData[key] = value;
+                        break;
+                }
+            }
+        });
+
+        // An element having a timestamp or an open bound is alive during a spell, as its start and its end cannot tell it
+        if (["timestamp", "startopen", "endopen"].some((key) => element[`${GraphFormatConverter.parserOptions.attributeNamePrefix}${key}`] !== undefined)) {
+            elementData.spells = (elementData.spells !== undefined ? elementData.spells : []).concat([GraphFormatConverter.getGexfSpell(element)]);
+            delete elementData.start;
+            delete elementData.end;
+        }
+
+        return elementData;
+    }
+
+    /**
+     * Get the nodes and the edges of a GEXF graph or node, the nested nodes having their parent node as 'parent'
+     * @param element The GEXF graph or node containing the nodes and the edges
+     * @param parent The id of the node containing the nodes, if any
+     */
+    private static getGexfNodesAndEdges = (element: any, parent?: any): { nodes: any[], edges: any[] } => {
+        const nodes: any[] = [];
+        const edges: any[] = [];
+
+        // If there is only one node or edge we will get an object instead of an array of objects, thus we need to convert it to an array
+        let nodesArray = element.nodes !== undefined && element.nodes !== "" ? element.nodes.node : [];
+        if (!Array.isArray(nodesArray)) {
+            nodesArray = nodesArray !== undefined ? [nodesArray] : [];
+        }
+        let edgesArray = element.edges !== undefined && element.edges !== "" ? element.edges.edge : [];
+        if (!Array.isArray(edgesArray)) {
+            edgesArray = edgesArray !== undefined ? [edgesArray] : [];
+        }
+
+        nodesArray.forEach((nodeObject: any) => {
+
+            // The nested nodes and edges are gathered on their own
+            const {nodes: nestedNodes, edges: nestedEdges, ...node} = nodeObject;
+            const nodeData = GraphFormatConverter.getGexfElementAttributes(node);
+
+            // The parent is either given by the 'pid' of the node or by the node containing it
+            if (nodeData.pid !== undefined) {
+                nodeData.parent = nodeData.pid;
+                delete nodeData.pid;
+            } else if (parent !== undefined) {
+                nodeData.parent = parent;
+            }
+            nodes.push(nodeData);
+
+            const nested = GraphFormatConverter.getGexfNodesAndEdges({nodes: nestedNodes, edges: nestedEdges}, nodeData.id);
+            nodes.push(...nested.nodes);
+            edges.push(...nested.edges);
+        });
+        edges.push(...edgesArray.map(GraphFormatConverter.getGexfElementAttributes));
+
+        return {nodes, edges};
+    }
+
+    /**
+     * Get the nodes and the edges of a Graphml graph, the nodes of the graphs nested in a node having this node as 'parent'
+     * @param graph The Graphml graph
+     * @param parent The id of the node containing the graph, if any
+     */
+    private static getGraphmlNodesAndEdges = (graph: any, parent?: any): { nodes: any[], edges: any[] } => {
+        const nodes: any[] = [];
+        const edges: any[] = [];
+
+        // If there is only one node or edge we will get an object instead of an array of objects, thus we need to convert it to an array
+        let nodesArray = graph.node;
+        if (!Array.isArray(nodesArray)) {
+            nodesArray = nodesArray !== undefined ? [nodesArray] : [];
+        }
+        let edgesArray = graph.edge;
+        if (!Array.isArray(edgesArray)) {
+            edgesArray = edgesArray !== undefined ? [edgesArray] : [];
+        }
+
+        nodesArray.forEach((nodeObject: any) => {
+            const nodeData = GraphFormatConverter.getGraphmlElementAttributes(nodeObject);
+            if (parent !== undefined) {
+                nodeData.parent = parent;
+            }
+            nodes.push(nodeData);
+
+            // A node can contain one or several graphs
+            let nestedGraphs = nodeObject.graph;
+            if (!Array.isArray(nestedGraphs)) {
+                nestedGraphs = nestedGraphs !== undefined ? [nestedGraphs] : [];
+            }
+            nestedGraphs.forEach((nestedGraph: any) => {
+                const nested = GraphFormatConverter.getGraphmlNodesAndEdges(nestedGraph, nodeData.id);
+                nodes.push(...nested.nodes);
+                edges.push(...nested.edges);
+            });
+        });
+        edges.push(...edgesArray.map(GraphFormatConverter.getGraphmlElementAttributes));
+
+        return {nodes, edges};
+    }
+
+    /**
+     * Nest the written nodes in the written node of their parent, a node whose parent does not exist or is one of its descendants staying at the root of the graph
+     * @param nodes The nodes of the graph
+     * @param writtenNodes The written nodes, in the same order as the nodes
+     * @param nest The function nesting the written children of a node in the written node
+     * @return any[] The written nodes at the root of the graph
+     */
+    private static nestNodes = (nodes: any[], writtenNodes: any[], nest: (writtenNode: any, writtenChildren: any[]) => void): any[] => {
+        const indexesById = new Map<string, number>();
+        nodes.forEach((node, index) => indexesById.set(`${node.id}`, index));
+
+        // Know if a node has a valid parent, following its ancestors to avoid the cycles
+        const getParentIndex = (index: number): number | undefined => {
+            const parent = nodes[index].parent;
+            const parentIndex = parent !== undefined && parent !== null ? indexesById.get(`${parent}`) : undefined;
+            if (parentIndex === undefined) {
+                return undefined;
+            }
+            const ancestors = new Set<number>([index]);
+            let ancestor: number | undefined = parentIndex;
+            while (ancestor !== undefined) {
+                if (ancestors.has(ancestor)) {
+                    return undefined;
+                }
+                ancestors.add(ancestor);
+                const ancestorParent: any = nodes[ancestor].parent;
+                ancestor = ancestorParent !== undefined && ancestorParent !== null ? indexesById.get(`${ancestorParent}`) : undefined;
+            }
+            return parentIndex;
+        };
+
+        // Gather the children of each node
+        const rootNodes: any[] = [];
+        const childrenByIndex = new Map<number, any[]>();
+        writtenNodes.forEach((writtenNode, index) => {
+            const parentIndex = getParentIndex(index);
+            if (parentIndex === undefined) {
+                rootNodes.push(writtenNode);
+            } else {
+                if (!childrenByIndex.has(parentIndex)) {
+                    childrenByIndex.set(parentIndex, []);
+                }
+                (childrenByIndex.get(parentIndex) as any[]).push(writtenNode);
+            }
+        });
+        childrenByIndex.forEach((writtenChildren, parentIndex) => nest(writtenNodes[parentIndex], writtenChildren));
+
+        return rootNodes;
+    }
+
+    /**
+     * Set the default value of the attributes an element does not have (neither as an attribute nor as a field, such as a label or a color)
+     * @param elements The elements
+     * @param attributes The attributes the elements can take
+     */
+    private static applyAttributesDefaultValue = (elements: any[], attributes: IAttribute[]) => {
+        const attributesWithDefault = attributes.filter((attribute) => attribute.defaultValue !== undefined);
+        elements.forEach((element) => {
+            attributesWithDefault.forEach((attribute) => {
+                const isColor = attribute.id === "r" || attribute.id === "g" || attribute.id === "b";
+                if (element.attributes[attribute.id] === undefined && element[attribute.id] === undefined && !(isColor && element.color !== undefined)) {
+                    element.attributes[attribute.id] = attribute.defaultValue;
+                }
+            });
+        });
+    }
+
+    /**
+     * Parse a JSON string, the errors being located when the parser gives their position
+     * @param graphData The JSON string
+     * @return any The parsed JSON string
+     */
+    private static parseJson = (graphData: string): any => {
+        try {
+            return JSON.parse(graphData);
+        } catch (e) {
+
+            // The position of the error is given by the message of the error
+            const position = /position (\d+)/.exec(`${e}`);
+            throw new GraphParseError(`An error occurred while trying to parse the JSON string: ${e}`, position !== null ? GraphFormatConverter.getTextLocation(graphData, Number(position[1])) : {});
+        }
+    }
+
+    /**
+     * Parse an XML string, the errors of a string that is not well-formed being located
+     * @param graphData The XML string
+     * @return any The parsed XML string as a 'fast-xml-parser' JSON object
+     */
+    private static parseXml = (graphData: string): any => {
+        const validation = XMLValidator.validate(graphData, {allowBooleanAttributes: true});
+        if (validation !== true) {
+            throw new GraphParseError(`An error occurred while trying to parse the XML string: ${validation.err.msg}`, {line: validation.err.line, column: validation.err.col});
+        }
+
+        // We use a try/catch for the parser to know if the XML string is correct or not
+        const parser = new XMLParser(GraphFormatConverter.parserOptions);
+        try {
+            return parser.parse(graphData);
+        } catch (e) {
+            throw new GraphParseError(`An error occurred while trying to parse the XML string: ${e}`);
+        }
+    }
+
+    /**
+     * Get the line and the column of a position in a text
+     * @param text The text
+     * @param position The position in the text
+     */
+    private static getTextLocation = (text: string, position: number): IErrorLocation => {
+        const textBefore = text.slice(0, position);
+        const lineBreaks = textBefore.match(/\n/g);
+        return {line: (lineBreaks !== null ? lineBreaks.length : 0) + 1, column: position - textBefore.lastIndexOf("\n")};
+    }
+
+    /**
+     * Get the location of an element in an XML string, from its id or else from its position among the elements of its tag
+     * @param xml The XML string
+     * @param tagName The tag of the element
+     * @param index The position of the element among the elements of its tag
+     * @param id The id of the element, if any
+     */
+    private static getXmlLocation = (xml: string, tagName: string, index: number, id?: any): IErrorLocation => {
+        const tagRegExp = new RegExp(`<(?:[\\w.-]+:)?${tagName}(?=[\\s/>])[^>]*>`, "g");
+        const idRegExp = id !== undefined && id !== null ? new RegExp(`\\sid\\s*=\\s*["']${`${id}`.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}["']`) : undefined;
+        let position: number | undefined;
+        let currentIndex = 0;
+        let match = tagRegExp.exec(xml);
+        while (match !== null) {
+            if (idRegExp !== undefined && idRegExp.test(match[0])) {
+                return GraphFormatConverter.getTextLocation(xml, match.index);
+            }
+            if (currentIndex === index) {
+                position = match.index;
+
+                // Without id, there is no need to go further
+                if (idRegExp === undefined) {
+                    break;
+                }
+            }
+            currentIndex++;
+            match = tagRegExp.exec(xml);
+        }
+        return position !== undefined ? GraphFormatConverter.getTextLocation(xml, position) : {};
+    }
+
+    /**
+     * Get the error thrown when a graph cannot be created, the located errors being kept as they are
+     * @param error The error that occurred while creating the graph
+     */
+    private static getMalformedError = (error: any): Error => {
+        if (error instanceof GraphParseError) {
+            return error;
+        }
+        return new GraphValidationError("An error has occurred while creating the graph, your file is malformed");
+    }
+
+    /**
+     * Get the error thrown when a graph data cannot be parsed, the errors located by the parser being kept as they are
+     * @param formatName The name of the format of the graph data
+     * @param error The error that occurred while parsing the graph data
+     */
+    private static getParseError = (formatName: string, error: any): GraphParseError => {
+        if (error instanceof GraphParseError) {
+            return error;
+        }
+        return new GraphParseError(`An error occurred while trying to parse the ${formatName} string: ${error}`);
+    }
+
+    /**
+     * Get the error of a text graph data that cannot be parsed, located at a position of the text
+     * @param formatName The name of the format of the graph data
+     * @param message The message of the error
+     * @param text The text graph data
+     * @param position The position of the error in the text
+     */
+    private static getTextParseError = (formatName: string, message: string, text: string, position: number): GraphParseError => {
+        return new GraphParseError(`An error occurred while trying to parse the ${formatName} string: ${message}`, GraphFormatConverter.getTextLocation(text, position));
+    }
+
+    /**
+     * Get the function locating the elements read from a text graph data, from the positions of the nodes and of the edges in the text
+     * (the elements created by the reader not being located)
+     * @param text The text graph data
+     * @param nodePositions The positions of the nodes in the text
+     * @param edgePositions The positions of the edges in the text
+     */
+    private static getTextElementLocator = (text: string, nodePositions: Array<number | undefined>, edgePositions: Array<number | undefined>) => (elementType: 'node' | 'edge', index: number): IErrorLocation => {
+        const position = (elementType === "node" ? nodePositions : edgePositions)[index];
+        return position !== undefined ? GraphFormatConverter.getTextLocation(text, position) : {};
+    }
+
+    /**
+     * Check that the nodes have an id and that the edges link known nodes, the elements that cannot be read either throwing an error or being skipped by a lenient reader
+     * @param nodes The nodes
+     * @param edges The edges
+     * @param getLocation The function locating an element (and one of its fields) in the graph data
+     * @param lenient Whether the elements that cannot be read are skipped
+     * @return The nodes and the edges that can be read, with the diagnostics of the skipped ones
+     */
+    private static checkElements = (nodes: any[], edges: any[], getLocation: (elementType: 'node' | 'edge', index: number, element: any, field?: string) => IErrorLocation, lenient = false): { nodes: any[], edges: any[], diagnostics: IDiagnostic[] } => {
+        const diagnostics: IDiagnostic[] = [];
+
+        // Report an element that cannot be read
+        const report = (message: string, location: IErrorLocation): boolean => {
+            if (!lenient) {
+                throw new GraphValidationError(message, location);
+            }
+            diagnostics.push({message, ...location});
+            return false;
+        };
+        const isSet = (value: any) => value !== undefined && value !== null && `${value}` !== "";
+
+        const checkedNodes = nodes.filter((node, index) => {
+            if (node === null || typeof node !== "object") {
+                return report("The node is not an object", getLocation("node", index, {}));
+            }
+            if (!isSet(node.id)) {
+                return report("The node has no id", getLocation("node", index, node, "id"));
+            }
+            return true;
+        });
+
+        const nodeIds = new Set<string>(checkedNodes.map((node) => `${node.id}`));
+        const checkedEdges = edges.filter((edge, index) => {
+            if (edge === null || typeof edge !== "object") {
+                return report("The edge is not an object", getLocation("edge", index, {}));
+            }
+            const edgeName = isSet(edge.id) ? `The edge '${edge.id}'` : "The edge";
+            for (const field of ["source", "target"]) {
+                if (!isSet(edge[field])) {
+                    return report(`${edgeName} has no ${field}`, getLocation("edge", index, edge, field));
+                }
+                if (!nodeIds.has(`${edge[field]}`)) {
+                    return report(`${edgeName} references the unknown node '${edge[field]}'`, getLocation("edge", index, edge, field));
+                }
+            }
+            return true;
+        });
+
+        return {nodes: checkedNodes, edges: checkedEdges, diagnostics};
+    }
+
+    /**
+     * Get the time interval of a GEXF element, spell or attribute value, if it has one (a timestamp being an interval of an instant)
+     * @param element The GEXF element, spell or attribute value
+     */
+    private static getGexfSpell = (element: any): ISpell | undefined => {
+        const timestamp = element[`${GraphFormatConverter.parserOptions.attributeNamePrefix}timestamp`];
+        const isStartOpen = timestamp === undefined && element[`${GraphFormatConverter.parserOptions.attributeNamePrefix}start`] === undefined && element[`${GraphFormatConverter.parserOptions.attributeNamePrefix}startopen`] !== undefined;
+        const isEndOpen = timestamp === undefined && element[`${GraphFormatConverter.parserOptions.attributeNamePrefix}end`] === undefined && element[`${GraphFormatConverter.parserOptions.attributeNamePrefix}endopen`] !== undefined;
+        const start = timestamp !== undefined ? timestamp : (isStartOpen ? element[`${GraphFormatConverter.parserOptions.attributeNamePrefix}startopen`] : element[`${GraphFormatConverter.parserOptions.attributeNamePrefix}start`]);
+        const end = timestamp !== undefined ? timestamp : (isEndOpen ? element[`${GraphFormatConverter.parserOptions.attributeNamePrefix}endopen`] : element[`${GraphFormatConverter.parserOptions.attributeNamePrefix}end`]);
+        if (start === undefined && end === undefined) {
+            return undefined;
+        }
+
+        // The bounds are only kept if they are defined, the open bounds excluding their instant
+        const spell: ISpell = {};
+        if (start !== undefined) {
+            spell.start = start;
+        }
+        if (end !== undefined) {
+            spell.end = end;
+        }
+        if (isStartOpen) {
+            spell.startOpen = true;
+        }
+        if (isEndOpen) {
+            spell.endOpen = true;
+        }
+        return spell;
+    }
+
+    /**
+     * Get the attributes (as well as nested attributes of an element) from a Graphml element
+     * @param element The element to gather the attributes of
+     */
+    private static getGraphmlElementAttributes = (element: any): any => {
+
+        // The object that will contain the attributes
+        const elementData: any = {attributes: {}};
+
+        // For each attribute we want to act differently
+        Object.entries(element).forEach(([key, value]: [string, any]) => {
+
+            // If the current value is the attributes
+            if (key === "data") {
+
+                // If there is only one attribute we will get an object instead of an array of objects, thus we need to convert it to an array
+                let attributesArray = value;
+                if (!Array.isArray(attributesArray)) {
+                    attributesArray = [attributesArray];
+                }
+
+                attributesArray.forEach((attributeObject: any) => {
+                    elementData.attributes[attributeObject[`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]] = attributeObject[`#text`];
+                });
+            }
+
+            // If the key does contain the GraphFormatConverter.options.attributeNamePrefix prefix
+            else if (key.includes(GraphFormatConverter.parserOptions.attributeNamePrefix)) {
+                elementData[key.replace(GraphFormatConverter.parserOptions.attributeNamePrefix, '')] = value;
+            }
+        });
+
+        // An edge having its own direction is undirected or not
+        if (elementData.directed !== undefined) {
+            elementData.undirected = ["false", "0"].includes(`${elementData.directed}`.trim());
+            delete elementData.directed;
+        }
+
+        // For the color (fields r, g and b) we want to remove them and set color
+        if (elementData.attributes.r !== undefined && elementData.attributes.g !== undefined && elementData.attributes.b !== undefined) {
+            elementData.color = tinycolor2(`rgb(${elementData.attributes.r}, ${elementData.attributes.g}, ${elementData.attributes.b})`);
+            delete elementData.attributes.r;
+            delete elementData.attributes.g;
+            delete elementData.attributes.b;
+        }
+
+        // We need to set the position to the "main" attributes
+        if (elementData.attributes.x !== undefined) {
+            elementData.x = Number(elementData.attributes.x)
+            delete elementData.attributes.x;
+        }
+        if (elementData.attributes.y !== undefined) {
+            elementData.y = Number(elementData.attributes.y)
+            delete elementData.attributes.y;
+        }
+        if (elementData.attributes.z !== undefined) {
+            elementData.z = Number(elementData.attributes.z)
+            delete elementData.attributes.z;
+        }
+
+        // We need to set the size to the "main" attributes
+        if (elementData.attributes.size) {
+            elementData.size = Number(elementData.attributes.size);
+            delete elementData.attributes.size;
+        }
+
+        // We need to set the shape to the "main" attributes
+        if (elementData.attributes.shape) {
+            elementData.shape = elementData.attributes.shape;
+            delete elementData.attributes.shape;
+        }
+
+        // We need to set the thickness to the "main" attributes
+        if (elementData.attributes.thickness) {
+            elementData.thickness = Number(elementData.attributes.thickness);
+            delete elementData.attributes.thickness;
+        }
+
+        // We need to set the weight to the "main" attributes
+        if (elementData.attributes.weight) {
+            elementData.weight = Number(elementData.attributes.weight);
+            delete elementData.attributes.weight;
+        }
+
+        // We need to set the label to the "main" attributes
+        if (elementData.attributes.label) {
+            elementData.label = elementData.attributes.label;
+            delete elementData.attributes.label;
+        }
+
+        // We need to set the edgelabel to the "main" attributes
+        if (elementData.attributes.edgelabel) {
+            elementData.edgelabel = elementData.attributes.edgelabel;
+            delete elementData.attributes.edgelabel;
+        }
+
+        // We need to set the start to the "main" attributes
+        if (elementData.attributes.start) {
+            elementData.start = elementData.attributes.start;
+            delete elementData.attributes.start;
+        }
+
+        // We need to set the end to the "main" attributes
+        if (elementData.attributes.end) {
+            elementData.end = elementData.attributes.end;
+            delete elementData.attributes.end;
+        }
+
+        return elementData;
+    }
+
+    /**
+     * Get the JSON format of the graph
+     * @param options The options of the writer
+     * @return {nodes: any[], edges: any[]} The graph a JSON Object
+     */
+    public toJson = <O extends IWriterOptions = Record<string, never>>(options?: O): WriterResult<{ nodes: INode<N>[], edges: IEdge<E>[], attributes: IGraphAttribute }, O> => this.getWriterResult("json", options, () => {
+        return {
+            attributes: this.getAttributes(),
+            nodes: this.nodes.map((node) => node.color !== undefined ? {...node, color: tinycolor2(node.color).toRgbString()} : node),
+            edges: this.edges.map((edge) => edge.color !== undefined ? {...edge, color: tinycolor2(edge.color).toRgbString()} : edge)
+        }
+    });
+
+    /**
+     * Get the JSON Graphology format of the graph
+     * @param options The options of the writer
+     * @return SerializedGraph<N, E, Attributes> The graph as a Graphology JSON Object
+     */
+    public toGraphology = <O extends IWriterOptions = Record<string, never>>(options?: O): WriterResult<SerializedGraph<N, E, Attributes>, O> => this.getWriterResult("graphology", options, () => {
+
+        // Handle the attributes
+        const attributes: Attributes = {...this.getAttributes()}
+        attributes.name = attributes.id;
+        delete attributes.id;
+
+        // Handle the nodes, Graphology not knowing the time intervals
+        const nodes: Array<SerializedNode<N>> = this.nodes.map((graphNode) => {
+            const node = GraphFormatConverter.getElementWithoutTimes(graphNode);
+            if (node.color !== undefined) {
+                node.color = tinycolor2(node.color).toRgbString();
+            }
+
+            // If there is no key, set it with the id
+            if (node.key === undefined) {
+                node.key = node.id;
+                delete node.id
+            }
+
+            // The parent of a compound node is one of its attributes
+            const serializedNode: any = GraphFormatConverter.flattenHelper<SerializedNode<N>>(node);
+            if (node.parent !== undefined) {
+                serializedNode.attributes = {...serializedNode.attributes, parent: node.parent};
+                delete serializedNode.parent;
+            }
+
+            return serializedNode;
+        })
+
+        // Handle the edges
+        const edges: Array<SerializedEdge<E>> = this.edges.map((graphEdge) => {
+            const edge = GraphFormatConverter.getElementWithoutTimes(graphEdge);
+            if (edge.color !== undefined) {
+                edge.color = tinycolor2(edge.color).toRgbString();
+            }
+
+            // If there is no key, set it with the id if it exists, else we don't care
+            if (edge.key === undefined && edge.id !== undefined) {
+                edge.key = edge.id;
+                delete edge.id
+            }
+
+            // The edge is undirected if the graph is, unless it has its own direction
+            edge.undirected = this.isUndirectedEdge(graphEdge);
+
+            return GraphFormatConverter.flattenHelper<SerializedEdge<E>>(edge);
+        })
+
+        return {
+            attributes,
+            options: this.getGraphologyOptions(),
+            nodes,
+            edges
+        }
+    });
+
+    /**
+     * Get the graph as a Graphology instance, its type, whether it is a multigraph and whether it allows self loops being derived from the edges
+     * @param GraphClass The Graphology class of the instance ('Graph', 'MultiGraph'...)
+     * @return G The Graphology instance
+     */
+    public toGraphologyInstance = <G extends AbstractGraph>(GraphClass: new (options?: GraphOptions) => G): G => {
+        const serializedGraph = this.toGraphology() as SerializedGraph<N, E, Attributes>;
+        const graphOptions = this.getGraphologyOptions();
+        const graph = new GraphClass(graphOptions);
+        graph.replaceAttributes(serializedGraph.attributes !== undefined ? serializedGraph.attributes : {});
+
+        // The fields of the elements (label, position, size, color...) are attributes of the Graphology elements
+        serializedGraph.nodes.forEach(({key, attributes, ...fields}) => {
+            graph.addNode(`${key}`, {...fields, ...attributes});
+        });
+        serializedGraph.edges.forEach(({key, source, target, undirected, attributes, ...fields}) => {
+            const edgeAttributes = {...fields, ...attributes};
+            const isUndirected = graphOptions.type === "undirected" || (graphOptions.type === "mixed" && undirected === true);
+            if (key !== undefined) {
+                if (isUndirected) {
+                    graph.addUndirectedEdgeWithKey(`${key}`, `${source}`, `${target}`, edgeAttributes);
+                } else {
+                    graph.addDirectedEdgeWithKey(`${key}`, `${source}`, `${target}`, edgeAttributes);
+                }
+            } else if (isUndirected) {
+                graph.addUndirectedEdge(`${source}`, `${target}`, edgeAttributes);
+            } else {
+                graph.addDirectedEdge(`${source}`, `${target}`, edgeAttributes);
+            }
+        });
+
+        return graph;
+    }
+
+    /**
+     * Know if an edge is undirected, from its own direction ('undirected' or 'type') or else from the edge type of the graph
+     * @param edge The edge
+     */
+    private isUndirectedEdge = (edge: any): boolean => {
+        if (typeof edge.undirected === "boolean") {
+            return edge.undirected;
+        }
+        if (edge.type === "undirected" || edge.type === "directed" || edge.type === "mutual") {
+            return edge.type === "undirected";
+        }
+        return this.graphAttributes.edgeType === "undirected";
+    }
+
+    /**
+     * Get the options of the graph as a Graphology graph: its type, mixed if its edges do not share a direction,
+     * whether it has parallel edges and whether it has self loops
+     */
+    private getGraphologyOptions = (): GraphOptions => {
+        const undirectedEdges = this.edges.map(this.isUndirectedEdge);
+        let type: GraphOptions["type"] = this.graphAttributes.edgeType === "undirected" ? "undirected" : "directed";
+        if (undirectedEdges.length > 0) {
+            type = undirectedEdges.every((undirected) => undirected) ? "undirected" : (undirectedEdges.some((undirected) => undirected) ? "mixed" : "directed");
+        }
+
+        return {type, multi: this.isMultigraph(), allowSelfLoops: this.edges.some((edge) => `${edge.source}` === `${edge.target}`)};
+    }
+
+    /**
+     * Get the GEXF format of the graph
+     * @param options The options of the writer
+     * @return string The graph a GEXF string Object
+     */
+    public toGexf = <O extends IXmlWriterOptions = Record<string, never>>(options?: O): WriterResult<string, O> => this.getWriterResult("gexf", options, () => {
+
+        // Get the nodes and the edges as formatted JSON, the children nodes being nested in their parent
+        const nodes: any[] = GraphFormatConverter.nestNodes(this.nodes, this.nodes.map(GraphFormatConverter.getElementAsGexfJSON), (node, children) => {
+            node.nodes = {node: children};
+        });
+        const edges: any[] = this.edges.map(GraphFormatConverter.getElementAsGexfJSON);
+
+        // The attributes a node can take
+        const nodeAttributes: any[] = this.nodeAttributes.map(GraphFormatConverter.getAttributeAsGexfJSON);
+
+        // The attributes an edge can take
+        const edgeAttributes: any[] = this.edgeAttributes.map(GraphFormatConverter.getAttributeAsGexfJSON);
+
+        // The attributes are dynamic if some of their values have a time interval, as well as the graph if some elements have one
+        const hasDynamicAttributes = (elements: any[]) => elements.some((element) => element.dynamicAttributes !== undefined && Object.keys(element.dynamicAttributes).length > 0);
+        const nodeAttributesMode = hasDynamicAttributes(this.nodes) ? "dynamic" : "static";
+        const edgeAttributesMode = hasDynamicAttributes(this.edges) ? "dynamic" : "static";
+        const isDynamic = this.graphAttributes.mode === "dynamic" || nodeAttributesMode === "dynamic" || edgeAttributesMode === "dynamic" ||
+            this.nodes.concat(this.edges).some((element) => element.start !== undefined || element.end !== undefined || element.spells !== undefined);
+
+        // The time of a dynamic graph
+        const graphTime: any = {};
+        if (isDynamic) {
+            graphTime[`${GraphFormatConverter.parserOptions.attributeNamePrefix}timeformat`] = this.graphAttributes.timeFormat !== undefined ? this.graphAttributes.timeFormat : "double";
+        }
+        if (this.graphAttributes.start !== undefined) {
+            graphTime[`${GraphFormatConverter.parserOptions.attributeNamePrefix}start`] = this.graphAttributes.start;
+        }
+        if (this.graphAttributes.end !== undefined) {
+            graphTime[`${GraphFormatConverter.parserOptions.attributeNamePrefix}end`] = this.graphAttributes.end;
+        }
+
+        // The root object
+        const root = {
+            "?xml": {
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}version`]: "1.0",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}encoding`]: "UTF-8",
+            },
+            "gexf": {
+                "graph": {
+                    attributes: [
+                        {
+                            attribute: nodeAttributes,
+                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}class`]: "node",
+                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}mode`]: nodeAttributesMode,
+                        },
+                        {
+                            attribute: edgeAttributes,
+                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}class`]: "edge",
+                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}mode`]: edgeAttributesMode,
+                        }
+                    ],
+                    nodes: {
+                        node: nodes
+                    },
+                    edges: {
+                        edge: edges
+                    },
+                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: this.graphAttributes.id,
+                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}mode`]: isDynamic ? "dynamic" : "static",
+                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}defaultedgetype`]: this.graphAttributes.edgeType,
+                    ...graphTime
+                },
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}version`]: 1.3,
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}xmlns:viz`]: "http://www.gexf.net/1.3/viz",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}xmlns:xsi`]: "http://www.w3.org/2001/XMLSchema-instance",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}xmlns`]: "http://www.gexf.net/1.3",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}xsi:schemaLocation`]: "http://www.gexf.net/1.3 http://www.gexf.net/1.3/gexf.xsd"
+            }
+        }
+
+        // Build the document
+        const builder = new XMLBuilder(GraphFormatConverter.builderOptions);
+
+        // Return the XML built and "fix" the <?xml ... /></?xml> to <?xml ... ?> and replace the backspace chars
+        return builder.build(root).replace(/><\/\?xml>/gim, "?>").replace(new RegExp("\b", "gim"), "").replace(/&/gim, "&amp;");
+    });
+
+    /**
+     * Get the Graphml format of the graph
+     * @param options The options of the writer
+     * @return string The graph a Graphml string Object
+     */
+    public toGraphml = <O extends IXmlWriterOptions = Record<string, never>>(options?: O): WriterResult<string, O> => this.getWriterResult("graphml", options, () => {
+
+        // Variables to know if the attributes already exists
+        let doesColorNotExistForNodes, doesColorNotExistForEdges, doesXNotExistForNodes, doesYNotExistForNodes, doesZNotExistForNodes, doesXNotExistForEdges, doesYNotExistForEdges, doesZNotExistForEdges, doesLabelNotExistForNodes,
+            doesLabelNotExistForEdges, doesEdgelabelNotExistForEdges, doesSizeNotExistForNodes, doesSizeNotExistForEdges, doesShapeNotExistForNodes, doesShapeNotExistForEdges, doesWeightNotExistForEdges, doesThicknessNotExistForEdges;
+
+        // Get the nodes and the edges as formatted JSON, the children nodes being in a graph nested in their parent
+        const nodes: any[] = GraphFormatConverter.nestNodes(this.nodes, this.nodes.map(GraphFormatConverter.getElementAsGraphmlJSON), (node, children) => {
+            node.graph = {
+                node: children,
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}edgedefault`]: this.graphAttributes.edgeType === "mutual" ? "directed" : this.graphAttributes.edgeType,
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: `${node[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]}:`
+            };
+        });
+        const edges: any[] = this.edges.map(GraphFormatConverter.getElementAsGraphmlJSON);
+
+        // Create the keys (the attributes)
+        const keys: any[] = [];
+        this.nodeAttributes.forEach((node) => {
+
+            // We need to check if there is the following attributes in the node attributes object
+            if (node.id === "x") {
+                doesXNotExistForNodes = false
+            } else if (node.id === "y") {
+                doesYNotExistForNodes = false
+            } else if (node.id === "z") {
+                doesZNotExistForNodes = false
+            } else if (node.id === "size") {
+                doesSizeNotExistForNodes = false
+            } else if (node.id === "shape") {
+                doesShapeNotExistForNodes = false
+            } else if (node.id === "label") {
+                doesLabelNotExistForNodes = false
+            } else if (node.id === "color" || node.id === "r" || node.id === "g" || node.id === "b") {
+                doesColorNotExistForNodes = false
+            }
+
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: node.title,
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: GraphFormatConverter.jsonTypeToGRAPHML(node.type),
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: node.id,
+                ...(node.defaultValue !== undefined ? {default: node.defaultValue} : {})
+            })
+        });
+
+        this.edgeAttributes.forEach((edge) => {
+
+            // We need to check if there is the following attributes in the edge attributes object
+            if (edge.id === "x") {
+                doesXNotExistForEdges = false
+            } else if (edge.id === "y") {
+                doesYNotExistForEdges = false
+            } else if (edge.id === "z") {
+                doesZNotExistForEdges = false
+            } else if (edge.id === "size") {
+                doesSizeNotExistForEdges = false
+            } else if (edge.id === "shape") {
+                doesShapeNotExistForEdges = false
+            } else if (edge.id === "weight") {
+                doesWeightNotExistForEdges = false
+            } else if (edge.id === "thickness") {
+                doesThicknessNotExistForEdges = false
+            } else if (edge.id === "label") {
+                doesLabelNotExistForEdges = false
+            } else if (edge.id === "edgelabel") {
+                doesEdgelabelNotExistForEdges = false
+            } else if (edge.id === "color" || edge.id === "r" || edge.id === "g" || edge.id === "b") {
+                doesColorNotExistForEdges = false
+            }
+
+            // An attribute of both the nodes and the edges is written once for all the elements
+            const nodeKey = keys.find((key) => key[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`] === edge.id && key[`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`] === "node");
+            if (nodeKey !== undefined && nodeKey[`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`] === edge.title && nodeKey[`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`] === GraphFormatConverter.jsonTypeToGRAPHML(edge.type) && nodeKey.default === edge.defaultValue) {
+                nodeKey[`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`] = "all";
+                return;
+            }
+
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: edge.title,
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: GraphFormatConverter.jsonTypeToGRAPHML(edge.type),
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: edge.id,
+                ...(edge.defaultValue !== undefined ? {default: edge.defaultValue} : {})
+            })
+        });
+
+        // Now we check if the attribute exists in the dataset if it is not already set in the attributes object from below
+        doesColorNotExistForNodes = doesColorNotExistForNodes === undefined ? this.nodes.find((node) => node.color !== undefined) !== undefined : false;
+        doesColorNotExistForEdges = doesColorNotExistForEdges === undefined ? this.edges.find((edge) => edge.color !== undefined) !== undefined : false;
+
+        doesLabelNotExistForNodes = doesLabelNotExistForNodes === undefined ? this.nodes.find((node) => node.label !== undefined) !== undefined : false;
+        doesLabelNotExistForEdges = doesLabelNotExistForEdges === undefined ? this.edges.find((edge) => edge.label !== undefined) !== undefined : false;
+        doesEdgelabelNotExistForEdges = doesEdgelabelNotExistForEdges === undefined ? this.edges.find((edge) => edge.edgelabel !== undefined) !== undefined : false;
+
+        doesSizeNotExistForNodes = doesSizeNotExistForNodes === undefined ? this.nodes.find((node) => node.size !== undefined) !== undefined : false;
+        doesSizeNotExistForEdges = doesSizeNotExistForEdges === undefined ? this.edges.find((edge) => edge.size !== undefined) !== undefined : false;
+
+        doesShapeNotExistForNodes = doesShapeNotExistForNodes === undefined ? this.nodes.find((node) => node.shape !== undefined) !== undefined : false;
+        doesShapeNotExistForEdges = doesShapeNotExistForEdges === undefined ? this.edges.find((edge) => edge.shape !== undefined) !== undefined : false;
+
+        doesWeightNotExistForEdges = doesWeightNotExistForEdges === undefined ? this.edges.find((edge) => edge.weight !== undefined) !== undefined : false;
+        doesThicknessNotExistForEdges = doesThicknessNotExistForEdges === undefined ? this.edges.find((edge) => edge.thickness !== undefined) !== undefined : false;
+
+        doesXNotExistForNodes = doesXNotExistForNodes === undefined ? this.nodes.find((node) => node.x !== undefined) !== undefined : false;
+        doesYNotExistForNodes = doesYNotExistForNodes === undefined ? this.nodes.find((node) => node.y !== undefined) !== undefined : false;
+        doesZNotExistForNodes = doesZNotExistForNodes === undefined ? this.nodes.find((node) => node.z !== undefined) !== undefined : false;
+
+        doesXNotExistForEdges = doesXNotExistForEdges === undefined ? this.edges.find((edge) => edge.x !== undefined) !== undefined : false;
+        doesYNotExistForEdges = doesYNotExistForEdges === undefined ? this.edges.find((edge) => edge.y !== undefined) !== undefined : false;
+        doesZNotExistForEdges = doesZNotExistForEdges === undefined ? this.edges.find((edge) => edge.z !== undefined) !== undefined : false;
+
+        // If it does not exist we add it to the attributes manually
+        if (doesXNotExistForNodes) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'x',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'x'
+            })
+        }
+        if (doesYNotExistForNodes) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'y',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'y'
+            })
+        }
+        if (doesZNotExistForNodes) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'z',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'z'
+            })
+        }
+
+        if (doesXNotExistForEdges) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'x',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'x'
+            })
+        }
+        if (doesYNotExistForEdges) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'y',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'y'
+            })
+        }
+        if (doesZNotExistForEdges) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'z',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'z'
+            })
+        }
+
+        if (doesLabelNotExistForNodes) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'label',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'string',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'label'
+            })
+        }
+        if (doesLabelNotExistForEdges) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'label',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'string',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'label'
+            })
+        }
+        if (doesEdgelabelNotExistForEdges) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'edgelabel',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'string',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'edgelabel'
+            })
+        }
+
+        if (doesSizeNotExistForNodes) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'size',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'size'
+            })
+        }
+        if (doesShapeNotExistForNodes) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'shape',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'string',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'shape'
+            })
+        }
+
+        if (doesSizeNotExistForEdges) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'size',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'size'
+            })
+        }
+        if (doesShapeNotExistForEdges) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'shape',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'string',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'shape'
+            })
+        }
+        if (doesWeightNotExistForEdges) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'weight',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'weight'
+            })
+        }
+        if (doesThicknessNotExistForEdges) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'thickness',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'thickness'
+            })
+        }
+
+        // We need to set the r, g, and b values for the nodes and the edges
+        if (doesColorNotExistForNodes) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'r',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'int',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'r'
+            }, {
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'g',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'int',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'g'
+            }, {
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'b',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'int',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'b'
+            });
+        }
+        if (doesColorNotExistForEdges) {
+            keys.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'r',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'int',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'r'
+            }, {
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'g',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'int',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'g'
+            }, {
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'b',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'int',
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'b'
+            });
+        }
+
+        // The metadata of the graph are written as graph-level data, their key keeping its declared id and type (or else the id being their name if it is not already used), unless it is a key for all the elements
+        const graphData: any[] = [];
+        Object.entries(this.graphAttributes.metadata !== undefined ? this.graphAttributes.metadata : {}).forEach(([name, value]) => {
+            const declaration = (this.graphAttributes.metadataAttributes !== undefined ? this.graphAttributes.metadataAttributes : []).find((attribute) => attribute.title === name);
+            const declaredId = declaration !== undefined ? `${declaration.id}` : name;
+            const allKey = keys.find((key) => key[`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`] === "all" && key[`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`] === name);
+            const keyId = allKey !== undefined ? allKey[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`] : (keys.some((key) => key[`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`] === declaredId) ? `graph.${declaredId}` : declaredId);
+            if (allKey === undefined) {
+                keys.push({
+                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: name,
+                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: declaration !== undefined ? GraphFormatConverter.jsonTypeToGRAPHML(declaration.type) : (typeof value === "number" ? "double" : (typeof value === "boolean" ? "boolean" : "string")),
+                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "graph",
+                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: keyId,
+                    ...(declaration !== undefined && declaration.defaultValue !== undefined ? {default: declaration.defaultValue} : {})
+                });
+            }
+            graphData.push({
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}key`]: keyId,
+                "#text": `${typeof value === "object" && value !== null ? JSON.stringify(value) : value}`.replace(new RegExp(/&/, 'g'), "&amp;")
+            });
+        });
+
+        // The root element
+        const root = {
+            "?xml": {
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}version`]: "1.0",
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}encoding`]: "UTF-8",
             },
-            "gexf": {
+            "graphml": {
+                key: keys,
                 "graph": {
-                    attributes: [
-                        {
-                            attribute: nodeAttributes,
-                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}class`]: "node",
-                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}mode`]: "static",
-                        },
-                        {
-                            attribute: edgeAttributes,
-                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}class`]: "edge",
-                            [`${GraphFormatConverter.parserOptions.attributeNamePrefix}mode`]: "static",
-                        }
-                    ],
-                    nodes: {
-                        node: nodes
-                    },
-                    edges: {
-                        edge: edges
-                    },
-                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: this.graphAttributes.id,
-                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}mode`]: this.graphAttributes.mode,
-                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}defaultedgetype`]: this.graphAttributes.edgeType
+                    data: graphData,
+                    node: nodes,
+                    edge: edges,
+                    // If the edgeType is mutual we need to treat it as 'directed'
+                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}edgedefault`]: this.graphAttributes.edgeType === "mutual" ? "directed" : this.graphAttributes.edgeType,
+                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: this.graphAttributes.id
                 },
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}version`]: 1.3,
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}xmlns:viz`]: "http://www.gexf.net/1.3/viz",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}xmlns:xsi`]: "http://www.w3.org/2001/XMLSchema-instance",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}xmlns`]: "http://www.gexf.net/1.3",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}xsi:schemaLocation`]: "http://www.gexf.net/1.3 http://www.gexf.net/1.3/gexf.xsd"
+                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}xmlns`]: "http://graphml.graphdrawing.org/xmlns",
+            }
+        }
+
+        // Build the document
+        const builder = new XMLBuilder(GraphFormatConverter.builderOptions);
+
+        // Return the XML built and "fix" the <?xml ... /></?xml> to <?xml ... ?> and replace the backspace chars
+        return builder.build(root).replace(/><\/\?xml>/gim, "?>").replace(new RegExp("\b", "gim"), "").replace(/&/gim, "&amp;");
+    });
+
+    /**
+     * Get the GML format of the graph
+     * @param options The options of the writer
+     * @return string The graph a GML string Object
+     */
+    public toGml = <O extends IWriterOptions = Record<string, never>>(options?: O): WriterResult<string, O> => this.getWriterResult("gml", options, () => {
+
+        // The graph attributes
+        const lines: string[] = [
+            "graph [",
+            `  id ${GraphFormatConverter.jsonValueToGml(this.graphAttributes.id)}`,
+            // GML only knows directed and undirected graphs, thus 'mutual' is treated as 'directed'
+            `  directed ${this.graphAttributes.edgeType === "undirected" ? 0 : 1}`
+        ];
+
+        // Then the nodes and the edges
+        this.nodes.forEach((node) => lines.push(...GraphFormatConverter.getElementAsGmlLines("node", node)));
+        this.edges.forEach((edge) => lines.push(...GraphFormatConverter.getElementAsGmlLines("edge", edge)));
+
+        lines.push("]");
+        return lines.join("\n");
+    });
+
+    /**
+     * Get the DOT format of the graph
+     * @param options The options of the DOT writer
+     * @return string The graph a DOT string Object
+     */
+    public toDot = <O extends IDotOptions = Record<string, never>>(options: O = {} as O): WriterResult<string, O> => this.getWriterResult("dot", options, () => {
+
+        // The edge operator depends on the type of the graph
+        const isDirected = this.graphAttributes.edgeType !== "undirected";
+        const edgeOperator = isDirected ? "->" : "--";
+
+        // The graph header
+        const lines: string[] = [`${isDirected ? "digraph" : "graph"} ${GraphFormatConverter.jsonValueToDot(this.graphAttributes.id)} {`];
+
+        // The 'mutual' edges go both ways
+        if (this.graphAttributes.edgeType === "mutual") {
+            lines.push("  edge [dir=both];");
+        }
+
+        // Then the nodes and the edges
+        this.nodes.forEach((node) => {
+            const attributes = GraphFormatConverter.getElementAsDotAttributes(node, options);
+            lines.push(`  ${GraphFormatConverter.jsonValueToDot(node.id)}${attributes.length > 0 ? ` [${attributes.join(", ")}]` : ""};`);
+        });
+        this.edges.forEach((edge) => {
+            const attributes = GraphFormatConverter.getElementAsDotAttributes(edge, options);
+            lines.push(`  ${GraphFormatConverter.jsonValueToDot(edge.source)} ${edgeOperator} ${GraphFormatConverter.jsonValueToDot(edge.target)}${attributes.length > 0 ? ` [${attributes.join(", ")}]` : ""};`);
+        });
+
+        lines.push("}");
+        return lines.join("\n");
+    });
+
+    /**
+     * Get the Pajek (.net) format of the graph, the nodes being numbered from 1 and named with their id
+     * @param options The options of the writer
+     * @return string The graph a Pajek string Object
+     */
+    public toPajek = <O extends IWriterOptions = Record<string, never>>(options?: O): WriterResult<string, O> => this.getWriterResult("pajek", options, () => {
+
+        // Pajek uses the numbers of the vertices, thus we map the ids of the nodes to them
+        const nodeNumbers: { [id: string]: number } = {};
+        const getNodeNumber = (nodeId: any): number => {
+            if (nodeNumbers[`${nodeId}`] === undefined) {
+                throw new Error(`The node '${nodeId}' of an edge does not exist`);
+            }
+            return nodeNumbers[`${nodeId}`];
+        }
+
+        // A string is quoted and cannot contain any quote
+        const quote = (value: any) => `"${`${value}`.replace(/"/g, "'")}"`;
+
+        // The vertices
+        const lines: string[] = [`*Network ${this.graphAttributes.id}`, `*Vertices ${this.nodes.length}`];
+        this.nodes.forEach((node, index) => {
+            nodeNumbers[`${node.id}`] = index + 1;
+            const coordinates = [node.x, node.y, node.z].filter((coordinate) => coordinate !== undefined);
+            lines.push([index + 1, quote(node.id), ...coordinates].join(" "));
+        });
+
+        // The edges, that are arcs unless the graph is undirected (or 'mutual') or the edge is undirected itself
+        const arcs: string[] = [];
+        const edges: string[] = [];
+        this.edges.forEach((edge) => {
+            const line: any[] = [getNodeNumber(edge.source), getNodeNumber(edge.target)];
+            if (edge.weight !== undefined) {
+                line.push(edge.weight);
+            }
+            if (edge.label !== undefined) {
+                line.push("l", quote(edge.label));
+            }
+
+            if (this.graphAttributes.edgeType !== "directed" || edge.undirected === true) {
+                edges.push(line.join(" "));
+            } else {
+                arcs.push(line.join(" "));
+            }
+        });
+
+        if (arcs.length > 0) {
+            lines.push("*Arcs", ...arcs);
+        }
+        if (edges.length > 0) {
+            lines.push("*Edges", ...edges);
+        }
+
+        return lines.join("\n");
+    });
+
+    /**
+     * Get the CSV format of the graph as a nodes table and an edges table (Gephi spreadsheet style)
+     * @param options The options of the CSV writer
+     * @return {nodes: string, edges: string} The graph as CSV strings
+     */
+    public toCsv = <O extends ICsvOptions = Record<string, never>>(options: O = {} as O): WriterResult<{ nodes: string, edges: string }, O> => this.getWriterResult("csv", options, () => {
+
+        // The delimiter and the quote of the values
+        const delimiter = options.delimiter !== undefined ? options.delimiter : ",";
+        const quote = options.quote !== undefined ? options.quote : '"';
+
+        // The column of a field is given by the options or else by the Gephi columns
+        const getColumn = (field: string): string => {
+            const columns = [...Object.entries(options.headers !== undefined ? options.headers : {}), ...Object.entries(GraphFormatConverter.csvHeaders)];
+            const column = columns.find(([, columnField]) => columnField === field);
+            return column !== undefined ? column[0] : field;
+        }
+
+        // A value is quoted if it contains the delimiter, the quote or a line break
+        const formatValue = (value: any): string => {
+            if (value === undefined || value === null) {
+                return "";
+            }
+            const valueAsString = `${value}`;
+            if (options.quoteAll || valueAsString.includes(delimiter) || valueAsString.includes(quote) || /[\r\n]/.test(valueAsString)) {
+                return `${quote}${valueAsString.split(quote).join(quote + quote)}${quote}`;
+            }
+            return valueAsString;
+        }
+
+        // Get a table of elements with the fields used by at least one element and then every attribute
+        const getTable = (elements: any[], fields: string[], attributes: IAttribute[]): string => {
+            const usedFields = fields.filter((field) => elements.some((element) => element[field] !== undefined));
+
+            // The attributes can be used by the elements without being declared
+            const attributeKeys: string[] = [];
+            elements.forEach((element) => {
+                Object.keys(element.attributes !== undefined ? element.attributes : {}).forEach((key) => {
+                    if (!attributeKeys.includes(key)) {
+                        attributeKeys.push(key);
+                    }
+                });
+            });
+
+            // The header uses the title of the attributes
+            const header = [...usedFields.map(getColumn), ...attributeKeys.map((key) => {
+                const attribute = attributes.find((currentAttribute) => `${currentAttribute.id}` === key);
+                return attribute !== undefined ? attribute.title : key;
+            })];
+
+            const rows = elements.map((element) => [
+                ...usedFields.map((field) => field === "color" && element.color !== undefined ? tinycolor2(element.color).toHexString() : element[field]),
+                ...attributeKeys.map((key) => element.attributes !== undefined ? element.attributes[key] : undefined)
+            ]);
+
+            return [header, ...rows].map((row) => row.map(formatValue).join(delimiter)).join("\n");
+        }
+
+        // The type of each edge is the type of the graph unless the edge is undirected itself
+        const edges = this.edges.map((edge) => {
+            return {...edge, type: this.graphAttributes.edgeType !== "directed" || edge.undirected === true ? "Undirected" : "Directed"};
+        });
+
+        return {
+            nodes: getTable(this.nodes, ["id", "label", "x", "y", "z", "size", "color"], this.nodeAttributes),
+            edges: getTable(edges, ["source", "target", "type", "id", "label", "weight", "color"], this.edgeAttributes)
+        };
+    });
+
+    /**
+     * Get the Cytoscape.js JSON format of the graph
+     * @param options The options of the Cytoscape.js writer
+     * @return The graph as Cytoscape.js JSON elements (with the graph attributes as data), or as a flat array of elements
+     */
+    public toCytoscape = <O extends ICytoscapeOptions = Record<string, never>>(options: O = {} as O): WriterResult<{ data: IGraphAttribute, elements: { nodes: any[], edges: any[] } } | any[], O> => this.getWriterResult("cytoscape", options, () => {
+
+        // Get the nodes and the edges as Cytoscape.js elements
+        const nodes: any[] = this.nodes.map(GraphFormatConverter.getElementAsCytoscapeJSON);
+        const edges: any[] = this.edges.map(GraphFormatConverter.getElementAsCytoscapeJSON);
+
+        // In a flat array, each element has its group
+        if (options.flat) {
+            return [...nodes.map((node) => ({group: "nodes", ...node})), ...edges.map((edge) => ({group: "edges", ...edge}))];
+        }
+
+        return {
+            data: {...this.getAttributes()},
+            elements: {
+                nodes,
+                edges
+            }
+        }
+    });
+
+    /**
+     * Get the node-link JSON format of the graph (as used by d3-force and 'networkx.node_link_graph')
+     * @param options The options of the writer
+     * @return The graph as a node-link JSON Object
+     */
+    public toNodeLink = <O extends IWriterOptions = Record<string, never>>(options?: O): WriterResult<{ directed: boolean, multigraph: boolean, graph: any, nodes: any[], links: any[] }, O> => this.getWriterResult("nodelink", options, () => {
+
+        // The graph is a multigraph if several edges link the same nodes
+        const isDirected = this.graphAttributes.edgeType !== "undirected";
+        const pairs: { [pair: string]: boolean } = {};
+        const isMultigraph = this.edges.some((edge) => {
+            const pair = isDirected ? [`${edge.source}`, `${edge.target}`] : [`${edge.source}`, `${edge.target}`].sort();
+            const pairKey = JSON.stringify(pair);
+            if (pairs[pairKey]) {
+                return true;
+            }
+            pairs[pairKey] = true;
+            return false;
+        });
+
+        return {
+            directed: isDirected,
+            multigraph: isMultigraph,
+            graph: {
+                id: this.graphAttributes.id,
+                mode: this.graphAttributes.mode
+            },
+            nodes: this.nodes.map(GraphFormatConverter.getElementAsNodeLinkJSON),
+            links: this.edges.map(GraphFormatConverter.getElementAsNodeLinkJSON)
+        }
+    });
+
+    /**
+     * Get the JSON Graph Format (v2) of the graph
+     * @param options The options of the writer
+     * @return {graph: any} The graph as a JGF document
+     */
+    public toJgf = <O extends IWriterOptions = Record<string, never>>(options?: O): WriterResult<{ graph: any }, O> => this.getWriterResult("jgf", options, () => {
+
+        // The nodes are keyed by their id
+        const nodes: any = {};
+        this.nodes.forEach((node) => {
+            const {id, ...nodeObject} = GraphFormatConverter.getElementAsJgfJSON(node);
+            nodes[id] = nodeObject;
+        });
+
+        return {
+            graph: {
+                id: `${this.graphAttributes.id}`,
+                // The 'mutual' edges are treated as 'directed'
+                directed: this.graphAttributes.edgeType !== "undirected",
+                metadata: {
+                    mode: this.graphAttributes.mode
+                },
+                nodes,
+                edges: this.edges.map(GraphFormatConverter.getElementAsJgfJSON)
+            }
+        }
+    });
+
+    /**
+     * Get the JSON Graph Format (v2) of several graphs as a single document
+     * @param graphs The graphs
+     * @param options The options of the writer
+     * @return {graphs: any[]} The graphs as a JGF document
+     */
+    public static toJgfAll = <O extends IWriterOptions = Record<string, never>>(graphs: GraphFormatConverter<any, any>[], options?: O): WriterResult<{ graphs: any[] }, O> => {
+        const output = {
+            graphs: graphs.map((graph) => graph.toJgf().graph)
+        };
+
+        // The warnings are the ones of every graph
+        if (options !== undefined && options.report) {
+            return {output, warnings: ([] as IConversionWarning[]).concat(...graphs.map((graph) => graph.getConversionWarnings("jgf")))} as WriterResult<{ graphs: any[] }, O>;
+        }
+        return output as WriterResult<{ graphs: any[] }, O>;
+    }
+
+    /**
+     * Get the GraphSON 3.0 adjacency list of the graph (one 'g:Vertex' per line, with its edges)
+     * @param options The options of the GraphSON writer
+     * @return string The graph a GraphSON string Object
+     */
+    public toGraphSON = <O extends IGraphSONOptions = Record<string, never>>(options: O = {} as O): WriterResult<string, O> => this.getWriterResult("graphson", options, () => {
+
+        // The label of the elements comes from an attribute that can be given by its id or its title
+        const labelProperty = options.labelProperty !== undefined ? options.labelProperty : "name";
+        const vertexLabelKey = GraphFormatConverter.getAttributeId(options.vertexLabelAttribute !== undefined ? options.vertexLabelAttribute : "type", this.nodeAttributes);
+        const edgeLabelKey = GraphFormatConverter.getAttributeId(options.edgeLabelAttribute !== undefined ? options.edgeLabelAttribute : "type", this.edgeAttributes);
+        const getLabel = (element: any, labelKey: string, defaultLabel: string): string => {
+            const label = GraphFormatConverter.getElementAttributeValue(element, labelKey);
+            return label !== undefined && label !== null ? `${label}` : defaultLabel;
+        }
+
+        // The vertices, their properties having an id as well
+        let vertexPropertyId = 0;
+        const vertices: any[] = [];
+        const vertexIndices: { [id: string]: number } = {};
+        this.nodes.forEach((node) => {
+            const properties: any = {};
+            GraphFormatConverter.getElementAsGraphSONProperties(node, this.nodeAttributes, labelProperty).forEach(([key, value]) => {
+                properties[key] = [{
+                    "@type": "g:VertexProperty",
+                    "@value": {
+                        id: {"@type": "g:Int64", "@value": vertexPropertyId++},
+                        value,
+                        label: key
+                    }
+                }];
+            });
+
+            vertexIndices[`${node.id}`] = vertices.length;
+            vertices.push({
+                id: GraphFormatConverter.jsonValueToGraphSON(node.id),
+                label: getLabel(node, vertexLabelKey, "vertex"),
+                outE: {},
+                inE: {},
+                properties
+            });
+        });
+
+        // The edges are both in the 'outE' of their source and in the 'inE' of their target, the edges without an id are known by their index
+        this.edges.forEach((edge, index) => {
+            const source = vertices[vertexIndices[`${edge.source}`]];
+            const target = vertices[vertexIndices[`${edge.target}`]];
+            if (source === undefined || target === undefined) {
+                throw new Error(`The node '${source === undefined ? edge.source : edge.target}' of an edge does not exist`);
             }
-        }
 
-        // Build the document
-        const builder = new XMLBuilder(GraphFormatConverter.builderOptions);
+            const label = getLabel(edge, edgeLabelKey, "edge");
+            const edgeId = GraphFormatConverter.jsonValueToGraphSON(edge.id !== undefined ? edge.id : index);
+            const properties: any = {};
+            GraphFormatConverter.getElementAsGraphSONProperties(edge, this.edgeAttributes, labelProperty).forEach(([key, value]) => properties[key] = value);
 
-        // Return the XML built and "fix" the <?xml ... /></?xml> to <?xml ... ?> and replace the backspace chars
-        return builder.build(root).replace(/><\/\?xml>/gim, "?>").replace(new RegExp("\b", "gim"), "").replace(/&/gim, "&amp;");
-    }
+            source.outE[label] = [...(source.outE[label] !== undefined ? source.outE[label] : []), {"@type": "g:Edge", "@value": {id: edgeId, inV: target.id, properties}}];
+            target.inE[label] = [...(target.inE[label] !== undefined ? target.inE[label] : []), {"@type": "g:Edge", "@value": {id: edgeId, outV: source.id, properties}}];
+        });
+
+        // One vertex per line, without its empty objects
+        return vertices.map((vertex) => {
+            ["outE", "inE", "properties"].forEach((key) => {
+                if (Object.keys(vertex[key]).length === 0) {
+                    delete vertex[key];
+                }
+            });
+            return JSON.stringify({"@type": "g:Vertex", "@value": vertex});
+        }).join("\n");
+    });
 
     /**
-     * Get the Graphml format of the graph
-     * @return string The graph a Graphml string Object
+     * Get an idempotent Cypher script of the graph, the nodes and the relationships being merged by batches with 'UNWIND ... MERGE'
+     * @param options The options of the Cypher writer
+     * @return string The graph a Cypher string Object
      */
-    public toGraphml = (): string => {
-
-        // Variables to know if the attributes already exists
-        let doesColorNotExistForNodes, doesColorNotExistForEdges, doesXNotExistForNodes, doesYNotExistForNodes, doesZNotExistForNodes, doesXNotExistForEdges, doesYNotExistForEdges, doesZNotExistForEdges, doesLabelNotExistForNodes,
-            doesLabelNotExistForEdges, doesEdgelabelNotExistForEdges, doesSizeNotExistForNodes, doesSizeNotExistForEdges, doesShapeNotExistForNodes, doesShapeNotExistForEdges, doesWeightNotExistForEdges, doesThicknessNotExistForEdges;
+    public toCypher = <O extends ICypherOptions = Record<string, never>>(options: O = {} as O): WriterResult<string, O> => this.getWriterResult("cypher", options, () => {
+
+        // The labels and the types
+        const nodeLabel = GraphFormatConverter.getCypherName(options.nodeLabel !== undefined ? options.nodeLabel : "Node");
+        const relationshipType = options.relationshipType !== undefined ? options.relationshipType : "LINKED_TO";
+        const nodeLabelKey = GraphFormatConverter.getAttributeId(options.nodeLabelAttribute !== undefined ? options.nodeLabelAttribute : "type", this.nodeAttributes);
+        const relationshipTypeKey = GraphFormatConverter.getAttributeId(options.relationshipTypeAttribute !== undefined ? options.relationshipTypeAttribute : "type", this.edgeAttributes);
+        const batchSize = options.batchSize !== undefined && options.batchSize > 0 ? options.batchSize : 1000;
+
+        // Get the properties of an element as a Cypher map, named by the title of their attribute whose declared type is kept (Cypher not knowing the time intervals)
+        const getProperties = (element: any, attributes: IAttribute[]): string => {
+            const properties = Object.entries(GraphFormatConverter.getElementAsNodeLinkJSON(GraphFormatConverter.getElementWithoutTimes(element))).filter(([key]) => !["id", "source", "target"].includes(key));
+            return `{${properties.map(([key, value]) => {
+                const attribute = attributes.find((currentAttribute) => `${currentAttribute.id}` === key);
+                return `${GraphFormatConverter.getCypherName(attribute !== undefined ? attribute.title : key)}: ${GraphFormatConverter.jsonValueToCypher(value, attribute !== undefined ? attribute.type : undefined)}`;
+            }).join(", ")}}`;
+        }
 
-        // Get the nodes and the edges as formatted JSON
-        const nodes: any[] = this.getNodes().map(GraphFormatConverter.getElementAsGraphmlJSON);
-        const edges: any[] = this.getEdges().map(GraphFormatConverter.getElementAsGraphmlJSON);
+        // Group rows by label or type, so that each group can be written by batches
+        const groupRows = (elements: any[], getGroup: (element: any) => string, getRow: (element: any, index: number) => string): Array<[string, string[]]> => {
+            const groups: Array<[string, string[]]> = [];
+            elements.forEach((element, index) => {
+                const group = getGroup(element);
+                let currentGroup = groups.find(([groupName]) => groupName === group);
+                if (currentGroup === undefined) {
+                    currentGroup = [group, []];
+                    groups.push(currentGroup);
+                }
+                currentGroup[1].push(getRow(element, index));
+            });
+            return groups;
+        }
+        const statements: string[] = [];
+        const addStatements = (groups: Array<[string, string[]]>, getStatement: (group: string, rows: string[]) => string) => {
+            groups.forEach(([group, rows]) => {
+                for (let index = 0; index < rows.length; index += batchSize) {
+                    statements.push(getStatement(group, rows.slice(index, index + batchSize)));
+                }
+            });
+        }
 
-        // Create the keys (the attributes)
-        const keys: any[] = [];
-        this.nodeAttributes.forEach((node) => {
+        // The nodes are merged by their id, their additional label coming from an attribute
+        const nodeGroups = groupRows(this.nodes, (node) => {
+            const label = GraphFormatConverter.getElementAttributeValue(node, nodeLabelKey);
+            return label !== undefined && label !== null && `${label}` !== "" ? `${label}` : "";
+        }, (node) => `{id: ${GraphFormatConverter.jsonValueToCypher(node.id)}, properties: ${getProperties(node, this.nodeAttributes)}}`);
+        addStatements(nodeGroups, (label, rows) => [
+            "UNWIND [",
+            rows.map((row) => `  ${row}`).join(",\n"),
+            "] AS row",
+            `MERGE (n:${nodeLabel} {id: row.id})`,
+            `SET n += row.properties${label !== "" ? `, n:${GraphFormatConverter.getCypherName(label)}` : ""};`
+        ].join("\n"));
+
+        // The relationships are merged by their id (their index if they do not have one), their type coming from an attribute
+        const isDirected = this.graphAttributes.edgeType !== "undirected";
+        const edgeGroups = groupRows(this.edges, (edge) => {
+            const type = GraphFormatConverter.getElementAttributeValue(edge, relationshipTypeKey);
+            return type !== undefined && type !== null && `${type}` !== "" ? `${type}` : relationshipType;
+        }, (edge, index) => `{id: ${GraphFormatConverter.jsonValueToCypher(edge.id !== undefined ? edge.id : index)}, source: ${GraphFormatConverter.jsonValueToCypher(edge.source)}, target: ${GraphFormatConverter.jsonValueToCypher(edge.target)}, properties: ${getProperties(edge, this.edgeAttributes)}}`);
+        addStatements(edgeGroups, (type, rows) => [
+            "UNWIND [",
+            rows.map((row) => `  ${row}`).join(",\n"),
+            "] AS row",
+            `MATCH (source:${nodeLabel} {id: row.source})`,
+            `MATCH (target:${nodeLabel} {id: row.target})`,
+            // The relationships of an undirected graph are merged whatever their direction
+            `MERGE (source)-[r:${GraphFormatConverter.getCypherName(type)} {id: row.id}]-${isDirected ? ">" : ""}(target)`,
+            "SET r += row.properties;"
+        ].join("\n"));
+
+        return statements.join("\n\n");
+    });
 
-            // We need to check if there is the following attributes in the node attributes object
-            if (node.id === "x") {
-                doesXNotExistForNodes = false
-            } else if (node.id === "y") {
-                doesYNotExistForNodes = false
-            } else if (node.id === "z") {
-                doesZNotExistForNodes = false
-            } else if (node.id === "size") {
-                doesSizeNotExistForNodes = false
-            } else if (node.id === "shape") {
-                doesShapeNotExistForNodes = false
-            } else if (node.id === "label") {
-                doesLabelNotExistForNodes = false
-            } else if (node.id === "color" || node.id === "r" || node.id === "g" || node.id === "b") {
-                doesColorNotExistForNodes = false
+    /**
+     * Get the static graph of a dynamic graph at an instant, containing only the elements and the attribute values alive at this instant
+     * @param time The instant, as a number or as a date for the graphs having a 'date' or a 'dateTime' time format
+     * @return GraphFormatConverter The static graph at the instant
+     */
+    public snapshotAt = (time: string | number | Date): GraphFormatConverter<N, E> => {
+        const timeFormat = this.graphAttributes.timeFormat;
+        const instant = GraphFormatConverter.getTimeValue(time, timeFormat);
+
+        // Know if a time interval contains the instant, an undefined bound being unbounded and an open bound excluding its instant
+        const isInSpell = (spell: ISpell) => (spell.start === undefined || (spell.startOpen ? GraphFormatConverter.getTimeValue(spell.start, timeFormat) < instant : GraphFormatConverter.getTimeValue(spell.start, timeFormat) <= instant)) &&
+            (spell.end === undefined || (spell.endOpen ? instant < GraphFormatConverter.getTimeValue(spell.end, timeFormat) : instant <= GraphFormatConverter.getTimeValue(spell.end, timeFormat)));
+
+        // An element is alive during its spells, or else during its interval, or else all the time
+        const isAlive = (element: any) => element.spells !== undefined && element.spells.length > 0 ? element.spells.some(isInSpell) : isInSpell(element);
+
+        // Get the element without its time intervals, the dynamic attributes taking the value they have at the instant
+        const getStaticElement = (element: any) => {
+            const staticElement: any = GraphFormatConverter.cloneValue(element);
+            const dynamicAttributes = element.dynamicAttributes;
+            delete staticElement.start;
+            delete staticElement.end;
+            delete staticElement.spells;
+            delete staticElement.dynamicAttributes;
+            if (staticElement.color !== undefined) {
+                staticElement.color = tinycolor2(staticElement.color);
+            }
+            if (dynamicAttributes !== undefined) {
+                Object.entries(dynamicAttributes).forEach(([key, values]: [string, any]) => {
+                    const dynamicValue = values.find(isInSpell);
+                    if (dynamicValue !== undefined) {
+                        staticElement.attributes[key] = dynamicValue.value;
+                    }
+                });
             }
+            return staticElement;
+        };
 
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: node.title,
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: GraphFormatConverter.jsonTypeToGRAPHML(node.type),
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: node.id
-            })
+        // The edges are only alive if their source and their target are
+        const nodes = this.nodes.filter(isAlive).map(getStaticElement);
+        const nodeIds = new Set(nodes.map((node) => `${node.id}`));
+        const edges = this.edges.filter((edge) => isAlive(edge) && nodeIds.has(`${edge.source}`) && nodeIds.has(`${edge.target}`)).map(getStaticElement);
+
+        const snapshot = new GraphFormatConverter<N, E>(nodes, edges, this.nodeAttributes.map((attribute) => ({...attribute})), this.edgeAttributes.map((attribute) => ({...attribute})), {
+            id: this.graphAttributes.id,
+            edgeType: this.graphAttributes.edgeType,
+            mode: "static"
         });
+        snapshot.generatedEdgeIds = new Set(this.generatedEdgeIds);
+        return snapshot;
+    }
 
-        this.edgeAttributes.forEach((edge) => {
+    /**
+     * Know if the graph is a multigraph, having parallel edges (linking the same nodes in the same direction, or the same nodes in any direction for the undirected edges)
+     * @return boolean Whether the graph has parallel edges
+     */
+    public isMultigraph = (): boolean => {
+        return this.getParallelEdgesGroups().some((group) => group.length > 1);
+    }
 
-            // We need to check if there is the following attributes in the edge attributes object
-            if (edge.id === "x") {
-                doesXNotExistForEdges = false
-            } else if (edge.id === "y") {
-                doesYNotExistForEdges = false
-            } else if (edge.id === "z") {
-                doesZNotExistForEdges = false
-            } else if (edge.id === "size") {
-                doesSizeNotExistForEdges = false
-            } else if (edge.id === "shape") {
-                doesShapeNotExistForEdges = false
-            } else if (edge.id === "weight") {
-                doesWeightNotExistForEdges = false
-            } else if (edge.id === "thickness") {
-                doesThicknessNotExistForEdges = false
-            } else if (edge.id === "label") {
-                doesLabelNotExistForEdges = false
-            } else if (edge.id === "edgelabel") {
-                doesEdgelabelNotExistForEdges = false
-            } else if (edge.id === "color" || edge.id === "r" || edge.id === "g" || edge.id === "b") {
-                doesColorNotExistForEdges = false
+    /**
+     * Get the graph with its parallel edges collapsed into one, for the consumers that do not support multigraphs
+     * @param options The options of the collapse, with the aggregation of the weights of the parallel edges ('sum' by default, 'max' or 'count')
+     * @return GraphFormatConverter The graph without parallel edges, each edge having the fields and the attributes of the first of its parallel edges, completed by the ones of the others
+     */
+    public collapseParallelEdges = (options: ICollapseOptions = {}): GraphFormatConverter<N, E> => {
+        const aggregation = options.weight !== undefined ? options.weight : "sum";
+
+        // The weight of an edge without weight is 1
+        const getWeight = (edge: any) => edge.weight !== undefined && !Number.isNaN(Number(edge.weight)) ? Number(edge.weight) : 1;
+
+        const edges = this.getParallelEdgesGroups().map((group) => {
+            const edge = GraphFormatConverter.cloneValue(group[0]);
+            group.slice(1).forEach((parallelEdge) => {
+                Object.keys(parallelEdge).filter((field) => edge[field] === undefined).forEach((field) => {
+                    edge[field] = GraphFormatConverter.cloneValue(parallelEdge[field]);
+                });
+                ["attributes", "dynamicAttributes"].filter((field) => parallelEdge[field] !== undefined).forEach((field) => {
+                    edge[field] = {...GraphFormatConverter.cloneValue(parallelEdge[field]), ...edge[field]};
+                });
+            });
+            if (group.length > 1 || edge.weight !== undefined) {
+                switch (aggregation) {
+                    case "max":
+                        edge.weight = Math.max(...group.map(getWeight));
+                        break;
+                    case "count":
+                        edge.weight = group.length;
+                        break;
+                    default:
+                        edge.weight = group.reduce((weight, parallelEdge) => weight + getWeight(parallelEdge), 0);
+                        break;
+                }
             }
+            return edge;
+        });
 
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: edge.title,
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: GraphFormatConverter.jsonTypeToGRAPHML(edge.type),
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: edge.id
-            })
+        const collapsedGraph = new GraphFormatConverter<N, E>(GraphFormatConverter.cloneValue(this.nodes), edges, this.nodeAttributes.map((attribute) => ({...attribute})), this.edgeAttributes.map((attribute) => ({...attribute})), GraphFormatConverter.cloneValue(this.graphAttributes));
+        collapsedGraph.generatedEdgeIds = new Set(this.generatedEdgeIds);
+        return collapsedGraph;
+    }
+
+    /**
+     * Get the edges of the graph grouped with their parallel edges, in the order of their first edge
+     */
+    private getParallelEdgesGroups = (): any[][] => {
+        const groups = new Map<string, any[]>();
+        this.edges.forEach((edge) => {
+            const ends = [`${edge.source}`, `${edge.target}`];
+            const link = JSON.stringify(this.isUndirectedEdge(edge) ? ["undirected", ...ends.sort()] : ["directed", ...ends]);
+            if (!groups.has(link)) {
+                groups.set(link, []);
+            }
+            (groups.get(link) as any[]).push(edge);
         });
+        return Array.from(groups.values());
+    }
 
-        // Now we check if the attribute exists in the dataset if it is not already set in the attributes object from below
-        doesColorNotExistForNodes = doesColorNotExistForNodes === undefined ? this.nodes.find((node) => node.color !== undefined) !== undefined : false;
-        doesColorNotExistForEdges = doesColorNotExistForEdges === undefined ? this.edges.find((edge) => edge.color !== undefined) !== undefined : false;
+    /**
+     * Know if an element has an id
+     * @param element The element
+     */
+    private static hasId = (element: any): boolean => {
+        return element.id !== undefined && element.id !== null && `${element.id}` !== "";
+    }
 
-        doesLabelNotExistForNodes = doesLabelNotExistForNodes === undefined ? this.nodes.find((node) => node.label !== undefined) !== undefined : false;
-        doesLabelNotExistForEdges = doesLabelNotExistForEdges === undefined ? this.edges.find((edge) => edge.label !== undefined) !== undefined : false;
-        doesEdgelabelNotExistForEdges = doesEdgelabelNotExistForEdges === undefined ? this.edges.find((edge) => edge.edgelabel !== undefined) !== undefined : false;
+    /**
+     * Get the id of an edge without id, from its position among the edges, that no other edge has
+     * @param index The position of the edge among the edges
+     * @param edgeIds The ids of the other edges
+     */
+    private static getGeneratedEdgeId = (index: number, edgeIds: Set<string>): string => {
+        let id = `e${index}`;
+        let suffix = 0;
+        while (edgeIds.has(id)) {
+            suffix++;
+            id = `e${index}_${suffix}`;
+        }
+        return id;
+    }
 
-        doesSizeNotExistForNodes = doesSizeNotExistForNodes === undefined ? this.nodes.find((node) => node.size !== undefined) !== undefined : false;
-        doesSizeNotExistForEdges = doesSizeNotExistForEdges === undefined ? this.edges.find((edge) => edge.size !== undefined) !== undefined : false;
+    /**
+     * Copy a value, the arrays and the plain objects being copied deeply and the other objects (the colors...) being kept as they are
+     * @param value The value
+     */
+    private static cloneValue = (value: any): any => {
+        if (Array.isArray(value)) {
+            return value.map(GraphFormatConverter.cloneValue);
+        }
+        if (value !== null && typeof value === "object" && [Object.prototype, null].includes(Object.getPrototypeOf(value))) {
+            const clonedValue: any = {};
+            Object.keys(value).forEach((key) => {
+                clonedValue[key] = GraphFormatConverter.cloneValue(value[key]);
+            });
+            return clonedValue;
+        }
+        return value;
+    }
 
-        doesShapeNotExistForNodes = doesShapeNotExistForNodes === undefined ? this.nodes.find((node) => node.shape !== undefined) !== undefined : false;
-        doesShapeNotExistForEdges = doesShapeNotExistForEdges === undefined ? this.edges.find((edge) => edge.shape !== undefined) !== undefined : false;
+    /**
+     * Get the numeric value of a time, the dates being converted to timestamps
+     * @param time The time
+     * @param timeFormat The time format of the graph
+     */
+    private static getTimeValue = (time: string | number | Date, timeFormat?: TimeFormat): number => {
+        if (time instanceof Date) {
+            return time.getTime();
+        }
+        if (timeFormat === "date" || timeFormat === "dateTime") {
+            return typeof time === "number" ? time : Date.parse(time);
+        }
 
-        doesWeightNotExistForEdges = doesWeightNotExistForEdges === undefined ? this.edges.find((edge) => edge.weight !== undefined) !== undefined : false;
-        doesThicknessNotExistForEdges = doesThicknessNotExistForEdges === undefined ? this.edges.find((edge) => edge.thickness !== undefined) !== undefined : false;
+        // Without a date time format, a string that is not a number can still be a date
+        const value = Number(time);
+        return Number.isNaN(value) ? Date.parse(`${time}`) : value;
+    }
 
-        doesXNotExistForNodes = doesXNotExistForNodes === undefined ? this.nodes.find((node) => node.x !== undefined) !== undefined : false;
-        doesYNotExistForNodes = doesYNotExistForNodes === undefined ? this.nodes.find((node) => node.y !== undefined) !== undefined : false;
-        doesZNotExistForNodes = doesZNotExistForNodes === undefined ? this.nodes.find((node) => node.z !== undefined) !== undefined : false;
+    /**
+     * Get an element without its time intervals for the formats that do not know them, each dynamic attribute taking its first value
+     * (unless the element has a static value for it)
+     * @param element The element
+     */
+    private static getElementWithoutTimes = (element: any): any => {
+        const staticElement: any = {...element};
+        const dynamicAttributes = element.dynamicAttributes;
+        delete staticElement.start;
+        delete staticElement.end;
+        delete staticElement.spells;
+        delete staticElement.dynamicAttributes;
+        if (dynamicAttributes !== undefined) {
+            staticElement.attributes = {...staticElement.attributes};
+            Object.entries(dynamicAttributes).forEach(([key, values]: [string, any]) => {
+                const firstValue = values.slice().sort((value: ISpell, otherValue: ISpell) => (value.start !== undefined ? GraphFormatConverter.getTimeValue(value.start) : -Infinity) - (otherValue.start !== undefined ? GraphFormatConverter.getTimeValue(otherValue.start) : -Infinity))[0];
+                if (firstValue !== undefined && staticElement.attributes[key] === undefined) {
+                    staticElement.attributes[key] = firstValue.value;
+                }
+            });
+        }
+        return staticElement;
+    }
 
-        doesXNotExistForEdges = doesXNotExistForEdges === undefined ? this.edges.find((edge) => edge.x !== undefined) !== undefined : false;
-        doesYNotExistForEdges = doesYNotExistForEdges === undefined ? this.edges.find((edge) => edge.y !== undefined) !== undefined : false;
-        doesZNotExistForEdges = doesZNotExistForEdges === undefined ? this.edges.find((edge) => edge.z !== undefined) !== undefined : false;
+    /**
+     * Get the output of a writer, with the warnings about what was lost or transformed if they are asked for
+     * @param format The format of the output
+     * @param options The options of the writer
+     * @param write The function writing the output
+     * @return The output, or the output with the warnings
+     */
+    private getWriterResult = <T, O extends IWriterOptions>(format: GraphFormat, options: O | undefined, write: () => T): WriterResult<T, O> => {
 
-        // If it does not exist we add it to the attributes manually
-        if (doesXNotExistForNodes) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'x',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'x'
-            })
+        // The output is a copy, that can be changed without changing the graph
+        const warnings = options !== undefined && options.report ? this.getConversionWarnings(format) : undefined;
+        const output = GraphFormatConverter.cloneValue(write());
+
+        // The XML outputs can be checked against the structural rules of their format
+        if (options !== undefined && (options as IXmlWriterOptions).checkStructure && (format === "gexf" || format === "graphml")) {
+            const issues = GraphFormatConverter.getSchemaIssues(`${output}`, format);
+            if (issues.length > 0) {
+                throw new GraphValidationError(`The ${format === "gexf" ? "GEXF" : "Graphml"} output breaks the structural rules of its format: ${issues[0].message}${issues.length > 1 ? ` (and ${issues.length - 1} other issues)` : ""}`);
+            }
         }
-        if (doesYNotExistForNodes) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'y',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'y'
-            })
+
+        return (warnings !== undefined ? {output, warnings} : output) as WriterResult<T, O>;
+    }
+
+    /**
+     * Get the warnings about what is lost or transformed when the graph is written in a format
+     * @param format The format the graph is written in
+     * @return IConversionWarning[] The warnings
+     */
+    private getConversionWarnings = (format: GraphFormat): IConversionWarning[] => {
+        const warnings: IConversionWarning[] = [];
+
+        // The only fields written by the formats that do not write every field, the other ones being dropped
+        const writtenFields: { [format: string]: { node: string[], edge: string[] } } = {
+            pajek: {node: ["id", "x", "y", "z"], edge: ["source", "target", "weight", "label", "undirected"]},
+            csv: {node: ["id", "label", "x", "y", "z", "size", "color", "attributes"], edge: ["id", "source", "target", "label", "weight", "color", "undirected", "attributes"]}
+        };
+
+        // The 'mutual' edges are only known by GEXF (and DOT, with edges going both ways)
+        if (this.graphAttributes.edgeType === "mutual" && !["json", "gexf", "dot"].includes(format)) {
+            warnings.push({elementType: "graph", elementId: this.graphAttributes.id, field: "edgeType", message: `The 'mutual' edges are written as ${["pajek", "csv"].includes(format) ? "undirected" : "directed"} edges`});
         }
-        if (doesZNotExistForNodes) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'z',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'z'
-            })
+
+        // The metadata of the graph are only written by Graphml (and the JSON formats keeping the graph attributes)
+        if (this.graphAttributes.metadata !== undefined && Object.keys(this.graphAttributes.metadata).length > 0 && !["json", "graphml", "cytoscape"].includes(format)) {
+            warnings.push({elementType: "graph", elementId: this.graphAttributes.id, field: "metadata", message: "The metadata of the graph are dropped"});
         }
 
-        if (doesXNotExistForEdges) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'x',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'x'
-            })
+        // The types of the attributes a format does not have are written as the closest one
+        const getWrittenType = (type: AttributeType): AttributeType => format === "gexf" ? GraphFormatConverter.gexfTypeToJSON(GraphFormatConverter.jsonTypeToGEXF(type)) : GraphFormatConverter.graphmlTypeToJSON(GraphFormatConverter.jsonTypeToGRAPHML(type));
+        if (format === "gexf" || format === "graphml") {
+            [{elementType: "node" as const, attributes: this.nodeAttributes}, {elementType: "edge" as const, attributes: this.edgeAttributes}].forEach(({elementType, attributes}) => {
+                attributes.forEach((attribute) => {
+                    const writtenType = getWrittenType(attribute.type);
+                    if (attribute.type !== "number" && writtenType !== attribute.type) {
+                        warnings.push({elementType, elementId: attribute.id, field: attribute.title, message: `The type '${attribute.type}' of the attribute is written as '${writtenType}'`});
+                    }
+                });
+            });
         }
-        if (doesYNotExistForEdges) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'y',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'y'
-            })
+
+        [{elementType: "node" as const, elements: this.nodes}, {elementType: "edge" as const, elements: this.edges}].forEach(({elementType, elements}) => {
+
+            // The elements sharing an id are merged when the output is read
+            const counts = new Map<string, number>();
+            elements.forEach((element) => {
+                if (element.id !== undefined) {
+                    counts.set(`${element.id}`, (counts.has(`${element.id}`) ? counts.get(`${element.id}`) as number : 0) + 1);
+                }
+            });
+            counts.forEach((count, id) => {
+                if (count > 1) {
+                    warnings.push({elementType, elementId: id, field: "id", message: `The id is shared by ${count} ${elementType}s, which are merged when the output is read`});
+                }
+            });
+
+            elements.forEach((element) => {
+
+                // The formats that do not write every field drop the other ones
+                if (writtenFields[format] !== undefined) {
+                    Object.keys(element).filter((field) => element[field] !== undefined && !writtenFields[format][elementType].includes(field) && !(field === "id" && elementType === "edge" && this.generatedEdgeIds.has(`${element.id}`))).forEach((field) => {
+                        if (field === "attributes") {
+                            Object.keys(element.attributes).forEach((attribute) => warnings.push({elementType, elementId: element.id, field: attribute, message: "The attribute is dropped"}));
+                        } else {
+                            warnings.push({elementType, elementId: element.id, field, message: "The field is dropped"});
+                        }
+                    });
+                    return;
+                }
+
+                // The time intervals are only known by GEXF (and the JSON formats writing them as they are), the dynamic attributes taking their first value
+                if (!["json", "gexf", "nodelink", "cytoscape", "jgf"].includes(format)) {
+                    ["start", "end", "spells"].filter((field) => element[field] !== undefined).forEach((field) => {
+                        warnings.push({elementType, elementId: element.id, field, message: "The time intervals are dropped"});
+                    });
+                    Object.keys(element.dynamicAttributes !== undefined ? element.dynamicAttributes : {}).forEach((attribute) => {
+                        warnings.push({elementType, elementId: element.id, field: attribute, message: "The dynamic attribute is written with its first value"});
+                    });
+                }
+
+                // The parent of a node is only known by the formats having compound nodes
+                if (element.parent !== undefined && !["json", "graphology", "gexf", "graphml", "cytoscape"].includes(format)) {
+                    warnings.push({elementType, elementId: element.id, field: "parent", message: "The parent of the node is written as a plain attribute"});
+                }
+
+                // The type of a GEXF edge is its direction in Graphml, the 'mutual' edges being directed, and a plain attribute in the formats that are not JSON
+                if (elementType === "edge" && ["directed", "undirected", "mutual"].includes(element.type)) {
+                    if (format === "graphml" && element.type === "mutual" && element.undirected === undefined) {
+                        warnings.push({elementType, elementId: element.id, field: "type", message: "The 'mutual' edge is written as a directed edge"});
+                    } else if (["graphology", "gml", "dot", "graphson", "cypher"].includes(format)) {
+                        warnings.push({elementType, elementId: element.id, field: "type", message: "The type of the edge is written as a plain attribute"});
+                    }
+                }
+            });
+        });
+
+        return warnings;
+    }
+
+    /**
+     * Add a node to the graph, the attributes of its values that are not declared being declared with the type guessed from their value
+     * and the declared attributes it does not have taking their default value (a value not matching the type of its declared attribute throwing a 'GraphValidationError')
+     * @param node The node, its attributes being known by their id or their title
+     * @return INode<N> A copy of the node added to the graph
+     */
+    public addNode = (node: Omit<INode<N>, "attributes"> & { attributes?: Partial<N> }): INode<N> => {
+        if (node === null || typeof node !== "object" || node.id === undefined || node.id === null || `${node.id}` === "") {
+            throw new GraphValidationError("The node has no id");
         }
-        if (doesZNotExistForEdges) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'z',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'z'
-            })
+        if (this.findNode(node.id) !== undefined) {
+            throw new GraphValidationError(`The node '${node.id}' is already in the graph`);
+        }
+        if (node.parent !== undefined && this.findNode(node.parent) === undefined) {
+            throw new GraphValidationError(`The parent '${node.parent}' of the node '${node.id}' is not in the graph`);
         }
 
-        if (doesLabelNotExistForNodes) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'label',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'string',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'label'
-            })
+        const addedNode = this.getDeclaredElement("node", node);
+        GraphFormatConverter.applyAttributesDefaultValue([addedNode], this.nodeAttributes);
+        this.nodes.push(addedNode);
+        return GraphFormatConverter.cloneValue(addedNode);
+    }
+
+    /**
+     * Add an edge to the graph, the attributes of its values that are not declared being declared with the type guessed from their value
+     * and the declared attributes it does not have taking their default value (a value not matching the type of its declared attribute throwing a 'GraphValidationError')
+     * @param edge The edge linking nodes of the graph, its attributes being known by their id or their title
+     * @return IEdge<E> A copy of the edge added to the graph
+     */
+    public addEdge = (edge: Omit<IEdge<E>, "attributes"> & { attributes?: Partial<E> }): IEdge<E> => {
+        if (edge === null || typeof edge !== "object") {
+            throw new GraphValidationError("The edge is not an object");
         }
-        if (doesLabelNotExistForEdges) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'label',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'string',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'label'
-            })
+        (["source", "target"] as const).forEach((field) => {
+            if (edge[field] === undefined || this.findNode(edge[field]) === undefined) {
+                throw new GraphValidationError(`The ${field} '${edge[field]}' of the edge is not in the graph`);
+            }
+        });
+        if (GraphFormatConverter.hasId(edge) && this.edges.some((currentEdge) => `${currentEdge.id}` === `${edge.id}`)) {
+            throw new GraphValidationError(`The edge '${edge.id}' is already in the graph`);
         }
-        if (doesEdgelabelNotExistForEdges) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'edgelabel',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'string',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'edgelabel'
-            })
+
+        const addedEdge = this.getDeclaredElement("edge", edge);
+        GraphFormatConverter.applyAttributesDefaultValue([addedEdge], this.edgeAttributes);
+        if (!GraphFormatConverter.hasId(addedEdge)) {
+            addedEdge.id = GraphFormatConverter.getGeneratedEdgeId(this.edges.length, new Set<string>(this.edges.map((currentEdge) => `${currentEdge.id}`)));
+            this.generatedEdgeIds.add(addedEdge.id);
         }
+        this.edges.push(addedEdge);
+        return GraphFormatConverter.cloneValue(addedEdge);
+    }
 
-        if (doesSizeNotExistForNodes) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'size',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'size'
-            })
+    /**
+     * Remove a node from the graph with its edges, its children nodes being no longer nested in it
+     * @param id The id of the node
+     * @return boolean Whether the node was in the graph
+     */
+    public removeNode = (id: string | number): boolean => {
+        const node = this.findNode(id);
+        if (node === undefined) {
+            return false;
         }
-        if (doesShapeNotExistForNodes) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'shape',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'string',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'shape'
-            })
+
+        this.nodes = this.nodes.filter((currentNode) => currentNode !== node);
+        this.edges = this.edges.filter((edge) => `${edge.source}` !== `${id}` && `${edge.target}` !== `${id}`);
+        this.nodes.filter((currentNode) => currentNode.parent !== undefined && `${currentNode.parent}` === `${id}`).forEach((currentNode) => {
+            delete currentNode.parent;
+        });
+        return true;
+    }
+
+    /**
+     * Update the values of the attributes of a node, the attributes that are not declared being declared with the type guessed from their value
+     * (a value not matching the type of its declared attribute throwing a 'GraphValidationError', the node being left unchanged)
+     * @param id The id of the node
+     * @param attributes The values of the attributes, known by their id or their title, an undefined value removing the value of the node
+     * @return INode<N> A copy of the updated node
+     */
+    public updateNodeAttributes = (id: string | number, attributes: Partial<N>): INode<N> => {
+        const node = this.findNode(id);
+        if (node === undefined) {
+            throw new GraphValidationError(`The node '${id}' is not in the graph`);
         }
 
-        if (doesSizeNotExistForEdges) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'size',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'size'
-            })
+        // The values are set on a copy of the node, that replaces its values once they match the type of their attribute
+        const updatedNode = GraphFormatConverter.cloneValue(node);
+        if (updatedNode.attributes === undefined) {
+            updatedNode.attributes = {};
         }
-        if (doesShapeNotExistForEdges) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'shape',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'string',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'shape'
-            })
+        const updatedAttributes = Object.entries(attributes).map(([key, value]) => {
+            const attributeId = GraphFormatConverter.getAttributeId(key, this.nodeAttributes);
+            if (value === undefined) {
+                delete updatedNode.attributes[attributeId];
+            } else {
+                updatedNode.attributes[attributeId] = value;
+            }
+            return `${attributeId}`;
+        });
+        this.declareAttributes("node", [updatedNode], updatedAttributes);
+        node.attributes = updatedNode.attributes;
+        return GraphFormatConverter.cloneValue(node);
+    }
+
+    /**
+     * Declare an attribute of the nodes or the edges, or replace the declaration having its id, the values of the elements being coerced to its type
+     * and the elements that do not have a value taking its default value
+     * @param elementType Whether the attribute is an attribute of the nodes or of the edges
+     * @param attribute The attribute
+     * @return ICoercionError[] The values that could not be coerced to the type of the attribute
+     */
+    public setAttributeDefinition = (elementType: 'node' | 'edge', attribute: IAttribute): ICoercionError[] => {
+        const attributes = elementType === "node" ? this.nodeAttributes : this.edgeAttributes;
+        const index = attributes.findIndex((currentAttribute) => `${currentAttribute.id}` === `${attribute.id}`);
+        if (index !== -1) {
+            attributes[index] = attribute;
+        } else {
+            attributes.push(attribute);
         }
-        if (doesWeightNotExistForEdges) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'weight',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'weight'
-            })
+
+        // The elements that do not have a value of the attribute take its default value
+        const elements = elementType === "node" ? this.nodes : this.edges;
+        const errors = GraphFormatConverter.coerceAttributesValues(elements, [attribute], elementType);
+        GraphFormatConverter.applyAttributesDefaultValue(elements, [attribute]);
+        return errors;
+    }
+
+    /**
+     * Merge an attribute of the nodes or the edges into another one, the values being moved to the elements that do not have a value of the other attribute,
+     * coerced to its type, and the merged attribute being no longer declared
+     * @param elementType Whether the attributes are attributes of the nodes or of the edges
+     * @param attributeIdOrTitle The id or the title of the merged attribute
+     * @param intoAttributeIdOrTitle The id or the title of the attribute the merged attribute is merged into
+     * @return ICoercionError[] The values that could not be coerced to the type of the attribute
+     */
+    public mergeAttributes = (elementType: 'node' | 'edge', attributeIdOrTitle: string, intoAttributeIdOrTitle: string): ICoercionError[] => {
+        const attributes = elementType === "node" ? this.nodeAttributes : this.edgeAttributes;
+        const attribute = attributes.find((currentAttribute) => `${currentAttribute.id}` === `${GraphFormatConverter.getAttributeId(attributeIdOrTitle, attributes)}`);
+        const intoAttribute = attributes.find((currentAttribute) => `${currentAttribute.id}` === `${GraphFormatConverter.getAttributeId(intoAttributeIdOrTitle, attributes)}`);
+        if (attribute === undefined || intoAttribute === undefined) {
+            throw new GraphValidationError(`The ${elementType} attribute '${attribute === undefined ? attributeIdOrTitle : intoAttributeIdOrTitle}' is not declared`);
         }
-        if (doesThicknessNotExistForEdges) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'thickness',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'float',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'thickness'
-            })
+        if (attribute === intoAttribute) {
+            return [];
         }
 
-        // We need to set the r, g, and b values for the nodes and the edges
-        if (doesColorNotExistForNodes) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'r',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'int',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'r'
-            }, {
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'g',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'int',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'g'
-            }, {
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'b',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'int',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "node",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'b'
+        const elements = elementType === "node" ? this.nodes : this.edges;
+        elements.forEach((element) => {
+            ["attributes", "dynamicAttributes"].filter((field) => element[field] !== undefined && element[field][attribute.id] !== undefined).forEach((field) => {
+                if (element[field][intoAttribute.id] === undefined) {
+                    element[field][intoAttribute.id] = element[field][attribute.id];
+                }
+                delete element[field][attribute.id];
             });
+        });
+        attributes.splice(attributes.indexOf(attribute), 1);
+
+        return GraphFormatConverter.coerceAttributesValues(elements, [intoAttribute], elementType);
+    }
+
+    /**
+     * Find a node of the graph from its id
+     * @param id The id of the node
+     */
+    private findNode = (id: any): any => {
+        return this.nodes.find((node) => `${node.id}` === `${id}`);
+    }
+
+    /**
+     * Get an element to add to the graph, the attributes of its values being known by their id and declared
+     * @param elementType Whether the element is a node or an edge
+     * @param element The element
+     */
+    private getDeclaredElement = (elementType: 'node' | 'edge', element: any): any => {
+        const attributes = elementType === "node" ? this.nodeAttributes : this.edgeAttributes;
+        const declaredElement = {...element, attributes: {}};
+        Object.entries(element.attributes !== undefined ? element.attributes : {}).forEach(([key, value]) => {
+            declaredElement.attributes[GraphFormatConverter.getAttributeId(key, attributes)] = value;
+        });
+        this.declareAttributes(elementType, [declaredElement]);
+        return declaredElement;
+    }
+
+    /**
+     * Declare the attributes of the values of elements that are not declared, with the type guessed from their values, the values being coerced to the type of their attribute
+     * (a 'GraphValidationError' being thrown, before anything is declared, when a value cannot be coerced to the type of its declared attribute)
+     * @param elementType Whether the elements are nodes or edges
+     * @param elements The elements
+     * @param attributeIds The ids of the attributes whose values are coerced, every attribute by default
+     */
+    private declareAttributes = (elementType: 'node' | 'edge', elements: any[], attributeIds?: string[]) => {
+        const attributes = elementType === "node" ? this.nodeAttributes : this.edgeAttributes;
+        const isDeclared = (key: string) => attributes.some((attribute) => `${attribute.id}` === key);
+        const isCoerced = (attribute: IAttribute) => attributeIds === undefined || attributeIds.includes(`${attribute.id}`);
+
+        // The values of the declared attributes must match their type
+        const errors = GraphFormatConverter.coerceAttributesValues(elements, attributes.filter(isCoerced), elementType);
+        if (errors.length > 0) {
+            throw new GraphValidationError(`The value '${errors[0].value}' of the ${elementType} '${errors[0].elementId}' does not match the type '${errors[0].type}' of the attribute '${errors[0].attributeId}'`);
         }
-        if (doesColorNotExistForEdges) {
-            keys.push({
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'r',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'int',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'r'
-            }, {
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'g',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'int',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'g'
-            }, {
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.name`]: 'b',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}attr.type`]: 'int',
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}for`]: "edge",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: 'b'
+
+        // The values of the attributes and of the dynamic attributes are used to guess the type of the attributes
+        const attributesObject: any = {};
+        elements.forEach((element) => {
+            Object.entries(element.attributes !== undefined ? element.attributes : {}).filter(([key, value]) => !isDeclared(key) && value !== undefined && value !== null).forEach(([key, value]) => {
+                GraphFormatConverter.guessJSONAttribute(key, value, attributesObject);
+            });
+            Object.entries(element.dynamicAttributes !== undefined ? element.dynamicAttributes : {}).filter(([key]) => !isDeclared(key)).forEach(([key, values]: [string, any]) => {
+                values.forEach((dynamicValue: IDynamicAttributeValue) => GraphFormatConverter.guessJSONAttribute(key, dynamicValue.value, attributesObject));
+            });
+        });
+        const guessedAttributes = GraphFormatConverter.getAttributesFromGuesser(attributesObject);
+        attributes.push(...guessedAttributes);
+        GraphFormatConverter.coerceAttributesValues(elements, guessedAttributes.filter(isCoerced), elementType);
+    }
+
+    /**
+     * Validate the graph, the edges linking unknown nodes, the ids shared by several elements, the values not matching the type of their attribute,
+     * the attributes that are not declared and the unsupported edge types being reported
+     * @param options The options of the validation, to also check the output of the XML writers against the structural rules of their format
+     * @return IValidationIssue[] The issues found
+     */
+    public validate = (options: IValidationOptions = {}): IValidationIssue[] => {
+        const issues: IValidationIssue[] = [];
+        const edgeTypes = ["directed", "undirected", "mutual"];
+
+        if (!edgeTypes.includes(this.graphAttributes.edgeType)) {
+            issues.push({elementType: "graph", elementId: this.graphAttributes.id, field: "edgeType", message: `The edge type '${this.graphAttributes.edgeType}' is not supported`});
+        }
+
+        const nodeIds = new Set<string>(this.nodes.map((node) => `${node.id}`));
+        [{elementType: "node" as const, elements: this.nodes, attributes: this.nodeAttributes}, {elementType: "edge" as const, elements: this.edges, attributes: this.edgeAttributes}].forEach(({elementType, elements, attributes}) => {
+
+            // The ids are unique among the elements of a type
+            const counts = new Map<string, number>();
+            elements.forEach((element) => {
+                if (element.id !== undefined && element.id !== null) {
+                    counts.set(`${element.id}`, (counts.has(`${element.id}`) ? counts.get(`${element.id}`) as number : 0) + 1);
+                }
+            });
+            counts.forEach((count, id) => {
+                if (count > 1) {
+                    issues.push({elementType, elementId: id, field: "id", message: `The id is shared by ${count} ${elementType}s`});
+                }
+            });
+
+            elements.forEach((element) => {
+
+                // The edges link known nodes, with a supported type
+                if (elementType === "edge") {
+                    ["source", "target"].filter((field) => !nodeIds.has(`${element[field]}`)).forEach((field) => {
+                        issues.push({elementType, elementId: element.id, field, message: `The ${field} '${element[field]}' is not a node of the graph`});
+                    });
+                    if (element.type !== undefined && !edgeTypes.includes(element.type)) {
+                        issues.push({elementType, elementId: element.id, field: "type", message: `The edge type '${element.type}' is not supported`});
+                    }
+                    if (element.undirected !== undefined && typeof element.undirected !== "boolean") {
+                        issues.push({elementType, elementId: element.id, field: "undirected", message: `The value '${element.undirected}' is not a boolean`});
+                    }
+                }
+
+                // The values of the attributes (and of the dynamic attributes) are declared and match the type of their attribute
+                const values: [string, any][] = Object.entries(element.attributes !== undefined ? element.attributes : {});
+                Object.entries(element.dynamicAttributes !== undefined ? element.dynamicAttributes : {}).forEach(([key, dynamicValues]: [string, any]) => {
+                    dynamicValues.forEach((dynamicValue: IDynamicAttributeValue) => values.push([key, dynamicValue.value]));
+                });
+                values.forEach(([key, value]) => {
+                    const attribute = attributes.find((currentAttribute) => `${currentAttribute.id}` === key);
+                    if (attribute === undefined) {
+                        issues.push({elementType, elementId: element.id, field: key, message: `The attribute is not declared in the ${elementType} attributes`});
+                    } else if (value !== undefined && value !== null && !GraphFormatConverter.isValueOfType(value, attribute.type)) {
+                        issues.push({elementType, elementId: element.id, field: key, message: `The value '${GraphFormatConverter.jsonValueToXml(value)}' does not match the type '${attribute.type}' of the attribute`});
+                    }
+                });
             });
+        });
+
+        // The output of the XML writers is checked against the structural rules of its format
+        (options.structures !== undefined ? options.structures : []).forEach((format) => {
+            issues.push(...GraphFormatConverter.getSchemaIssues(format === "gexf" ? this.toGexf() : this.toGraphml(), format));
+        });
+
+        return issues;
+    }
+
+    /**
+     * Check that a value matches a type, the values that would have to be coerced (a number written as a string...) not matching it
+     * @param value The value
+     * @param type The type
+     */
+    private static isValueOfType = (value: any, type: AttributeType): boolean => {
+        const coercion = GraphFormatConverter.coerceValue(value, type);
+
+        // The strings, the URIs, the characters and the dates can be written from any value
+        if (["string", "anyURI", "char", "date"].includes(type)) {
+            return coercion.coerced;
+        }
+        return coercion.coerced && JSON.stringify(coercion.value) === JSON.stringify(value);
+    }
+
+    /**
+     * Get the structural rules of the GEXF 1.3 or Graphml format (a hand-written subset of their XSD) broken by an XML string
+     * @param xml The XML string
+     * @param format The format of the XML string
+     * @return IValidationIssue[] The issues found
+     */
+    private static getSchemaIssues = (xml: string, format: 'gexf' | 'graphml'): IValidationIssue[] => {
+        const issues: IValidationIssue[] = [];
+        const schema = format === "gexf" ? GraphFormatConverter.gexfSchema : GraphFormatConverter.graphmlSchema;
+        const prefix = GraphFormatConverter.schemaParserOptions.attributeNamePrefix;
+        const getLocalName = (name: string) => name.replace(/^[\w.-]+:/, "");
+
+        // The string must be well-formed
+        const validation = XMLValidator.validate(xml, {allowBooleanAttributes: true});
+        if (validation !== true) {
+            return [{elementType: "graph", elementId: undefined, field: format, format, message: `The XML string is not well-formed: ${validation.err.msg} (line ${validation.err.line}, column ${validation.err.col})`}];
+        }
+        const parsedResult = new XMLParser(GraphFormatConverter.schemaParserOptions).parse(xml);
+        const rootName = Object.keys(parsedResult).find((name) => name !== "?xml");
+        if (rootName === undefined || getLocalName(rootName) !== format) {
+            return [{elementType: "graph", elementId: undefined, field: format, format, message: `The root element is <${rootName}> instead of <${format}>`}];
         }
 
-        // The root element
-        const root = {
-            "?xml": {
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}version`]: "1.0",
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}encoding`]: "UTF-8",
-            },
-            "graphml": {
-                key: keys,
-                "graph": {
-                    node: nodes,
-                    edge: edges,
-                    // If the edgeType is mutual we need to treat it as 'directed'
-                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}edgedefault`]: this.graphAttributes.edgeType === "mutual" ? "directed" : this.graphAttributes.edgeType,
-                    [`${GraphFormatConverter.parserOptions.attributeNamePrefix}id`]: this.graphAttributes.id
-                },
-                [`${GraphFormatConverter.parserOptions.attributeNamePrefix}xmlns`]: "http://graphml.graphdrawing.org/xmlns",
+        // What is declared and referenced, checked once every element is known
+        const declaredTypes: { [elementClass: string]: { [id: string]: string } } = {};
+        const values: { elementClass: string, key: string, value: string, issue: Omit<IValidationIssue, "message"> }[] = [];
+        const nodeIds = new Map<string, number>();
+        const edgeIds = new Map<string, number>();
+        const edgeEnds: { source: string, target: string, issue: Omit<IValidationIssue, "message"> }[] = [];
+
+        // Check an element against its rules, the issues being about the closest graph, node or edge containing it
+        const checkElement = (name: string, element: any, parentName: string, owner: { elementType: 'graph' | 'node' | 'edge', elementId: any }, elementClass: string) => {
+            const localName = getLocalName(name);
+            const rule = schema[`${parentName}/${localName}`] !== undefined ? schema[`${parentName}/${localName}`] : schema[localName];
+            const elementObject = typeof element === "object" && element !== null ? element : {};
+            const getAttribute = (attribute: string) => elementObject[`${prefix}${attribute}`] !== undefined ? `${elementObject[`${prefix}${attribute}`]}` : undefined;
+
+            // The node and the edge elements own the issues of their content
+            let currentOwner = owner;
+            if (localName === "node" || localName === "edge") {
+                currentOwner = {elementType: localName, elementId: getAttribute("id")};
+            } else if (localName === "graph" && owner.elementType === "graph") {
+                currentOwner = {elementType: "graph", elementId: getAttribute("id")};
             }
-        }
+            const report = (field: string, message: string) => issues.push({...currentOwner, field, format, message});
 
-        // Build the document
-        const builder = new XMLBuilder(GraphFormatConverter.builderOptions);
+            if (rule === undefined) {
+                report(localName, `The element <${localName}> is not allowed in <${parentName}>`);
+                return;
+            }
 
-        // Return the XML built and "fix" the <?xml ... /></?xml> to <?xml ... ?> and replace the backspace chars
-        return builder.build(root).replace(/><\/\?xml>/gim, "?>").replace(new RegExp("\b", "gim"), "").replace(/&/gim, "&amp;");
+            // The attributes are known, with an allowed value
+            Object.keys(elementObject).filter((key) => key.startsWith(prefix)).forEach((key) => {
+                const attribute = key.slice(prefix.length);
+                const value = `${elementObject[key]}`;
+                const allowed = rule.attributes[attribute];
+                if (attribute.startsWith("xmlns") || attribute.startsWith("xsi:")) {
+                    return;
+                }
+                if (allowed === undefined) {
+                    report(attribute, `The attribute '${attribute}' is not allowed on <${localName}>`);
+                } else if (Array.isArray(allowed) ? !allowed.includes(value) : !GraphFormatConverter.isXmlValueOfType(value, allowed)) {
+                    report(attribute, `The value '${value}' of the attribute '${attribute}' of <${localName}> is not ${Array.isArray(allowed) ? `one of ${allowed.join(", ")}` : `a valid ${allowed}`}`);
+                }
+            });
+            (rule.requiredAttributes !== undefined ? rule.requiredAttributes : []).filter((attribute) => getAttribute(attribute) === undefined).forEach((attribute) => {
+                report(attribute, `The attribute '${attribute}' of <${localName}> is missing`);
+            });
+
+            // What is declared and referenced by the element
+            let currentClass = elementClass;
+            switch (localName) {
+                case "attributes":
+                    currentClass = `${getAttribute("class")}`;
+                    break;
+                case "attribute":
+                    declaredTypes[elementClass] = {...declaredTypes[elementClass], [`${getAttribute("id")}`]: `${getAttribute("type")}`};
+                    break;
+                case "key":
+                    declaredTypes[`${getAttribute("for") !== undefined ? getAttribute("for") : "all"}`] = {...declaredTypes[`${getAttribute("for") !== undefined ? getAttribute("for") : "all"}`], [`${getAttribute("id")}`]: `${getAttribute("attr.type") !== undefined ? getAttribute("attr.type") : "string"}`};
+                    break;
+                case "node":
+                    nodeIds.set(`${getAttribute("id")}`, (nodeIds.has(`${getAttribute("id")}`) ? nodeIds.get(`${getAttribute("id")}`) as number : 0) + 1);
+                    currentClass = "node";
+                    break;
+                case "edge":
+                    if (getAttribute("id") !== undefined) {
+                        edgeIds.set(`${getAttribute("id")}`, (edgeIds.has(`${getAttribute("id")}`) ? edgeIds.get(`${getAttribute("id")}`) as number : 0) + 1);
+                    }
+                    edgeEnds.push({source: `${getAttribute("source")}`, target: `${getAttribute("target")}`, issue: {...currentOwner, field: "source", format}});
+                    currentClass = "edge";
+                    break;
+                case "graph":
+                    currentClass = "graph";
+                    break;
+                case "attvalue":
+                    values.push({elementClass, key: `${getAttribute("for")}`, value: `${getAttribute("value")}`, issue: {...currentOwner, field: `${getAttribute("for")}`, format}});
+                    break;
+                case "data":
+                    values.push({elementClass, key: `${getAttribute("key")}`, value: `${elementObject["#text"] !== undefined ? elementObject["#text"] : (typeof element === "object" ? "" : element)}`, issue: {...currentOwner, field: `${getAttribute("key")}`, format}});
+                    break;
+            }
+
+            // The children are allowed, the required ones being there
+            Object.keys(elementObject).filter((key) => !key.startsWith(prefix) && key !== "#text").forEach((key) => {
+                if (!rule.children.includes(getLocalName(key))) {
+                    report(getLocalName(key), `The element <${getLocalName(key)}> is not allowed in <${localName}>`);
+                    return;
+                }
+                elementObject[key].forEach((child: any) => checkElement(key, child, localName, currentOwner, currentClass));
+            });
+            (rule.requiredChildren !== undefined ? rule.requiredChildren : []).filter((child) => !Object.keys(elementObject).some((key) => getLocalName(key) === child)).forEach((child) => {
+                report(child, `The element <${child}> is missing in <${localName}>`);
+            });
+        };
+        parsedResult[rootName].forEach((root: any) => checkElement(rootName, root, "", {elementType: "graph", elementId: undefined}, "graph"));
+
+        // The ids of the nodes and of the edges are unique and the edges link known nodes
+        nodeIds.forEach((count, id) => {
+            if (count > 1) {
+                issues.push({elementType: "node", elementId: id, field: "id", format, message: `The id is shared by ${count} <node> elements`});
+            }
+        });
+        edgeIds.forEach((count, id) => {
+            if (count > 1) {
+                issues.push({elementType: "edge", elementId: id, field: "id", format, message: `The id is shared by ${count} <edge> elements`});
+            }
+        });
+        edgeEnds.forEach(({source, target, issue}) => {
+            [{field: "source", id: source}, {field: "target", id: target}].filter(({id}) => !nodeIds.has(id)).forEach(({field, id}) => {
+                issues.push({...issue, field, message: `The ${field} '${id}' of the <edge> is not a <node>`});
+            });
+        });
+
+        // The values are of declared attributes, matching their type
+        values.forEach(({elementClass, key, value, issue}) => {
+            const types = {...declaredTypes.all, ...declaredTypes[elementClass]};
+            if (types[key] === undefined) {
+                issues.push({...issue, message: `The ${format === "gexf" ? "attribute" : "key"} '${key}' is not declared for the ${elementClass} elements`});
+            } else if (!GraphFormatConverter.isXmlValueOfType(value, GraphFormatConverter.xmlTypeToSchemaType(types[key]))) {
+                issues.push({...issue, message: `The value '${value}' does not match the type '${types[key]}' of the ${format === "gexf" ? "attribute" : "key"} '${key}'`});
+            }
+        });
+
+        return issues;
+    }
+
+    /**
+     * Get the type of the structural rules of a GEXF or Graphml attribute type, the types that are not checked being strings
+     * @param type The GEXF or Graphml attribute type
+     */
+    private static xmlTypeToSchemaType = (type: string): 'string' | 'integer' | 'double' | 'boolean' => {
+        switch (type) {
+            case "integer":
+            case "int":
+            case "long":
+            case "byte":
+            case "short":
+            case "biginteger":
+                return "integer";
+            case "double":
+            case "float":
+            case "bigdecimal":
+                return "double";
+            case "boolean":
+                return "boolean";
+            default:
+                return "string";
+        }
+    }
+
+    /**
+     * Check that a value written in an XML string matches a type of the structural rules
+     * @param value The value as it is written
+     * @param type The type of the structural rules
+     */
+    private static isXmlValueOfType = (value: string, type: 'string' | 'integer' | 'double' | 'boolean' | 'color' | 'opacity'): boolean => {
+        switch (type) {
+            case "integer":
+                return /^\s*[+-]?\d+\s*$/.test(value);
+            case "double":
+                return /^\s*([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|[+-]?INF|NaN)\s*$/.test(value);
+            case "boolean":
+                return ["true", "false", "1", "0"].includes(value.trim());
+            case "color":
+                return /^\s*\d+\s*$/.test(value) && Number(value) <= 255;
+            case "opacity":
+                return GraphFormatConverter.isXmlValueOfType(value, "double") && Number(value) >= 0 && Number(value) <= 1;
+            default:
+                return true;
+        }
     }
 
     /**
-     * Get the nodes of the graph on a JSON format
-     * @return any[] The nodes of the graph
+     * Get the nodes of the graph on a JSON format, as a copy that can be changed without changing the graph
+     * @return INode<N>[] The nodes of the graph
      */
-    public getNodes = (): any[] => {
-        return this.nodes;
+    public getNodes = (): INode<N>[] => {
+        return GraphFormatConverter.cloneValue(this.nodes);
     }
 
     /**
-     * Get the edges of the graph on a JSON format
-     * @return any[] The edges of the graph
+     * Get the edges of the graph on a JSON format, as a copy that can be changed without changing the graph
+     * @return IEdge<E>[] The edges of the graph
      */
-    public getEdges = (): any[] => {
-        return this.edges;
+    public getEdges = (): IEdge<E>[] => {
+        return GraphFormatConverter.cloneValue(this.edges);
     }
 
     /**
-     * Get the attributes of the graph on a JSON format
+     * Get the attributes of the graph on a JSON format, as a copy that can be changed without changing the graph
      * @return any[] The attributes of the graph
      */
     public getAttributes = (): IGraphAttribute => {
-        return this.graphAttributes;
+        return GraphFormatConverter.cloneValue(this.graphAttributes);
+    }
+
+    /**
+     * Get the elements that could not be read and have been skipped by a lenient reader
+     * @return IDiagnostic[] The diagnostics of the skipped elements
+     */
+    public getDiagnostics = (): IDiagnostic[] => {
+        return GraphFormatConverter.cloneValue(this.diagnostics);
+    }
+
+    /**
+     * Get the values of the attributes that could not be coerced to the type of their attribute while reading the graph
+     * @return ICoercionError[] The values that could not be coerced
+     */
+    public getCoercionErrors = (): ICoercionError[] => {
+        return GraphFormatConverter.cloneValue(this.coercionErrors);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Detect the format of graph data
+ */
+export const detectFormat = GraphFormatConverter.detectFormat;
@@ -1 +1,2 @@
-export * from "./GraphFormatConverter";
\ No newline at end of file
+export * from "./GraphFormatConverter";
+export * from "./GraphErrors";
@@ -1,4 +1,6 @@
-import {AttributeType, EdgeType, GraphMode} from "../Types";
+import {AttributeType, EdgeType, GraphFormat, GraphMode, TimeFormat} from "../Types";
+import {Attributes} from "graphology-types";
+import tinycolor2 from "tinycolor2";
 
 /**
  * An attribute's representation
@@ -19,6 +21,16 @@ export interface IAttribute {
      * The type of the attribute
      */
     type: AttributeType
+
+    /**
+     * The value of the attribute for the elements that do not have it
+     */
+    defaultValue?: any;
+
+    /**
+     * The possible values of the attribute (GEXF enumerations)
+     */
+    options?: string[];
 }
 
 /**
@@ -50,4 +62,539 @@ export interface IGraphAttribute {
      * The default mode
      */
     mode: GraphMode;
-}
\ No newline at end of file
+
+    /**
+     * The format of the time of a dynamic graph ('double' by default)
+     */
+    timeFormat?: TimeFormat;
+
+    /**
+     * The start of a dynamic graph
+     */
+    start?: string | number;
+
+    /**
+     * The end of a dynamic graph
+     */
+    end?: string | number;
+
+    /**
+     * The metadata of the graph, such as the graph-level data of a Graphml graph, by name
+     */
+    metadata?: { [name: string]: any };
+
+    /**
+     * The declarations of the metadata of the graph (such as the Graphml keys of the graph-level data), their title being the name of the metadata
+     */
+    metadataAttributes?: IAttribute[];
+}
+
+/**
+ * A time interval of a dynamic element, an undefined bound being unbounded
+ */
+export interface ISpell {
+
+    /**
+     * The start of the interval
+     */
+    start?: string | number;
+
+    /**
+     * The end of the interval
+     */
+    end?: string | number;
+
+    /**
+     * If the start of the interval is excluded from it (a GEXF 'startopen' bound)
+     */
+    startOpen?: boolean;
+
+    /**
+     * If the end of the interval is excluded from it (a GEXF 'endopen' bound)
+     */
+    endOpen?: boolean;
+}
+
+/**
+ * A value of a dynamic attribute during a time interval
+ */
+export interface IDynamicAttributeValue extends ISpell {
+
+    /**
+     * The value of the attribute
+     */
+    value: any;
+}
+
+/**
+ * The fields a node and an edge have in common
+ */
+interface IElement<A extends Attributes> {
+
+    /**
+     * The label of the element
+     */
+    label?: string;
+
+    /**
+     * The color of the element, as a CSS color or a tinycolor2 color
+     */
+    color?: string | tinycolor2.Instance;
+
+    /**
+     * The shape of the element
+     */
+    shape?: string;
+
+    /**
+     * The start of the life of a dynamic element
+     */
+    start?: string | number;
+
+    /**
+     * The end of the life of a dynamic element
+     */
+    end?: string | number;
+
+    /**
+     * The time intervals during which a dynamic element is alive
+     */
+    spells?: ISpell[];
+
+    /**
+     * The values of the attributes during their time intervals, by attribute id
+     */
+    dynamicAttributes?: { [attributeId: string]: IDynamicAttributeValue[] };
+
+    /**
+     * The values of the attributes, by attribute id
+     */
+    attributes: A;
+}
+
+/**
+ * A node's representation
+ */
+export interface INode<A extends Attributes = Attributes> extends IElement<A> {
+
+    /**
+     * The id of the node
+     */
+    id: string | number;
+
+    /**
+     * The x position of the node
+     */
+    x?: number;
+
+    /**
+     * The y position of the node
+     */
+    y?: number;
+
+    /**
+     * The z position of the node
+     */
+    z?: number;
+
+    /**
+     * The size of the node
+     */
+    size?: number;
+
+    /**
+     * The id of the node containing the node, in a hierarchical graph
+     */
+    parent?: string | number;
+}
+
+/**
+ * An edge's representation
+ */
+export interface IEdge<A extends Attributes = Attributes> extends IElement<A> {
+
+    /**
+     * The id of the edge
+     */
+    id?: string | number;
+
+    /**
+     * The id of the source node
+     */
+    source: string | number;
+
+    /**
+     * The id of the target node
+     */
+    target: string | number;
+
+    /**
+     * The weight of the edge
+     */
+    weight?: number;
+
+    /**
+     * The thickness of the edge
+     */
+    thickness?: number;
+
+    /**
+     * The type of the edge, when it is not the default edge type of the graph
+     */
+    type?: EdgeType;
+
+    /**
+     * Whether the edge is undirected in a directed graph
+     */
+    undirected?: boolean;
+}
+
+/**
+ * The format detected for a graph
+ */
+export interface IDetectedFormat {
+
+    /**
+     * The detected format (undefined if the format could not be detected)
+     */
+    format?: GraphFormat;
+
+    /**
+     * The confidence of the detection, between 0 and 1
+     */
+    confidence: number;
+
+    /**
+     * The reason of the detection
+     */
+    reason: string;
+}
+
+/**
+ * The options of the readers
+ */
+export interface IReaderOptions {
+
+    /**
+     * Whether the values of the attributes are kept as they are written (as strings in the XML formats) instead of being coerced to the type of their attribute (false by default)
+     */
+    rawValues?: boolean;
+
+    /**
+     * Whether the elements that cannot be read (a node without id, an edge referencing an unknown node...) are skipped and listed by 'getDiagnostics' instead of throwing a 'GraphValidationError' (false by default)
+     */
+    lenient?: boolean;
+}
+
+/**
+ * The location of an error in the graph data
+ */
+export interface IErrorLocation {
+
+    /**
+     * The line in a text graph data (starting at 1)
+     */
+    line?: number;
+
+    /**
+     * The column in a text graph data (starting at 1)
+     */
+    column?: number;
+
+    /**
+     * The JSON path in a JSON graph data ('edges[12].source')
+     */
+    path?: string;
+}
+
+/**
+ * An element of the graph data that could not be read and has been skipped by a lenient reader
+ */
+export interface IDiagnostic extends IErrorLocation {
+
+    /**
+     * What was wrong with the element
+     */
+    message: string;
+}
+
+/**
+ * A value of an attribute that could not be coerced to the type of its attribute, and has been kept as it is
+ */
+export interface ICoercionError {
+
+    /**
+     * Whether the element is a node or an edge
+     */
+    elementType: 'node' | 'edge';
+
+    /**
+     * The id of the element
+     */
+    elementId: any;
+
+    /**
+     * The id of the attribute
+     */
+    attributeId: any;
+
+    /**
+     * The type of the attribute
+     */
+    type: AttributeType;
+
+    /**
+     * The value that could not be coerced
+     */
+    value: any;
+}
+
+/**
+ * The options of the writers
+ */
+export interface IWriterOptions {
+
+    /**
+     * Whether the writer returns the output with the warnings about what was lost or transformed ('{output, warnings}') instead of the output alone (false by default)
+     */
+    report?: boolean;
+}
+
+/**
+ * Something that was lost or transformed while writing the graph
+ */
+export interface IConversionWarning {
+
+    /**
+     * Whether the warning is about the graph, a node or an edge
+     */
+    elementType: 'graph' | 'node' | 'edge';
+
+    /**
+     * The id of the graph or of the element (or of the attribute, for a warning about the declaration of an attribute of all the nodes or edges)
+     */
+    elementId: any;
+
+    /**
+     * The field (or the attribute) that was lost or transformed
+     */
+    field: string;
+
+    /**
+     * What happened to the field
+     */
+    message: string;
+}
+
+/**
+ * The options of the XML writers (GEXF and Graphml)
+ */
+export interface IXmlWriterOptions extends IWriterOptions {
+
+    /**
+     * Whether the output is checked against the structural rules of the format, a 'GraphValidationError' being thrown when it breaks one (false by default).
+     * These rules are a hand-written subset of the GEXF 1.3 and Graphml XSD (the allowed and required elements and attributes, the types of their values,
+     * the unique ids and the known nodes of the edges), the output not being validated against the XSD files themselves
+     */
+    checkStructure?: boolean;
+}
+
+/**
+ * An issue found while validating the graph
+ */
+export interface IValidationIssue {
+
+    /**
+     * Whether the issue is about the graph, a node or an edge
+     */
+    elementType: 'graph' | 'node' | 'edge';
+
+    /**
+     * The id of the graph or of the element (undefined for an element without id)
+     */
+    elementId: any;
+
+    /**
+     * The field (the attribute, or the XML element or attribute for the structural issues) having the issue
+     */
+    field: string;
+
+    /**
+     * The format whose output breaks its structural rules, for the structural issues
+     */
+    format?: GraphFormat;
+
+    /**
+     * What the issue is
+     */
+    message: string;
+}
+
+/**
+ * The options of the validation of the graph
+ */
+export interface IValidationOptions {
+
+    /**
+     * The formats whose output is also checked against their structural rules (the hand-written subset of the GEXF 1.3 and Graphml XSD of 'checkStructure')
+     */
+    structures?: ('gexf' | 'graphml')[];
+}
+
+/**
+ * The options of the collapse of the parallel edges
+ */
+export interface ICollapseOptions {
+
+    /**
+     * How the weights of the parallel edges are aggregated into the weight of the collapsed edge, their sum ('sum', by default), their maximum ('max') or their number ('count')
+     */
+    weight?: 'sum' | 'max' | 'count';
+}
+
+/**
+ * The rules of an element of an XML schema
+ */
+export interface IXmlElementRule {
+
+    /**
+     * The attributes the element can have, with their allowed values or the type of their value
+     */
+    attributes: { [name: string]: string[] | 'string' | 'integer' | 'double' | 'boolean' | 'color' | 'opacity' };
+
+    /**
+     * The attributes the element must have
+     */
+    requiredAttributes?: string[];
+
+    /**
+     * The elements the element can contain (without their namespace prefix)
+     */
+    children: string[];
+
+    /**
+     * The elements the element must contain
+     */
+    requiredChildren?: string[];
+}
+
+/**
+ * The output of a writer with the warnings about what was lost or transformed
+ */
+export interface IConversionResult<T> {
+
+    /**
+     * The output of the writer
+     */
+    output: T;
+
+    /**
+     * The warnings about what was lost or transformed
+     */
+    warnings: IConversionWarning[];
+}
+
+/**
+ * The options of the DOT writer
+ */
+export interface IDotOptions extends IWriterOptions {
+
+    /**
+     * Whether the attributes of the elements are written (true by default)
+     */
+    withAttributes?: boolean;
+
+    /**
+     * Whether the positions are pinned ("x,y!") so that neato does not move the nodes (false by default)
+     */
+    pinPositions?: boolean;
+}
+
+/**
+ * The options of the CSV reader and writer
+ */
+export interface ICsvOptions extends IReaderOptions, IWriterOptions {
+
+    /**
+     * The delimiter of the values ("," by default)
+     */
+    delimiter?: string;
+
+    /**
+     * The character used to quote the values ('"' by default)
+     */
+    quote?: string;
+
+    /**
+     * Whether every value is quoted by the writer, otherwise only the values that need it are (false by default)
+     */
+    quoteAll?: boolean;
+
+    /**
+     * The element field (id, label, source, target, type, weight, x, y, z, size or color) of each column, on top of the Gephi ones ("Id", "Label", "Source", "Target", "Type", "Weight"...)
+     */
+    headers?: { [column: string]: string };
+}
+
+/**
+ * The options of the Cytoscape.js writer
+ */
+export interface ICytoscapeOptions extends IWriterOptions {
+
+    /**
+     * Whether the elements are written as a flat array (each element having its group) instead of the 'elements: {nodes, edges}' object (false by default)
+     */
+    flat?: boolean;
+}
+
+/**
+ * The options of the GraphSON reader and writer
+ */
+export interface IGraphSONOptions extends IReaderOptions, IWriterOptions {
+
+    /**
+     * The node attribute (its id or its title) holding the label of the vertices ("type" by default, the vertices without it being labeled "vertex")
+     */
+    vertexLabelAttribute?: string;
+
+    /**
+     * The edge attribute (its id or its title) holding the label of the edges ("type" by default, the edges without it being labeled "edge")
+     */
+    edgeLabelAttribute?: string;
+
+    /**
+     * The property holding the label of the elements ("name" by default)
+     */
+    labelProperty?: string;
+}
+
+/**
+ * The options of the Cypher reader and writer
+ */
+export interface ICypherOptions extends IReaderOptions, IWriterOptions {
+
+    /**
+     * The label of every node ("Node" by default), used to match the nodes of the relationships
+     */
+    nodeLabel?: string;
+
+    /**
+     * The node attribute (its id or its title) whose value is an additional label of the nodes ("type" by default)
+     */
+    nodeLabelAttribute?: string;
+
+    /**
+     * The type of the relationships ("LINKED_TO" by default)
+     */
+    relationshipType?: string;
+
+    /**
+     * The edge attribute (its id or its title) whose value is the type of the relationships ("type" by default)
+     */
+    relationshipTypeAttribute?: string;
+
+    /**
+     * The number of nodes or relationships of each 'UNWIND' statement (1000 by default)
+     */
+    batchSize?: number;
+}
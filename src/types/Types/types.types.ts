@@ -1,7 +1,13 @@
+import {IConversionResult} from "../Interfaces";
+
 /**
- * The type an attribute can take
+ * The type an attribute can take, 'number' being a number of an unknown precision (as guessed from a JSON value),
+ * the list types being arrays of values of the type of their items, and the byte, short, char, biginteger and bigdecimal types being the GEXF types kept as they are read
  */
-export type AttributeType = 'string' | 'boolean' | 'number';
+export type AttributeType = 'string' | 'boolean' | 'number' | 'int' | 'long' | 'float' | 'double' | 'date' | 'anyURI'
+    | 'byte' | 'short' | 'char' | 'biginteger' | 'bigdecimal'
+    | 'liststring' | 'listboolean' | 'listint' | 'listlong' | 'listfloat' | 'listdouble' | 'listdate'
+    | 'listbyte' | 'listshort' | 'listchar' | 'listbiginteger' | 'listbigdecimal';
 
 /**
  * The type an edge can take
@@ -11,4 +17,19 @@ export type EdgeType = 'directed' | 'undirected' | 'mutual';
 /**
  * The mode of the graph
  */
-export type GraphMode = 'static' | 'dynamic';
\ No newline at end of file
+export type GraphMode = 'static' | 'dynamic';
+/**
+ * The formats a graph can be read from
+ */
+export type GraphFormat = 'json' | 'graphology' | 'gexf' | 'graphml' | 'gml' | 'dot' | 'pajek' | 'csv' | 'cytoscape' | 'nodelink' | 'jgf' | 'graphson' | 'cypher';
+
+/**
+ * The format of the time of a dynamic graph
+ */
+export type TimeFormat = 'double' | 'integer' | 'date' | 'dateTime';
+
+/**
+ * The result of a writer, the output alone or, with the 'report' option, the output with the warnings about what was lost or transformed
+ * (the options without a 'report' option giving the output alone, and the options with a 'report' option that may be true giving either)
+ */
+export type WriterResult<T, O> = O extends { report: true } ? IConversionResult<T> : ("report" extends keyof O ? (O extends { report?: false } ? T : T | IConversionResult<T>) : T);
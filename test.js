@@ -1,6 +1,8 @@
 // Read the JSON File
 const fs = require("fs");
-const {GraphFormatConverter} = require("./dist/index")
+const {execFileSync} = require("child_process");
+const {GraphFormatConverter, detectFormat} = require("./dist/index")
+const Graph = require("graphology")
 
 if (!fs.existsSync("data/output")){
     fs.mkdirSync("data/output");
@@ -10,6 +12,12 @@ if (!fs.existsSync("data/output")){
 const jsonFile = JSON.parse(fs.readFileSync("data/Movie.json", "utf8"))
 const jsonGraph = GraphFormatConverter.fromJson(jsonFile);
 
+// Read JSON strings that look like numbers without being decimal numbers, such as codes, and numeric labels that are not attributes
+const codesJsonGraph = GraphFormatConverter.fromJson({nodes: [{id: "a", label: "2001", zip: "01234", hex: "0x1F", degree: "70"}], edges: []});
+if (JSON.stringify(codesJsonGraph.getNodes()[0].attributes) !== '{"zip":"01234","hex":"0x1F","degree":70}' || codesJsonGraph.toGexf().includes('attribute id="label"')) {
+    throw new Error("The JSON codes are read as numbers or the label is declared as an attribute")
+}
+
 // Read the JSON file from a Graphology export
 const graphologyJsonFile = JSON.parse(fs.readFileSync("data/MovieFromGraphology.json", "utf8"))
 const graphologyJGraph = GraphFormatConverter.fromGraphology(graphologyJsonFile);
@@ -18,10 +26,300 @@ const graphologyJGraph = GraphFormatConverter.fromGraphology(graphologyJsonFile)
 const gexfFile = fs.readFileSync("data/Movie.gexf", "utf8")
 const gexfGraph = GraphFormatConverter.fromGexf(gexfFile);
 
+// Read the dynamic GEXF File
+const dynamicGexfFile = fs.readFileSync("data/Dynamic.gexf", "utf8")
+const dynamicGexfGraph = GraphFormatConverter.fromGexf(dynamicGexfFile);
+
+// The timestamps of the elements are spells of an instant, and the open bounds exclude their instant
+const timestampsGexfGraph = GraphFormatConverter.fromGexf('<?xml version="1.0" encoding="UTF-8"?>\n<gexf version="1.3">\n  <graph mode="dynamic" timeformat="double">\n    <nodes>\n      <node id="a"/>\n      <node id="b" timestamp="2"/>\n      <node id="c" startopen="1" endopen="3"/>\n      <node id="d">\n        <timestamps>\n          <timestamp value="4"/>\n        </timestamps>\n      </node>\n    </nodes>\n  </graph>\n</gexf>');
+if ([1, 2, 3, 4].map((time) => timestampsGexfGraph.snapshotAt(time).getNodes().map((node) => node.id).join("")).join(",") !== "a,abc,a,ad") {
+    throw new Error("The timestamps and the open bounds of the elements are not taken into account")
+}
+
+// The formats that do not know the time intervals drop them, the dynamic attributes being written with their first value
+["toGraphml", "toGml", "toDot", "toGraphSON", "toCypher"].forEach((writer) => {
+    const output = dynamicGexfGraph[writer]()
+    if (output.includes("[object Object]") || output.includes("2009-") || !output.includes("Alice")) {
+        throw new Error(`The time intervals of the dynamic graph are written as plain values by ${writer}`)
+    }
+})
+if (dynamicGexfGraph.validate({structures: ["graphml"]}).length > 0 || GraphFormatConverter.fromGraphml(dynamicGexfGraph.toGraphml()).getNodes()[0].attributes.score !== 1) {
+    throw new Error("The dynamic graph is not written as a valid static Graphml")
+}
+
+// Read the hierarchical GEXF and Graphml Files
+const hierarchyGexfGraph = GraphFormatConverter.fromGexf(fs.readFileSync("data/Hierarchy.gexf", "utf8"));
+const hierarchyGraphmlGraph = GraphFormatConverter.fromGraphml(fs.readFileSync("data/Hierarchy.graphml", "utf8"));
+
+// The parents of the nodes are read from the nesting and the 'pid' of GEXF and from the nested graphs of Graphml, kept through both formats and exposed by the JSON writers
+const getHierarchy = (graph) => graph.getNodes().map((node) => `${node.id}<${node.parent}`).sort().join(",");
+const hierarchy = "europe<undefined,france<europe,italy<europe,lyon<france,paris<france,rome<italy";
+if ([hierarchyGexfGraph, hierarchyGraphmlGraph, GraphFormatConverter.fromGraphml(hierarchyGexfGraph.toGraphml()), GraphFormatConverter.fromGexf(hierarchyGraphmlGraph.toGexf())].some((graph) => getHierarchy(graph) !== hierarchy) ||
+    hierarchyGexfGraph.toJson().nodes.find((node) => node.id === "rome").parent !== "italy" || hierarchyGexfGraph.toGraphology().nodes.find((node) => node.key === "rome").attributes.parent !== "italy") {
+    throw new Error("The hierarchy of the nodes is not kept through GEXF and Graphml")
+}
+
 // Read the Graphml File
 const graphmlFile = fs.readFileSync("data/Movie.graphml", "utf8")
 const graphmlGraph = GraphFormatConverter.fromGraphml(graphmlFile);
 
+// Read every graph of a Graphml File
+const windowsGraphmlGraphs = GraphFormatConverter.fromGraphmlAll(fs.readFileSync("data/Windows.graphml", "utf8"));
+
+// The graph-level data of a Graphml graph are written back with the id and the type of their key
+const metadataGraphmlString = '<?xml version="1.0" encoding="UTF-8"?>\n<graphml xmlns="http://graphml.graphdrawing.org/xmlns">\n  <key id="d0" for="graph" attr.name="year" attr.type="int"/>\n  <graph id="G" edgedefault="directed">\n    <data key="d0">2020</data>\n    <node id="a"/>\n  </graph>\n</graphml>';
+if (!GraphFormatConverter.fromGraphml(metadataGraphmlString).toGraphml().includes('<key attr.name="year" attr.type="int" for="graph" id="d0"></key>')) {
+    throw new Error("The keys of the Graphml graph-level data are not written back as they were")
+}
+
+// Read the GEXF and Graphml Files having default values
+const defaultsGexfGraph = GraphFormatConverter.fromGexf(fs.readFileSync("data/Defaults.gexf", "utf8"));
+const defaultsGraphmlGraph = GraphFormatConverter.fromGraphml(fs.readFileSync("data/Defaults.graphml", "utf8"));
+
+// The elements that do not have a value take the default value of their attribute, the default values and the options being written back by GEXF and Graphml
+const getDefaultsValues = (graph) => JSON.stringify([graph.getNodes().map((node) => node.attributes), graph.getEdges().map((edge) => edge.attributes)]);
+const gexfDefaultsValues = '[[{"0":"Italy","1":true},{"0":"France","1":false}],[{"0":"friend"},{"0":"colleague"}]]';
+const graphmlDefaultsValues = '[[{"d0":"green"},{"d0":"yellow"}],[{"d1":2.5},{"d1":1}]]';
+if ([defaultsGexfGraph, GraphFormatConverter.fromGexf(defaultsGexfGraph.toGexf()), GraphFormatConverter.fromGraphml(defaultsGexfGraph.toGraphml())].some((graph) => getDefaultsValues(graph) !== gexfDefaultsValues) ||
+    [defaultsGraphmlGraph, GraphFormatConverter.fromGraphml(defaultsGraphmlGraph.toGraphml())].some((graph) => getDefaultsValues(graph) !== graphmlDefaultsValues) ||
+    !defaultsGexfGraph.toGexf().includes("<options>France|Italy|Spain</options>") || !defaultsGraphmlGraph.toGraphml().includes("<default>yellow</default>")) {
+    throw new Error("The default values and the options of the attributes are not kept through GEXF and Graphml")
+}
+
+// Read the GEXF File having integers, dates, URIs and lists
+const typesGexfGraph = GraphFormatConverter.fromGexf(fs.readFileSync("data/Types.gexf", "utf8"));
+const rawTypesGexfGraph = GraphFormatConverter.fromGexf(fs.readFileSync("data/Types.gexf", "utf8"), {rawValues: true});
+
+// The lists and the dates are typed GraphSON values, the lists being read back as lists
+const typesGraphSON = typesGexfGraph.toGraphSON();
+if (!typesGraphSON.includes('{"@type":"g:List","@value":["graph","drawing"]}') || !typesGraphSON.includes('"@type":"g:Date"') || JSON.stringify(GraphFormatConverter.fromGraphSON(typesGraphSON).getNodes()[0].attributes).indexOf('["graph","drawing"]') === -1) {
+    throw new Error("The lists and the dates are not typed GraphSON values")
+}
+
+// The GEXF types without a JSON equivalent are kept by a GEXF to GEXF conversion, and written as the closest Graphml type
+const typesGexfOutput = typesGexfGraph.toGexf({report: true});
+if (!typesGexfOutput.output.includes('title="count" type="short"') || typesGexfOutput.warnings.some((warning) => warning.field === "count")
+    || GraphFormatConverter.fromGexf(typesGexfOutput.output).getEdges()[0].attributes["0"] !== 3 || !typesGexfGraph.toGraphml().includes('attr.name="count" attr.type="int"')) {
+    throw new Error("The 'short' type of the GEXF edges is not kept")
+}
+
+// Read a GEXF string with an edge referencing an unknown node, the edge being skipped by the lenient reader
+const brokenGexfString = '<?xml version="1.0" encoding="UTF-8"?>\n<gexf version="1.3">\n  <graph>\n    <nodes>\n      <node id="a"/>\n    </nodes>\n    <edges>\n      <edge id="e0" source="a" target="b"/>\n    </edges>\n  </graph>\n</gexf>';
+const lenientGexfGraph = GraphFormatConverter.fromGexf(brokenGexfString, {lenient: true});
+let brokenGexfError;
+try {
+    GraphFormatConverter.fromGexf(brokenGexfString);
+} catch (e) {
+    brokenGexfError = {name: e.name, message: e.message, line: e.line, column: e.column};
+}
+
+// Enrich a GEXF graph, the new attributes being declared
+const enrichedTypesGexfGraph = GraphFormatConverter.fromGexf(fs.readFileSync("data/Types.gexf", "utf8"));
+enrichedTypesGexfGraph.addNode({id: "c", label: "Graph databases", attributes: {citations: 7, tags: ["graph", "database"]}});
+enrichedTypesGexfGraph.addEdge({id: "1", source: "c", target: "a", attributes: {similarity: 0.8}});
+enrichedTypesGexfGraph.updateNodeAttributes("b", {citations: 12, reviewed: true});
+enrichedTypesGexfGraph.setAttributeDefinition("node", {id: "reviewed", title: "Reviewed", type: "boolean", defaultValue: false});
+
+// The values not matching the type of their declared attribute are not set, and are not mixed with the errors of the reader
+try {
+    enrichedTypesGexfGraph.updateNodeAttributes("b", {citations: "many"});
+    throw new Error("The value not matching the type of its attribute is set")
+} catch (e) {
+    if (e.name !== "GraphValidationError" || enrichedTypesGexfGraph.getNodes().find((node) => node.id === "b").attributes["0"] !== 12 || enrichedTypesGexfGraph.getCoercionErrors().length > 0) {
+        throw e
+    }
+}
+
+// The elements added or not having a value of a declared attribute take its default value
+if (enrichedTypesGexfGraph.getNodes().find((node) => node.id === "a").attributes.reviewed !== false || enrichedTypesGexfGraph.getNodes().find((node) => node.id === "b").attributes.reviewed !== true) {
+    throw new Error("The default value of the declared attribute is not taken by the nodes")
+}
+const enrichedDefaultsGexfGraph = GraphFormatConverter.fromGexf(fs.readFileSync("data/Defaults.gexf", "utf8"));
+const addedDefaultsNode = enrichedDefaultsGexfGraph.addNode({id: "added", attributes: {country: "Italy"}});
+if (addedDefaultsNode.attributes["0"] !== "Italy" || addedDefaultsNode.attributes["1"] !== false) {
+    throw new Error("The default values of the declared attributes are not taken by the added node")
+}
+
+// Read a mixed Graphology instance, whose edges have their own direction
+const graphologyInstance = new Graph({type: "mixed"})
+graphologyInstance.addNode("a", {label: "A", x: 0, y: 0, size: 10})
+graphologyInstance.addNode("b", {label: "B", x: 10, y: 10, size: 5})
+graphologyInstance.addDirectedEdgeWithKey("ab", "a", "b", {weight: 2})
+graphologyInstance.addUndirectedEdgeWithKey("ba", "b", "a", {weight: 1})
+const graphologyInstanceGraph = GraphFormatConverter.fromGraphologyInstance(graphologyInstance);
+if (graphologyInstanceGraph.toJson().edges.some((edge) => edge.attributes.undirected !== undefined) || !graphologyInstanceGraph.toGexf().includes('id="ba" source="b" target="a" type="undirected"') ||
+    !graphologyInstanceGraph.toGraphml().includes('id="ba" source="b" target="a" directed="false"') || GraphFormatConverter.fromGraphml(graphologyInstanceGraph.toGraphml()).toGraphologyInstance(Graph).type !== "mixed") {
+    throw new Error("The direction of the edges of the mixed graph is not their type")
+}
+
+// Read a multigraph whose edges do not have ids, and collapse its parallel edges
+const multiGraph = GraphFormatConverter.fromJson({
+    nodes: [{id: "a", label: "A"}, {id: "b", label: "B"}, {id: "c", label: "C"}],
+    edges: [{source: "a", target: "b", weight: 2}, {source: "a", target: "b", weight: 3, label: "again"}, {source: "b", target: "c"}],
+    attributes: {id: "multigraph", edgeType: "directed", mode: "static"}
+});
+if (!multiGraph.isMultigraph() || multiGraph.collapseParallelEdges().isMultigraph()) {
+    throw new Error("The parallel edges of the multigraph are not detected or not collapsed")
+}
+
+// The edges sharing an id break the structural rules of the GEXF and Graphml formats
+const sharedEdgeIdGraph = GraphFormatConverter.fromJson({
+    nodes: [{id: "a"}, {id: "b"}],
+    edges: [{id: "e", source: "a", target: "b"}, {id: "e", source: "b", target: "a"}],
+    attributes: {id: "graph", edgeType: "directed", mode: "static"}
+});
+["gexf", "graphml"].forEach((format) => {
+    if (!sharedEdgeIdGraph.validate({structures: [format]}).some((issue) => issue.format === format && issue.elementType === "edge" && issue.field === "id")) {
+        throw new Error(`The edges sharing an id are not reported by the ${format} structural rules`)
+    }
+});
+
+["toGexf", "toGraphml"].forEach((writer) => {
+    let structureError;
+    try {
+        sharedEdgeIdGraph[writer]({checkStructure: true});
+    } catch (error) {
+        structureError = error;
+    }
+    if (structureError === undefined || structureError.name !== "GraphValidationError" || !structureError.message.includes("breaks the structural rules of its format")) {
+        throw new Error(`The ${writer} output breaking the structural rules is not rejected by the 'checkStructure' option`)
+    }
+})
+
+// The type of the GEXF edges is their direction in Graphml, the 'mutual' edges being reported as directed edges
+const edgeTypesGexfGraph = GraphFormatConverter.fromGexf('<gexf version="1.3"><graph defaultedgetype="directed"><nodes><node id="a"/><node id="b"/></nodes><edges><edge id="e0" source="a" target="b" type="mutual"/><edge id="e1" source="b" target="a" type="undirected"/></edges></graph></gexf>');
+const edgeTypesGraphml = edgeTypesGexfGraph.toGraphml({checkStructure: true, report: true});
+if (!edgeTypesGraphml.output.includes('id="e1" source="b" target="a" directed="false"') || JSON.stringify(edgeTypesGraphml.warnings) !== JSON.stringify([{elementType: "edge", elementId: "e0", field: "type", message: "The 'mutual' edge is written as a directed edge"}])) {
+    throw new Error("The type of the GEXF edges is not their Graphml direction")
+}
+
+// Read the GML File
+const gmlFile = fs.readFileSync("data/Movie.gml", "utf8")
+const gmlGraph = GraphFormatConverter.fromGml(gmlFile);
+
+// The GML file has the elements of the movie graph, and the movie graph goes through GML with its attributes, positions and colors
+const gexfGmlGraph = GraphFormatConverter.fromGml(gexfGraph.toGml());
+const gexfGmlNode = gexfGmlGraph.getNodes().find((node) => node.id === gexfGraph.getNodes()[0].id);
+if (gmlGraph.getNodes().length !== gexfGraph.getNodes().length || gmlGraph.getEdges().length !== gexfGraph.getEdges().length || gexfGmlGraph.getNodes().length !== gexfGraph.getNodes().length || gexfGmlGraph.getEdges().length !== gexfGraph.getEdges().length ||
+    gexfGmlNode.label !== "JACK" || gexfGmlNode.attributes.degree !== 70 || gexfGmlNode.x !== gexfGraph.getNodes()[0].x || gexfGmlNode.color.toHexString() !== "#ffaa33" || gexfGmlGraph.getEdges()[0].attributes.movie_id !== 591) {
+    throw new Error("The movie graph does not go through GML")
+}
+
+// Read the DOT File
+const dotFile = fs.readFileSync("data/Movie.dot", "utf8")
+const dotGraph = GraphFormatConverter.fromDot(dotFile);
+
+// Write and read back a DOT value having backslashes and quotes
+const escapedDotGraph = GraphFormatConverter.fromDot(GraphFormatConverter.fromJson({nodes: [{id: "a", label: 'p\\q "r"'}], edges: [], attributes: {id: "escaped", edgeType: "directed", mode: "static"}}).toDot());
+if (escapedDotGraph.getNodes()[0].label !== 'p\\q "r"') {
+    throw new Error("The backslashes and the quotes of the DOT values are not escaped")
+}
+
+// Read the Pajek File
+const pajekFile = fs.readFileSync("data/Movie.net", "utf8")
+const pajekGraph = GraphFormatConverter.fromPajek(pajekFile);
+
+// Read a Pajek string whose vertices share a label, the vertices keeping their number as id
+const sharedLabelsPajekGraph = GraphFormatConverter.fromPajek('*Vertices 3\n1 "Smith"\n2 "Smith"\n3 "1"\n*Edges\n1 2\n2 3');
+if (sharedLabelsPajekGraph.getNodes().map((node) => `${node.id}:${node.label}`).join(",") !== "1:Smith,2:Smith,3:1" || !sharedLabelsPajekGraph.toPajek().includes('*Edges\n1 2\n2 3') || sharedLabelsPajekGraph.validate().length > 0) {
+    throw new Error("The Pajek vertices sharing a label are merged")
+}
+
+// The string ids of the nodes go through Pajek, and only the edges not having the direction of the graph are flagged
+const stringIdsPajekGraph = GraphFormatConverter.fromPajek(GraphFormatConverter.fromJson({
+    nodes: [{id: "alice", label: "Alice"}, {id: "bob"}, {id: "carol"}],
+    edges: [{source: "alice", target: "bob"}, {source: "bob", target: "carol", undirected: true}],
+    attributes: {id: "graph", edgeType: "directed", mode: "static"}
+}).toPajek());
+if (stringIdsPajekGraph.getNodes().map((node) => node.id).join(",") !== "alice,bob,carol" || stringIdsPajekGraph.getEdges().map((edge) => `${edge.source}-${edge.target}:${edge.undirected}`).join(",") !== "alice-bob:undefined,bob-carol:true") {
+    throw new Error("The string ids of the nodes are lost by Pajek")
+}
+
+// Read the CSV Files
+const csvNodesFile = fs.readFileSync("data/Movie.nodes.csv", "utf8")
+const csvEdgesFile = fs.readFileSync("data/Movie.edges.csv", "utf8")
+const csvGraph = GraphFormatConverter.fromCsv({nodes: csvNodesFile, edges: csvEdgesFile});
+
+// Read CSV values that look like numbers without being decimal numbers, such as codes
+const codesCsvGraph = GraphFormatConverter.fromCsv({nodes: "Id,Label,Weight\n007,Bond,1.5\n0x10,Hex,-2", edges: "Source,Target\n007,0x10"});
+if (codesCsvGraph.getNodes().map((node) => node.id).join(",") !== "007,0x10" || codesCsvGraph.getEdges()[0].target !== "0x10") {
+    throw new Error("The CSV codes are read as numbers")
+}
+
+// Read the JSON file from a Cytoscape.js export
+const cytoscapeJsonFile = JSON.parse(fs.readFileSync("data/MovieFromCytoscape.json", "utf8"))
+const cytoscapeGraph = GraphFormatConverter.fromCytoscape(cytoscapeJsonFile);
+
+// The colors and the sizes of the Cytoscape.js elements are data fields and their coordinates a position, the movie graph going through both Cytoscape.js variants
+const gexfCytoscape = gexfGraph.toCytoscape();
+const gexfCytoscapeNode = gexfCytoscape.elements.nodes.find((node) => node.data.id === `${gexfGraph.getNodes()[0].id}`);
+if (gexfCytoscapeNode.data.color !== "#ffaa33" || gexfCytoscapeNode.data.size !== 100 || gexfCytoscapeNode.position.x !== gexfGraph.getNodes()[0].x || gexfCytoscape.elements.edges[0].data.source !== `${gexfGraph.getEdges()[0].source}` ||
+    [gexfCytoscape, gexfGraph.toCytoscape({flat: true}), cytoscapeJsonFile].some((elements) => {
+        const cytoscapeElementsGraph = GraphFormatConverter.fromCytoscape(elements);
+        return cytoscapeElementsGraph.getNodes().length !== gexfGraph.getNodes().length || cytoscapeElementsGraph.getEdges().length !== gexfGraph.getEdges().length || cytoscapeElementsGraph.getNodes().find((node) => node.label === "JACK").attributes.degree !== 70;
+    })) {
+    throw new Error("The movie graph does not go through Cytoscape.js")
+}
+
+// Read the JSON file from a NetworkX node-link export
+const nodeLinkJsonFile = JSON.parse(fs.readFileSync("data/MovieFromNetworkX.json", "utf8"))
+const nodeLinkGraph = GraphFormatConverter.fromNodeLink(nodeLinkJsonFile);
+
+// The endpoints of the node-link links can be indices of the nodes, the 'directed' flag being the type of the edges, and the movie graph goes through node-link
+const indicesNodeLinkGraph = GraphFormatConverter.fromNodeLink({directed: false, multigraph: false, graph: {}, nodes: [{id: "a"}, {id: "b"}], links: [{source: 0, target: 1}]});
+const gexfNodeLink = gexfGraph.toNodeLink();
+const gexfNodeLinkGraph = GraphFormatConverter.fromNodeLink(gexfNodeLink);
+if (indicesNodeLinkGraph.getEdges()[0].source !== "a" || indicesNodeLinkGraph.getEdges()[0].target !== "b" || indicesNodeLinkGraph.getAttributes().edgeType !== "undirected" || gexfNodeLink.directed !== false || gexfNodeLink.links.length !== gexfGraph.getEdges().length ||
+    nodeLinkGraph.getNodes().length !== gexfGraph.getNodes().length || gexfNodeLinkGraph.getNodes().length !== gexfGraph.getNodes().length || gexfNodeLinkGraph.getEdges().length !== gexfGraph.getEdges().length || gexfNodeLinkGraph.getNodes()[0].attributes.degree !== 70) {
+    throw new Error("The movie graph does not go through node-link")
+}
+
+// Read the JGF file
+const jgfJsonFile = JSON.parse(fs.readFileSync("data/Movie.jgf.json", "utf8"))
+const jgfGraph = GraphFormatConverter.fromJgf(jgfJsonFile);
+
+// The JGF nodes are keyed by their id and their metadata are the attributes, the first graph of a 'graphs' document being read, and the movie graph goes through JGF
+const multiJgfGraph = GraphFormatConverter.fromJgf({graphs: [{id: "one", directed: false, nodes: {a: {label: "A", metadata: {score: 2}}}, edges: []}, {id: "two", nodes: {}, edges: []}]});
+const gexfJgf = gexfGraph.toJgf();
+const gexfJgfGraph = GraphFormatConverter.fromJgf(gexfJgf);
+if (multiJgfGraph.getAttributes().id !== "one" || multiJgfGraph.getAttributes().edgeType !== "undirected" || multiJgfGraph.getNodes()[0].id !== "a" || multiJgfGraph.getNodes()[0].attributes.score !== 2 ||
+    gexfJgf.graph.directed !== false || gexfJgf.graph.nodes[`${gexfGraph.getNodes()[0].id}`].metadata.degree !== 70 || gexfJgf.graph.edges[0].metadata.movie_id !== 591 || jgfGraph.getNodes().length !== gexfGraph.getNodes().length ||
+    gexfJgfGraph.getNodes().length !== gexfGraph.getNodes().length || gexfJgfGraph.getEdges().length !== gexfGraph.getEdges().length || gexfJgfGraph.getNodes().find((node) => node.label === "JACK").attributes.degree !== 70) {
+    throw new Error("The movie graph does not go through JGF")
+}
+
+// Read the GraphSON File
+const graphSONFile = fs.readFileSync("data/Movie.graphson", "utf8")
+const graphSONGraph = GraphFormatConverter.fromGraphSON(graphSONFile);
+
+// The GraphSON properties are named by the title of their attribute, and the movie graph goes through GraphSON
+const gexfGraphSONGraph = GraphFormatConverter.fromGraphSON(gexfGraph.toGraphSON());
+if (gexfGraphSONGraph.getNodes().length !== gexfGraph.getNodes().length || gexfGraphSONGraph.getEdges().length !== gexfGraph.getEdges().length || gexfGraphSONGraph.getNodes()[0].attributes["Closeness Centrality"] !== gexfGraph.getNodes()[0].attributes.closnesscentrality ||
+    graphSONGraph.getNodes().length !== gexfGraph.getNodes().length) {
+    throw new Error("The movie graph does not go through GraphSON")
+}
+
+// Read the Cypher File
+const cypherFile = fs.readFileSync("data/Movie.cypher", "utf8")
+const cypherGraph = GraphFormatConverter.fromCypher(cypherFile);
+
+// The Cypher dump has the elements of the movie graph, and the Cypher properties are named by the title of their attribute
+const gexfCypher = gexfGraph.toCypher();
+if (cypherGraph.getNodes().length !== gexfGraph.getNodes().length || cypherGraph.getEdges().length !== gexfGraph.getEdges().length || cypherGraph.getNodes()[0].attributes.degree !== 70 ||
+    !gexfCypher.includes("`Closeness Centrality`: ") || gexfCypher.includes("closnesscentrality") || gexfCypher.split("MERGE (n:Node {id: row.id})").length - 1 < 1) {
+    throw new Error("The Cypher dump is not read or written with the movie graph")
+}
+
+// Detect the format of every file and read it with the single entry point
+Object.entries({"Movie.json": "json", "MovieFromGraphology.json": "graphology", "Movie.gexf": "gexf", "Movie.graphml": "graphml", "Movie.gml": "gml", "Movie.dot": "dot", "Movie.net": "pajek", "Movie.edges.csv": "csv", "MovieFromCytoscape.json": "cytoscape", "MovieFromNetworkX.json": "nodelink", "Movie.jgf.json": "jgf", "Movie.graphson": "graphson", "Movie.cypher": "cypher"}).forEach(([file, format]) => {
+    const graphData = fs.readFileSync(`data/${file}`, "utf8")
+    const detectedFormat = detectFormat(graphData)
+    if (detectedFormat.format !== format) {
+        throw new Error(`The format of ${file} has been detected as ${detectedFormat.format} instead of ${format} (${detectedFormat.reason})`)
+    }
+    GraphFormatConverter.from(graphData)
+})
+
 // GEPHI : | UI : OK
 fs.writeFileSync("data/output/JSON_TO_JSON.json", JSON.stringify(jsonGraph.toJson(), null, '\t'))
 // GEPHI : | UI : OK
@@ -30,6 +328,24 @@ fs.writeFileSync("data/output/GEXF_TO_JSON.json", JSON.stringify(gexfGraph.toJso
 fs.writeFileSync("data/output/GRAPHML_TO_JSON.json", JSON.stringify(graphmlGraph.toJson(), null, '\t'))
 // GEPHI : | UI : OK
 fs.writeFileSync("data/output/GRAPHOLOGY_TO_JSON.json", JSON.stringify(graphologyJGraph.toJson(), null, '\t'))
+// GEPHI : | UI :
+fs.writeFileSync("data/output/GML_TO_JSON.json", JSON.stringify(gmlGraph.toJson(), null, '\t'))
+// GEPHI : | UI :
+fs.writeFileSync("data/output/DOT_TO_JSON.json", JSON.stringify(dotGraph.toJson(), null, '\t'))
+// GEPHI : | UI :
+fs.writeFileSync("data/output/PAJEK_TO_JSON.json", JSON.stringify(pajekGraph.toJson(), null, '\t'))
+// GEPHI : | UI :
+fs.writeFileSync("data/output/CSV_TO_JSON.json", JSON.stringify(csvGraph.toJson(), null, '\t'))
+// GEPHI : | UI :
+fs.writeFileSync("data/output/CYTOSCAPE_TO_JSON.json", JSON.stringify(cytoscapeGraph.toJson(), null, '\t'))
+// GEPHI : | UI :
+fs.writeFileSync("data/output/NODELINK_TO_JSON.json", JSON.stringify(nodeLinkGraph.toJson(), null, '\t'))
+// GEPHI : | UI :
+fs.writeFileSync("data/output/JGF_TO_JSON.json", JSON.stringify(jgfGraph.toJson(), null, '\t'))
+// GEPHI : | UI :
+fs.writeFileSync("data/output/GRAPHSON_TO_JSON.json", JSON.stringify(graphSONGraph.toJson(), null, '\t'))
+// GEPHI : | UI :
+fs.writeFileSync("data/output/CYPHER_TO_JSON.json", JSON.stringify(cypherGraph.toJson(), null, '\t'))
 
 // GEPHI : OK | UI : OK
 fs.writeFileSync("data/output/JSON_TO_GEXF.gexf", jsonGraph.toGexf())
@@ -39,6 +355,24 @@ fs.writeFileSync("data/output/GEXF_TO_GEXF.gexf", gexfGraph.toGexf())
 fs.writeFileSync("data/output/GRAPHML_TO_GEXF.gexf", graphmlGraph.toGexf())
 // GEPHI : OK | UI : OK
 fs.writeFileSync("data/output/GRAPHOLOGY_TO_GEXF.gexf", graphologyJGraph.toGexf())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/GML_TO_GEXF.gexf", gmlGraph.toGexf())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/DOT_TO_GEXF.gexf", dotGraph.toGexf())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/PAJEK_TO_GEXF.gexf", pajekGraph.toGexf())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/CSV_TO_GEXF.gexf", csvGraph.toGexf())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/CYTOSCAPE_TO_GEXF.gexf", cytoscapeGraph.toGexf())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/NODELINK_TO_GEXF.gexf", nodeLinkGraph.toGexf())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/JGF_TO_GEXF.gexf", jgfGraph.toGexf())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/GRAPHSON_TO_GEXF.gexf", graphSONGraph.toGexf())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/CYPHER_TO_GEXF.gexf", cypherGraph.toGexf())
 
 // GEPHI : OK | UI : OK
 fs.writeFileSync("data/output/JSON_TO_GRAPHML.graphml", jsonGraph.toGraphml())
@@ -48,6 +382,321 @@ fs.writeFileSync("data/output/GEXF_TO_GRAPHML.graphml", gexfGraph.toGraphml())
 fs.writeFileSync("data/output/GRAPHML_TO_GRAPHML.graphml", graphmlGraph.toGraphml())
 // GEPHI : OK | UI : OK
 fs.writeFileSync("data/output/GRAPHOLOGY_TO_GRAPHML.graphml", graphologyJGraph.toGraphml())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/GML_TO_GRAPHML.graphml", gmlGraph.toGraphml())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/DOT_TO_GRAPHML.graphml", dotGraph.toGraphml())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/PAJEK_TO_GRAPHML.graphml", pajekGraph.toGraphml())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/CSV_TO_GRAPHML.graphml", csvGraph.toGraphml())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/CYTOSCAPE_TO_GRAPHML.graphml", cytoscapeGraph.toGraphml())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/NODELINK_TO_GRAPHML.graphml", nodeLinkGraph.toGraphml())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/JGF_TO_GRAPHML.graphml", jgfGraph.toGraphml())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/GRAPHSON_TO_GRAPHML.graphml", graphSONGraph.toGraphml())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/CYPHER_TO_GRAPHML.graphml", cypherGraph.toGraphml())
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JSON_TO_GML.gml", jsonGraph.toGml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GEXF_TO_GML.gml", gexfGraph.toGml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHML_TO_GML.gml", graphmlGraph.toGml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHOLOGY_TO_GML.gml", graphologyJGraph.toGml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GML_TO_GML.gml", gmlGraph.toGml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DOT_TO_GML.gml", dotGraph.toGml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/PAJEK_TO_GML.gml", pajekGraph.toGml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CSV_TO_GML.gml", csvGraph.toGml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYTOSCAPE_TO_GML.gml", cytoscapeGraph.toGml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/NODELINK_TO_GML.gml", nodeLinkGraph.toGml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JGF_TO_GML.gml", jgfGraph.toGml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHSON_TO_GML.gml", graphSONGraph.toGml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYPHER_TO_GML.gml", cypherGraph.toGml())
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JSON_TO_DOT.dot", jsonGraph.toDot())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GEXF_TO_DOT.dot", gexfGraph.toDot())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHML_TO_DOT.dot", graphmlGraph.toDot())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHOLOGY_TO_DOT.dot", graphologyJGraph.toDot())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GML_TO_DOT.dot", gmlGraph.toDot())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DOT_TO_DOT.dot", dotGraph.toDot({pinPositions: true}))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/PAJEK_TO_DOT.dot", pajekGraph.toDot())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CSV_TO_DOT.dot", csvGraph.toDot())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYTOSCAPE_TO_DOT.dot", cytoscapeGraph.toDot())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/NODELINK_TO_DOT.dot", nodeLinkGraph.toDot())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JGF_TO_DOT.dot", jgfGraph.toDot())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHSON_TO_DOT.dot", graphSONGraph.toDot())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYPHER_TO_DOT.dot", cypherGraph.toDot())
+
+// GEPHI : | UI :
+fs.writeFileSync("data/output/JSON_TO_PAJEK.net", jsonGraph.toPajek())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/GEXF_TO_PAJEK.net", gexfGraph.toPajek())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/GRAPHML_TO_PAJEK.net", graphmlGraph.toPajek())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/GRAPHOLOGY_TO_PAJEK.net", graphologyJGraph.toPajek())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/GML_TO_PAJEK.net", gmlGraph.toPajek())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/DOT_TO_PAJEK.net", dotGraph.toPajek())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/PAJEK_TO_PAJEK.net", pajekGraph.toPajek())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/CSV_TO_PAJEK.net", csvGraph.toPajek())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/CYTOSCAPE_TO_PAJEK.net", cytoscapeGraph.toPajek())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/NODELINK_TO_PAJEK.net", nodeLinkGraph.toPajek())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/JGF_TO_PAJEK.net", jgfGraph.toPajek())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/GRAPHSON_TO_PAJEK.net", graphSONGraph.toPajek())
+// GEPHI : | UI :
+fs.writeFileSync("data/output/CYPHER_TO_PAJEK.net", cypherGraph.toPajek())
+
+// GEPHI : | UI :
+Object.entries({JSON: jsonGraph, GEXF: gexfGraph, GRAPHML: graphmlGraph, GRAPHOLOGY: graphologyJGraph, GML: gmlGraph, DOT: dotGraph, PAJEK: pajekGraph, CSV: csvGraph, CYTOSCAPE: cytoscapeGraph, NODELINK: nodeLinkGraph, JGF: jgfGraph, GRAPHSON: graphSONGraph, CYPHER: cypherGraph}).forEach(([format, graph]) => {
+    const csv = graph.toCsv();
+    fs.writeFileSync(`data/output/${format}_TO_CSV.nodes.csv`, csv.nodes)
+    fs.writeFileSync(`data/output/${format}_TO_CSV.edges.csv`, csv.edges)
+})
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JSON_TO_CYTOSCAPE.json", JSON.stringify(jsonGraph.toCytoscape(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GEXF_TO_CYTOSCAPE.json", JSON.stringify(gexfGraph.toCytoscape(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHML_TO_CYTOSCAPE.json", JSON.stringify(graphmlGraph.toCytoscape(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHOLOGY_TO_CYTOSCAPE.json", JSON.stringify(graphologyJGraph.toCytoscape(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GML_TO_CYTOSCAPE.json", JSON.stringify(gmlGraph.toCytoscape(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DOT_TO_CYTOSCAPE.json", JSON.stringify(dotGraph.toCytoscape(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/PAJEK_TO_CYTOSCAPE.json", JSON.stringify(pajekGraph.toCytoscape(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CSV_TO_CYTOSCAPE.json", JSON.stringify(csvGraph.toCytoscape(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYTOSCAPE_TO_CYTOSCAPE.json", JSON.stringify(cytoscapeGraph.toCytoscape({flat: true}), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/NODELINK_TO_CYTOSCAPE.json", JSON.stringify(nodeLinkGraph.toCytoscape(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JGF_TO_CYTOSCAPE.json", JSON.stringify(jgfGraph.toCytoscape(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHSON_TO_CYTOSCAPE.json", JSON.stringify(graphSONGraph.toCytoscape(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYPHER_TO_CYTOSCAPE.json", JSON.stringify(cypherGraph.toCytoscape(), null, '\t'))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JSON_TO_NODELINK.json", JSON.stringify(jsonGraph.toNodeLink(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GEXF_TO_NODELINK.json", JSON.stringify(gexfGraph.toNodeLink(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHML_TO_NODELINK.json", JSON.stringify(graphmlGraph.toNodeLink(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHOLOGY_TO_NODELINK.json", JSON.stringify(graphologyJGraph.toNodeLink(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GML_TO_NODELINK.json", JSON.stringify(gmlGraph.toNodeLink(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DOT_TO_NODELINK.json", JSON.stringify(dotGraph.toNodeLink(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/PAJEK_TO_NODELINK.json", JSON.stringify(pajekGraph.toNodeLink(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CSV_TO_NODELINK.json", JSON.stringify(csvGraph.toNodeLink(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYTOSCAPE_TO_NODELINK.json", JSON.stringify(cytoscapeGraph.toNodeLink(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/NODELINK_TO_NODELINK.json", JSON.stringify(nodeLinkGraph.toNodeLink(), null, '\t'))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JSON_TO_JGF.json", JSON.stringify(jsonGraph.toJgf(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GEXF_TO_JGF.json", JSON.stringify(gexfGraph.toJgf(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHML_TO_JGF.json", JSON.stringify(graphmlGraph.toJgf(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHOLOGY_TO_JGF.json", JSON.stringify(graphologyJGraph.toJgf(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GML_TO_JGF.json", JSON.stringify(gmlGraph.toJgf(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DOT_TO_JGF.json", JSON.stringify(dotGraph.toJgf(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/PAJEK_TO_JGF.json", JSON.stringify(pajekGraph.toJgf(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CSV_TO_JGF.json", JSON.stringify(csvGraph.toJgf(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYTOSCAPE_TO_JGF.json", JSON.stringify(cytoscapeGraph.toJgf(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/NODELINK_TO_JGF.json", JSON.stringify(nodeLinkGraph.toJgf(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JGF_TO_JGF.json", JSON.stringify(jgfGraph.toJgf(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHSON_TO_JGF.json", JSON.stringify(graphSONGraph.toJgf(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYPHER_TO_JGF.json", JSON.stringify(cypherGraph.toJgf(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/ALL_TO_JGF.json", JSON.stringify(GraphFormatConverter.toJgfAll([jsonGraph, gexfGraph, graphmlGraph]), null, '\t'))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JSON_TO_GRAPHSON.graphson", jsonGraph.toGraphSON())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GEXF_TO_GRAPHSON.graphson", gexfGraph.toGraphSON())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHML_TO_GRAPHSON.graphson", graphmlGraph.toGraphSON())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHOLOGY_TO_GRAPHSON.graphson", graphologyJGraph.toGraphSON())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GML_TO_GRAPHSON.graphson", gmlGraph.toGraphSON())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DOT_TO_GRAPHSON.graphson", dotGraph.toGraphSON())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/PAJEK_TO_GRAPHSON.graphson", pajekGraph.toGraphSON())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CSV_TO_GRAPHSON.graphson", csvGraph.toGraphSON())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYTOSCAPE_TO_GRAPHSON.graphson", cytoscapeGraph.toGraphSON())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/NODELINK_TO_GRAPHSON.graphson", nodeLinkGraph.toGraphSON())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JGF_TO_GRAPHSON.graphson", jgfGraph.toGraphSON())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHSON_TO_GRAPHSON.graphson", graphSONGraph.toGraphSON({vertexLabelAttribute: "modularity_class"}))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYPHER_TO_GRAPHSON.graphson", cypherGraph.toGraphSON())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JGF_TO_NODELINK.json", JSON.stringify(jgfGraph.toNodeLink(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHSON_TO_NODELINK.json", JSON.stringify(graphSONGraph.toNodeLink(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYPHER_TO_NODELINK.json", JSON.stringify(cypherGraph.toNodeLink(), null, '\t'))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JSON_TO_CYPHER.cypher", jsonGraph.toCypher())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GEXF_TO_CYPHER.cypher", gexfGraph.toCypher())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHML_TO_CYPHER.cypher", graphmlGraph.toCypher())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHOLOGY_TO_CYPHER.cypher", graphologyJGraph.toCypher())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GML_TO_CYPHER.cypher", gmlGraph.toCypher())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DOT_TO_CYPHER.cypher", dotGraph.toCypher())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/PAJEK_TO_CYPHER.cypher", pajekGraph.toCypher())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CSV_TO_CYPHER.cypher", csvGraph.toCypher())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYTOSCAPE_TO_CYPHER.cypher", cytoscapeGraph.toCypher())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/NODELINK_TO_CYPHER.cypher", nodeLinkGraph.toCypher())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JGF_TO_CYPHER.cypher", jgfGraph.toCypher())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHSON_TO_CYPHER.cypher", graphSONGraph.toCypher())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYPHER_TO_CYPHER.cypher", cypherGraph.toCypher())
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DYNAMIC_GEXF_TO_JSON.json", JSON.stringify(dynamicGexfGraph.toJson(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DYNAMIC_GEXF_TO_GEXF.gexf", GraphFormatConverter.fromJson(JSON.parse(fs.readFileSync("data/output/DYNAMIC_GEXF_TO_JSON.json", "utf8"))).toGexf())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DYNAMIC_GEXF_SNAPSHOT_TO_GEXF.gexf", dynamicGexfGraph.snapshotAt("2009-02-15").toGexf())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DYNAMIC_GEXF_TO_GRAPHML_WARNINGS.json", JSON.stringify(dynamicGexfGraph.toGraphml({report: true}).warnings, null, '\t'))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/HIERARCHY_GEXF_TO_GRAPHML.graphml", hierarchyGexfGraph.toGraphml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/HIERARCHY_GRAPHML_TO_GEXF.gexf", hierarchyGraphmlGraph.toGexf())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/HIERARCHY_GEXF_TO_JSON.json", JSON.stringify(hierarchyGexfGraph.toJson(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/HIERARCHY_GRAPHML_TO_GRAPHOLOGY.json", JSON.stringify(hierarchyGraphmlGraph.toGraphology(), null, '\t'))
+
+// GEPHI :  | UI :
+windowsGraphmlGraphs.forEach((graph) => fs.writeFileSync(`data/output/WINDOWS_GRAPHML_${graph.getAttributes().id}_TO_GRAPHML.graphml`, graph.toGraphml()))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DEFAULTS_GEXF_TO_GEXF.gexf", defaultsGexfGraph.toGexf())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DEFAULTS_GRAPHML_TO_GRAPHML.graphml", defaultsGraphmlGraph.toGraphml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DEFAULTS_GEXF_TO_JSON.json", JSON.stringify(defaultsGexfGraph.toJson(), null, '\t'))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/TYPES_GEXF_TO_GEXF.gexf", typesGexfGraph.toGexf())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/TYPES_GEXF_TO_GRAPHML.graphml", typesGexfGraph.toGraphml())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/TYPES_GEXF_TO_GRAPHSON.json", typesGexfGraph.toGraphSON())
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/TYPES_GEXF_TO_JSON.json", JSON.stringify(typesGexfGraph.toJson(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/RAW_TYPES_GEXF_TO_JSON.json", JSON.stringify(rawTypesGexfGraph.toJson(), null, '\t'))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/BROKEN_GEXF_DIAGNOSTICS.json", JSON.stringify({error: brokenGexfError, diagnostics: lenientGexfGraph.getDiagnostics()}, null, '\t'))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DYNAMIC_GEXF_VALIDATION.json", JSON.stringify(dynamicGexfGraph.validate({structures: ["gexf", "graphml"]}), null, '\t'))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/MOVIE_GEXF_TO_STRICT_GEXF.gexf", gexfGraph.toGexf({checkStructure: true}))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/ENRICHED_TYPES_GEXF_TO_GEXF.gexf", enrichedTypesGexfGraph.toGexf({checkStructure: true}))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/ENRICHED_TYPES_GEXF_TO_GRAPHML.graphml", enrichedTypesGexfGraph.toGraphml({checkStructure: true}))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHOLOGY_INSTANCE_TO_GEXF.gexf", graphologyInstanceGraph.toGexf())
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GEXF_TO_GRAPHOLOGY_INSTANCE.json", JSON.stringify(gexfGraph.toGraphologyInstance(Graph).export(), null, '\t'))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHOLOGY_INSTANCE_TO_GRAPHOLOGY_INSTANCE.json", JSON.stringify(graphologyInstanceGraph.toGraphologyInstance(Graph).export(), null, '\t'))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/MULTIGRAPH_TO_GEXF.gexf", multiGraph.toGexf({checkStructure: true}))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/COLLAPSED_MULTIGRAPH_TO_GEXF.gexf", multiGraph.collapseParallelEdges({weight: "max"}).toGexf({checkStructure: true}))
+
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/MULTIGRAPH_TO_GRAPHOLOGY_INSTANCE.json", JSON.stringify(multiGraph.toGraphologyInstance(Graph).export(), null, '\t'))
 
 // GEPHI :  | UI :
 fs.writeFileSync("data/output/JSON_TO_GRAPHOLOGY.json", JSON.stringify(jsonGraph.toGraphology(), null, '\t'))
@@ -56,4 +705,95 @@ fs.writeFileSync("data/output/GEXF_TO_GRAPHOLOGY.json", JSON.stringify(gexfGraph
 // GEPHI :  | UI :
 fs.writeFileSync("data/output/GRAPHML_TO_GRAPHOLOGY.json", JSON.stringify(graphmlGraph.toGraphology(), null, '\t'))
 // GEPHI :  | UI :
-fs.writeFileSync("data/output/GRAPHOLOGY_TO_GRAPHOLOGY.json", JSON.stringify(graphologyJGraph.toGraphology(), null, '\t'))
\ No newline at end of file
+fs.writeFileSync("data/output/GRAPHOLOGY_TO_GRAPHOLOGY.json", JSON.stringify(graphologyJGraph.toGraphology(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GML_TO_GRAPHOLOGY.json", JSON.stringify(gmlGraph.toGraphology(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/DOT_TO_GRAPHOLOGY.json", JSON.stringify(dotGraph.toGraphology(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/PAJEK_TO_GRAPHOLOGY.json", JSON.stringify(pajekGraph.toGraphology(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CSV_TO_GRAPHOLOGY.json", JSON.stringify(csvGraph.toGraphology(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYTOSCAPE_TO_GRAPHOLOGY.json", JSON.stringify(cytoscapeGraph.toGraphology(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/NODELINK_TO_GRAPHOLOGY.json", JSON.stringify(nodeLinkGraph.toGraphology(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/JGF_TO_GRAPHOLOGY.json", JSON.stringify(jgfGraph.toGraphology(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/GRAPHSON_TO_GRAPHOLOGY.json", JSON.stringify(graphSONGraph.toGraphology(), null, '\t'))
+// GEPHI :  | UI :
+fs.writeFileSync("data/output/CYPHER_TO_GRAPHOLOGY.json", JSON.stringify(cypherGraph.toGraphology(), null, '\t'))
+
+// Every writer gives the same output whatever the writers called before it, and the readers leave the graph data untouched
+const writers = ["toJson", "toGraphology", "toGexf", "toGraphml", "toGml", "toDot", "toPajek", "toCsv", "toCytoscape", "toNodeLink", "toJgf", "toGraphSON", "toCypher"]
+Object.entries({"Movie.json": "json", "MovieFromGraphology.json": "graphology", "Movie.gexf": "gexf", "Dynamic.gexf": "gexf", "Hierarchy.graphml": "graphml", "Movie.gml": "gml", "Movie.dot": "dot", "Movie.net": "pajek", "MovieFromCytoscape.json": "cytoscape", "MovieFromNetworkX.json": "nodelink", "Movie.jgf.json": "jgf", "Movie.graphson": "graphson", "Movie.cypher": "cypher"}).forEach(([file, format]) => {
+    const graphFile = fs.readFileSync(`data/${file}`, "utf8")
+    const graphData = file.endsWith(".json") ? JSON.parse(graphFile) : graphFile
+    const read = () => GraphFormatConverter.from(graphData, format)
+
+    // The output of each writer on its own graph
+    const outputs = writers.map((writer) => JSON.stringify(read()[writer]()))
+
+    // The outputs of the writers called one after the other, in both orders, on a single graph
+    const forwardGraph = read()
+    const backwardGraph = read()
+    const forwardOutputs = writers.map((writer) => JSON.stringify(forwardGraph[writer]()))
+    const backwardOutputs = writers.slice().reverse().map((writer) => JSON.stringify(backwardGraph[writer]())).reverse()
+    writers.forEach((writer, index) => {
+        if (forwardOutputs[index] !== outputs[index] || backwardOutputs[index] !== outputs[index]) {
+            throw new Error(`The output of ${writer} for ${file} changes with the writers called before it`)
+        }
+    })
+
+    if (typeof graphData !== "string" && JSON.stringify(graphData) !== JSON.stringify(JSON.parse(graphFile))) {
+        throw new Error(`The graph data of ${file} has been changed by the reader`)
+    }
+})
+
+// The errors of the text readers are located in their string, and the errors of the JSON readers in their data
+Object.entries({
+    "GML": [() => GraphFormatConverter.fromGml("graph [\n  node [ id 1 ]\n  edge [ source 1 target 2 ]\n]"), 3, 3],
+    "unclosed GML": [() => GraphFormatConverter.fromGml("graph [\n  node [ id 1\n"), 2, 8],
+    "DOT": [() => GraphFormatConverter.fromDot("digraph {\n  a -> ;\n}"), 2, 8],
+    "Pajek": [() => GraphFormatConverter.fromPajek("*Vertices 1\n1 \"a\"\n*Arcs\n1 2\n"), 4, 1],
+    "CSV": [() => GraphFormatConverter.fromCsv({edges: "Source,Target\na,b\n\"c,d\n"}), 3, 1],
+    "Cypher": [() => GraphFormatConverter.fromCypher("CREATE (a:Person {name: 'A'})\nDELETE (a)"), 2, 1]
+}).forEach(([format, [read, line, column]]) => {
+    try {
+        read();
+    } catch (e) {
+        if (e.line !== line || e.column !== column) {
+            throw new Error(`The ${format} error is not located: ${e.message}`)
+        }
+        return;
+    }
+    throw new Error(`The ${format} string is read without error`)
+})
+try {
+    GraphFormatConverter.fromNodeLink({nodes: [{id: "a"}], links: [{source: "a", target: "b"}]});
+    throw new Error("The node-link graph is read without error")
+} catch (e) {
+    if (e.path !== "links[0].target") {
+        throw new Error(`The node-link error is not located: ${e.message}`)
+    }
+}
+
+// An empty GEXF graph is read as a graph without any element
+if (GraphFormatConverter.fromGexf("<gexf><graph></graph></gexf>").getNodes().length !== 0) {
+    throw new Error("The empty GEXF graph is not read")
+}
+
+// The getters and the mutations give copies, that can be changed without changing the graph
+const copiedGraph = GraphFormatConverter.fromJson({nodes: [{id: "a", label: "A", attributes: {score: 1}}], edges: []});
+copiedGraph.getNodes()[0].label = "X";
+copiedGraph.getNodes()[0].attributes.score = 2;
+copiedGraph.getAttributes().id = "changed";
+copiedGraph.addNode({id: "b"}).label = "X";
+if (copiedGraph.getNodes()[0].label !== "A" || copiedGraph.getNodes()[0].attributes.score !== 1 || copiedGraph.getAttributes().id === "changed" || copiedGraph.getNodes()[1].label !== undefined) {
+    throw new Error("The graph is changed through the copies of its getters")
+}
+
+// Convert the files with the command line interface, one by one and by batch
+execFileSync("node", ["dist/cli.js", "convert", "data/Movie.gexf", "-o", "data/output/CLI_GEXF_TO_GRAPHML.graphml"])
+execFileSync("node", ["dist/cli.js", "convert", "data/Movie.*", "--to", "gexf", "-o", "data/output/CLI"])
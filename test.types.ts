@@ -0,0 +1,21 @@
+// Check the types of the results of the writers, against the built library
+import {GraphFormatConverter, IConversionResult, IWriterOptions} from "./dist/index";
+
+const graph = GraphFormatConverter.fromJson({nodes: [{id: "a"}], edges: []});
+const writerOptions: IWriterOptions = {};
+
+// The writers give the output alone without the 'report' option, whatever their other options
+const gexf: string = graph.toGexf();
+const checkedGexf: string = graph.toGexf({checkStructure: true});
+const graphml: string = graph.toGraphml({checkStructure: false});
+const dot: string = graph.toDot({pinPositions: true});
+const cypher: string = graph.toCypher({nodeLabel: "Person"});
+const csv: { nodes: string, edges: string } = graph.toCsv({delimiter: ";"});
+const unreportedGexf: string = graph.toGexf({report: false});
+
+// The writers give the output with the warnings with the 'report' option, and either of them when it may be true
+const reportedGexf: IConversionResult<string> = graph.toGexf({report: true, checkStructure: true});
+const reportedCsv: IConversionResult<{ nodes: string, edges: string }> = graph.toCsv({report: true, delimiter: ";"});
+const maybeReportedGexf: string | IConversionResult<string> = graph.toGexf(writerOptions);
+
+export {gexf, checkedGexf, graphml, dot, cypher, csv, unreportedGexf, reportedGexf, reportedCsv, maybeReportedGexf};